@@ -1,53 +1,147 @@
+import { spawnSync } from "node:child_process";
 import { type CliRenderer, TextAttributes } from "@opentui/core";
 import { useKeyboard, useTerminalDimensions } from "@opentui/react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { CommandPalette, commandPalette } from "./components/CommandPalette";
+import { DependencyGraph } from "./components/DependencyGraph";
 import { HelpBar, type HelpBarMode } from "./components/HelpBar";
 import { HomeTab } from "./components/HomeTab";
-import { LogViewer } from "./components/LogViewer";
+import { LinkPicker } from "./components/LinkPicker";
+import { LogSearch } from "./components/LogSearch";
+import { type LogLink, LogViewer } from "./components/LogViewer";
+import { PtyView } from "./components/PtyView";
+import {
+	MAX_PANES,
+	pickToolForNewPane,
+	restorePaneLayout,
+	SplitPanes,
+} from "./components/SplitPanes";
 import { TabBar } from "./components/TabBar";
 import { ThemePicker } from "./components/ThemePicker";
 import { ToastContainer, toast } from "./components/Toast";
+import { ToolPicker } from "./components/ToolPicker";
 import { StatusIcons } from "./constants";
 import { useToolsList } from "./hooks";
-import type { Config } from "./lib/config";
-import { HealthChecker, type HealthStateMap } from "./lib/health";
-import type { ProcessManager } from "./lib/processes";
+import { type Config, resolveProfileTools } from "./lib/config";
+import {
+	type FileReference,
+	formatFileReference,
+	getEditorCommand,
+	isTerminalEditor,
+} from "./lib/editor";
+import {
+	HealthChecker,
+	type HealthStateMap,
+	isHealthCheckerNeeded,
+} from "./lib/health";
+import { isOpenableUrl, openUrl } from "./lib/open";
+import type { PaneLayout } from "./lib/preferences";
+import {
+	ALL_LOGS_TAB_NAME,
+	createAllLogsTool,
+	MergedLogBuffer,
+	type ProcessController,
+} from "./lib/processes";
+import type { LogSearchMatch, SearchType } from "./lib/search";
+import { nextLevelFilter } from "./lib/text";
 import { useTheme } from "./lib/theme";
-import type { ToolState } from "./types";
+import { nextTimestampMode, type TimestampMode } from "./lib/time";
+import type { HealthStatus, LogLevel, ToolState } from "./types";
 
 /** Per-tab search state */
 interface TabSearchState {
 	searchMode: boolean;
 	searchQuery: string;
 	filterMode: boolean;
-	fuzzyMode: boolean;
+	searchType: SearchType;
+	/** Regex search: match letter case exactly */
+	caseSensitive: boolean;
+	/** Regex search: only match whole words */
+	wholeWord: boolean;
+	/** Only show lines of this level and above (null shows every line) */
+	minLevel: LogLevel | null;
 	currentMatchIndex: number;
+	/** Whether typed lines are forwarded to the process stdin */
+	inputMode: boolean;
 }
 
 const DEFAULT_SEARCH_STATE: TabSearchState = {
 	searchMode: false,
 	searchQuery: "",
 	filterMode: true, // Default ON per requirements
-	fuzzyMode: true, // Default ON - fuzzy search enabled
+	searchType: "fuzzy", // Default ON - fuzzy search enabled
+	caseSensitive: false,
+	wholeWord: false,
+	minLevel: null,
 	currentMatchIndex: 0,
+	inputMode: false,
 };
 
+/**
+ * Show a toast when a process action fails (e.g. an attached client lost the
+ * daemon) instead of leaving the rejection unhandled.
+ */
+function reportActionError(action: Promise<unknown>, description: string) {
+	action.catch((error: unknown) => {
+		toast.error(
+			`Failed to ${description}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	});
+}
+
+/** Logs of the "All logs" tab while it is hidden */
+const EMPTY_MERGED_LOGS = { logs: [], trimCount: 0, version: 0 };
+
+/**
+ * Get the indices of the tools in a profile (plus their dependencies).
+ * Returns null when no profile is active or the group no longer exists.
+ */
+function getProfileToolIndices(
+	tools: ToolState[],
+	config: Config,
+	profile: string | null,
+): number[] | null {
+	if (!profile) return null;
+	const profileTools = resolveProfileTools(config, profile);
+	if (!profileTools) return null;
+	const indices: number[] = [];
+	tools.forEach((tool, i) => {
+		if (profileTools.includes(tool.config.name)) {
+			indices.push(i);
+		}
+	});
+	return indices;
+}
+
 interface AppProps {
-	processManager: ProcessManager;
+	processManager: ProcessController;
 	initialTools: ToolState[];
 	renderer: CliRenderer;
 	config: Config;
+	/** Whether the TUI is attached to a daemon (`corsa attach`), which starts the tools itself */
+	attached?: boolean;
+	/** Group of tools to start (--profile); other tools are created stopped */
+	initialProfile?: string;
 	/** Initial line wrap setting from preferences */
 	initialLineWrap?: boolean;
 	/** Callback when line wrap changes (to save preference) */
 	onLineWrapChange?: (lineWrap: boolean) => void;
+	/** Initial log timestamp gutter mode from preferences */
+	initialTimestampMode?: TimestampMode;
+	/** Callback when the timestamp mode changes (to save preference) */
+	onTimestampModeChange?: (mode: TimestampMode) => void;
+	/** Split-pane layout saved for this config file */
+	initialPaneLayout?: PaneLayout;
+	/** Callback when the split-pane layout changes (to save preference) */
+	onPaneLayoutChange?: (layout: PaneLayout | null) => void;
 	/** Callback to register for config updates (called when reload happens) */
 	onRegisterConfigUpdate?: (callback: (newConfig: Config) => void) => void;
 	/** Callback to register health status getter (for MCP API) */
 	onRegisterGetHealthStatus?: (
 		callback: (toolName: string) => "starting" | "healthy" | "unhealthy" | null,
 	) => void;
+	/** Callback when a tool's health status changes (for MCP API waits) */
+	onHealthChange?: (toolName: string, status: HealthStatus) => void;
 }
 
 const DEFAULT_WIDTH_THRESHOLD = 100;
@@ -57,14 +151,30 @@ export function App({
 	initialTools,
 	renderer,
 	config: initialConfig,
+	attached = false,
+	initialProfile,
 	initialLineWrap = true,
 	onLineWrapChange,
+	initialTimestampMode = "off",
+	onTimestampModeChange,
+	initialPaneLayout,
+	onPaneLayoutChange,
 	onRegisterConfigUpdate,
 	onRegisterGetHealthStatus,
+	onHealthChange,
 }: AppProps) {
 	// Store config as state so it can be updated on reload
 	const [config, setConfig] = useState<Config>(initialConfig);
 
+	// Active profile (group of tools), null when running every tool
+	const [activeProfile, setActiveProfile] = useState<string | null>(
+		initialProfile ?? null,
+	);
+	const activeProfileRef = useRef(activeProfile);
+	useEffect(() => {
+		activeProfileRef.current = activeProfile;
+	}, [activeProfile]);
+
 	// Get theme from context (includes saveTheme for dynamic updates)
 	const { theme, saveTheme, themeKey } = useTheme();
 
@@ -126,8 +236,35 @@ export function App({
 					return tool.status === "running";
 				};
 
-				if (newHasDependencies) {
-					processManager.startAllToolsWithDependencies(isToolReady);
+				// Keep running only the active profile, if its group still exists
+				const profileIndices = getProfileToolIndices(
+					processManager.getTools(),
+					newConfig,
+					activeProfileRef.current,
+				);
+				if (activeProfileRef.current && !profileIndices) {
+					toast.info(
+						`Profile "${activeProfileRef.current}" no longer exists - starting all tools`,
+					);
+					setActiveProfile(null);
+				}
+
+				if (profileIndices) {
+					if (newHasDependencies) {
+						reportActionError(
+							processManager.startTools(profileIndices, isToolReady),
+							"start tools",
+						);
+					} else {
+						for (const i of profileIndices) {
+							reportActionError(processManager.startTool(i), "start tool");
+						}
+					}
+				} else if (newHasDependencies) {
+					reportActionError(
+						processManager.startAllToolsWithDependencies(isToolReady),
+						"start tools",
+					);
 				} else {
 					// No dependencies, start all tools immediately
 					const allTools = processManager.getTools();
@@ -135,7 +272,7 @@ export function App({
 						const tool = allTools[i];
 						// Only start non-virtual tools (those with commands)
 						if (tool?.config.command) {
-							processManager.startTool(i);
+							reportActionError(processManager.startTool(i), "start tool");
 						}
 					}
 				}
@@ -180,8 +317,11 @@ export function App({
 		toolsRef.current = tools;
 	}, [tools]);
 
-	// Initialize health checker - needed for home tab OR dependency tracking
-	const needsHealthChecker = homeEnabled || hasDependencies;
+	// Initialize health checker - needed for home tab, dependency tracking OR the MCP API
+	const needsHealthChecker = isHealthCheckerNeeded(
+		config,
+		tools.map((t) => t.config),
+	);
 	useEffect(() => {
 		if (!needsHealthChecker) return;
 
@@ -193,18 +333,37 @@ export function App({
 				newMap.set(toolName, state);
 				return newMap;
 			});
+			onHealthChange?.(toolName, state.status);
 		});
 		checker.start();
 		healthCheckerRef.current = checker;
 
+		// Feed log lines to logPattern health probes
+		const unsubscribeLogLines = processManager.onLogLine(
+			(_index, toolName, line) => {
+				checker.handleLogLine(toolName, line);
+			},
+		);
+		// A started process must log its ready line again, even after a quick
+		// restart that never showed as stopped
+		const unsubscribeToolStart = processManager.onToolStart(
+			(index, toolName) => {
+				if (processManager.getTool(index)?.config.healthCheck?.logPattern) {
+					checker.resetHealthState(toolName);
+				}
+			},
+		);
+
 		// Initialize health states from checker
 		setHealthStates(checker.getAllHealthStates());
 
 		return () => {
+			unsubscribeLogLines();
+			unsubscribeToolStart();
 			checker.stop();
 			healthCheckerRef.current = null;
 		};
-	}, [needsHealthChecker]);
+	}, [needsHealthChecker, processManager, onHealthChange]);
 
 	// Register health status getter for MCP API
 	useEffect(() => {
@@ -226,8 +385,14 @@ export function App({
 			const prevStatus = prevToolStatusesForHealthRef.current.get(toolName);
 			const currentStatus = tool.status;
 
-			// If status changed to running, trigger health check
-			if (prevStatus !== currentStatus && currentStatus === "running") {
+			// Log pattern probes aren't polled: they become unhealthy when the
+			// process exits (and starting again on the tool start event)
+			if (tool.config.healthCheck?.logPattern) {
+				if (prevStatus === "running" && currentStatus !== "running") {
+					healthCheckerRef.current.markUnhealthy(toolName);
+				}
+			} else if (prevStatus !== currentStatus && currentStatus === "running") {
+				// If status changed to running, trigger health check
 				if (tool.config.healthCheck) {
 					healthCheckerRef.current.resetHealthState(toolName);
 					// Trigger immediate check after a short delay to let process initialize
@@ -241,8 +406,35 @@ export function App({
 		}
 	}, [needsHealthChecker, tools]);
 
+	// Tab index for a tool name: home tab first (when enabled), "All logs" after the tools
+	const getTabIndex = useCallback(
+		(name: string): number => {
+			const homeOffset = homeEnabled ? 1 : 0;
+			if (name === ALL_LOGS_TAB_NAME) return tools.length + homeOffset;
+			return (
+				Math.max(
+					0,
+					tools.findIndex((t) => t.config.name === name),
+				) + homeOffset
+			);
+		},
+		[tools, homeEnabled],
+	);
+
+	// Split-pane layout (null = a single log viewer); the focused pane follows the active tab
+	const [paneLayout, setPaneLayout] = useState<PaneLayout | null>(() =>
+		restorePaneLayout(initialPaneLayout, [
+			...tools.map((t) => t.config.name),
+			...(tools.length > 1 ? [ALL_LOGS_TAB_NAME] : []),
+		]),
+	);
+	const [focusedPane, setFocusedPane] = useState(0);
+
 	// Active index: 0 is home tab when enabled, tools start at 1
-	const [activeIndex, setActiveIndex] = useState(homeEnabled ? 0 : 0);
+	// A restored split layout starts on its first pane's tab
+	const [activeIndex, setActiveIndex] = useState(() =>
+		paneLayout?.panes[0] ? getTabIndex(paneLayout.panes[0]) : 0,
+	);
 	const [navigationKey, setNavigationKey] = useState(0);
 	const [tabSearchStates, setTabSearchStates] = useState<
 		Map<string, TabSearchState>
@@ -250,7 +442,37 @@ export function App({
 	const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
 	const [shortcutsOpen, setShortcutsOpen] = useState(false);
 	const [themePickerOpen, setThemePickerOpen] = useState(false);
+	const [toolPickerOpen, setToolPickerOpen] = useState(false);
+	const [dependencyGraphOpen, setDependencyGraphOpen] = useState(false);
+	const [logSearchOpen, setLogSearchOpen] = useState(false);
+	// Links listed by the "links in view" picker (null = closed)
+	const [linkPickerLinks, setLinkPickerLinks] = useState<LogLink[] | null>(
+		null,
+	);
+	// Asks the focused log viewer for the links in view
+	const [linksRequested, setLinksRequested] = useState(false);
+	// Line to scroll to after picking a cross-tool search match (a new object repeats the jump)
+	const [logJump, setLogJump] = useState<{
+		toolName: string;
+		lineIndex: number;
+	} | null>(null);
+	// Tools left out of the "All logs" tab (new tools are included by default)
+	const [allLogsExcluded, setAllLogsExcluded] = useState<ReadonlySet<string>>(
+		new Set(),
+	);
+	// pty tools showing their log history instead of the terminal screen
+	const [terminalLogView, setTerminalLogView] = useState<ReadonlySet<string>>(
+		new Set(),
+	);
+	// Lines sent to each tool's stdin, oldest first
+	const [inputHistories, setInputHistories] = useState<Map<string, string[]>>(
+		new Map(),
+	);
 	const [lineWrap, setLineWrap] = useState(initialLineWrap);
+	const [timestampMode, setTimestampMode] =
+		useState<TimestampMode>(initialTimestampMode);
+	// Show all fields of structured (JSON/logfmt) log lines instead of their count
+	const [showLogFields, setShowLogFields] = useState(false);
 	const { width: terminalWidth } = useTerminalDimensions();
 
 	// Get search state for a specific tab (returns default if not set)
@@ -288,22 +510,37 @@ export function App({
 	// During shutdown, home tab is disabled
 	const effectiveHomeEnabled = homeEnabled && !isShuttingDown;
 
+	// "All logs" tab comes after the tool tabs when there is more than one tool
+	// (hidden during shutdown)
+	const showAllLogsTab = !isShuttingDown && tools.length > 1;
+
 	// Total tabs for navigation - during shutdown, use activeTools (no home)
 	const totalTabs = isShuttingDown
 		? activeTools.length
-		: effectiveHomeEnabled
-			? tools.length + 1
-			: tools.length;
+		: (effectiveHomeEnabled ? tools.length + 1 : tools.length) +
+			(showAllLogsTab ? 1 : 0);
 
 	// Calculate tool index accounting for home tab offset
 	// Use effectiveHomeEnabled (which is false during shutdown)
 	const isHomeTabActive = effectiveHomeEnabled && activeIndex === 0;
 	const toolIndex = effectiveHomeEnabled ? activeIndex - 1 : activeIndex;
+	const allLogsTabIndex = effectiveHomeEnabled
+		? tools.length + 1
+		: tools.length;
+	const isAllLogsTabActive = showAllLogsTab && activeIndex === allLogsTabIndex;
 
 	// Get current tab's search state
 	const currentTool = toolIndex >= 0 ? tools[toolIndex] : undefined;
-	const currentToolName = currentTool?.config.name ?? "";
+	const currentToolName = isAllLogsTabActive
+		? ALL_LOGS_TAB_NAME
+		: (currentTool?.config.name ?? "");
 	const currentSearchState = getTabSearchState(currentToolName);
+	// Keys typed into a pty tool's terminal bypass all app shortcuts
+	const isTypingIntoTerminal =
+		currentSearchState.inputMode &&
+		!!currentTool?.screen &&
+		!isAllLogsTabActive &&
+		!terminalLogView.has(currentToolName);
 
 	const widthThreshold = config.ui?.widthThreshold ?? DEFAULT_WIDTH_THRESHOLD;
 	const sidebarPosition = config.ui?.sidebarPosition ?? "left";
@@ -318,40 +555,293 @@ export function App({
 	// Line number display setting for LogViewer
 	const showLineNumbers = config.ui?.showLineNumbers ?? "auto";
 
-	// Start all tools on mount (with dependency awareness if needed)
+	// Split panes are not shown during shutdown
+	const activePaneLayout = isShuttingDown ? null : paneLayout;
+
+	// Interleaved logs for the "All logs" tab - only merged while the tab (or a pane) shows them
+	const isAllLogsVisible =
+		isAllLogsTabActive ||
+		(activePaneLayout?.panes.includes(ALL_LOGS_TAB_NAME) ?? false);
+	// New lines are merged into the kept buffer; it is dropped while hidden
+	const allLogsBufferRef = useRef<MergedLogBuffer | null>(null);
+	const allLogsTool = useMemo(() => {
+		if (!isAllLogsVisible) {
+			allLogsBufferRef.current = null;
+			return createAllLogsTool(tools, allLogsExcluded, EMPTY_MERGED_LOGS);
+		}
+		allLogsBufferRef.current ??= new MergedLogBuffer(
+			config.ui?.maxLogLines ?? 10000,
+		);
+		allLogsBufferRef.current.update(tools, allLogsExcluded);
+		return createAllLogsTool(tools, allLogsExcluded, allLogsBufferRef.current);
+	}, [isAllLogsVisible, tools, allLogsExcluded, config.ui?.maxLogLines]);
+
+	// Keep the focused pane showing the active tab's tool
+	// If that tool is already in another pane, move focus there instead
 	useEffect(() => {
-		if (toolsStartedRef.current) return;
-		toolsStartedRef.current = true;
+		if (!paneLayout || !currentToolName || isHomeTabActive) return;
+		if (paneLayout.panes[focusedPane] === currentToolName) return;
+		const existing = paneLayout.panes.indexOf(currentToolName);
+		if (existing >= 0) {
+			setFocusedPane(existing);
+			return;
+		}
+		const panes = [...paneLayout.panes];
+		panes[focusedPane] = currentToolName;
+		setPaneLayout({ ...paneLayout, panes });
+	}, [paneLayout, currentToolName, isHomeTabActive, focusedPane]);
 
-		// Callback to check if a tool is ready for dependents
-		// Uses refs to access latest state since this is called asynchronously
-		const isToolReady = (toolName: string): boolean => {
-			const currentTools = toolsRef.current;
-			const currentHealthStates = healthStatesRef.current;
+	// Save the layout when it changes (skipping the initial restore)
+	const paneLayoutLoadedRef = useRef(false);
+	useEffect(() => {
+		if (!paneLayoutLoadedRef.current) {
+			paneLayoutLoadedRef.current = true;
+			return;
+		}
+		onPaneLayoutChange?.(paneLayout);
+	}, [paneLayout, onPaneLayoutChange]);
+
+	// Focus a pane and switch to its tool's tab
+	const focusPane = useCallback(
+		(index: number) => {
+			const name = paneLayout?.panes[index];
+			if (!name) return;
+			setFocusedPane(index);
+			setNavigationKey((k) => k + 1);
+			setActiveIndex(getTabIndex(name));
+		},
+		[paneLayout, getTabIndex],
+	);
 
-			const tool = currentTools.find((t) => t.config.name === toolName);
-			if (!tool) return false;
+	// Add a pane showing another tool, side by side ("row") or stacked ("column")
+	const splitPane = useCallback(
+		(direction: PaneLayout["direction"]) => {
+			if (!currentToolName || isHomeTabActive) return;
+			const panes = paneLayout?.panes ?? [currentToolName];
+			if (panes.length >= MAX_PANES) {
+				toast.info(`At most ${MAX_PANES} panes are supported`);
+				return;
+			}
+			const name = pickToolForNewPane(panes, currentToolName, [
+				...tools.map((t) => t.config.name),
+				...(showAllLogsTab ? [ALL_LOGS_TAB_NAME] : []),
+			]);
+			if (!name) {
+				toast.info("Every tool is already shown in a pane");
+				return;
+			}
+			setPaneLayout({ direction, panes: [...panes, name] });
+			setFocusedPane(panes.length);
+			setNavigationKey((k) => k + 1);
+			setActiveIndex(getTabIndex(name));
+		},
+		[
+			currentToolName,
+			isHomeTabActive,
+			paneLayout,
+			tools,
+			showAllLogsTab,
+			getTabIndex,
+		],
+	);
 
-			// If tool has health check, it's ready when healthy
-			if (tool.config.healthCheck) {
-				const healthState = currentHealthStates.get(toolName);
-				return healthState?.status === "healthy";
+	// Close the focused pane (the last remaining pane goes back to a single viewer)
+	const closePane = useCallback(() => {
+		if (!paneLayout) return;
+		const panes = paneLayout.panes.filter((_, i) => i !== focusedPane);
+		const nextFocus = Math.min(focusedPane, panes.length - 1);
+		setPaneLayout(panes.length >= 2 ? { ...paneLayout, panes } : null);
+		setFocusedPane(panes.length >= 2 ? nextFocus : 0);
+		const name = panes[nextFocus];
+		if (name) {
+			setNavigationKey((k) => k + 1);
+			setActiveIndex(getTabIndex(name));
+		}
+	}, [paneLayout, focusedPane, getTabIndex]);
+
+	// Show a cross-tool search match: switch to its tab and scroll to the line,
+	// with the tab's log history and search filter out of the way
+	const jumpToSearchMatch = useCallback(
+		(match: LogSearchMatch) => {
+			const tool = tools.find((t) => t.config.name === match.tool);
+			if (!tool) return;
+			if (tool.screen) {
+				setTerminalLogView((prev) => new Set(prev).add(match.tool));
 			}
+			// Turn off filters that may hide the matching line
+			const searchState = getTabSearchState(match.tool);
+			if (searchState.searchQuery || searchState.minLevel) {
+				updateTabSearchState(match.tool, { filterMode: false, minLevel: null });
+			}
+			setNavigationKey((k) => k + 1);
+			setActiveIndex(getTabIndex(match.tool));
+			setLogJump({ toolName: match.tool, lineIndex: match.lineIndex });
+		},
+		[tools, getTabSearchState, updateTabSearchState, getTabIndex],
+	);
 
-			// If no health check, it's ready when running
-			return tool.status === "running";
-		};
+	// List the links and file references in view; a terminal screen or the home tab has none
+	const showLinksInView = useCallback(() => {
+		if (
+			isHomeTabActive ||
+			(currentTool?.screen && !terminalLogView.has(currentToolName))
+		) {
+			toast.info("No links in view");
+			return;
+		}
+		setLinksRequested(true);
+	}, [isHomeTabActive, currentTool, terminalLogView, currentToolName]);
+
+	// Open a file reference from the logs in the configured editor. Terminal
+	// editors get the terminal until they exit.
+	const openInEditor = useCallback(
+		(reference: FileReference) => {
+			const command = getEditorCommand(reference, config.ui?.editorCommand);
+			if (!command) {
+				toast.error("Set $EDITOR or ui.editorCommand to open files");
+				return;
+			}
+			try {
+				if (isTerminalEditor(command)) {
+					renderer.suspend();
+					const result = spawnSync(command[0] ?? "", command.slice(1), {
+						stdio: "inherit",
+					});
+					renderer.resume();
+					if (result.error) toast.error(`Cannot run ${command[0]}`);
+					return;
+				}
+				Bun.spawn(command, {
+					stdin: "ignore",
+					stdout: "ignore",
+					stderr: "ignore",
+				});
+				toast.info(`Opening ${formatFileReference(reference)}`);
+			} catch {
+				toast.error(`Cannot run ${command[0]}`);
+			}
+		},
+		[config.ui?.editorCommand, renderer],
+	);
+
+	const handleShowLinks = useCallback((links: LogLink[]) => {
+		setLinksRequested(false);
+		if (links.length === 0) {
+			toast.info("No links in view");
+			return;
+		}
+		setLinkPickerLinks(links);
+	}, []);
+
+	// Forget the jump once its tab is left, so coming back doesn't repeat it
+	useEffect(() => {
+		if (logJump && logJump.toolName !== currentToolName) setLogJump(null);
+	}, [logJump, currentToolName]);
+
+	// Include or leave out a tool in the "All logs" tab
+	const toggleAllLogsTool = useCallback((toolName: string) => {
+		setAllLogsExcluded((prev) => {
+			const next = new Set(prev);
+			if (next.has(toolName)) {
+				next.delete(toolName);
+			} else {
+				next.add(toolName);
+			}
+			return next;
+		});
+	}, []);
+
+	// Callback to check if a tool is ready for dependents
+	// Uses refs to access latest state since this is called asynchronously
+	const isToolReady = useCallback((toolName: string): boolean => {
+		const currentTools = toolsRef.current;
+		const currentHealthStates = healthStatesRef.current;
+
+		const tool = currentTools.find((t) => t.config.name === toolName);
+		if (!tool) return false;
+
+		// If tool has health check, it's ready when healthy
+		if (tool.config.healthCheck) {
+			const healthState = currentHealthStates.get(toolName);
+			return healthState?.status === "healthy";
+		}
+
+		// If no health check, it's ready when running
+		return tool.status === "running";
+	}, []);
+
+	// Start all tools (or the tools of the initial profile) on mount,
+	// with dependency awareness if needed
+	useEffect(() => {
+		if (toolsStartedRef.current || attached) return;
+		toolsStartedRef.current = true;
+
+		const indices =
+			getProfileToolIndices(
+				initialTools,
+				initialConfig,
+				activeProfileRef.current,
+			) ?? initialTools.map((_, i) => i);
 
 		// Start tools with dependency awareness
 		if (hasDependencies) {
-			processManager.startAllToolsWithDependencies(isToolReady);
+			reportActionError(
+				processManager.startTools(indices, isToolReady),
+				"start tools",
+			);
 		} else {
 			// No dependencies, start all tools immediately
-			for (let i = 0; i < initialTools.length; i++) {
-				processManager.startTool(i);
+			for (const i of indices) {
+				reportActionError(processManager.startTool(i), "start tool");
 			}
 		}
-	}, [processManager, initialTools.length, hasDependencies]);
+	}, [
+		processManager,
+		initialTools,
+		initialConfig,
+		attached,
+		hasDependencies,
+		isToolReady,
+	]);
+
+	// Switch to another profile (null runs every tool): stops the running tools
+	// outside it and starts the tools in it that aren't running yet
+	const switchProfile = useCallback(
+		async (profile: string | null) => {
+			const currentTools = processManager.getTools();
+			const profileIndices = getProfileToolIndices(
+				currentTools,
+				config,
+				profile,
+			);
+			const inProfile = new Set(
+				profileIndices ?? currentTools.map((_, i) => i),
+			);
+
+			const toStop: number[] = [];
+			const toStart: number[] = [];
+			currentTools.forEach((tool, i) => {
+				// Virtual tools (no command) are never started or stopped
+				if (!tool.config.command) return;
+				if (inProfile.has(i)) {
+					if (tool.status !== "running" && tool.status !== "waiting") {
+						toStart.push(i);
+					}
+				} else if (tool.status === "running") {
+					toStop.push(i);
+				}
+			});
+
+			setActiveProfile(profile);
+			toast.info(
+				profile ? `Switched to profile "${profile}"` : "Running all tools",
+			);
+
+			await processManager.stopTools(toStop);
+			await processManager.startTools(toStart, isToolReady);
+		},
+		[processManager, config, isToolReady],
+	);
 
 	// Track previous tool statuses for exit detection
 	const prevToolStatusesRef = useRef<Map<string, string>>(new Map());
@@ -389,6 +879,38 @@ export function App({
 		});
 	}, [onLineWrapChange]);
 
+	// Cycle timestamp gutter: off -> absolute -> relative (keyboard and command palette)
+	const cycleTimestampMode = useCallback(() => {
+		setTimestampMode((prev) => {
+			const newValue = nextTimestampMode(prev);
+			onTimestampModeChange?.(newValue);
+			return newValue;
+		});
+	}, [onTimestampModeChange]);
+
+	// Toggle the fields of structured log lines (keyboard and command palette)
+	const toggleLogFields = useCallback(() => {
+		setShowLogFields((prev) => !prev);
+	}, []);
+
+	// Send a line typed in input mode to a tool's stdin and remember it
+	const submitInput = useCallback(
+		(toolName: string, line: string) => {
+			const result = processManager.getToolByName(toolName);
+			if (!result || !processManager.sendInput(result.index, `${line}\n`)) {
+				toast.error(`${toolName} is not accepting input`);
+				return;
+			}
+			setInputHistories((prev) => {
+				const history = prev.get(toolName) ?? [];
+				// Skip consecutive duplicates, like a shell history
+				if (line.length === 0 || history.at(-1) === line) return prev;
+				return new Map(prev).set(toolName, [...history, line]);
+			});
+		},
+		[processManager],
+	);
+
 	// Toggle debug console (OpenTUI built-in console)
 	const toggleConsole = useCallback(() => {
 		renderer.console.toggle();
@@ -413,19 +935,76 @@ export function App({
 				? [
 						{
 							id: "toggle-fuzzy-search",
-							label: currentSearchState.fuzzyMode
-								? "Switch to substring search"
-								: "Switch to fuzzy search",
+							label:
+								currentSearchState.searchType === "fuzzy"
+									? "Switch to substring search"
+									: "Switch to fuzzy search",
 							shortcut: "Ctrl+F",
 							category: "Search",
 							action: () => {
 								if (currentToolName) {
 									updateTabSearchState(currentToolName, {
-										fuzzyMode: !currentSearchState.fuzzyMode,
+										searchType:
+											currentSearchState.searchType === "fuzzy"
+												? "substring"
+												: "fuzzy",
+									});
+								}
+							},
+						},
+						{
+							id: "toggle-regex-search",
+							label:
+								currentSearchState.searchType === "regex"
+									? "Switch to substring search"
+									: "Switch to regex search",
+							shortcut: "Ctrl+R",
+							category: "Search",
+							action: () => {
+								if (currentToolName) {
+									updateTabSearchState(currentToolName, {
+										searchType:
+											currentSearchState.searchType === "regex"
+												? "substring"
+												: "regex",
 									});
 								}
 							},
 						},
+						...(currentSearchState.searchType === "regex"
+							? [
+									{
+										id: "toggle-case-sensitive",
+										label: currentSearchState.caseSensitive
+											? "Ignore case in regex search"
+											: "Match case in regex search",
+										shortcut: "Alt+C",
+										category: "Search",
+										action: () => {
+											if (currentToolName) {
+												updateTabSearchState(currentToolName, {
+													caseSensitive: !currentSearchState.caseSensitive,
+												});
+											}
+										},
+									},
+									{
+										id: "toggle-whole-word",
+										label: currentSearchState.wholeWord
+											? "Match partial words in regex search"
+											: "Match whole words in regex search",
+										shortcut: "Alt+W",
+										category: "Search",
+										action: () => {
+											if (currentToolName) {
+												updateTabSearchState(currentToolName, {
+													wholeWord: !currentSearchState.wholeWord,
+												});
+											}
+										},
+									},
+								]
+							: []),
 						{
 							id: "toggle-filter-mode",
 							label: currentSearchState.filterMode
@@ -443,6 +1022,26 @@ export function App({
 						},
 					]
 				: []),
+			{
+				id: "cycle-level-filter",
+				label:
+					currentSearchState.minLevel === null
+						? "Hide debug logs"
+						: currentSearchState.minLevel === "info"
+							? "Show only warnings and errors"
+							: currentSearchState.minLevel === "warn"
+								? "Show only errors"
+								: "Show all log levels",
+				shortcut: "v",
+				category: "Search",
+				action: () => {
+					if (currentToolName) {
+						updateTabSearchState(currentToolName, {
+							minLevel: nextLevelFilter(currentSearchState.minLevel),
+						});
+					}
+				},
+			},
 			{
 				id: "toggle-line-wrap",
 				label: lineWrap ? "Disable line wrapping" : "Enable line wrapping",
@@ -450,6 +1049,27 @@ export function App({
 				category: "View",
 				action: toggleLineWrap,
 			},
+			{
+				id: "cycle-timestamps",
+				label:
+					timestampMode === "off"
+						? "Show timestamps"
+						: timestampMode === "absolute"
+							? "Show relative timestamps"
+							: "Hide timestamps",
+				shortcut: "t",
+				category: "View",
+				action: cycleTimestampMode,
+			},
+			{
+				id: "toggle-log-fields",
+				label: showLogFields
+					? "Hide structured log fields"
+					: "Show structured log fields",
+				shortcut: "f",
+				category: "View",
+				action: toggleLogFields,
+			},
 			{
 				id: "restart-process",
 				label: "Restart current process",
@@ -460,7 +1080,10 @@ export function App({
 						toast.info(`Restarting ${currentToolName}...`);
 						// Update status tracking so we detect quick exits
 						prevToolStatusesRef.current.set(currentToolName, "running");
-						processManager.restartTool(toolIndex);
+						reportActionError(
+							processManager.restartTool(toolIndex, isToolReady),
+							`restart ${currentToolName}`,
+						);
 					}
 				},
 			},
@@ -472,14 +1095,74 @@ export function App({
 				action: () => {
 					if (
 						currentTool &&
-						currentTool.status === "running" &&
+						(currentTool.status === "running" || currentTool.nextRestartAt) &&
 						toolIndex >= 0
 					) {
 						toast.info(`Stopping ${currentToolName}...`);
-						processManager.stopTool(toolIndex);
+						reportActionError(
+							processManager.stopTool(toolIndex),
+							`stop ${currentToolName}`,
+						);
 					}
 				},
 			},
+			// Only offer input for a tool whose process is running
+			...(currentTool?.pid !== undefined && !isAllLogsTabActive
+				? [
+						{
+							id: "send-input",
+							label: "Send input",
+							shortcut: "i",
+							category: "Process",
+							action: () => {
+								updateTabSearchState(currentToolName, {
+									inputMode: true,
+									searchMode: false,
+								});
+							},
+						},
+					]
+				: []),
+			// pty tools can switch between the terminal screen and their log history
+			...(currentTool?.screen && !isAllLogsTabActive
+				? [
+						{
+							id: "toggle-terminal-view",
+							label: terminalLogView.has(currentToolName)
+								? "Show terminal screen"
+								: "Show log history",
+							category: "View",
+							action: () => {
+								setTerminalLogView((prev) => {
+									const next = new Set(prev);
+									if (!next.delete(currentToolName)) {
+										next.add(currentToolName);
+									}
+									return next;
+								});
+							},
+						},
+					]
+				: []),
+			// Only show the watch toggle for tools with a watch config
+			...(currentTool?.config.watch && toolIndex >= 0
+				? [
+						{
+							id: "toggle-watch",
+							label: currentTool.watchEnabled
+								? "Pause file watching"
+								: "Resume file watching",
+							category: "Process",
+							action: () => {
+								const enabled = !currentTool.watchEnabled;
+								processManager.setWatchEnabled(toolIndex, enabled);
+								toast.info(
+									`File watching ${enabled ? "resumed" : "paused"} for ${currentToolName}`,
+								);
+							},
+						},
+					]
+				: []),
 			{
 				id: "clear-logs",
 				label: "Clear logs",
@@ -492,6 +1175,86 @@ export function App({
 					}
 				},
 			},
+			// Split-pane commands (not on the home tab)
+			...(!isHomeTabActive && currentToolName
+				? [
+						{
+							id: "split-pane-right",
+							label: "Split pane right",
+							category: "View",
+							action: () => splitPane("row"),
+						},
+						{
+							id: "split-pane-down",
+							label: "Split pane down",
+							category: "View",
+							action: () => splitPane("column"),
+						},
+					]
+				: []),
+			...(activePaneLayout
+				? [
+						{
+							id: "focus-next-pane",
+							label: "Focus next pane",
+							shortcut: "Tab",
+							category: "View",
+							action: () =>
+								focusPane((focusedPane + 1) % activePaneLayout.panes.length),
+						},
+						{
+							id: "close-pane",
+							label: "Close pane",
+							category: "View",
+							action: closePane,
+						},
+					]
+				: []),
+			// "All logs" tab commands
+			...(showAllLogsTab
+				? [
+						{
+							id: "switch-tab-all-logs",
+							label: "Switch to All logs",
+							shortcut: "a",
+							category: "Tabs",
+							action: () => {
+								setNavigationKey((k) => k + 1);
+								setActiveIndex(allLogsTabIndex);
+							},
+						},
+						{
+							id: "pick-all-logs-tools",
+							label: "Choose tools in All logs",
+							category: "View",
+							action: () => setToolPickerOpen(true),
+						},
+					]
+				: []),
+			{
+				id: "open-link",
+				label: "Open link or file in view",
+				shortcut: "o",
+				category: "View",
+				action: showLinksInView,
+			},
+			{
+				id: "search-all-logs",
+				label: "Search all logs",
+				category: "View",
+				action: () => setLogSearchOpen(true),
+			},
+			// Only show the dependency graph when some tool depends on another
+			...(hasDependencies
+				? [
+						{
+							id: "show-dependency-graph",
+							label: "Show dependency graph",
+							category: "View",
+							action: () => setDependencyGraphOpen(true),
+						},
+					]
+				: []),
 			{
 				id: "toggle-console",
 				label: "Toggle debug console",
@@ -519,6 +1282,26 @@ export function App({
 			},
 		];
 
+		// Add profile switching commands (one per group, plus "all tools")
+		for (const groupName of Object.keys(config.groups ?? {})) {
+			if (groupName === activeProfile) continue;
+			commands.push({
+				id: `switch-profile-${groupName}`,
+				label: `Switch to profile: ${groupName}`,
+				category: "Process",
+				action: () =>
+					reportActionError(switchProfile(groupName), "switch profile"),
+			});
+		}
+		if (activeProfile) {
+			commands.push({
+				id: "switch-profile-all",
+				label: "Run all tools",
+				category: "Process",
+				action: () => reportActionError(switchProfile(null), "switch profile"),
+			});
+		}
+
 		// Add theme switching command (opens theme picker modal)
 		commands.push({
 			id: "switch-theme",
@@ -576,16 +1359,44 @@ export function App({
 		updateTabSearchState,
 		lineWrap,
 		toggleLineWrap,
+		timestampMode,
+		cycleTimestampMode,
+		showLogFields,
+		toggleLogFields,
+		showAllLogsTab,
+		allLogsTabIndex,
+		isHomeTabActive,
+		isAllLogsTabActive,
+		terminalLogView,
+		activePaneLayout,
+		focusedPane,
+		splitPane,
+		closePane,
+		focusPane,
 		toggleConsole,
+		showLinksInView,
+		hasDependencies,
+		config.groups,
+		activeProfile,
+		switchProfile,
+		isToolReady,
 		currentSearchState.searchQuery,
-		currentSearchState.fuzzyMode,
+		currentSearchState.searchType,
+		currentSearchState.caseSensitive,
+		currentSearchState.wholeWord,
 		currentSearchState.filterMode,
+		currentSearchState.minLevel,
 	]);
 
 	// Handle keyboard input
 	useKeyboard(async (key) => {
 		const isShuttingDown = processManager.getIsShuttingDown();
 
+		// Every key goes to the terminal (PtyView handles it, including Ctrl+C)
+		if (isTypingIntoTerminal && !isShuttingDown) {
+			return;
+		}
+
 		if (key.ctrl && key.name === "c") {
 			if (isShuttingDown) {
 				// Already shutting down - force quit
@@ -618,6 +1429,26 @@ export function App({
 				return; // ThemePicker handles its own Ctrl+C
 			}
 
+			// Priority 4: Close tool picker if open (handled by picker itself)
+			if (toolPickerOpen) {
+				return; // ToolPicker handles its own Ctrl+C
+			}
+
+			// Priority 4: Close dependency graph if open (handled by the graph itself)
+			if (dependencyGraphOpen) {
+				return; // DependencyGraph handles its own Ctrl+C
+			}
+
+			// Priority 4: Close log search if open (handled by the search itself)
+			if (logSearchOpen) {
+				return; // LogSearch handles its own Ctrl+C
+			}
+
+			// Priority 4: Close link picker if open (handled by the picker itself)
+			if (linkPickerLinks) {
+				return; // LinkPicker handles its own Ctrl+C
+			}
+
 			// Priority 4: Exit the program
 			await processManager.cleanup();
 			renderer.stop();
@@ -627,22 +1458,36 @@ export function App({
 		}
 
 		// Skip most key handling when modals are open (they handle their own input)
-		if (commandPaletteOpen || shortcutsOpen || themePickerOpen) {
+		if (
+			commandPaletteOpen ||
+			shortcutsOpen ||
+			themePickerOpen ||
+			toolPickerOpen ||
+			dependencyGraphOpen ||
+			logSearchOpen ||
+			linkPickerLinks
+		) {
 			return;
 		}
 
 		// Command palette shortcut: Ctrl+P or Ctrl+K (works even in search mode)
 		if (key.ctrl && (key.name === "p" || key.name === "k")) {
-			// Exit search mode to avoid focus issues when palette closes
-			if (currentSearchState.searchMode && currentToolName) {
-				updateTabSearchState(currentToolName, { searchMode: false });
+			// Exit search/input mode to avoid focus issues when palette closes
+			if (
+				(currentSearchState.searchMode || currentSearchState.inputMode) &&
+				currentToolName
+			) {
+				updateTabSearchState(currentToolName, {
+					searchMode: false,
+					inputMode: false,
+				});
 			}
 			setCommandPaletteOpen(true);
 			return;
 		}
 
-		// Skip most key handling when in search mode (LogViewer handles it)
-		if (currentSearchState.searchMode) {
+		// Skip most key handling when in search or input mode (LogViewer handles it)
+		if (currentSearchState.searchMode || currentSearchState.inputMode) {
 			return;
 		}
 
@@ -652,28 +1497,57 @@ export function App({
 			return;
 		}
 
+		// Links and file references in view: o
+		if (key.name === "o") {
+			showLinksInView();
+			return;
+		}
+
 		// Toggle line wrapping: w
 		if (key.name === "w") {
 			toggleLineWrap();
 			return;
 		}
 
+		// Cycle timestamp gutter: t
+		if (key.name === "t") {
+			cycleTimestampMode();
+			return;
+		}
+
+		// Toggle structured log fields: f
+		if (key.name === "f") {
+			toggleLogFields();
+			return;
+		}
+
 		// Restart current process: r
 		if (key.name === "r") {
 			if (currentTool && toolIndex >= 0) {
 				toast.info(`Restarting ${currentToolName}...`);
 				// Update status tracking so we detect quick exits
 				prevToolStatusesRef.current.set(currentToolName, "running");
-				processManager.restartTool(toolIndex);
+				reportActionError(
+					processManager.restartTool(toolIndex, isToolReady),
+					`restart ${currentToolName}`,
+				);
 			}
 			return;
 		}
 
 		// Stop current process: s
 		if (key.name === "s") {
-			if (currentTool && currentTool.status === "running" && toolIndex >= 0) {
+			// Also cancels a pending automatic restart
+			if (
+				currentTool &&
+				(currentTool.status === "running" || currentTool.nextRestartAt) &&
+				toolIndex >= 0
+			) {
 				toast.info(`Stopping ${currentToolName}...`);
-				processManager.stopTool(toolIndex);
+				reportActionError(
+					processManager.stopTool(toolIndex),
+					`stop ${currentToolName}`,
+				);
 			}
 			return;
 		}
@@ -761,6 +1635,23 @@ export function App({
 			}
 		}
 
+		// Tab / Shift+Tab to move focus between split panes
+		if (key.name === "tab" && activePaneLayout) {
+			const count = activePaneLayout.panes.length;
+			focusPane(
+				key.shift
+					? (focusedPane - 1 + count) % count
+					: (focusedPane + 1) % count,
+			);
+			return;
+		}
+
+		// a to switch to the "All logs" tab
+		if (key.name === "a" && showAllLogsTab) {
+			setNavigationKey((k) => k + 1);
+			setActiveIndex(allLogsTabIndex);
+		}
+
 		// Backtick to switch to home tab (only when not shutting down)
 		if (key.name === "`" && effectiveHomeEnabled) {
 			setNavigationKey((k) => k + 1);
@@ -780,16 +1671,20 @@ export function App({
 	// Find the active tool index in the filtered list
 	// Account for home tab offset when calculating display index
 	const activeToolIndex = currentTool ? activeTools.indexOf(currentTool) : -1;
-	const displayActiveIndex = effectiveHomeEnabled
-		? isHomeTabActive
-			? 0
-			: activeToolIndex + 1
-		: activeToolIndex >= 0
-			? activeToolIndex
-			: 0;
+	const displayActiveIndex = isAllLogsTabActive
+		? allLogsTabIndex
+		: effectiveHomeEnabled
+			? isHomeTabActive
+				? 0
+				: activeToolIndex + 1
+			: activeToolIndex >= 0
+				? activeToolIndex
+				: 0;
 	const activeTool = isHomeTabActive
 		? undefined
-		: activeTools[activeToolIndex >= 0 ? activeToolIndex : 0];
+		: isAllLogsTabActive
+			? allLogsTool
+			: activeTools[activeToolIndex >= 0 ? activeToolIndex : 0];
 
 	// During shutdown, ensure active tab stays valid as tabs are removed
 	useEffect(() => {
@@ -813,7 +1708,7 @@ export function App({
 
 	const tabBarComponent = (
 		<TabBar
-			tools={activeTools}
+			tools={showAllLogsTab ? [...activeTools, allLogsTool] : activeTools}
 			activeIndex={displayActiveIndex}
 			onSelect={(idx) => {
 				// When home is enabled (and not shutting down), index 0 is home tab
@@ -821,6 +1716,11 @@ export function App({
 					setActiveIndex(0);
 					return;
 				}
+				// "All logs" tab follows the tool tabs
+				if (showAllLogsTab && idx === allLogsTabIndex) {
+					setActiveIndex(allLogsTabIndex);
+					return;
+				}
 				// Adjust for home tab offset
 				const toolIdx = effectiveHomeEnabled ? idx - 1 : idx;
 				const tool = activeTools[toolIdx];
@@ -842,6 +1742,96 @@ export function App({
 		/>
 	);
 
+	// Render a LogViewer using the search state of its tool's tab
+	// (or the terminal screen of a running pty tool)
+	function renderLogViewer(
+		tool: ToolState,
+		pane?: { paneWidth: number; focused: boolean },
+	) {
+		const toolName = tool.config.name;
+		const searchState = getTabSearchState(toolName);
+		if (tool.screen && !terminalLogView.has(toolName)) {
+			const index = tools.indexOf(tool);
+			return (
+				<PtyView
+					screen={tool.screen}
+					theme={theme}
+					inputMode={searchState.inputMode}
+					onInputModeChange={(active) =>
+						updateTabSearchState(toolName, { inputMode: active })
+					}
+					onInput={(data) => processManager.sendInput(index, data)}
+					onResize={(cols, rows) =>
+						processManager.resizeTerminal(index, cols, rows)
+					}
+					focused={pane?.focused ?? true}
+				/>
+			);
+		}
+		return (
+			<LogViewer
+				tool={tool}
+				theme={theme}
+				searchMode={searchState.searchMode}
+				searchQuery={searchState.searchQuery}
+				filterMode={searchState.filterMode}
+				searchType={searchState.searchType}
+				caseSensitive={searchState.caseSensitive}
+				wholeWord={searchState.wholeWord}
+				minLevel={searchState.minLevel}
+				currentMatchIndex={searchState.currentMatchIndex}
+				onSearchModeChange={(active) =>
+					updateTabSearchState(toolName, { searchMode: active })
+				}
+				inputMode={searchState.inputMode}
+				onInputModeChange={(active) =>
+					updateTabSearchState(toolName, { inputMode: active })
+				}
+				inputHistory={inputHistories.get(toolName)}
+				onSubmitInput={(line) => submitInput(toolName, line)}
+				onSearchQueryChange={(query) =>
+					updateTabSearchState(toolName, {
+						searchQuery: query,
+						currentMatchIndex: 0,
+					})
+				}
+				onFilterModeChange={(filter) =>
+					updateTabSearchState(toolName, { filterMode: filter })
+				}
+				onSearchTypeChange={(searchType) =>
+					updateTabSearchState(toolName, { searchType, currentMatchIndex: 0 })
+				}
+				onCaseSensitiveChange={(caseSensitive) =>
+					updateTabSearchState(toolName, {
+						caseSensitive,
+						currentMatchIndex: 0,
+					})
+				}
+				onWholeWordChange={(wholeWord) =>
+					updateTabSearchState(toolName, { wholeWord, currentMatchIndex: 0 })
+				}
+				onMinLevelChange={(minLevel) =>
+					updateTabSearchState(toolName, { minLevel, currentMatchIndex: 0 })
+				}
+				onCurrentMatchIndexChange={(index) =>
+					updateTabSearchState(toolName, {
+						currentMatchIndex: index,
+					})
+				}
+				showLineNumbers={showLineNumbers}
+				lineWrap={lineWrap}
+				timestampMode={timestampMode}
+				showLogFields={showLogFields}
+				sidebarWidth={sidebarWidth}
+				paneWidth={pane?.paneWidth}
+				focused={pane?.focused ?? true}
+				jumpToLine={logJump?.toolName === toolName ? logJump : null}
+				showLinksRequested={linksRequested && (pane?.focused ?? true)}
+				onShowLinks={handleShowLinks}
+			/>
+		);
+	}
+
 	// Main content area - show HomeTab or LogViewer based on active tab
 	const mainContentComponent = isHomeTabActive ? (
 		<HomeTab
@@ -860,50 +1850,50 @@ export function App({
 				if (tool) {
 					toast.info(`Restarting ${tool.config.name}...`);
 					prevToolStatusesRef.current.set(tool.config.name, "running");
-					processManager.restartTool(idx);
+					reportActionError(
+						processManager.restartTool(idx, isToolReady),
+						`restart ${tool.config.name}`,
+					);
 				}
 			}}
 			onStopTool={(idx) => {
 				const tool = tools[idx];
-				if (tool && tool.status === "running") {
+				if (tool && (tool.status === "running" || tool.nextRestartAt)) {
 					toast.info(`Stopping ${tool.config.name}...`);
-					processManager.stopTool(idx);
+					reportActionError(
+						processManager.stopTool(idx),
+						`stop ${tool.config.name}`,
+					);
 				}
 			}}
 		/>
-	) : activeTool ? (
-		<LogViewer
-			tool={activeTool}
+	) : activeTool && activePaneLayout ? (
+		<SplitPanes
+			direction={activePaneLayout.direction}
+			paneNames={activePaneLayout.panes}
+			focusedIndex={focusedPane}
 			theme={theme}
-			searchMode={currentSearchState.searchMode}
-			searchQuery={currentSearchState.searchQuery}
-			filterMode={currentSearchState.filterMode}
-			fuzzyMode={currentSearchState.fuzzyMode}
-			currentMatchIndex={currentSearchState.currentMatchIndex}
-			onSearchModeChange={(active) =>
-				updateTabSearchState(activeTool.config.name, { searchMode: active })
-			}
-			onSearchQueryChange={(query) =>
-				updateTabSearchState(activeTool.config.name, {
-					searchQuery: query,
-					currentMatchIndex: 0,
-				})
-			}
-			onFilterModeChange={(filter) =>
-				updateTabSearchState(activeTool.config.name, { filterMode: filter })
-			}
-			onFuzzyModeChange={(fuzzy) =>
-				updateTabSearchState(activeTool.config.name, { fuzzyMode: fuzzy })
-			}
-			onCurrentMatchIndexChange={(index) =>
-				updateTabSearchState(activeTool.config.name, {
-					currentMatchIndex: index,
-				})
-			}
-			showLineNumbers={showLineNumbers}
-			lineWrap={lineWrap}
-			sidebarWidth={sidebarWidth}
+			width={terminalWidth - sidebarWidth}
+			onFocus={focusPane}
+			renderPane={(name, index, width) => {
+				const tool =
+					name === ALL_LOGS_TAB_NAME
+						? allLogsTool
+						: tools.find((t) => t.config.name === name);
+				return tool ? (
+					renderLogViewer(tool, {
+						paneWidth: width,
+						focused: index === focusedPane,
+					})
+				) : (
+					<box flexGrow={1} padding={1} backgroundColor={theme.colors.surface0}>
+						<text fg={theme.colors.textMuted}>{name} is not configured</text>
+					</box>
+				);
+			}}
 		/>
+	) : activeTool ? (
+		renderLogViewer(activeTool)
 	) : (
 		<scrollbox
 			flexGrow={1}
@@ -1014,6 +2004,48 @@ export function App({
 				isOpen={themePickerOpen}
 				onClose={() => setThemePickerOpen(false)}
 			/>
+			<ToolPicker
+				isOpen={toolPickerOpen}
+				onClose={() => setToolPickerOpen(false)}
+				toolNames={tools.map((tool) => tool.config.name)}
+				excluded={allLogsExcluded}
+				onToggle={toggleAllLogsTool}
+			/>
+			<DependencyGraph
+				isOpen={dependencyGraphOpen}
+				onClose={() => setDependencyGraphOpen(false)}
+				tools={tools}
+				healthStates={healthStates}
+				onToolSelect={(idx) => {
+					setNavigationKey((k) => k + 1);
+					setActiveIndex(effectiveHomeEnabled ? idx + 1 : idx);
+				}}
+			/>
+			<LogSearch
+				isOpen={logSearchOpen}
+				onClose={() => setLogSearchOpen(false)}
+				tools={tools}
+				onSelect={jumpToSearchMatch}
+			/>
+			<LinkPicker
+				isOpen={linkPickerLinks !== null}
+				onClose={() => setLinkPickerLinks(null)}
+				links={linkPickerLinks ?? []}
+				onOpen={(link) => {
+					if (link.file) {
+						openInEditor(link.file);
+						return;
+					}
+					if (!isOpenableUrl(link.href)) {
+						toast.error(
+							`Not opening ${link.href}: only http(s) links and local files are opened`,
+						);
+						return;
+					}
+					toast.info(`Opening ${link.href}`);
+					openUrl(link.href);
+				}}
+			/>
 		</box>
 	);
 
@@ -1021,7 +2053,13 @@ export function App({
 		if (commandPaletteOpen) return "commandPalette";
 		if (shortcutsOpen) return "shortcuts";
 		if (themePickerOpen) return "commandPalette"; // Use same hints as command palette
+		if (toolPickerOpen) return "commandPalette";
+		if (dependencyGraphOpen) return "commandPalette";
+		if (logSearchOpen) return "commandPalette";
+		if (linkPickerLinks) return "commandPalette";
 		if (currentSearchState.searchMode) return "search";
+		if (isTypingIntoTerminal) return "terminal";
+		if (currentSearchState.inputMode) return "input";
 		return "normal";
 	}
 }
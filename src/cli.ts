@@ -3,21 +3,33 @@
  *
  * Supports:
  *   --config <path>, -c <path>  Custom config file path
+ *   --profile <name>, -p <name> Only start the tools in a group
+ *   --detach, -d                Run `up` in the background
  *   --help, -h                  Show help text
  *   --version, -v               Show version
  *   init                        Initialize a new config file
  *   mcp                         Start the MCP server
  *   update                      Update corsa to the latest version
+ *   up                          Run the tools headless (daemon)
+ *   attach                      Connect the TUI to a running daemon
+ *   down                        Stop a running daemon
+ *   ctl <command> [args]        Control a running instance from scripts
  */
 
 // Import version at build time so it gets bundled into the compiled binary
 import packageJson from "../package.json";
 
 export interface CliArgs {
-	/** Subcommand to run (init, mcp, update) */
-	command?: "init" | "mcp" | "update";
+	/** Subcommand to run (init, mcp, update, up, attach, down, ctl) */
+	command?: "init" | "mcp" | "update" | "up" | "attach" | "down" | "ctl";
+	/** Arguments after `ctl`, parsed by the ctl command itself */
+	ctlArgs: string[];
 	/** Path to config file (--config/-c) */
 	configPath?: string;
+	/** Group of tools to start (--profile/-p) */
+	profile?: string;
+	/** Whether `up` runs in the background (--detach/-d) */
+	detach: boolean;
 	/** Whether to show help (--help/-h) */
 	showHelp: boolean;
 	/** Whether to show version (--version/-v) */
@@ -31,6 +43,8 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): CliArgs {
 	const args: CliArgs = {
 		showHelp: false,
 		showVersion: false,
+		detach: false,
+		ctlArgs: [],
 	};
 
 	let i = 0;
@@ -51,12 +65,30 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): CliArgs {
 			}
 			args.configPath = nextArg;
 			i += 2;
+		} else if (arg === "--profile" || arg === "-p") {
+			const nextArg = argv[i + 1];
+			if (!nextArg || nextArg.startsWith("-")) {
+				console.error("Error: --profile requires a name argument");
+				process.exit(1);
+			}
+			args.profile = nextArg;
+			i += 2;
+		} else if (arg === "--detach" || arg === "-d") {
+			args.detach = true;
+			i++;
 		} else if (arg === "init") {
 			args.command = "init";
 			i++;
 		} else if (arg === "mcp") {
 			args.command = "mcp";
 			i++;
+		} else if (arg === "up" || arg === "attach" || arg === "down") {
+			args.command = arg;
+			i++;
+		} else if (arg === "ctl") {
+			args.command = "ctl";
+			args.ctlArgs = argv.slice(i + 1);
+			break;
 		} else if (arg === "update" || arg === "upgrade") {
 			args.command = "update";
 			i++;
@@ -87,18 +119,27 @@ Usage:
   corsa init                   Create a sample config file in the current directory
   corsa mcp                    Start the MCP server for AI agent integration
   corsa update                 Update corsa to the latest version
+  corsa up [-d]                Run the tools without the TUI (-d: in the background)
+  corsa attach                 Open the TUI for tools started with 'corsa up'
+  corsa down                   Stop the tools started with 'corsa up'
+  corsa ctl <command>          Control a running instance from scripts (see 'corsa ctl --help')
 
 Options:
   -c, --config <path>           Path to config file (default: corsa.config.toml)
+  -p, --profile <name>          Only start the tools in a [groups] entry
+  -d, --detach                  Run 'corsa up' in the background
   -h, --help                    Show this help message
   -v, --version                 Show version information
 
 Examples:
   corsa                        Start with default config
   corsa -c myconfig.toml       Start with custom config file
+  corsa -p frontend            Start only the tools in the "frontend" group
   corsa init                   Create corsa.config.toml in current directory
   corsa mcp                    Start MCP server (configure in your IDE)
   corsa update                 Update to the latest version
+  corsa up -d && corsa attach  Keep tools running after the terminal closes
+  corsa ctl restart api        Restart a tool of the running instance
 
 Documentation: https://github.com/tomagranate/corsa
 `.trim();
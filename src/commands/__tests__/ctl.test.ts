@@ -0,0 +1,125 @@
+import { describe, expect, test } from "bun:test";
+import type { ProcessSummary } from "../../lib/api";
+import { isWaitFailed, isWaitSatisfied, parseCtlArgs } from "../ctl";
+
+function summary(overrides: Partial<ProcessSummary> = {}): ProcessSummary {
+	return {
+		name: "api",
+		status: "running",
+		exitCode: null,
+		logCount: 0,
+		...overrides,
+	};
+}
+
+describe("parseCtlArgs", () => {
+	test("parses an action with names", () => {
+		const args = parseCtlArgs(["restart", "api", "worker"]);
+		expect(args.action).toBe("restart");
+		expect(args.names).toEqual(["api", "worker"]);
+		expect(args.json).toBe(false);
+	});
+
+	test("parses logs options", () => {
+		const args = parseCtlArgs(["logs", "api", "-n", "200", "--follow"]);
+		expect(args.names).toEqual(["api"]);
+		expect(args.lines).toBe(200);
+		expect(args.follow).toBe(true);
+	});
+
+	test("parses wait options", () => {
+		const args = parseCtlArgs([
+			"wait",
+			"api",
+			"--healthy",
+			"--timeout",
+			"5",
+			"--json",
+		]);
+		expect(args.healthy).toBe(true);
+		expect(args.timeout).toBe(5);
+		expect(args.json).toBe(true);
+	});
+
+	test("defaults the wait timeout to 60 seconds", () => {
+		expect(parseCtlArgs(["wait", "api"]).timeout).toBe(60);
+	});
+
+	test("accepts a config path", () => {
+		expect(parseCtlArgs(["ls", "-c", "dev.toml"]).configPath).toBe("dev.toml");
+	});
+
+	test("rejects missing or unknown commands", () => {
+		expect(() => parseCtlArgs([])).toThrow("Missing command");
+		expect(() => parseCtlArgs(["bogus"])).toThrow("Unknown command: bogus");
+	});
+
+	test("rejects unknown options and invalid values", () => {
+		expect(() => parseCtlArgs(["ls", "--verbose"])).toThrow(
+			"Unknown option: --verbose",
+		);
+		expect(() => parseCtlArgs(["logs", "api", "-n", "zero"])).toThrow(
+			"-n requires a positive number",
+		);
+		expect(() => parseCtlArgs(["wait", "api", "--timeout"])).toThrow(
+			"--timeout requires a number of seconds",
+		);
+	});
+
+	test("checks the number of process names", () => {
+		expect(() => parseCtlArgs(["logs"])).toThrow(
+			"'logs' requires a process name",
+		);
+		expect(() => parseCtlArgs(["wait"])).toThrow(
+			"'wait' requires a process name",
+		);
+		expect(() => parseCtlArgs(["logs", "a", "b"])).toThrow(
+			"'logs' takes a single process name",
+		);
+		expect(() => parseCtlArgs(["ls", "api"])).toThrow(
+			"'ls' takes no process names",
+		);
+	});
+});
+
+describe("isWaitSatisfied", () => {
+	test("waits for running by default", () => {
+		expect(isWaitSatisfied(summary(), false)).toBe(true);
+		expect(isWaitSatisfied(summary({ status: "waiting" }), false)).toBe(false);
+	});
+
+	test("waits for a passing health check with --healthy", () => {
+		const starting = summary({ healthStatus: "starting" });
+		expect(isWaitSatisfied(starting, false)).toBe(true);
+		expect(isWaitSatisfied(starting, true)).toBe(false);
+		expect(isWaitSatisfied(summary({ healthStatus: "healthy" }), true)).toBe(
+			true,
+		);
+	});
+
+	test("treats running processes without a health check as healthy", () => {
+		expect(isWaitSatisfied(summary(), true)).toBe(true);
+		expect(isWaitSatisfied(summary({ status: "stopped" }), true)).toBe(false);
+	});
+});
+
+describe("isWaitFailed", () => {
+	test("fails on errors without a pending restart", () => {
+		expect(isWaitFailed(summary({ status: "error", exitCode: 1 }))).toBe(true);
+		expect(
+			isWaitFailed(
+				summary({ status: "error", exitCode: 1, nextRestartAt: Date.now() }),
+			),
+		).toBe(false);
+	});
+
+	test("fails on crash loops", () => {
+		expect(isWaitFailed(summary({ status: "error", crashLoop: true }))).toBe(
+			true,
+		);
+	});
+
+	test("keeps waiting for stopped processes", () => {
+		expect(isWaitFailed(summary({ status: "stopped" }))).toBe(false);
+	});
+});
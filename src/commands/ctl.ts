@@ -0,0 +1,469 @@
+/**
+ * Ctl command - non-interactive control of a running corsa instance for
+ * shell scripts and git hooks.
+ *
+ * Talks to the same HTTP API as `corsa mcp`, so the instance needs
+ * mcp.enabled = true in its config.
+ */
+
+import {
+	type ApiConnection,
+	apiRequest,
+	checkHealth,
+	formatApiAddress,
+	getFetchOptions,
+	type LogStreamEvent,
+	type LogsResponse,
+	type ProcessSummary,
+	resolveApiConnection,
+} from "../lib/api";
+import { formatUptime } from "../lib/time";
+
+/** Exit codes of `corsa ctl` */
+export const CTL_EXIT_CODES = {
+	ok: 0,
+	/** The API reported an error, or a process crashed while waiting */
+	failed: 1,
+	/** Invalid arguments */
+	usage: 2,
+	/** No corsa instance is reachable */
+	unreachable: 3,
+	/** `wait` gave up before the processes were ready */
+	timeout: 4,
+} as const;
+
+/** Default time `wait` gives the processes, in seconds */
+const DEFAULT_WAIT_TIMEOUT = 60;
+
+/** How often `wait` polls the API (ms) */
+const POLL_INTERVAL = 500;
+
+/** Delay before `logs --follow` reconnects to an ended stream (ms) */
+const RECONNECT_DELAY = 500;
+
+export type CtlAction = "ls" | "start" | "stop" | "restart" | "logs" | "wait";
+
+export interface CtlArgs {
+	action: CtlAction;
+	/** Process names the action applies to */
+	names: string[];
+	/** Path to config file (--config/-c), overrides the one given before `ctl` */
+	configPath?: string;
+	/** Number of log lines to print (-n/--lines) */
+	lines?: number;
+	/** Keep printing new log lines (-f/--follow) */
+	follow: boolean;
+	/** Wait for a passing health check instead of just running (--healthy) */
+	healthy: boolean;
+	/** Seconds `wait` waits before giving up, 0 for no limit (--timeout) */
+	timeout: number;
+	/** Print machine-readable JSON (--json) */
+	json: boolean;
+}
+
+const ACTIONS: readonly CtlAction[] = [
+	"ls",
+	"start",
+	"stop",
+	"restart",
+	"logs",
+	"wait",
+];
+
+/**
+ * Parse the arguments after `corsa ctl`.
+ * @throws Error describing the problem if the arguments are invalid
+ */
+export function parseCtlArgs(argv: string[]): CtlArgs {
+	const [action, ...rest] = argv;
+	if (!action) {
+		throw new Error("Missing command");
+	}
+	if (!ACTIONS.includes(action as CtlAction)) {
+		throw new Error(`Unknown command: ${action}`);
+	}
+
+	const args: CtlArgs = {
+		action: action as CtlAction,
+		names: [],
+		follow: false,
+		healthy: false,
+		timeout: DEFAULT_WAIT_TIMEOUT,
+		json: false,
+	};
+
+	let i = 0;
+	while (i < rest.length) {
+		const arg = rest[i] ?? "";
+		const value = rest[i + 1];
+
+		if (arg === "--json") {
+			args.json = true;
+			i++;
+		} else if (arg === "--follow" || arg === "-f") {
+			args.follow = true;
+			i++;
+		} else if (arg === "--healthy") {
+			args.healthy = true;
+			i++;
+		} else if (arg === "--lines" || arg === "-n") {
+			const lines = Number(value);
+			if (!value || !Number.isInteger(lines) || lines < 1) {
+				throw new Error(`${arg} requires a positive number`);
+			}
+			args.lines = lines;
+			i += 2;
+		} else if (arg === "--timeout") {
+			const timeout = Number(value);
+			if (!value || Number.isNaN(timeout) || timeout < 0) {
+				throw new Error("--timeout requires a number of seconds");
+			}
+			args.timeout = timeout;
+			i += 2;
+		} else if (arg === "--config" || arg === "-c") {
+			if (!value || value.startsWith("-")) {
+				throw new Error(`${arg} requires a path argument`);
+			}
+			args.configPath = value;
+			i += 2;
+		} else if (arg.startsWith("-")) {
+			throw new Error(`Unknown option: ${arg}`);
+		} else {
+			args.names.push(arg);
+			i++;
+		}
+	}
+
+	if ((args.action === "logs" || args.action === "wait") && !args.names[0]) {
+		throw new Error(`'${args.action}' requires a process name`);
+	}
+	if (args.action === "logs" && args.names.length > 1) {
+		throw new Error("'logs' takes a single process name");
+	}
+	if (args.action === "ls" && args.names.length > 0) {
+		throw new Error("'ls' takes no process names");
+	}
+
+	return args;
+}
+
+/**
+ * Whether a process has reached the state `wait` is waiting for.
+ * Processes without a health check count as healthy once running.
+ */
+export function isWaitSatisfied(
+	summary: ProcessSummary,
+	healthy: boolean,
+): boolean {
+	if (healthy && summary.healthStatus !== undefined) {
+		return summary.healthStatus === "healthy";
+	}
+	return summary.status === "running";
+}
+
+/**
+ * Whether a process failed in a way `wait` shouldn't keep waiting for:
+ * it exited with an error and no automatic restart is coming.
+ */
+export function isWaitFailed(summary: ProcessSummary): boolean {
+	if (summary.crashLoop) return true;
+	return summary.status === "error" && summary.nextRestartAt === undefined;
+}
+
+/**
+ * Get the help text for `corsa ctl`.
+ */
+export function getCtlHelpText(): string {
+	return `
+corsa ctl - Control a running corsa instance from scripts
+
+Usage:
+  corsa ctl ls                       List processes with their status
+  corsa ctl start [names...]         Start processes (default: all)
+  corsa ctl stop [names...]          Stop processes (default: all)
+  corsa ctl restart [names...]       Restart processes (default: all)
+  corsa ctl logs <name> [-n N] [-f]  Print a process's logs
+  corsa ctl wait <names...>          Wait until processes are running
+
+Options:
+  -n, --lines <count>           Only print the last <count> log lines
+  -f, --follow                  Keep printing new log lines until Ctrl-C
+      --healthy                 Wait for passing health checks, not just running
+      --timeout <seconds>       Give up waiting after this long (default: ${DEFAULT_WAIT_TIMEOUT}, 0: never)
+      --json                    Print JSON (logs: one object per line)
+  -c, --config <path>           Config file to read the API port from
+
+Exit codes:
+  0  Success
+  1  The command failed, or a process crashed while waiting
+  2  Invalid arguments
+  3  corsa is not running (or mcp.enabled is off)
+  4  Timed out waiting
+
+Requires mcp.enabled = true in the running instance's config.
+`.trim();
+}
+
+/**
+ * Run `corsa ctl`.
+ * @param argv Arguments after `ctl`
+ * @param configPath Config file given before `ctl`
+ * @returns Exit code (see CTL_EXIT_CODES)
+ */
+export async function runCtl(
+	argv: string[],
+	configPath?: string,
+): Promise<number> {
+	if (argv.includes("--help") || argv.includes("-h")) {
+		console.log(getCtlHelpText());
+		return CTL_EXIT_CODES.ok;
+	}
+
+	let args: CtlArgs;
+	try {
+		args = parseCtlArgs(argv);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Error: ${message}`);
+		console.error("Run 'corsa ctl --help' for usage information.");
+		return CTL_EXIT_CODES.usage;
+	}
+
+	const api = await resolveApiConnection(args.configPath ?? configPath);
+	try {
+		switch (args.action) {
+			case "ls":
+				return await listProcesses(api, args);
+			case "start":
+			case "stop":
+			case "restart":
+				return await runBulkAction(api, args.action, args);
+			case "logs":
+				return await printLogs(api, args);
+			case "wait":
+				return await waitForProcesses(api, args);
+		}
+	} catch (error) {
+		if (!(await checkHealth(api))) {
+			console.error(
+				`Error: Cannot connect to corsa API at ${formatApiAddress(api)}. ` +
+					"Make sure corsa is running with mcp.enabled = true in your config.",
+			);
+			return CTL_EXIT_CODES.unreachable;
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Error: ${message}`);
+		return CTL_EXIT_CODES.failed;
+	}
+}
+
+async function listProcesses(
+	api: ApiConnection,
+	args: CtlArgs,
+): Promise<number> {
+	const processes = await apiRequest<ProcessSummary[]>(api, "/api/processes");
+
+	if (args.json) {
+		console.log(JSON.stringify(processes, null, 2));
+		return CTL_EXIT_CODES.ok;
+	}
+
+	const rows = processes.map((p) => [
+		p.name,
+		p.crashLoop ? "crash loop" : p.status,
+		p.healthStatus ?? "-",
+		p.pid?.toString() ?? "-",
+		p.uptime !== undefined ? formatUptime(Date.now() - p.uptime) : "-",
+	]);
+	const header = ["NAME", "STATUS", "HEALTH", "PID", "UPTIME"];
+	const widths = header.map((title, col) =>
+		Math.max(title.length, ...rows.map((row) => row[col]?.length ?? 0)),
+	);
+	for (const row of [header, ...rows]) {
+		console.log(
+			row
+				.map((cell, col) => cell.padEnd(widths[col] ?? 0))
+				.join("  ")
+				.trimEnd(),
+		);
+	}
+	return CTL_EXIT_CODES.ok;
+}
+
+async function runBulkAction(
+	api: ApiConnection,
+	action: "start" | "stop" | "restart",
+	args: CtlArgs,
+): Promise<number> {
+	const result = await apiRequest<{ message: string; processes: string[] }>(
+		api,
+		`/api/processes/${action}`,
+		"POST",
+		{ names: args.names.length > 0 ? args.names : undefined },
+	);
+
+	console.log(args.json ? JSON.stringify(result, null, 2) : result.message);
+	return CTL_EXIT_CODES.ok;
+}
+
+async function printLogs(api: ApiConnection, args: CtlArgs): Promise<number> {
+	const name = args.names[0] ?? "";
+	const path = `/api/processes/${encodeURIComponent(name)}/logs`;
+	if (args.follow) {
+		return followLogs(api, `${path}/stream`, args);
+	}
+
+	const response = await apiRequest<LogsResponse>(
+		api,
+		args.lines ? `${path}?lines=${args.lines}` : path,
+	);
+	for (let i = 0; i < response.logs.length; i++) {
+		printLogLine(response.logs[i] ?? "", response.timestamps[i] ?? 0, args);
+	}
+	return CTL_EXIT_CODES.ok;
+}
+
+/**
+ * Print a process's logs from its event stream until Ctrl-C. Reconnects from
+ * the last line printed when the stream ends (e.g. after a config reload).
+ */
+async function followLogs(
+	api: ApiConnection,
+	streamPath: string,
+	args: CtlArgs,
+): Promise<number> {
+	const abort = new AbortController();
+	process.once("SIGINT", () => abort.abort());
+
+	// Start with the requested lines, or everything still buffered
+	let query = args.lines ? `lines=${args.lines}` : "cursor=0";
+	// Replaced lines (progress bars) redraw the last line in a terminal;
+	// piped and JSON output keep the first version of the line
+	const redraw = process.stdout.isTTY && !args.json;
+	let lastCursor = -1;
+	let lastText = "";
+	while (!abort.signal.aborted) {
+		let response: Response;
+		try {
+			response = await fetch(`${api.url}${streamPath}?${query}`, {
+				...getFetchOptions(api),
+				signal: abort.signal,
+			});
+		} catch (error) {
+			if (abort.signal.aborted) break;
+			throw error;
+		}
+		if (!response.ok || !response.body) {
+			const json = (await response.json()) as { error?: string };
+			throw new Error(json.error ?? `Unexpected status ${response.status}`);
+		}
+
+		try {
+			for await (const event of readLogStream(response.body)) {
+				if (event.type === "status") continue;
+				if (event.type === "replace") {
+					if (!redraw || event.cursor !== lastCursor) continue;
+					clearLastLine(lastText);
+				}
+				printLogLine(event.text, event.timestamp, args);
+				lastCursor = event.cursor;
+				lastText = event.text;
+				query = `cursor=${event.cursor + 1}`;
+			}
+		} catch (error) {
+			if (abort.signal.aborted) break;
+			throw error;
+		}
+		await Bun.sleep(RECONNECT_DELAY);
+	}
+	return CTL_EXIT_CODES.ok;
+}
+
+/**
+ * Decode the events of a Server-Sent Events log stream.
+ */
+async function* readLogStream(
+	body: ReadableStream<Uint8Array>,
+): AsyncGenerator<LogStreamEvent> {
+	const decoder = new TextDecoder();
+	let buffer = "";
+	for await (const chunk of body) {
+		buffer += decoder.decode(chunk, { stream: true });
+		const blocks = buffer.split("\n\n");
+		buffer = blocks.pop() ?? "";
+		for (const block of blocks) {
+			const data = block
+				.split("\n")
+				.find((field) => field.startsWith("data: "));
+			if (data) {
+				yield JSON.parse(data.slice("data: ".length)) as LogStreamEvent;
+			}
+		}
+	}
+}
+
+/**
+ * Move the terminal cursor back to the start of the last printed line
+ * (including the rows it wrapped onto) and clear everything below.
+ */
+function clearLastLine(text: string): void {
+	const columns = process.stdout.columns || 80;
+	const rows = Math.max(1, Math.ceil(Bun.stringWidth(text) / columns));
+	process.stdout.write(`\x1b[${rows}A\r\x1b[J`);
+}
+
+function printLogLine(text: string, timestamp: number, args: CtlArgs): void {
+	console.log(args.json ? JSON.stringify({ timestamp, text }) : text);
+}
+
+async function waitForProcesses(
+	api: ApiConnection,
+	args: CtlArgs,
+): Promise<number> {
+	const deadline =
+		args.timeout > 0 ? Date.now() + args.timeout * 1000 : Infinity;
+	const target = args.healthy ? "healthy" : "running";
+
+	while (true) {
+		const processes = await Promise.all(
+			args.names.map((name) =>
+				apiRequest<ProcessSummary>(
+					api,
+					`/api/processes/${encodeURIComponent(name)}`,
+				),
+			),
+		);
+
+		const failed = processes.find(isWaitFailed);
+		if (failed) {
+			console.error(
+				`Error: ${failed.name} exited with code ${failed.exitCode ?? "unknown"}`,
+			);
+			return CTL_EXIT_CODES.failed;
+		}
+
+		if (processes.every((p) => isWaitSatisfied(p, args.healthy))) {
+			if (args.json) {
+				console.log(JSON.stringify(processes, null, 2));
+			} else {
+				console.log(`${args.names.join(", ")}: ${target}`);
+			}
+			return CTL_EXIT_CODES.ok;
+		}
+
+		if (Date.now() >= deadline) {
+			const pending = processes
+				.filter((p) => !isWaitSatisfied(p, args.healthy))
+				.map(
+					(p) =>
+						`${p.name} (${args.healthy ? (p.healthStatus ?? p.status) : p.status})`,
+				);
+			console.error(
+				`Error: Timed out after ${args.timeout}s waiting for ${pending.join(", ")} to be ${target}`,
+			);
+			return CTL_EXIT_CODES.timeout;
+		}
+
+		await Bun.sleep(POLL_INTERVAL);
+	}
+}
@@ -0,0 +1,335 @@
+/**
+ * Daemon commands - run the tools in the background and control them.
+ *
+ *   corsa up       Run the tools headless in the foreground
+ *   corsa up -d    Start the same daemon in the background and return
+ *   corsa down     Stop the daemon and its tools
+ *
+ * `corsa attach` (see index.tsx) connects the TUI to a running daemon.
+ */
+
+import { spawn } from "node:child_process";
+import { closeSync, openSync } from "node:fs";
+import {
+	ApiServer,
+	DEFAULT_MCP_PORT,
+	getApiSocketPath,
+	loadApiTokens,
+} from "../lib/api";
+import { type Config, loadConfig, resolveProfileTools } from "../lib/config";
+import {
+	DaemonServer,
+	getDaemonLogPath,
+	getDaemonSocketPath,
+	RemoteProcessManager,
+} from "../lib/daemon";
+import { HealthChecker } from "../lib/health";
+import { ProcessManager } from "../lib/processes";
+import type { ToolState } from "../types";
+
+/** Time to wait for a detached daemon to start listening (10 seconds) */
+const DAEMON_START_TIMEOUT = 10000;
+
+/** Time to wait for the daemon to stop its tools and exit (30 seconds) */
+const DAEMON_STOP_TIMEOUT = 30000;
+
+/** Polling interval while waiting for the daemon */
+const DAEMON_POLL_INTERVAL = 100;
+
+export interface UpOptions {
+	/** Path to the config file (default: corsa.config.toml) */
+	configPath?: string;
+	/** Start the daemon in the background (-d) */
+	detach: boolean;
+	/** Group of tools to start (--profile) */
+	profile?: string;
+}
+
+/**
+ * Check if a daemon is listening on a socket.
+ */
+export async function isDaemonRunning(socketPath: string): Promise<boolean> {
+	try {
+		const socket = await Bun.connect({
+			unix: socketPath,
+			socket: { data: () => {} },
+		});
+		socket.end();
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the command that runs this corsa executable.
+ * Compiled binaries run directly; in development the script runs under bun.
+ */
+function getSelfCommand(): string[] {
+	if (Bun.main.startsWith("/$bunfs/")) {
+		return [process.execPath];
+	}
+	return [process.execPath, Bun.main];
+}
+
+/**
+ * Run the up command.
+ */
+export async function runUp(options: UpOptions): Promise<void> {
+	const configPath = options.configPath ?? "corsa.config.toml";
+	const socketPath = getDaemonSocketPath(configPath);
+
+	if (await isDaemonRunning(socketPath)) {
+		console.error(`Error: corsa is already running for ${configPath}.`);
+		console.error(
+			"Run 'corsa attach' to open the dashboard or 'corsa down' to stop it.",
+		);
+		process.exit(1);
+	}
+
+	if (options.detach) {
+		await startDetached(configPath, socketPath, options.profile);
+	} else {
+		await runDaemon(configPath, socketPath, options.profile);
+	}
+}
+
+/**
+ * Start the daemon as a background process and wait until it is listening.
+ * Its own output goes to a log file next to the socket.
+ */
+async function startDetached(
+	configPath: string,
+	socketPath: string,
+	profile?: string,
+): Promise<void> {
+	const logPath = getDaemonLogPath(configPath);
+	const logFd = openSync(logPath, "a");
+	const [command = process.execPath, ...commandArgs] = getSelfCommand();
+	const child = spawn(
+		command,
+		[
+			...commandArgs,
+			"up",
+			"--config",
+			configPath,
+			...(profile ? ["--profile", profile] : []),
+		],
+		{ detached: true, stdio: ["ignore", logFd, logFd] },
+	);
+	child.unref();
+	closeSync(logFd);
+
+	const deadline = Date.now() + DAEMON_START_TIMEOUT;
+	while (Date.now() < deadline) {
+		if (await isDaemonRunning(socketPath)) {
+			console.log(`corsa is running in the background (pid ${child.pid}).`);
+			console.log("  corsa attach   Open the dashboard");
+			console.log("  corsa down     Stop all tools");
+			console.log(`  Daemon log:    ${logPath}`);
+			return;
+		}
+		if (child.exitCode !== null) break;
+		await Bun.sleep(DAEMON_POLL_INTERVAL);
+	}
+
+	console.error(`Error: corsa daemon did not start. See ${logPath}`);
+	process.exit(1);
+}
+
+/**
+ * Run the tools headless and serve them to attached clients until a client
+ * runs `corsa down` or the process receives SIGINT/SIGTERM/SIGHUP.
+ */
+async function runDaemon(
+	configPath: string,
+	socketPath: string,
+	profile?: string,
+): Promise<void> {
+	const { config, warnings } = await loadConfig(configPath);
+	for (const warning of warnings) {
+		console.error(`Config: ${warning}`);
+	}
+
+	if (config.tools.length === 0) {
+		console.error(
+			"No tools configured. Please add tools to your config file. Run `corsa init` to get started.",
+		);
+		process.exit(1);
+	}
+
+	if (profile && resolveProfileTools(config, profile) === null) {
+		console.error(`Error: Unknown profile '${profile}'.`);
+		process.exit(1);
+	}
+
+	const processManager = new ProcessManager(config.ui?.maxLogLines ?? 10000);
+	processManager.setConfigPath(configPath);
+	await processManager.initialize(config.tools, {
+		cleanupOrphans: config.processes?.cleanupOrphans ?? true,
+		logs: config.logs,
+		restartWithDependencies: config.processes?.restartWithDependencies,
+		groups: config.groups,
+	});
+
+	// Health checks decide when dependents may start
+	const healthChecker = new HealthChecker();
+	healthChecker.initialize(config.tools);
+	healthChecker.start();
+	processManager.onLogLine((_index, toolName, line) => {
+		healthChecker.handleLogLine(toolName, line);
+	});
+
+	// A started process must log its ready line again, even after a quick
+	// restart that never showed as stopped
+	processManager.onToolStart((index, toolName) => {
+		if (processManager.getTool(index)?.config.healthCheck?.logPattern) {
+			healthChecker.resetHealthState(toolName);
+		}
+	});
+
+	// Restarted processes aren't healthy until checked again (like the TUI does)
+	const previousStatuses = new Map<string, ToolState["status"]>();
+	processManager.subscribe("all", () => {
+		for (const tool of processManager.getTools()) {
+			const { name, healthCheck } = tool.config;
+			const previous = previousStatuses.get(name);
+			previousStatuses.set(name, tool.status);
+			if (!healthCheck || previous === tool.status) continue;
+
+			if (healthCheck.logPattern) {
+				// Log pattern probes aren't polled: exits make them unhealthy
+				if (previous === "running") {
+					healthChecker.markUnhealthy(name);
+				}
+			} else if (tool.status === "running") {
+				healthChecker.resetHealthState(name);
+				setTimeout(() => void healthChecker.checkNow(name), 1000);
+			}
+		}
+	});
+
+	const isToolReady = (toolName: string): boolean => {
+		const tool = processManager.getToolByName(toolName)?.tool;
+		if (!tool) return false;
+		if (tool.config.healthCheck) {
+			return healthChecker.getHealthState(toolName)?.status === "healthy";
+		}
+		return tool.status === "running";
+	};
+
+	// Start the tools of the profile (or all tools), skipping virtual tools
+	const startTools = (currentConfig: Config) => {
+		const profileTools = profile
+			? resolveProfileTools(currentConfig, profile)
+			: null;
+		const indices: number[] = [];
+		processManager.getTools().forEach((tool, i) => {
+			if (
+				tool.config.command &&
+				(!profileTools || profileTools.includes(tool.config.name))
+			) {
+				indices.push(i);
+			}
+		});
+		return processManager.startTools(indices, isToolReady);
+	};
+
+	// Serve the MCP API like the TUI does
+	let apiServer: ApiServer | null = null;
+	if (config.mcp?.enabled) {
+		const port = config.mcp.port ?? DEFAULT_MCP_PORT;
+		const apiToolIndex = processManager.createVirtualTool("MCP API");
+		apiServer = new ApiServer(processManager, port, apiToolIndex, {
+			host: config.mcp.host,
+			tokens: await loadApiTokens(configPath),
+			corsOrigins: config.mcp.corsOrigins,
+			socketPath: getApiSocketPath(configPath),
+		});
+		apiServer.setGetHealthStatus(
+			(toolName) => healthChecker.getHealthState(toolName)?.status ?? null,
+		);
+		const server = apiServer;
+		healthChecker.onChange((toolName, state) =>
+			server.notifyHealthChange(toolName, state.status),
+		);
+		apiServer.setOnConfigReload((newConfig) => {
+			healthChecker.stop();
+			healthChecker.initialize(newConfig.tools);
+			healthChecker.start();
+			void startTools(newConfig);
+		});
+		try {
+			await apiServer.start();
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			processManager.addLogToTool(
+				apiToolIndex,
+				`[ERROR] Failed to start MCP API server: ${message}`,
+			);
+		}
+	}
+
+	const server = new DaemonServer(processManager, socketPath, isToolReady);
+
+	let isShuttingDown = false;
+	const shutdown = async () => {
+		if (isShuttingDown) return;
+		isShuttingDown = true;
+		console.log("Stopping all tools...");
+		try {
+			apiServer?.stop();
+			healthChecker.stop();
+			// Stop the tools first so attached clients see them stop
+			await processManager.cleanup();
+			server.stop();
+		} catch {
+			// Ignore cleanup errors, but ensure we exit
+		}
+		process.exit(0);
+	};
+
+	server.setOnShutdown(() => void shutdown());
+	process.on("SIGINT", () => void shutdown());
+	process.on("SIGTERM", () => void shutdown());
+	process.on("SIGHUP", () => void shutdown());
+
+	server.start();
+	console.log(`corsa daemon listening on ${socketPath} (pid ${process.pid})`);
+
+	await startTools(config);
+}
+
+/**
+ * Run the down command: stop the daemon for the config file and its tools.
+ */
+export async function runDown(configPath?: string): Promise<void> {
+	const path = configPath ?? "corsa.config.toml";
+
+	let daemon: RemoteProcessManager;
+	try {
+		daemon = await RemoteProcessManager.connect(getDaemonSocketPath(path));
+	} catch {
+		console.error(`Error: corsa is not running for ${path}.`);
+		process.exit(1);
+	}
+
+	const disconnected = new Promise<void>((resolve) => {
+		daemon.setOnDisconnect(resolve);
+	});
+	console.log("Stopping corsa...");
+	await daemon.shutdownDaemon();
+
+	const timeout = Bun.sleep(DAEMON_STOP_TIMEOUT).then(() => {
+		throw new Error("Timed out waiting for corsa to stop");
+	});
+	try {
+		await Promise.race([disconnected, timeout]);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Error: ${message}`);
+		process.exit(1);
+	}
+	console.log("Stopped.");
+	process.exit(0);
+}
@@ -1,3 +1,5 @@
+export { runCtl } from "./ctl";
+export { isDaemonRunning, runDown, runUp } from "./daemon";
 export { runInit } from "./init";
 export { runMcp } from "./mcp";
 export { runUpdate } from "./update";
@@ -8,98 +8,26 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { DEFAULT_MCP_PORT } from "../lib/api";
-import { loadConfig } from "../lib/config";
-
-// Types for API responses
-interface ProcessSummary {
-	name: string;
-	description?: string;
-	status: "running" | "stopped" | "error" | "shuttingDown" | "waiting";
-	exitCode: number | null;
-	logCount: number;
-	pid?: number;
-	uptime?: number;
-	/** Health status if the tool has a health check configured */
-	healthStatus?: "starting" | "healthy" | "unhealthy";
-	/** Last 20 log lines (plain text) */
-	recentLogs?: string[];
-}
-
-interface LogsResponse {
-	name: string;
-	totalLines: number;
-	returnedLines: number;
-	logs: string[];
-}
-
-interface ApiResponse<T> {
-	ok: boolean;
-	data?: T;
-	error?: string;
-}
-
-/**
- * Make a request to the corsa HTTP API.
- */
-async function apiRequest<T>(
-	baseUrl: string,
-	path: string,
-	method: "GET" | "POST" = "GET",
-): Promise<T> {
-	const url = `${baseUrl}${path}`;
-
-	try {
-		const response = await fetch(url, { method });
-		const json = (await response.json()) as ApiResponse<T>;
-
-		if (!json.ok) {
-			throw new Error(json.error ?? "Unknown API error");
-		}
-
-		return json.data as T;
-	} catch (error) {
-		if (error instanceof TypeError && error.message.includes("fetch")) {
-			throw new Error(
-				`Cannot connect to corsa API at ${baseUrl}. ` +
-					"Make sure corsa is running with mcp.enabled = true in your config.",
-			);
-		}
-		throw error;
-	}
-}
-
-/**
- * Check if corsa API is reachable.
- */
-async function checkHealth(baseUrl: string): Promise<boolean> {
-	try {
-		await apiRequest<{ status: string }>(baseUrl, "/api/health");
-		return true;
-	} catch {
-		return false;
-	}
-}
+import {
+	apiRequest,
+	checkHealth,
+	formatApiAddress,
+	type HealthWaitResult,
+	type LogSearchResponse,
+	type LogsResponse,
+	type LogWaitResult,
+	type ProcessSummary,
+	resolveApiConnection,
+} from "../lib/api";
+import { formatFileReference } from "../lib/editor";
 
 /**
  * Run the MCP server.
  * @param configPath Optional path to config file to read MCP port from
  */
 export async function runMcp(configPath?: string): Promise<void> {
-	// Determine API URL from config or environment
-	let apiUrl = process.env.CORSA_API_URL;
-
-	if (!apiUrl) {
-		// Try to read port from config
-		try {
-			const { config } = await loadConfig(configPath ?? "corsa.config.toml");
-			const port = config.mcp?.port ?? DEFAULT_MCP_PORT;
-			apiUrl = `http://localhost:${port}`;
-		} catch {
-			// Config not found, use default
-			apiUrl = `http://localhost:${DEFAULT_MCP_PORT}`;
-		}
-	}
+	// Determine API URL and token from config or environment
+	const api = await resolveApiConnection(configPath);
 
 	// Create MCP server
 	const server = new McpServer({
@@ -122,7 +50,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 		{},
 		async () => {
 			const processes = await apiRequest<ProcessSummary[]>(
-				apiUrl,
+				api,
 				"/api/processes",
 			);
 
@@ -137,6 +65,18 @@ export async function runMcp(configPath?: string): Promise<void> {
 					const healthInfo = p.healthStatus
 						? ` [health: ${p.healthStatus}]`
 						: "";
+					let restartInfo = "";
+					if (p.crashLoop) {
+						restartInfo = ` [CRASH LOOP after ${p.restartCount} restarts]`;
+					} else if (p.nextRestartAt) {
+						const inSeconds = Math.max(
+							0,
+							Math.round((p.nextRestartAt - Date.now()) / 1000),
+						);
+						restartInfo = ` [restarting in ${inSeconds}s, restarts: ${p.restartCount}]`;
+					} else if (p.restartCount) {
+						restartInfo = ` [restarts: ${p.restartCount}]`;
+					}
 					const desc = p.description ? `\n  ${p.description}` : "";
 
 					// Format recent logs with indentation
@@ -152,7 +92,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 						logsSection = `${logsHeader}\n${logsText}`;
 					}
 
-					return `- ${p.name}: ${status}${exitInfo}${pidInfo}${uptimeInfo}${healthInfo} (${p.logCount} lines)${desc}${logsSection}`;
+					return `- ${p.name}: ${status}${exitInfo}${pidInfo}${uptimeInfo}${healthInfo}${restartInfo} (${p.logCount} lines)${desc}${logsSection}`;
 				})
 				.join("\n\n");
 
@@ -172,7 +112,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 		"get_logs",
 		"Get recent log output from a development process. " +
 			"Use this to debug errors, see stack traces, check server startup messages, or find specific log entries. " +
-			"Supports search filtering with substring (exact) or fuzzy matching.",
+			"Supports search filtering with substring (exact), fuzzy or regular expression matching, and a minimum log level.",
 		{
 			name: z.string().describe("Name of the process to get logs from"),
 			lines: z
@@ -181,39 +121,338 @@ export async function runMcp(configPath?: string): Promise<void> {
 				.describe("Number of recent lines to return (default: 100)"),
 			search: z.string().optional().describe("Search query to filter logs"),
 			searchType: z
-				.enum(["substring", "fuzzy"])
+				.enum(["substring", "fuzzy", "regex"])
 				.optional()
 				.describe(
-					"Search type: 'substring' for exact match, 'fuzzy' for fuzzy matching (default: substring)",
+					"Search type: 'substring' for exact match, 'fuzzy' for fuzzy matching, " +
+						"'regex' for a JavaScript regular expression (default: substring)",
+				),
+			caseSensitive: z
+				.boolean()
+				.optional()
+				.describe("Regex search: match letter case exactly (default: false)"),
+			wholeWord: z
+				.boolean()
+				.optional()
+				.describe("Regex search: only match whole words (default: false)"),
+			level: z
+				.enum(["debug", "info", "warn", "error"])
+				.optional()
+				.describe(
+					"Only return lines of this level and above, e.g. 'warn' for warnings and errors. " +
+						"Lines without a detected level count as 'info'",
 				),
 		},
-		async ({ name, lines = 100, search, searchType = "substring" }) => {
+		async ({
+			name,
+			lines = 100,
+			search,
+			searchType = "substring",
+			caseSensitive,
+			wholeWord,
+			level,
+		}) => {
 			const params = new URLSearchParams();
 			params.set("lines", String(lines));
+			params.set("fileReferences", "true");
 			if (search) {
 				params.set("search", search);
 				params.set("searchType", searchType);
+				if (caseSensitive) params.set("caseSensitive", "true");
+				if (wholeWord) params.set("wholeWord", "true");
+			}
+			if (level) {
+				params.set("level", level);
 			}
 
 			const response = await apiRequest<LogsResponse>(
-				apiUrl,
+				api,
 				`/api/processes/${encodeURIComponent(name)}/logs?${params}`,
 			);
 
 			const header = `=== Logs for ${name} (${response.returnedLines}/${response.totalLines} lines) ===`;
 			const logs = response.logs.join("\n");
 
+			// List the files mentioned in the logs with absolute paths, once each
+			const references = [
+				...new Set((response.fileReferences ?? []).map(formatFileReference)),
+			];
+			const referencesText =
+				references.length > 0
+					? `\n\n=== File references ===\n${references.join("\n")}`
+					: "";
+
+			return {
+				content: [
+					{
+						type: "text",
+						text: logs
+							? `${header}\n${logs}${referencesText}`
+							: `${header}\n(no logs)`,
+					},
+				],
+			};
+		},
+	);
+
+	// search_all_logs - Search the logs of every process at once
+	server.tool(
+		"search_all_logs",
+		"Search the logs of all processes (or the given ones) at once, e.g. to find which service logged an error. " +
+			"Returns matching lines in the order they were logged, with the lines around them.",
+		{
+			query: z.string().describe("Search query"),
+			searchType: z
+				.enum(["substring", "fuzzy", "regex"])
+				.optional()
+				.describe(
+					"Search type: 'substring' for exact match (case-insensitive), 'fuzzy' for fuzzy matching, " +
+						"'regex' for a JavaScript regular expression (default: substring)",
+				),
+			caseSensitive: z
+				.boolean()
+				.optional()
+				.describe("Regex search: match letter case exactly (default: false)"),
+			wholeWord: z
+				.boolean()
+				.optional()
+				.describe("Regex search: only match whole words (default: false)"),
+			tools: z
+				.array(z.string())
+				.optional()
+				.describe("Names of the processes to search (default: all)"),
+			context: z
+				.number()
+				.optional()
+				.describe("Lines before and after each match to include (default: 2)"),
+			limit: z
+				.number()
+				.optional()
+				.describe(
+					"Maximum number of matches, keeping the most recent (default: 100)",
+				),
+		},
+		async ({
+			query,
+			searchType = "substring",
+			caseSensitive,
+			wholeWord,
+			tools,
+			context,
+			limit,
+		}) => {
+			const params = new URLSearchParams();
+			params.set("q", query);
+			params.set("searchType", searchType);
+			if (caseSensitive) params.set("caseSensitive", "true");
+			if (wholeWord) params.set("wholeWord", "true");
+			if (tools?.length) params.set("tools", tools.join(","));
+			if (context !== undefined) params.set("context", String(context));
+			if (limit !== undefined) params.set("limit", String(limit));
+
+			const result = await apiRequest<LogSearchResponse>(
+				api,
+				`/api/logs/search?${params}`,
+			);
+
+			const header = `=== ${result.returnedMatches}/${result.totalMatches} matches for "${query}" ===`;
+			const matches = result.matches.map((match) =>
+				[
+					`--- ${match.tool} (line ${match.lineIndex + 1}) ---`,
+					...match.before.map((line) => `  ${line}`),
+					`> ${match.text}`,
+					...match.after.map((line) => `  ${line}`),
+				].join("\n"),
+			);
+
+			return {
+				content: [
+					{
+						type: "text",
+						text: matches.length
+							? `${header}\n${matches.join("\n")}`
+							: `${header}\n(no matches)`,
+					},
+				],
+			};
+		},
+	);
+
+	// wait_for_log - Block until a log line matches a pattern
+	server.tool(
+		"wait_for_log",
+		"Wait until a process prints a line matching a regular expression, e.g. after starting or " +
+			"restarting it. Returns the matching line with the lines before it. Ends early if the process crashes.",
+		{
+			name: z.string().describe("Name of the process"),
+			pattern: z
+				.string()
+				.describe(
+					"JavaScript regular expression to match, e.g. 'listening on|ready'",
+				),
+			timeout: z
+				.number()
+				.optional()
+				.describe("Seconds to wait before giving up (default: 30)"),
+			sinceSeconds: z
+				.number()
+				.optional()
+				.describe(
+					"Also match lines printed up to this many seconds ago, so lines printed right after a restart aren't missed (default: only new lines)",
+				),
+			context: z
+				.number()
+				.optional()
+				.describe("Number of lines before the match to return (default: 5)"),
+		},
+		async ({ name, pattern, timeout = 30, sinceSeconds, context }) => {
+			const params = new URLSearchParams();
+			params.set("pattern", pattern);
+			params.set("timeout", String(timeout * 1000));
+			if (sinceSeconds !== undefined) {
+				params.set("since", String(Date.now() - sinceSeconds * 1000));
+			}
+			if (context !== undefined) {
+				params.set("context", String(context));
+			}
+
+			const result = await apiRequest<LogWaitResult>(
+				api,
+				`/api/processes/${encodeURIComponent(name)}/logs/wait?${params}`,
+			);
+
+			if (!result.matched) {
+				const status = `status: ${result.status}${result.exitCode != null ? `, exit code ${result.exitCode}` : ""}`;
+				const text =
+					result.reason === "timeout"
+						? `Timed out after ${timeout}s waiting for /${pattern}/ in ${name} (${status})`
+						: `${name} ${result.reason === "exited" ? "crashed" : "was removed"} before a line matched /${pattern}/ (${status})`;
+				return { content: [{ type: "text", text }] };
+			}
+
+			const lines = [...(result.context ?? []), `> ${result.line}`];
 			return {
 				content: [
 					{
 						type: "text",
-						text: logs ? `${header}\n${logs}` : `${header}\n(no logs)`,
+						text: `=== Matched /${pattern}/ in ${name} ===\n${lines.join("\n")}`,
 					},
 				],
 			};
 		},
 	);
 
+	// wait_for_healthy - Block until a health check passes
+	server.tool(
+		"wait_for_healthy",
+		"Wait until a process's health check passes (or until it is running, if it has no health check), " +
+			"e.g. after starting or restarting it. Ends early if the process crashes.",
+		{
+			name: z.string().describe("Name of the process"),
+			timeout: z
+				.number()
+				.optional()
+				.describe("Seconds to wait before giving up (default: 30)"),
+		},
+		async ({ name, timeout = 30 }) => {
+			const result = await apiRequest<HealthWaitResult>(
+				api,
+				`/api/processes/${encodeURIComponent(name)}/health/wait?timeout=${timeout * 1000}`,
+			);
+
+			const status = [
+				`status: ${result.status}`,
+				result.healthStatus && `health: ${result.healthStatus}`,
+				result.exitCode != null && `exit code ${result.exitCode}`,
+			]
+				.filter(Boolean)
+				.join(", ");
+			const text = result.healthy
+				? `${name} is healthy (${status})`
+				: result.reason === "timeout"
+					? `Timed out after ${timeout}s waiting for ${name} to become healthy (${status})`
+					: `${name} ${result.reason === "exited" ? "crashed" : "was removed"} before becoming healthy (${status})`;
+			return { content: [{ type: "text", text }] };
+		},
+	);
+
+	// start_process - Start a stopped process
+	server.tool(
+		"start_process",
+		"Start a stopped development process",
+		{
+			name: z.string().describe("Name of the process to start"),
+		},
+		async ({ name }) => {
+			const result = await apiRequest<{ message: string }>(
+				api,
+				`/api/processes/${encodeURIComponent(name)}/start`,
+				"POST",
+			);
+
+			return {
+				content: [{ type: "text", text: result.message }],
+			};
+		},
+	);
+
+	// start_processes / stop_processes / restart_processes - Bulk actions in dependency order
+	const bulkActions = [
+		{
+			action: "start",
+			description:
+				"Start several processes (or all, if no names or group are given) in dependency order. " +
+				"Processes wait for the processes they depend on to be ready before starting.",
+		},
+		{
+			action: "stop",
+			description:
+				"Stop several processes (or all, if no names or group are given). " +
+				"Dependents are stopped before the processes they depend on.",
+		},
+		{
+			action: "restart",
+			description:
+				"Restart several processes (or all, if no names or group are given) respecting dependency order. " +
+				"Use after changes that affect multiple services.",
+		},
+	] as const;
+
+	for (const { action, description } of bulkActions) {
+		server.tool(
+			`${action}_processes`,
+			description,
+			{
+				names: z
+					.array(z.string())
+					.optional()
+					.describe("Names of the processes (default: all processes)"),
+				group: z
+					.string()
+					.optional()
+					.describe(
+						"Name of a group from the config, instead of names; includes the processes it depends on",
+					),
+			},
+			async ({ names, group }) => {
+				const result = await apiRequest<{
+					message: string;
+					processes: string[];
+				}>(api, `/api/processes/${action}`, "POST", { names, group });
+
+				const list = result.processes.map((p) => `- ${p}`).join("\n");
+				return {
+					content: [
+						{
+							type: "text",
+							text: list ? `${result.message}:\n${list}` : result.message,
+						},
+					],
+				};
+			},
+		);
+	}
+
 	// stop_process - Stop a running process
 	server.tool(
 		"stop_process",
@@ -223,7 +462,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 		},
 		async ({ name }) => {
 			const result = await apiRequest<{ message: string }>(
-				apiUrl,
+				api,
 				`/api/processes/${encodeURIComponent(name)}/stop`,
 				"POST",
 			);
@@ -244,7 +483,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 		},
 		async ({ name }) => {
 			const result = await apiRequest<{ message: string }>(
-				apiUrl,
+				api,
 				`/api/processes/${encodeURIComponent(name)}/restart`,
 				"POST",
 			);
@@ -264,7 +503,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 		},
 		async ({ name }) => {
 			const result = await apiRequest<{ message: string }>(
-				apiUrl,
+				api,
 				`/api/processes/${encodeURIComponent(name)}/clear`,
 				"POST",
 			);
@@ -275,6 +514,33 @@ export async function runMcp(configPath?: string): Promise<void> {
 		},
 	);
 
+	// send_input - Write to a process's stdin
+	server.tool(
+		"send_input",
+		"Send input to a running process's stdin, e.g. to answer a prompt or type 'rs' into nodemon. " +
+			"The input is submitted as a line unless newline is false.",
+		{
+			name: z.string().describe("Name of the process to send input to"),
+			input: z.string().describe("Text to write to stdin"),
+			newline: z
+				.boolean()
+				.optional()
+				.describe("Append a newline to submit the input (default: true)"),
+		},
+		async ({ name, input, newline }) => {
+			const result = await apiRequest<{ message: string }>(
+				api,
+				`/api/processes/${encodeURIComponent(name)}/input`,
+				"POST",
+				{ input, newline },
+			);
+
+			return {
+				content: [{ type: "text", text: result.message }],
+			};
+		},
+	);
+
 	// reload_config - Reload the configuration file and restart all processes
 	server.tool(
 		"reload_config",
@@ -287,7 +553,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 				message: string;
 				tools: string[];
 				warnings: string[];
-			}>(apiUrl, "/api/reload", "POST");
+			}>(api, "/api/reload", "POST");
 
 			let text = result.message;
 
@@ -313,7 +579,7 @@ export async function runMcp(configPath?: string): Promise<void> {
 		"List of all processes managed by corsa",
 		async () => {
 			const processes = await apiRequest<ProcessSummary[]>(
-				apiUrl,
+				api,
 				"/api/processes",
 			);
 
@@ -330,9 +596,11 @@ export async function runMcp(configPath?: string): Promise<void> {
 	);
 
 	// Check if corsa is reachable
-	const healthy = await checkHealth(apiUrl);
+	const healthy = await checkHealth(api);
 	if (!healthy) {
-		console.error(`Warning: Cannot connect to corsa API at ${apiUrl}`);
+		console.error(
+			`Warning: Cannot connect to corsa API at ${formatApiAddress(api)}`,
+		);
 		console.error(
 			"Make sure corsa is running with mcp.enabled = true in your config.",
 		);
@@ -16,10 +16,21 @@ const KEYBOARD_SHORTCUTS = [
 	{ key: "j/k", description: "Switch tabs (vertical layout)" },
 	{ key: "h/l", description: "Switch tabs (horizontal layout)" },
 	{ key: "1-9", description: "Jump to tab by number" },
+	{ key: "a", description: "Jump to All logs tab" },
+	{ key: "Tab", description: "Focus next split pane" },
 	{ key: "/", description: "Search logs" },
 	{ key: "Ctrl+F", description: "Toggle fuzzy search (in search)" },
+	{ key: "Ctrl+R", description: "Toggle regex search (in search)" },
+	{ key: "Alt+C", description: "Toggle case-sensitive regex (in search)" },
+	{ key: "Alt+W", description: "Toggle whole-word regex (in search)" },
 	{ key: "Ctrl+H", description: "Toggle filter mode (in search)" },
+	{ key: "v", description: "Cycle level filter (all/info+/warn+/error)" },
+	{ key: "Ctrl+L", description: "Cycle level filter (in search)" },
+	{ key: "i", description: "Send input to the running process" },
+	{ key: "Ctrl+]", description: "Stop typing into a terminal (pty tools)" },
 	{ key: "w", description: "Toggle line wrapping" },
+	{ key: "t", description: "Cycle timestamps (off/absolute/relative)" },
+	{ key: "f", description: "Show/hide structured log fields" },
 	{ key: "Esc", description: "Cancel/clear" },
 	{ key: "q", description: "Quit" },
 	{ key: "Ctrl+C", description: "Force quit" },
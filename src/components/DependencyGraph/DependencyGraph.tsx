@@ -0,0 +1,349 @@
+import { type ScrollBoxRenderable, TextAttributes } from "@opentui/core";
+import { useKeyboard, useTerminalDimensions } from "@opentui/react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { StatusIcons } from "../../constants";
+import type { HealthStateMap } from "../../lib/health";
+import { useTheme } from "../../lib/theme";
+import type { ToolState } from "../../types";
+import {
+	buildGraphLevels,
+	type GraphEdge,
+	type GraphNode,
+} from "./dependency-graph-utils";
+
+interface DependencyGraphProps {
+	/** Whether the graph is open */
+	isOpen: boolean;
+	/** Called when the graph should close */
+	onClose: () => void;
+	tools: ToolState[];
+	healthStates: HealthStateMap;
+	/** Called with the tool index when a tool is chosen (Enter or click) */
+	onToolSelect: (toolIndex: number) => void;
+}
+
+/** One rendered line of the graph */
+type GraphRow =
+	| { kind: "level"; level: number }
+	| { kind: "node"; node: GraphNode; nodeIndex: number }
+	| { kind: "edge"; edge: GraphEdge; last: boolean }
+	| { kind: "connector"; text: string };
+
+/**
+ * Modal showing the tools as a graph of dependency levels.
+ * Each tool shows its live status and health, with an edge to each of its
+ * dependencies; for "waiting" tools the dependencies that aren't ready yet
+ * are highlighted. Enter jumps to the selected tool's tab.
+ */
+export function DependencyGraph({
+	isOpen,
+	onClose,
+	tools,
+	healthStates,
+	onToolSelect,
+}: DependencyGraphProps) {
+	const { theme } = useTheme();
+	const { colors } = theme;
+	const { width: terminalWidth, height: terminalHeight } =
+		useTerminalDimensions();
+
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const scrollboxRef = useRef<ScrollBoxRenderable>(null);
+
+	const levels = useMemo(
+		() => buildGraphLevels(tools, healthStates),
+		[tools, healthStates],
+	);
+
+	// Flatten the levels into lines, with connectors between levels
+	const { rows, nodeRows } = useMemo(() => {
+		const rows: GraphRow[] = [];
+		const nodeRows: number[] = [];
+		levels.forEach(({ level, nodes }, i) => {
+			if (i > 0) {
+				rows.push({ kind: "connector", text: "  │" });
+				rows.push({ kind: "connector", text: "  ▼" });
+			}
+			rows.push({ kind: "level", level });
+			for (const node of nodes) {
+				nodeRows.push(rows.length);
+				rows.push({ kind: "node", node, nodeIndex: nodeRows.length - 1 });
+				node.dependencies.forEach((edge, j) => {
+					rows.push({
+						kind: "edge",
+						edge,
+						last: j === node.dependencies.length - 1,
+					});
+				});
+			}
+		});
+		return { rows, nodeRows };
+	}, [levels]);
+
+	// Calculate modal dimensions
+	const modalWidth = Math.min(60, terminalWidth - 4);
+	const maxListHeight = Math.max(1, Math.min(rows.length, terminalHeight - 6));
+
+	// Start at the top each time the graph opens
+	useEffect(() => {
+		if (isOpen) {
+			setSelectedIndex(0);
+		}
+	}, [isOpen]);
+
+	// Scroll to keep the selected tool and its edges visible
+	const scrollToSelected = useCallback(
+		(index: number) => {
+			const scrollbox = scrollboxRef.current;
+			const row = nodeRows[index];
+			if (!scrollbox || row === undefined) return;
+
+			const viewportHeight = scrollbox.viewport.height;
+			const scrollTop = scrollbox.scrollTop;
+			const nextRow = nodeRows[index + 1] ?? rows.length;
+			const lastRow = Math.min(nextRow - 1, row + viewportHeight - 1);
+
+			if (row < scrollTop) {
+				// Show the level header above the first tool of a level
+				scrollbox.scrollTo(rows[row - 1]?.kind === "level" ? row - 1 : row);
+			} else if (lastRow >= scrollTop + viewportHeight) {
+				scrollbox.scrollTo(lastRow - viewportHeight + 1);
+			}
+		},
+		[nodeRows, rows],
+	);
+
+	const handleNavigate = useCallback(
+		(newIndex: number) => {
+			const count = nodeRows.length;
+			if (count === 0) return;
+			const wrappedIndex = (newIndex + count) % count;
+			setSelectedIndex(wrappedIndex);
+			scrollToSelected(wrappedIndex);
+		},
+		[nodeRows.length, scrollToSelected],
+	);
+
+	const selectNode = useCallback(
+		(node: GraphNode) => {
+			onToolSelect(node.index);
+			onClose();
+		},
+		[onToolSelect, onClose],
+	);
+
+	// Handle keyboard input
+	useKeyboard((key) => {
+		if (!isOpen) return;
+
+		if (key.name === "escape" || (key.ctrl && key.name === "c")) {
+			key.preventDefault?.();
+			key.stopPropagation?.();
+			onClose();
+			return;
+		}
+
+		if (key.name === "return") {
+			const row = rows[nodeRows[selectedIndex] ?? -1];
+			if (row?.kind === "node") {
+				selectNode(row.node);
+			}
+			return;
+		}
+
+		if (key.name === "up" || key.name === "k") {
+			handleNavigate(selectedIndex - 1);
+			return;
+		}
+
+		if (key.name === "down" || key.name === "j") {
+			handleNavigate(selectedIndex + 1);
+			return;
+		}
+	});
+
+	if (!isOpen) {
+		return null;
+	}
+
+	const getStatusIconAndColor = (tool: ToolState) => {
+		if (tool.crashLoop) {
+			return { icon: StatusIcons.CRASH_LOOP, color: colors.error };
+		}
+		if (tool.nextRestartAt) {
+			return { icon: StatusIcons.RESTARTING, color: colors.warning };
+		}
+		switch (tool.status) {
+			case "running":
+				return { icon: StatusIcons.RUNNING, color: colors.success };
+			case "shuttingDown":
+				return { icon: StatusIcons.WARNING, color: colors.warning };
+			case "error":
+				return { icon: StatusIcons.ERROR, color: colors.error };
+			case "waiting":
+				return { icon: StatusIcons.WAITING, color: colors.warning };
+			default:
+				return { icon: StatusIcons.STOPPED, color: colors.textMuted };
+		}
+	};
+
+	// Status shown after the tool name - "waiting" and restart state take precedence over health
+	const getNodeSummary = (node: GraphNode) => {
+		const { tool, health } = node;
+		if (tool.crashLoop) {
+			return { text: "crash loop", color: colors.error };
+		}
+		if (tool.nextRestartAt) {
+			return { text: "restarting", color: colors.warning };
+		}
+		if (tool.status === "waiting") {
+			const blocking = node.dependencies.filter((edge) => edge.blocking);
+			return {
+				text:
+					blocking.length > 0
+						? `waiting on ${blocking.map((edge) => edge.name).join(", ")}`
+						: "waiting",
+				color: colors.warning,
+			};
+		}
+		if (health === "healthy") {
+			return { text: "✓ healthy", color: colors.success };
+		}
+		if (health === "unhealthy") {
+			return { text: "✗ unhealthy", color: colors.error };
+		}
+		if (health === "starting") {
+			return { text: "starting", color: colors.warning };
+		}
+		return null;
+	};
+
+	const renderRow = (row: GraphRow, rowIndex: number) => {
+		switch (row.kind) {
+			case "level":
+				return (
+					<box key={rowIndex} height={1} paddingLeft={1}>
+						<text fg={colors.textMuted} attributes={TextAttributes.BOLD}>
+							Level {row.level}
+							{row.level === 0 ? " · no dependencies" : ""}
+						</text>
+					</box>
+				);
+			case "connector":
+				return (
+					<box key={rowIndex} height={1} paddingLeft={1}>
+						<text fg={colors.textMuted}>{row.text}</text>
+					</box>
+				);
+			case "node": {
+				const { node, nodeIndex } = row;
+				const isSelected = nodeIndex === selectedIndex;
+				const { icon, color } = getStatusIconAndColor(node.tool);
+				const summary = getNodeSummary(node);
+				return (
+					<box
+						key={rowIndex}
+						height={1}
+						paddingLeft={1}
+						paddingRight={1}
+						flexDirection="row"
+						justifyContent="space-between"
+						backgroundColor={isSelected ? colors.surface1 : colors.surface2}
+						{...({
+							onMouseDown: () => selectNode(node),
+						} as Record<string, unknown>)}
+					>
+						<text fg={colors.text}>
+							{"  "}
+							<span fg={color}>{icon}</span>{" "}
+							<span attributes={TextAttributes.BOLD}>
+								{node.tool.config.name}
+							</span>
+						</text>
+						{summary && <text fg={summary.color}>{summary.text}</text>}
+					</box>
+				);
+			}
+			case "edge": {
+				const { edge, last } = row;
+				const branch = last ? "└─" : "├─";
+				return (
+					<box key={rowIndex} height={1} paddingLeft={1}>
+						<text fg={colors.textMuted}>
+							{`    ${branch} needs `}
+							<span
+								fg={edge.blocking ? colors.warning : colors.text}
+								attributes={edge.blocking ? TextAttributes.BOLD : 0}
+							>
+								{edge.name}
+							</span>
+							{edge.ready ? (
+								<span fg={colors.success}> ✓</span>
+							) : edge.blocking ? (
+								<span fg={colors.warning}> ◀ blocked</span>
+							) : (
+								<span fg={colors.textMuted}> · not ready</span>
+							)}
+						</text>
+					</box>
+				);
+			}
+		}
+	};
+
+	return (
+		<box
+			position="absolute"
+			top={0}
+			left={0}
+			width="100%"
+			height="100%"
+			justifyContent="center"
+			alignItems="center"
+			zIndex={2000}
+		>
+			{/* Modal container */}
+			<box
+				width={modalWidth}
+				flexDirection="column"
+				backgroundColor={colors.surface2}
+			>
+				{/* Header */}
+				<box
+					paddingLeft={1}
+					paddingRight={1}
+					backgroundColor={colors.accent}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text attributes={TextAttributes.BOLD} fg={colors.accentForeground}>
+						Dependency graph
+					</text>
+					<text
+						fg={colors.accentForeground}
+						attributes={TextAttributes.BOLD}
+						{...({
+							onMouseDown: onClose,
+						} as Record<string, unknown>)}
+					>
+						x
+					</text>
+				</box>
+
+				{/* Levels */}
+				<scrollbox
+					ref={scrollboxRef}
+					height={maxListHeight}
+					backgroundColor={colors.surface2}
+				>
+					{rows.map(renderRow)}
+				</scrollbox>
+
+				{/* Footer hint */}
+				<box paddingLeft={1} paddingRight={1} backgroundColor={colors.surface1}>
+					<text fg={colors.textDim}>Enter: go to tool | Esc: close</text>
+				</box>
+			</box>
+		</box>
+	);
+}
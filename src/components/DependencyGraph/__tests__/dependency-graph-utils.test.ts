@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import type { HealthStateMap } from "../../../lib/health";
+import type { ToolConfig, ToolState } from "../../../types";
+import { buildGraphLevels } from "../dependency-graph-utils";
+
+function createMockTool(
+	config: Partial<ToolConfig> & { name: string },
+	status: ToolState["status"] = "stopped",
+): ToolState {
+	return {
+		config: { command: "start", ...config },
+		process: null,
+		logs: [],
+		status,
+		exitCode: null,
+		logTrimCount: 0,
+		logVersion: 0,
+	};
+}
+
+describe("buildGraphLevels", () => {
+	test("groups tools by dependency level", () => {
+		const tools = [
+			createMockTool({ name: "web", dependsOn: ["api"] }),
+			createMockTool({ name: "api", dependsOn: ["db"] }),
+			createMockTool({ name: "db" }),
+			createMockTool({ name: "docs" }),
+		];
+
+		const levels = buildGraphLevels(tools, new Map());
+
+		expect(
+			levels.map(({ level, nodes }) => ({
+				level,
+				names: nodes.map((node) => node.tool.config.name),
+			})),
+		).toEqual([
+			{ level: 0, names: ["db", "docs"] },
+			{ level: 1, names: ["api"] },
+			{ level: 2, names: ["web"] },
+		]);
+		expect(levels[1]?.nodes[0]?.index).toBe(1);
+	});
+
+	test("marks the dependencies a waiting tool is blocked on", () => {
+		const tools = [
+			createMockTool(
+				{ name: "db", healthCheck: { url: "http://db" } },
+				"running",
+			),
+			createMockTool({ name: "cache" }, "running"),
+			createMockTool({ name: "api", dependsOn: ["db", "cache"] }, "waiting"),
+		];
+		const healthStates: HealthStateMap = new Map([
+			["db", { status: "starting", failureCount: 0 }],
+		]);
+
+		const [, level1] = buildGraphLevels(tools, healthStates);
+		const api = level1?.nodes[0];
+
+		expect(api?.dependencies).toEqual([
+			{ name: "db", ready: false, blocking: true },
+			{ name: "cache", ready: true, blocking: false },
+		]);
+		expect(buildGraphLevels(tools, healthStates)[0]?.nodes[0]?.health).toBe(
+			"starting",
+		);
+	});
+
+	test("only waiting tools are blocked and virtual tools are left out", () => {
+		const tools = [
+			createMockTool({ name: "db" }),
+			createMockTool({ name: "api", dependsOn: ["db"] }),
+			createMockTool({ name: "MCP API", command: "" }),
+		];
+
+		const levels = buildGraphLevels(tools, new Map());
+
+		expect(levels[0]?.nodes.map((node) => node.tool.config.name)).toEqual([
+			"db",
+		]);
+		expect(levels[1]?.nodes[0]?.dependencies).toEqual([
+			{ name: "db", ready: false, blocking: false },
+		]);
+	});
+});
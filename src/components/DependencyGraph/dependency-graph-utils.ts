@@ -0,0 +1,99 @@
+import type { HealthStateMap } from "../../lib/health";
+import { getValidDependencies, resolveDependencies } from "../../lib/processes";
+import type { HealthStatus, ToolState } from "../../types";
+
+/** Edge from a tool to one of its dependencies */
+export interface GraphEdge {
+	/** Name of the dependency */
+	name: string;
+	/** Whether the dependency is ready (healthy, or running without a health check) */
+	ready: boolean;
+	/** Whether the tool is "waiting" and this dependency is what blocks it */
+	blocking: boolean;
+}
+
+/** A tool in the dependency graph */
+export interface GraphNode {
+	/** Index of the tool (tab order) */
+	index: number;
+	tool: ToolState;
+	/** Health check status, if the tool has a health check */
+	health?: HealthStatus;
+	dependencies: GraphEdge[];
+}
+
+/** Tools that start together (see resolveDependencies) */
+export interface GraphLevel {
+	level: number;
+	nodes: GraphNode[];
+}
+
+/**
+ * Check if a tool is ready for its dependents: healthy if it has a health
+ * check, otherwise running.
+ */
+export function isToolReadyForDependents(
+	tool: ToolState | undefined,
+	healthStates: HealthStateMap,
+): boolean {
+	if (!tool) return false;
+	if (tool.config.healthCheck) {
+		return healthStates.get(tool.config.name)?.status === "healthy";
+	}
+	return tool.status === "running";
+}
+
+/**
+ * Group tools into dependency levels with their live dependency edges.
+ * Virtual tools (no command) are left out.
+ */
+export function buildGraphLevels(
+	tools: ToolState[],
+	healthStates: HealthStateMap,
+): GraphLevel[] {
+	const entries = tools
+		.map((tool, index) => ({ tool, index }))
+		.filter(({ tool }) => tool.config.command);
+	const byName = new Map(
+		entries.map((entry) => [entry.tool.config.name, entry]),
+	);
+	const toolNames = new Set(byName.keys());
+
+	const { levels } = resolveDependencies(
+		entries.map(({ tool }) => tool.config),
+	);
+
+	return levels
+		.map((configs, level) => ({
+			level,
+			nodes: configs.flatMap((config) => {
+				const entry = byName.get(config.name);
+				if (!entry) return [];
+				const { tool, index } = entry;
+				const dependencies = getValidDependencies(config, toolNames).map(
+					(name) => {
+						const ready = isToolReadyForDependents(
+							byName.get(name)?.tool,
+							healthStates,
+						);
+						return {
+							name,
+							ready,
+							blocking: tool.status === "waiting" && !ready,
+						};
+					},
+				);
+				return [
+					{
+						index,
+						tool,
+						health: config.healthCheck
+							? healthStates.get(config.name)?.status
+							: undefined,
+						dependencies,
+					},
+				];
+			}),
+		}))
+		.filter(({ nodes }) => nodes.length > 0);
+}
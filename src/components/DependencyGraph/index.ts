@@ -0,0 +1,10 @@
+export { DependencyGraph } from "./DependencyGraph";
+export type {
+	GraphEdge,
+	GraphLevel,
+	GraphNode,
+} from "./dependency-graph-utils";
+export {
+	buildGraphLevels,
+	isToolReadyForDependents,
+} from "./dependency-graph-utils";
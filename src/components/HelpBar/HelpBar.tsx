@@ -1,6 +1,12 @@
 import type { Theme } from "../../lib/theme";
 
-export type HelpBarMode = "normal" | "search" | "commandPalette" | "shortcuts";
+export type HelpBarMode =
+	| "normal"
+	| "search"
+	| "input"
+	| "terminal"
+	| "commandPalette"
+	| "shortcuts";
 
 interface HelpBarProps {
 	theme: Theme;
@@ -33,6 +39,12 @@ function getHintsForMode(mode: HelpBarMode): HintItem[] {
 					action: "fuzzy",
 					compactAction: "fzy",
 				},
+				{
+					key: "^R",
+					compactKey: "^R",
+					action: "regex",
+					compactAction: "re",
+				},
 				{
 					key: "^H",
 					compactKey: "^H",
@@ -48,6 +60,33 @@ function getHintsForMode(mode: HelpBarMode): HintItem[] {
 				{ key: "Esc", compactKey: "⎋", action: "cancel", compactAction: "×" },
 			];
 
+		case "input":
+			return [
+				{
+					key: "Enter",
+					compactKey: "↵",
+					action: "send",
+					compactAction: "snd",
+				},
+				{
+					key: "↑↓",
+					compactKey: "↑↓",
+					action: "history",
+					compactAction: "hist",
+				},
+				{ key: "Esc", compactKey: "⎋", action: "exit", compactAction: "×" },
+			];
+
+		case "terminal":
+			return [
+				{
+					key: "Ctrl+]",
+					compactKey: "^]",
+					action: "stop typing",
+					compactAction: "stop",
+				},
+			];
+
 		case "commandPalette":
 		case "shortcuts":
 			return [
@@ -4,6 +4,7 @@ import { useMemo, useState } from "react";
 import { StatusIcons } from "../../constants";
 import type { ASCIIFontName, HomeConfig } from "../../lib/config";
 import type { HealthStateMap } from "../../lib/health";
+import { openUrl } from "../../lib/open";
 import type { Theme } from "../../lib/theme";
 import { formatUptime } from "../../lib/time";
 import type { HealthStatus, ToolState } from "../../types";
@@ -71,8 +72,15 @@ export function HomeTab({
 				tool.status !== "waiting" &&
 				healthStates.get(tool.config.name)?.status === "unhealthy",
 		).length,
+		restarting: servicesWithFeatures.filter(({ tool }) => !!tool.nextRestartAt)
+			.length,
+		crashLoop: servicesWithFeatures.filter(({ tool }) => !!tool.crashLoop)
+			.length,
 		stopped: servicesWithFeatures.filter(
-			({ tool }) => tool.status === "stopped" || tool.status === "error",
+			({ tool }) =>
+				(tool.status === "stopped" || tool.status === "error") &&
+				!tool.nextRestartAt &&
+				!tool.crashLoop,
 		).length,
 	};
 
@@ -189,6 +197,8 @@ interface StatusSummaryProps {
 		waiting: number;
 		starting: number;
 		unhealthy: number;
+		restarting: number;
+		crashLoop: number;
 		stopped: number;
 	};
 	theme: Theme;
@@ -228,6 +238,20 @@ function StatusSummary({ counts, theme, centered }: StatusSummaryProps) {
 			color: colors.error,
 		});
 	}
+	if (counts.restarting > 0) {
+		parts.push({
+			count: counts.restarting,
+			label: "restarting",
+			color: colors.warning,
+		});
+	}
+	if (counts.crashLoop > 0) {
+		parts.push({
+			count: counts.crashLoop,
+			label: "crash looping",
+			color: colors.error,
+		});
+	}
 	if (counts.stopped > 0) {
 		parts.push({
 			count: counts.stopped,
@@ -281,10 +305,14 @@ function ServiceCard({
 	const hasUI = !!tool.config.ui;
 	const hasDescription = !!tool.config.description;
 	const isRunning = tool.status === "running";
+	const isRestartPending = !!tool.nextRestartAt;
 
 	// Calculate uptime if running
 	const uptimeText =
 		isRunning && tool.startTime ? formatUptime(tool.startTime) : null;
+	const restartsText = tool.restartCount
+		? `${tool.restartCount} restart${tool.restartCount === 1 ? "" : "s"}`
+		: null;
 
 	return (
 		<box
@@ -309,16 +337,27 @@ function ServiceCard({
 							onMouseDown: onSelect,
 						} as Record<string, unknown>)}
 					>
-						<ProcessStatusIcon status={tool.status} theme={theme} />
+						<ProcessStatusIcon tool={tool} theme={theme} />
 						<text fg={colors.text} attributes={TextAttributes.BOLD}>
 							{" "}
 							{tool.config.name}
 						</text>
 						{uptimeText && <text fg={colors.textDim}> · {uptimeText}</text>}
+						{restartsText && <text fg={colors.textDim}> · {restartsText}</text>}
 					</box>
 
-					{/* Health indicator on the right - show "waiting" when waiting for deps */}
-					{tool.status === "waiting" ? (
+					{/* Health indicator on the right - restart state and "waiting" take precedence */}
+					{tool.crashLoop ? (
+						<box>
+							<text fg={colors.error}>{StatusIcons.CRASH_LOOP} crash loop</text>
+						</box>
+					) : isRestartPending ? (
+						<box>
+							<text fg={colors.warning}>
+								{StatusIcons.RESTARTING} restarting
+							</text>
+						</box>
+					) : tool.status === "waiting" ? (
 						<box>
 							<text fg={colors.warning}>{StatusIcons.WAITING} waiting</text>
 						</box>
@@ -357,8 +396,8 @@ function ServiceCard({
 				{/* Restart Button */}
 				<ActionButton label="Restart" theme={theme} onPress={onRestart} />
 
-				{/* Stop Button - only show when running */}
-				{isRunning && (
+				{/* Stop Button - only show when running or a restart is pending */}
+				{(isRunning || isRestartPending) && (
 					<ActionButton
 						label="Stop"
 						theme={theme}
@@ -372,15 +411,21 @@ function ServiceCard({
 }
 
 interface ProcessStatusIconProps {
-	status: ToolState["status"];
+	tool: ToolState;
 	theme: Theme;
 }
 
-function ProcessStatusIcon({ status, theme }: ProcessStatusIconProps) {
+function ProcessStatusIcon({ tool, theme }: ProcessStatusIconProps) {
 	const { colors } = theme;
 
 	const getIconAndColor = () => {
-		switch (status) {
+		if (tool.crashLoop) {
+			return { icon: StatusIcons.CRASH_LOOP, color: colors.error };
+		}
+		if (tool.nextRestartAt) {
+			return { icon: StatusIcons.RESTARTING, color: colors.warning };
+		}
+		switch (tool.status) {
 			case "running":
 				return { icon: StatusIcons.RUNNING, color: colors.success };
 			case "shuttingDown":
@@ -431,11 +476,6 @@ function UIButton({ label, url, theme }: UIButtonProps) {
 	const { colors } = theme;
 	const [hovered, setHovered] = useState(false);
 
-	const openUrl = () => {
-		// Use 'open' command on macOS to open URL in default browser
-		Bun.spawn(["open", url], { stdout: "ignore", stderr: "ignore" });
-	};
-
 	return (
 		<box
 			height={3}
@@ -446,7 +486,7 @@ function UIButton({ label, url, theme }: UIButtonProps) {
 			paddingLeft={1}
 			paddingRight={1}
 			{...({
-				onMouseDown: openUrl,
+				onMouseDown: () => openUrl(url),
 				onMouseEnter: () => setHovered(true),
 				onMouseLeave: () => setHovered(false),
 			} as Record<string, unknown>)}
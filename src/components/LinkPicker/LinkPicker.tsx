@@ -0,0 +1,196 @@
+import { type ScrollBoxRenderable, TextAttributes } from "@opentui/core";
+import { useKeyboard, useTerminalDimensions } from "@opentui/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTheme } from "../../lib/theme";
+import type { LogLink } from "../LogViewer";
+
+interface LinkPickerProps {
+	/** Whether the picker is open */
+	isOpen: boolean;
+	/** Called when picker should close */
+	onClose: () => void;
+	/** Links of the lines in view, top to bottom */
+	links: LogLink[];
+	/** Called with the chosen link (Enter or click) */
+	onOpen: (link: LogLink) => void;
+}
+
+/**
+ * Modal list of the hyperlinks (OSC 8) in the visible log lines.
+ * Enter opens the selected link and closes the picker.
+ */
+export function LinkPicker({
+	isOpen,
+	onClose,
+	links,
+	onOpen,
+}: LinkPickerProps) {
+	const { theme } = useTheme();
+	const { colors } = theme;
+	const { width: terminalWidth, height: terminalHeight } =
+		useTerminalDimensions();
+
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const scrollboxRef = useRef<ScrollBoxRenderable>(null);
+
+	// Calculate modal dimensions
+	const modalWidth = Math.min(80, terminalWidth - 4);
+	const maxListHeight = Math.max(1, Math.min(links.length, terminalHeight - 6));
+	// Room for the link text after padding
+	const textWidth = Math.max(10, modalWidth - 2);
+
+	// Start at the top each time the picker opens
+	useEffect(() => {
+		if (isOpen) {
+			setSelectedIndex(0);
+		}
+	}, [isOpen]);
+
+	// Scroll to keep selected item visible
+	const scrollToSelected = useCallback((index: number) => {
+		const scrollbox = scrollboxRef.current;
+		if (!scrollbox) return;
+
+		const viewportHeight = scrollbox.viewport.height;
+		const scrollTop = scrollbox.scrollTop;
+
+		if (index < scrollTop) {
+			scrollbox.scrollTo(index);
+		} else if (index >= scrollTop + viewportHeight) {
+			scrollbox.scrollTo(index - viewportHeight + 1);
+		}
+	}, []);
+
+	const handleNavigate = useCallback(
+		(newIndex: number) => {
+			const wrappedIndex =
+				newIndex < 0
+					? links.length - 1
+					: newIndex >= links.length
+						? 0
+						: newIndex;
+			setSelectedIndex(wrappedIndex);
+			scrollToSelected(wrappedIndex);
+		},
+		[links.length, scrollToSelected],
+	);
+
+	const openLink = useCallback(
+		(link: LogLink | undefined) => {
+			if (!link) return;
+			onClose();
+			onOpen(link);
+		},
+		[onClose, onOpen],
+	);
+
+	// Handle keyboard input
+	useKeyboard((key) => {
+		if (!isOpen) return;
+
+		if (key.name === "escape" || (key.ctrl && key.name === "c")) {
+			key.preventDefault?.();
+			key.stopPropagation?.();
+			onClose();
+			return;
+		}
+
+		if (key.name === "return") {
+			openLink(links[selectedIndex]);
+			return;
+		}
+
+		if (key.name === "up" || key.name === "k") {
+			handleNavigate(selectedIndex - 1);
+			return;
+		}
+
+		if (key.name === "down" || key.name === "j") {
+			handleNavigate(selectedIndex + 1);
+			return;
+		}
+	});
+
+	if (!isOpen) {
+		return null;
+	}
+
+	return (
+		<box
+			position="absolute"
+			top={0}
+			left={0}
+			width="100%"
+			height="100%"
+			justifyContent="center"
+			alignItems="center"
+			zIndex={2000}
+		>
+			{/* Modal container */}
+			<box
+				width={modalWidth}
+				flexDirection="column"
+				backgroundColor={colors.surface2}
+			>
+				{/* Header */}
+				<box
+					paddingLeft={1}
+					paddingRight={1}
+					backgroundColor={colors.accent}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text attributes={TextAttributes.BOLD} fg={colors.accentForeground}>
+						Links in view
+					</text>
+					<text
+						fg={colors.accentForeground}
+						attributes={TextAttributes.BOLD}
+						{...({
+							onMouseDown: onClose,
+						} as Record<string, unknown>)}
+					>
+						x
+					</text>
+				</box>
+
+				{/* Link list: the text shown in the log, then the target when it differs */}
+				<scrollbox
+					ref={scrollboxRef}
+					height={maxListHeight}
+					backgroundColor={colors.surface2}
+				>
+					{links.map((link, index) => {
+						const isSelected = index === selectedIndex;
+						const label =
+							link.text.trim() && link.text.trim() !== link.href
+								? `${link.text.trim()} - ${link.href}`
+								: link.href;
+
+						return (
+							<box
+								key={link.href}
+								height={1}
+								paddingLeft={1}
+								paddingRight={1}
+								backgroundColor={isSelected ? colors.surface1 : colors.surface2}
+								{...({
+									onMouseDown: () => openLink(link),
+								} as Record<string, unknown>)}
+							>
+								<text fg={isSelected ? colors.accent : colors.text}>
+									{label.slice(0, textWidth)}
+								</text>
+							</box>
+						);
+					})}
+				</scrollbox>
+
+				{/* Footer hint */}
+				<box paddingLeft={1} paddingRight={1} backgroundColor={colors.surface1}>
+					<text fg={colors.textDim}>Enter: open | Esc: close</text>
+				</box>
+			</box>
+		</box>
+	);
+}
@@ -0,0 +1 @@
+export { LinkPicker } from "./LinkPicker";
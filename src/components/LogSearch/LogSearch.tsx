@@ -0,0 +1,300 @@
+import { type ScrollBoxRenderable, TextAttributes } from "@opentui/core";
+import { useKeyboard, useTerminalDimensions } from "@opentui/react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { getToolBadgeColorIndex } from "../../lib/processes";
+import {
+	type LogSearchMatch,
+	type LogSearchResult,
+	searchToolLogs,
+} from "../../lib/search";
+import { useTheme } from "../../lib/theme";
+import type { ToolState } from "../../types";
+import { TextInput } from "../TextInput";
+
+/** Maximum number of matches listed (the most recent ones) */
+const MAX_RESULTS = 200;
+
+interface LogSearchProps {
+	/** Whether the search is open */
+	isOpen: boolean;
+	/** Called when the search should close */
+	onClose: () => void;
+	tools: ToolState[];
+	/** Called with the chosen match (Enter or click) */
+	onSelect: (match: LogSearchMatch) => void;
+}
+
+/**
+ * Modal searching the logs of all tools at once. Matches are listed newest
+ * first with their tool; Enter jumps to the match's tab and line.
+ * Ctrl+R switches between substring and regular expression search.
+ */
+export function LogSearch({
+	isOpen,
+	onClose,
+	tools,
+	onSelect,
+}: LogSearchProps) {
+	const { theme } = useTheme();
+	const { colors, ansiPalette } = theme;
+	const { width: terminalWidth, height: terminalHeight } =
+		useTerminalDimensions();
+
+	const [query, setQuery] = useState("");
+	const [regex, setRegex] = useState(false);
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const scrollboxRef = useRef<ScrollBoxRenderable>(null);
+
+	// Calculate modal dimensions
+	const modalWidth = Math.min(100, terminalWidth - 4);
+	const maxListHeight = Math.max(1, Math.min(15, terminalHeight - 10));
+
+	// Start with an empty query each time the search opens
+	useEffect(() => {
+		if (isOpen) {
+			setQuery("");
+			setSelectedIndex(0);
+		}
+	}, [isOpen]);
+
+	// Results are a snapshot taken when the query changes, so the selection
+	// doesn't move while new lines arrive
+	// biome-ignore lint/correctness/useExhaustiveDependencies: tools are read when the query changes
+	const search = useMemo<LogSearchResult | { error: string }>(() => {
+		try {
+			return searchToolLogs(tools, query, {
+				searchType: regex ? "regex" : "substring",
+				limit: MAX_RESULTS,
+			});
+		} catch {
+			return { error: "Invalid regular expression" };
+		}
+	}, [query, regex]);
+	const matches = "error" in search ? [] : search.matches.toReversed();
+
+	// Badge color of each tool, as in the tab bar
+	const toolColors = useMemo(() => {
+		const map = new Map<string, string | undefined>();
+		tools.forEach((tool, index) => {
+			const colorIndex = getToolBadgeColorIndex(index);
+			map.set(
+				tool.config.name,
+				colorIndex < 8
+					? ansiPalette.standard[colorIndex]
+					: ansiPalette.bright[colorIndex - 8],
+			);
+		});
+		return map;
+	}, [tools, ansiPalette]);
+
+	const handleQueryChange = useCallback((newQuery: string) => {
+		setQuery(newQuery);
+		setSelectedIndex(0);
+	}, []);
+
+	const selectMatch = useCallback(
+		(match: LogSearchMatch | undefined) => {
+			if (!match) return;
+			onClose();
+			onSelect(match);
+		},
+		[onClose, onSelect],
+	);
+
+	// Scroll to keep selected item visible
+	const scrollToSelected = useCallback((index: number) => {
+		const scrollbox = scrollboxRef.current;
+		if (!scrollbox) return;
+
+		const viewportHeight = scrollbox.viewport.height;
+		const scrollTop = scrollbox.scrollTop;
+
+		if (index < scrollTop) {
+			scrollbox.scrollTo(index);
+		} else if (index >= scrollTop + viewportHeight) {
+			scrollbox.scrollTo(index - viewportHeight + 1);
+		}
+	}, []);
+
+	const handleNavigate = useCallback(
+		(newIndex: number) => {
+			if (matches.length === 0) return;
+			const wrappedIndex =
+				newIndex < 0
+					? matches.length - 1
+					: newIndex >= matches.length
+						? 0
+						: newIndex;
+			setSelectedIndex(wrappedIndex);
+			scrollToSelected(wrappedIndex);
+		},
+		[matches.length, scrollToSelected],
+	);
+
+	// Handle keyboard input (TextInput handles text editing and Enter)
+	useKeyboard((key) => {
+		if (!isOpen) return;
+
+		if (key.name === "escape" || (key.ctrl && key.name === "c")) {
+			key.preventDefault?.();
+			key.stopPropagation?.();
+			onClose();
+			return;
+		}
+
+		if (key.ctrl && key.name === "r") {
+			setRegex((r) => !r);
+			setSelectedIndex(0);
+			return;
+		}
+
+		if (key.name === "up" || (key.ctrl && key.name === "p")) {
+			handleNavigate(selectedIndex - 1);
+			return;
+		}
+
+		if (key.name === "down" || (key.ctrl && key.name === "n")) {
+			handleNavigate(selectedIndex + 1);
+			return;
+		}
+	});
+
+	if (!isOpen) {
+		return null;
+	}
+
+	const toolNameWidth = Math.max(
+		0,
+		...matches.map((match) => match.tool.length),
+	);
+	// Room for the text after padding and the tool name column
+	const textWidth = Math.max(10, modalWidth - toolNameWidth - 5);
+
+	let status: string;
+	if ("error" in search) {
+		status = search.error;
+	} else if (!query) {
+		status = "Type to search the logs of all tools";
+	} else if (search.totalMatches > matches.length) {
+		status = `${matches.length} most recent of ${search.totalMatches} matches`;
+	} else {
+		status = `${matches.length} ${matches.length === 1 ? "match" : "matches"}`;
+	}
+
+	return (
+		<box
+			position="absolute"
+			top={0}
+			left={0}
+			width="100%"
+			height="100%"
+			justifyContent="center"
+			alignItems="center"
+			zIndex={2000}
+		>
+			{/* Modal container */}
+			<box
+				width={modalWidth}
+				flexDirection="column"
+				backgroundColor={colors.surface2}
+			>
+				{/* Header */}
+				<box
+					paddingLeft={1}
+					paddingRight={1}
+					backgroundColor={colors.accent}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text attributes={TextAttributes.BOLD} fg={colors.accentForeground}>
+						Search all logs
+					</text>
+					<text
+						fg={colors.accentForeground}
+						attributes={TextAttributes.BOLD}
+						{...({
+							onMouseDown: onClose,
+						} as Record<string, unknown>)}
+					>
+						x
+					</text>
+				</box>
+
+				{/* Search input */}
+				<box paddingLeft={1} paddingRight={1} backgroundColor={colors.surface1}>
+					<box
+						border
+						borderStyle="single"
+						borderColor={colors.textMuted}
+						paddingLeft={1}
+						paddingRight={1}
+					>
+						<TextInput
+							value={query}
+							onValueChange={handleQueryChange}
+							onSubmit={() => selectMatch(matches[selectedIndex])}
+							focused={isOpen}
+							theme={theme}
+							prefix={regex ? "re> " : "> "}
+							prefixBold
+							prefixColor={colors.accent}
+						/>
+					</box>
+				</box>
+
+				{/* Match list */}
+				{matches.length > 0 && (
+					<scrollbox
+						ref={scrollboxRef}
+						height={Math.min(matches.length, maxListHeight)}
+						backgroundColor={colors.surface2}
+					>
+						{matches.map((match, index) => {
+							const isSelected = index === selectedIndex;
+							return (
+								<box
+									key={`${match.tool}-${match.lineIndex}`}
+									height={1}
+									paddingLeft={1}
+									paddingRight={1}
+									backgroundColor={
+										isSelected ? colors.surface1 : colors.surface2
+									}
+									{...({
+										onMouseDown: () => selectMatch(match),
+									} as Record<string, unknown>)}
+								>
+									<text fg={colors.text}>
+										<span
+											fg={toolColors.get(match.tool) ?? colors.text}
+											attributes={TextAttributes.BOLD}
+										>
+											{match.tool.padEnd(toolNameWidth)}
+										</span>{" "}
+										{match.text.slice(0, textWidth)}
+									</text>
+								</box>
+							);
+						})}
+					</scrollbox>
+				)}
+
+				{/* Footer with match count and hints */}
+				<box
+					paddingLeft={1}
+					paddingRight={1}
+					backgroundColor={colors.surface1}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text fg={"error" in search ? colors.error : colors.textDim}>
+						{status}
+					</text>
+					<text fg={colors.textDim}>
+						Enter: jump | Ctrl+R: {regex ? "substring" : "regex"} | Esc: close
+					</text>
+				</box>
+			</box>
+		</box>
+	);
+}
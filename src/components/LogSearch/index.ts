@@ -0,0 +1 @@
+export { LogSearch } from "./LogSearch";
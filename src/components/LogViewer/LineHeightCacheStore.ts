@@ -25,21 +25,29 @@ class LineHeightCacheStore {
 		toolName: string,
 		contentWidth: number,
 		lineWrap: boolean,
+		showLogFields: boolean,
 	): string {
-		return `${toolName}:${contentWidth}:${lineWrap}`;
+		return `${toolName}:${contentWidth}:${lineWrap}:${showLogFields}`;
 	}
 
 	/**
 	 * Get or create a cache for a tool's logs.
 	 * Returns the existing cache if valid, or builds/extends it as needed.
+	 * @param showLogFields - Whether structured lines are shown with all their fields
 	 */
 	getOrBuildCache(
 		toolName: string,
 		logLines: string[],
 		contentWidth: number,
 		lineWrap: boolean,
+		showLogFields = false,
 	): LineHeightCache {
-		const key = this.getCacheKey(toolName, contentWidth, lineWrap);
+		const key = this.getCacheKey(
+			toolName,
+			contentWidth,
+			lineWrap,
+			showLogFields,
+		);
 		const existing = this.caches.get(key);
 		const totalLines = logLines.length;
 
@@ -1,3 +1,4 @@
+import { resolve } from "node:path";
 import {
 	MacOSScrollAccel,
 	type ScrollBoxRenderable,
@@ -17,81 +18,24 @@ import React, {
 	useState,
 } from "react";
 import { copyToClipboard } from "../../lib/clipboard";
+import { findFileReferences } from "../../lib/editor";
 import {
+	compileSearchRegex,
 	type FuzzyMatch,
+	fieldFindLines,
 	fuzzyFindLines,
-	substringFindLines,
+	parseFieldQuery,
+	regexFindLines,
+	type SearchType,
 } from "../../lib/search";
-import type { AnsiPalette, Theme } from "../../lib/theme";
-import type { ToolState } from "../../types";
-
-/**
- * Resolves the foreground color for a segment using the theme's ANSI palette.
- * If colorIndex is set (0-15), looks up from palette; otherwise uses color directly.
- */
-function resolveRawFgColor(
-	segment: { color?: string; colorIndex?: number },
-	palette: AnsiPalette,
-	fallback: string,
-): string {
-	if (segment.colorIndex !== undefined) {
-		if (segment.colorIndex < 8) {
-			return palette.standard[segment.colorIndex] ?? fallback;
-		}
-		return palette.bright[segment.colorIndex - 8] ?? fallback;
-	}
-	return segment.color ?? fallback;
-}
-
-/**
- * Resolves the background color for a segment using the theme's ANSI palette.
- */
-function resolveRawBgColor(
-	segment: { bgColor?: string; bgColorIndex?: number },
-	palette: AnsiPalette,
-): string | undefined {
-	if (segment.bgColorIndex !== undefined) {
-		if (segment.bgColorIndex < 8) {
-			return palette.standard[segment.bgColorIndex];
-		}
-		return palette.bright[segment.bgColorIndex - 8];
-	}
-	return segment.bgColor;
-}
-
-/**
- * Resolves foreground and background colors for a segment, handling INVERSE attribute.
- * When INVERSE is set, foreground and background are swapped.
- */
-function resolveSegmentColors(
-	segment: {
-		color?: string;
-		colorIndex?: number;
-		bgColor?: string;
-		bgColorIndex?: number;
-		attributes?: number;
-	},
-	palette: AnsiPalette,
-	defaultFg: string,
-	defaultBg: string,
-): { fg: string; bg: string | undefined } {
-	const rawFg = resolveRawFgColor(segment, palette, defaultFg);
-	const rawBg = resolveRawBgColor(segment, palette);
-
-	// Check if INVERSE attribute is set
-	const isInverse = (segment.attributes ?? 0) & TextAttributes.INVERSE;
-
-	if (isInverse) {
-		// Swap foreground and background
-		// If no background was set, use the default background for the new foreground
-		return {
-			fg: rawBg ?? defaultBg,
-			bg: rawFg,
-		};
-	}
-
-	return { fg: rawFg, bg: rawBg };
-}
+import { isAtLeastLevel, nextLevelFilter } from "../../lib/text";
+import type { Theme } from "../../lib/theme";
+import {
+	formatLogTimestamp,
+	LOG_TIMESTAMP_WIDTH,
+	type TimestampMode,
+} from "../../lib/time";
+import type { LogLevel, TextSegment, ToolState } from "../../types";
 
 import { TextInput } from "../TextInput";
 import { toast } from "../Toast";
@@ -100,10 +44,15 @@ import {
 	calculateContentWidth,
 	calculateScrollInfo,
 	calculateVisibleRange,
+	collectLogLinks,
+	findLineAtRow,
+	formatStructuredLog,
 	getLineNumberWidth,
 	highlightSegmentsWithFuzzyIndices,
 	highlightSegmentsWithSearch,
 	LINE_NUMBER_WIDTH_THRESHOLD,
+	type LogLink,
+	resolveSegmentColors,
 	shouldVirtualize,
 	truncateSegments,
 	type VisibleRange,
@@ -116,37 +65,90 @@ interface LogViewerProps {
 	searchMode: boolean;
 	searchQuery: string;
 	filterMode: boolean;
-	fuzzyMode: boolean;
+	searchType: SearchType;
+	/** Regex search: match letter case exactly */
+	caseSensitive?: boolean;
+	/** Regex search: only match whole words */
+	wholeWord?: boolean;
+	/** Only show lines of this level and above (null shows every line) */
+	minLevel?: LogLevel | null;
 	currentMatchIndex: number;
 	onSearchModeChange: (active: boolean) => void;
 	onSearchQueryChange: (query: string) => void;
 	onFilterModeChange: (filter: boolean) => void;
-	onFuzzyModeChange: (fuzzy: boolean) => void;
+	onSearchTypeChange: (searchType: SearchType) => void;
+	onCaseSensitiveChange?: (caseSensitive: boolean) => void;
+	onWholeWordChange?: (wholeWord: boolean) => void;
+	onMinLevelChange?: (minLevel: LogLevel | null) => void;
 	onCurrentMatchIndexChange: (index: number) => void;
 	/** Control line number visibility: true = always, false = never, "auto" = based on terminal width */
 	showLineNumbers?: boolean | "auto";
 	/** Whether to wrap long lines (true) or truncate them (false) */
 	lineWrap?: boolean;
+	/** Timestamp gutter: hidden, wall-clock time, or time since process start */
+	timestampMode?: TimestampMode;
+	/** Show all fields of structured (JSON/logfmt) lines instead of their count */
+	showLogFields?: boolean;
 	/** Width of sidebar (when in vertical layout mode), used for truncation calculation */
 	sidebarWidth?: number;
+	/** Width of the pane when the log area is split (defaults to the terminal width) */
+	paneWidth?: number;
+	/** Whether this viewer receives keyboard input and copies selections (false for unfocused panes) */
+	focused?: boolean;
+	/** Whether typed lines are sent to the process stdin */
+	inputMode?: boolean;
+	onInputModeChange?: (active: boolean) => void;
+	/** Lines previously sent to this tool, oldest first (browsed with up/down) */
+	inputHistory?: string[];
+	/** Called with a line (without newline) when Enter is pressed in input mode */
+	onSubmitInput?: (line: string) => void;
+	/**
+	 * Line to scroll to and flash, by its position in the tool's whole output
+	 * (see ToolState.logTrimCount). A new object repeats the jump.
+	 */
+	jumpToLine?: { lineIndex: number } | null;
+	/** When set, report the links of the lines in view through onShowLinks */
+	showLinksRequested?: boolean;
+	/** Called with the links and file references of the lines in view, when requested */
+	onShowLinks?: (links: LogLink[]) => void;
 }
 
+/** How long a line jumped to stays highlighted (ms) - longer than for match navigation, as the view changes */
+const JUMP_FLASH_DURATION = 600;
+
 export const LogViewer = React.memo(function LogViewer({
 	tool,
 	theme,
 	searchMode,
 	searchQuery,
 	filterMode,
-	fuzzyMode,
+	searchType,
+	caseSensitive = false,
+	wholeWord = false,
+	minLevel = null,
 	currentMatchIndex,
 	onSearchModeChange,
 	onSearchQueryChange,
 	onFilterModeChange,
-	onFuzzyModeChange,
+	onSearchTypeChange,
+	onCaseSensitiveChange,
+	onWholeWordChange,
+	onMinLevelChange,
 	onCurrentMatchIndexChange,
 	showLineNumbers = "auto",
 	lineWrap = true,
+	timestampMode = "off",
+	showLogFields = false,
 	sidebarWidth = 0,
+	paneWidth,
+	focused = true,
+	inputMode = false,
+	onInputModeChange,
+	inputHistory = [],
+	onSubmitInput,
+	jumpToLine,
+	showLinksRequested = false,
+	onShowLinks,
 }: LogViewerProps) {
 	const { colors, ansiPalette } = theme;
 	const scrollboxRef = useRef<ScrollBoxRenderable>(null);
@@ -170,6 +172,18 @@ export const LogViewer = React.memo(function LogViewer({
 		isFiltering: false,
 	});
 
+	// Input mode: current line and position while browsing history
+	// (null = editing a new line rather than a history entry)
+	const [inputValue, setInputValue] = useState("");
+	const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+
+	// Leave input mode once the process is gone
+	useEffect(() => {
+		if (inputMode && tool.pid === undefined) {
+			onInputModeChange?.(false);
+		}
+	}, [inputMode, tool.pid, onInputModeChange]);
+
 	// Flash state for copy feedback
 	const [flashingLine, setFlashingLine] = useState<number | null>(null);
 
@@ -187,31 +201,91 @@ export const LogViewer = React.memo(function LogViewer({
 		(showLineNumbers === "auto" &&
 			terminalWidth >= LINE_NUMBER_WIDTH_THRESHOLD);
 
-	// Convert logs to plain text with stderr metadata
+	// Convert logs to displayed segments and plain text with their level
+	// Structured (JSON/logfmt) lines are shown as level, time and message columns
 	// Note: tool.logs.length is intentionally included to detect array mutations
 	// since the logs array reference stays the same when items are pushed
 	// logTrimCount forces recalculation when old logs are trimmed (which shifts indices)
 	// biome-ignore lint/correctness/useExhaustiveDependencies: length and trimCount detect array mutations
 	const logLines = useMemo(
 		() =>
-			tool.logs.map((logLine) => ({
-				text: logLine.segments.map((segment) => segment.text).join(""),
-				isStderr: logLine.isStderr ?? false,
-			})),
-		[tool.logs, tool.logs.length, tool.logTrimCount],
+			tool.logs.map((logLine) => {
+				const segments = logLine.structured
+					? formatStructuredLog(logLine.structured, showLogFields)
+					: logLine.segments;
+				return {
+					segments,
+					text: segments.map((segment) => segment.text).join(""),
+					structured: logLine.structured,
+					level: logLine.level,
+				};
+			}),
+		[tool.logs, tool.logs.length, tool.logTrimCount, showLogFields],
 	);
 
 	const totalLines = logLines.length;
 	const lineNumberWidth = getLineNumberWidth(totalLines);
+	const showTimestamps = timestampMode !== "off";
+
+	// Relative timestamps are measured from the current run's start,
+	// or from the first retained line when the process is not running
+	const relativeStartTime = tool.startTime ?? tool.logs[0]?.timestamp ?? 0;
 
 	// Extract just the text for searching
 	const logTexts = useMemo(() => logLines.map((line) => line.text), [logLines]);
 
+	// A "key:value" query searches the fields of structured lines ("level:error"),
+	// with substring matching in fuzzy and substring mode
+	const regexSearch = searchType === "regex";
+	const fieldQuery = regexSearch ? null : parseFieldQuery(searchQuery);
+	const hasStructuredLines = useMemo(
+		() => logLines.some((line) => line.structured),
+		[logLines],
+	);
+	const fuzzySearch =
+		searchType === "fuzzy" && !(fieldQuery && hasStructuredLines);
+
+	// The compiled pattern in regex mode, or why it doesn't compile
+	const { searchRegex, regexError } = useMemo(() => {
+		if (!regexSearch || !searchQuery) {
+			return { searchRegex: null, regexError: null };
+		}
+		try {
+			return {
+				searchRegex: compileSearchRegex(searchQuery, {
+					caseSensitive,
+					wholeWord,
+				}),
+				regexError: null,
+			};
+		} catch (error) {
+			return {
+				searchRegex: null,
+				regexError: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}, [regexSearch, searchQuery, caseSensitive, wholeWord]);
+
+	// Lines of the minimum level and above (null when the level filter is off)
+	const levelLines = useMemo(() => {
+		if (!minLevel) return null;
+		const indices: number[] = [];
+		for (let i = 0; i < logLines.length; i++) {
+			if (isAtLeastLevel(logLines[i]?.level, minLevel)) indices.push(i);
+		}
+		return indices;
+	}, [logLines, minLevel]);
+
 	// Find matching lines for search (fuzzy or substring)
 	const fuzzyResults = useMemo<FuzzyMatch[]>(() => {
-		if (!fuzzyMode || !searchQuery) return [];
-		return fuzzyFindLines(logTexts, searchQuery);
-	}, [logTexts, searchQuery, fuzzyMode]);
+		if (!fuzzySearch || !searchQuery) return [];
+		const results = fuzzyFindLines(logTexts, searchQuery);
+		return minLevel
+			? results.filter((r) =>
+					isAtLeastLevel(logLines[r.index]?.level, minLevel),
+				)
+			: results;
+	}, [logTexts, logLines, searchQuery, fuzzySearch, minLevel]);
 
 	// Create a map of line index -> highlight indices for fuzzy mode
 	const fuzzyHighlightsMap = useMemo(() => {
@@ -222,20 +296,46 @@ export const LogViewer = React.memo(function LogViewer({
 		return map;
 	}, [fuzzyResults]);
 
-	// Get matching line indices (from fuzzy results or substring search)
+	// Get matching line indices (from fuzzy results, regex or substring search)
+	// Lines hidden by the level filter never match
 	const matchingLines = useMemo(() => {
-		if (fuzzyMode) {
+		if (fuzzySearch) {
 			return fuzzyResults.map((r) => r.index);
 		}
-		return substringFindLines(logTexts, searchQuery);
-	}, [fuzzyMode, fuzzyResults, logTexts, searchQuery]);
+		const matches = regexSearch
+			? searchRegex
+				? regexFindLines(logTexts, searchRegex)
+				: []
+			: fieldFindLines(
+					logTexts,
+					logLines.map((line) => line.structured),
+					searchQuery,
+				);
+		return minLevel
+			? matches.filter((i) => isAtLeastLevel(logLines[i]?.level, minLevel))
+			: matches;
+	}, [
+		fuzzySearch,
+		fuzzyResults,
+		regexSearch,
+		searchRegex,
+		logTexts,
+		logLines,
+		searchQuery,
+		minLevel,
+	]);
 
 	// Calculate available width for line content (for truncation when lineWrap is off)
+	// A split pane's width already excludes the sidebar, only its left margin remains
 	const contentWidth = calculateContentWidth({
-		terminalWidth,
-		sidebarWidth,
+		terminalWidth:
+			paneWidth !== undefined
+				? paneWidth - (sidebarWidth > 0 ? 1 : 0)
+				: terminalWidth,
+		sidebarWidth: paneWidth !== undefined ? 0 : sidebarWidth,
 		showLineNumbers: shouldShowLineNumbers,
 		lineNumberWidth,
+		timestampWidth: showTimestamps ? LOG_TIMESTAMP_WIDTH : 0,
 	});
 
 	// Determine if virtualization is enabled for this render
@@ -250,18 +350,21 @@ export const LogViewer = React.memo(function LogViewer({
 				logTexts,
 				contentWidth,
 				lineWrap,
+				showLogFields,
 			),
-		[tool.config.name, logTexts, contentWidth, lineWrap],
+		[tool.config.name, logTexts, contentWidth, lineWrap, showLogFields],
 	);
 
+	// Lines shown when filtering: search matches in filter mode, otherwise the
+	// lines passing the level filter (null shows every line)
+	const filteredLines = filterMode && searchQuery ? matchingLines : levelLines;
+
 	// Calculate the effective display count (filtered or full)
 	// Needed early for scrollInfo and visibleRange calculations
-	const displayCount =
-		filterMode && searchQuery ? matchingLines.length : totalLines;
+	const displayCount = filteredLines ? filteredLines.length : totalLines;
 
 	// Whether we're in active filter mode (showing filtered results)
-	const isFiltering =
-		filterMode && searchQuery.length > 0 && matchingLines.length > 0;
+	const isFiltering = filteredLines !== null && filteredLines.length > 0;
 
 	// Build a derived line height cache for filtered results
 	// Maps filtered indices to cumulative row heights by looking up each matching line's height
@@ -272,7 +375,7 @@ export const LogViewer = React.memo(function LogViewer({
 		let totalRows = 0;
 		const cacheLength = lineHeightCache.cumulativeRows.length;
 
-		for (const originalIndex of matchingLines) {
+		for (const originalIndex of filteredLines) {
 			// Get the height of this line from the original cache
 			// If the index is beyond the cache (new logs not yet cached), default to 1 row
 			let lineHeight = 1;
@@ -298,7 +401,7 @@ export const LogViewer = React.memo(function LogViewer({
 			contentWidth: lineHeightCache.contentWidth,
 			lineWrap: lineHeightCache.lineWrap,
 		};
-	}, [isFiltering, lineHeightCache, matchingLines]);
+	}, [isFiltering, lineHeightCache, filteredLines]);
 
 	// Compute scroll info (linesAbove/linesBelow) directly from scrollData
 	// Use displayCount when filtering to show correct "X more" counts
@@ -468,6 +571,24 @@ export const LogViewer = React.memo(function LogViewer({
 		}
 	}, []);
 
+	// Scroll so a line is in the middle of the viewport. The cache gives the row
+	// position (cumulative rows up to the line), which accounts for wrapped lines.
+	const scrollToCachedLine = useCallback(
+		(targetIndex: number, cache: { cumulativeRows: number[] } | null) => {
+			const scrollbox = scrollboxRef.current;
+			if (!scrollbox) return;
+			const targetRow =
+				targetIndex > 0
+					? (cache?.cumulativeRows[targetIndex - 1] ?? targetIndex)
+					: 0;
+			const viewportHeight = scrollbox.viewport.height;
+			scrollbox.scrollTo(
+				Math.max(0, targetRow - Math.floor(viewportHeight / 2)),
+			);
+		},
+		[],
+	);
+
 	// Navigate to a specific match index and flash the line
 	const navigateToMatch = useCallback(
 		(newIndex: number) => {
@@ -482,33 +603,12 @@ export const LogViewer = React.memo(function LogViewer({
 
 			const lineIndex = matchingLines[index];
 			if (lineIndex !== undefined) {
-				const scrollbox = scrollboxRef.current;
-				if (scrollbox) {
-					// Calculate the scroll target based on whether filter mode is on
-					// In filter mode, use the filtered cache with match index
-					// In normal mode, use the full cache with original line index
-					const isFilterActive = filterMode && searchQuery;
-					const cache = isFilterActive
-						? filteredLineHeightCache
-						: lineHeightCache;
-					const targetIndex = isFilterActive ? index : lineIndex;
-
-					// Get the row position from cache (cumulative rows up to target line)
-					// This accounts for wrapped lines taking multiple rows
-					let targetRow = targetIndex;
-					if (cache && targetIndex > 0) {
-						targetRow = cache.cumulativeRows[targetIndex - 1] ?? targetIndex;
-					} else if (cache && targetIndex === 0) {
-						targetRow = 0;
-					}
-
-					const viewportHeight = scrollbox.viewport.height;
-					const targetScroll = Math.max(
-						0,
-						targetRow - Math.floor(viewportHeight / 2),
-					);
-					scrollbox.scrollTo(targetScroll);
-				}
+				// In filter mode, use the filtered cache with the line's filtered index
+				// In normal mode, use the full cache with original line index
+				scrollToCachedLine(
+					isFiltering ? filteredLines.indexOf(lineIndex) : lineIndex,
+					isFiltering ? filteredLineHeightCache : lineHeightCache,
+				);
 				// Flash the line (using original index for the flash state)
 				setFlashingLine(lineIndex);
 				setTimeout(() => setFlashingLine(null), 150);
@@ -517,15 +617,95 @@ export const LogViewer = React.memo(function LogViewer({
 		[
 			matchingLines,
 			onCurrentMatchIndexChange,
-			filterMode,
-			searchQuery,
+			isFiltering,
+			filteredLines,
 			lineHeightCache,
 			filteredLineHeightCache,
+			scrollToCachedLine,
 		],
 	);
 
+	// Jump to a line requested from outside (e.g. a search across all logs).
+	// Runs after the scroll to bottom on tab switches, which it overrides.
+	// biome-ignore lint/correctness/useExhaustiveDependencies: only a new jump request should scroll
+	useEffect(() => {
+		if (!jumpToLine) return;
+		const lineIndex = jumpToLine.lineIndex - tool.logTrimCount;
+		if (lineIndex < 0 || lineIndex >= totalLines) return;
+
+		// A filtered view only shows matching lines
+		const filteredIndex = isFiltering ? filteredLines.indexOf(lineIndex) : -1;
+		if (isFiltering && filteredIndex === -1) return;
+
+		const timeout = setTimeout(() => {
+			scrollToCachedLine(
+				isFiltering ? filteredIndex : lineIndex,
+				isFiltering ? filteredLineHeightCache : lineHeightCache,
+			);
+			setFlashingLine(lineIndex);
+			setTimeout(() => setFlashingLine(null), JUMP_FLASH_DURATION);
+		}, 0);
+		return () => clearTimeout(timeout);
+	}, [jumpToLine]);
+
+	// Report the links of the lines in the viewport (not the overscan around it)
+	// biome-ignore lint/correctness/useExhaustiveDependencies: only a new request should report
+	useEffect(() => {
+		if (!showLinksRequested || !onShowLinks) return;
+		const scrollbox = scrollboxRef.current;
+		const cache = isFiltering ? filteredLineHeightCache : lineHeightCache;
+		const firstRow = Math.floor(scrollbox?.scrollTop ?? 0);
+		const lastRow = firstRow + (scrollbox?.viewport.height ?? 0) - 1;
+		const first = cache ? findLineAtRow(cache, firstRow) : firstRow;
+		const last = cache ? findLineAtRow(cache, lastRow) : lastRow;
+
+		const lines: TextSegment[][] = [];
+		for (let i = first; i <= last; i++) {
+			const index = filteredLines ? filteredLines[i] : i;
+			const logLine = index === undefined ? undefined : tool.logs[index];
+			if (logLine) lines.push(logLine.segments);
+		}
+		const cwd = resolve(tool.config.cwd || process.cwd());
+		onShowLinks(
+			collectLogLinks(lines, (text) => findFileReferences(text, cwd)),
+		);
+	}, [showLinksRequested]);
+
 	// Handle keyboard input
 	useKeyboard((key) => {
+		// Only the focused pane handles keys
+		if (!focused) return;
+
+		// Handle input mode - everything typed goes to the process
+		if (inputMode) {
+			if (key.name === "escape") {
+				onInputModeChange?.(false);
+				return;
+			}
+			if (key.name === "up" && inputHistory.length > 0) {
+				const index =
+					historyIndex === null
+						? inputHistory.length - 1
+						: Math.max(0, historyIndex - 1);
+				setHistoryIndex(index);
+				setInputValue(inputHistory[index] ?? "");
+				return;
+			}
+			if (key.name === "down" && historyIndex !== null) {
+				const index = historyIndex + 1;
+				if (index >= inputHistory.length) {
+					setHistoryIndex(null);
+					setInputValue("");
+				} else {
+					setHistoryIndex(index);
+					setInputValue(inputHistory[index] ?? "");
+				}
+				return;
+			}
+			// Let TextInput handle text editing
+			return;
+		}
+
 		// Handle search mode input
 		if (searchMode) {
 			if (key.name === "escape") {
@@ -534,7 +714,21 @@ export const LogViewer = React.memo(function LogViewer({
 			}
 			// Toggle fuzzy mode with Ctrl+F
 			if (key.ctrl && key.name === "f") {
-				onFuzzyModeChange(!fuzzyMode);
+				onSearchTypeChange(searchType === "fuzzy" ? "substring" : "fuzzy");
+				return;
+			}
+			// Toggle regex mode with Ctrl+R
+			if (key.ctrl && key.name === "r") {
+				onSearchTypeChange(searchType === "regex" ? "substring" : "regex");
+				return;
+			}
+			// Toggle case sensitivity (Alt+C) and whole words (Alt+W) of regex search
+			if (regexSearch && key.meta && key.name === "c") {
+				onCaseSensitiveChange?.(!caseSensitive);
+				return;
+			}
+			if (regexSearch && key.meta && key.name === "w") {
+				onWholeWordChange?.(!wholeWord);
 				return;
 			}
 			// Toggle filter mode with Ctrl+H
@@ -542,6 +736,11 @@ export const LogViewer = React.memo(function LogViewer({
 				onFilterModeChange(!filterMode);
 				return;
 			}
+			// Cycle the level filter with Ctrl+L
+			if (key.ctrl && key.name === "l") {
+				onMinLevelChange?.(nextLevelFilter(minLevel));
+				return;
+			}
 			// Navigate to next/previous match with up/down arrows
 			if (key.name === "up") {
 				navigateToMatch(currentMatchIndex - 1);
@@ -562,6 +761,18 @@ export const LogViewer = React.memo(function LogViewer({
 			return;
 		}
 
+		if (key.name === "v" && onMinLevelChange) {
+			// Cycle the level filter: all, info+, warn+, error
+			onMinLevelChange(nextLevelFilter(minLevel));
+			return;
+		}
+
+		if (key.name === "i" && onInputModeChange && tool.pid !== undefined) {
+			// Enter input mode (only while the process can receive input)
+			onInputModeChange(true);
+			return;
+		}
+
 		if (key.name === "escape") {
 			// Clear search
 			onSearchQueryChange("");
@@ -633,6 +844,9 @@ export const LogViewer = React.memo(function LogViewer({
 
 	// Listen for OpenTUI selection events to copy to clipboard
 	useEffect(() => {
+		// Only the focused pane copies, so a selection isn't copied once per pane
+		if (!focused) return;
+
 		const handleSelection = (selection: Selection | null) => {
 			// When selection completes (isSelecting becomes false) and there's selected text
 			if (selection && !selection.isSelecting) {
@@ -652,7 +866,7 @@ export const LogViewer = React.memo(function LogViewer({
 		return () => {
 			renderer.off("selection", handleSelection);
 		};
-	}, [renderer, copyText]);
+	}, [renderer, copyText, focused]);
 
 	// Whether to add left margin (in vertical layout, creates gap between sidebar and content)
 	const needsLeftMargin = sidebarWidth > 0;
@@ -660,7 +874,7 @@ export const LogViewer = React.memo(function LogViewer({
 	return (
 		<box flexGrow={1} flexDirection="column" backgroundColor={colors.surface0}>
 			{/* Search bar - no left margin, extends to sidebar edge */}
-			{(searchMode || searchQuery) && (
+			{(searchMode || searchQuery || minLevel) && (
 				<box
 					height={3}
 					width="100%"
@@ -709,13 +923,31 @@ export const LogViewer = React.memo(function LogViewer({
 								({currentMatchIndex + 1}/{matchingLines.length})
 							</span>
 						)}
-						{searchQuery && matchingLines.length === 0 && (
-							<span fg={colors.error}> (no matches)</span>
+						{regexError ? (
+							<span fg={colors.error}> ({regexError})</span>
+						) : (
+							searchQuery &&
+							matchingLines.length === 0 && (
+								<span fg={colors.error}> (no matches)</span>
+							)
 						)}
 						<span>
 							{" "}
-							[{fuzzyMode ? "Fuzzy" : "Substring"}] [Filter:{" "}
-							{filterMode ? "ON" : "OFF"}]
+							[
+							{fuzzySearch
+								? "Fuzzy"
+								: regexSearch
+									? `Regex${caseSensitive ? ", match case" : ""}${wholeWord ? ", whole words" : ""}`
+									: fieldQuery && hasStructuredLines
+										? "Field"
+										: "Substring"}
+							] [Filter: {filterMode ? "ON" : "OFF"}] [Level:{" "}
+							{minLevel === null
+								? "all"
+								: minLevel === "error"
+									? "error"
+									: `${minLevel}+`}
+							]
 						</span>
 					</text>
 				</box>
@@ -765,18 +997,18 @@ export const LogViewer = React.memo(function LogViewer({
 				) : (
 					(() => {
 						// Build display list: filter lines if filter mode is ON with active search
-						const displayItems =
-							filterMode && searchQuery
-								? matchingLines.map((originalIndex) => ({
-										originalIndex,
-										text: logLines[originalIndex]?.text ?? "",
-										isStderr: logLines[originalIndex]?.isStderr ?? false,
-									}))
-								: logLines.map((logLine, index) => ({
-										originalIndex: index,
-										text: logLine.text,
-										isStderr: logLine.isStderr,
-									}));
+						// or the level filter is set
+						const displayItems = filteredLines
+							? filteredLines.map((originalIndex) => ({
+									originalIndex,
+									text: logLines[originalIndex]?.text ?? "",
+									level: logLines[originalIndex]?.level,
+								}))
+							: logLines.map((logLine, index) => ({
+									originalIndex: index,
+									text: logLine.text,
+									level: logLine.level,
+								}));
 
 						const displayCount = displayItems.length;
 
@@ -805,9 +1037,9 @@ export const LogViewer = React.memo(function LogViewer({
 						// Render a single log line
 						const renderLogLine = (
 							originalIndex: number,
-							_text: string,
+							lineText: string,
 							displayIndex: number,
-							isStderr: boolean,
+							level: LogLevel | undefined,
 						) => {
 							const isFlashing = flashingLine === originalIndex;
 							const isMatch =
@@ -819,7 +1051,7 @@ export const LogViewer = React.memo(function LogViewer({
 
 							// Get the segments for this line (with ANSI colors)
 							const logLine = tool.logs[originalIndex];
-							const segments = logLine?.segments ?? [];
+							const segments = logLines[originalIndex]?.segments ?? [];
 
 							// Truncate segments if needed (preserves colors)
 							const displaySegments = truncateSegments(
@@ -828,6 +1060,31 @@ export const LogViewer = React.memo(function LogViewer({
 								lineWrap,
 							);
 
+							// Render a styled segment; OSC 8 links stay links, underlined
+							const renderSegment = (
+								key: string,
+								seg: TextSegment,
+								fg: string,
+								bg: string | undefined,
+							) =>
+								seg.href ? (
+									<a
+										key={key}
+										href={seg.href}
+										fg={fg}
+										bg={bg}
+										attributes={
+											(seg.attributes ?? 0) | TextAttributes.UNDERLINE
+										}
+									>
+										{seg.text}
+									</a>
+								) : (
+									<span key={key} fg={fg} bg={bg} attributes={seg.attributes}>
+										{seg.text}
+									</span>
+								);
+
 							// Render line content with ANSI colors and search match highlighting
 							const renderLineContent = () => {
 								// If flashing (double-click copy feedback), highlight entire line
@@ -842,13 +1099,23 @@ export const LogViewer = React.memo(function LogViewer({
 
 								// Apply search highlighting on top of ANSI colors
 								if (searchQuery && isMatch) {
-									// Use fuzzy highlighting (character-level) or substring highlighting
-									const highlighted = fuzzyMode
+									// Use fuzzy highlighting (character-level), or regex or substring highlighting
+									// A field query highlights the value in lines without the query itself
+									const highlighted = fuzzySearch
 										? highlightSegmentsWithFuzzyIndices(
 												displaySegments,
 												fuzzyHighlightsMap.get(originalIndex) ?? [],
 											)
-										: highlightSegmentsWithSearch(displaySegments, searchQuery);
+										: highlightSegmentsWithSearch(
+												displaySegments,
+												searchRegex ??
+													(fieldQuery &&
+													!lineText
+														.toLowerCase()
+														.includes(searchQuery.toLowerCase())
+														? fieldQuery.value
+														: searchQuery),
+											);
 									// Build keys based on cumulative position
 									let pos = 0;
 									return highlighted.map((seg) => {
@@ -860,15 +1127,20 @@ export const LogViewer = React.memo(function LogViewer({
 											colors.text,
 											colors.surface0,
 										);
-										return (
-											<span
-												key={key}
-												fg={seg.isMatch ? colors.warning : resolved.fg}
-												bg={resolved.bg}
-												attributes={seg.attributes}
-											>
-												{seg.text}
-											</span>
+										// Capture groups of a regex match stand out from the rest of it
+										if (seg.captureGroup !== undefined) {
+											return renderSegment(
+												key,
+												seg,
+												colors.warningForeground,
+												colors.warning,
+											);
+										}
+										return renderSegment(
+											key,
+											seg,
+											seg.isMatch ? colors.warning : resolved.fg,
+											resolved.bg,
 										);
 									});
 								}
@@ -885,21 +1157,28 @@ export const LogViewer = React.memo(function LogViewer({
 										colors.text,
 										colors.surface0,
 									);
-									return (
-										<span
-											key={key}
-											fg={resolved.fg}
-											bg={resolved.bg}
-											attributes={seg.attributes}
-										>
-											{seg.text}
-										</span>
-									);
+									return renderSegment(key, seg, resolved.fg, resolved.bg);
 								});
 							};
 
 							// Calculate gutter width for proper column sizing
 							const gutterColumnWidth = lineNumberWidth + 1; // line number + border
+							const timestampColumnWidth = LOG_TIMESTAMP_WIDTH + 1; // timestamp + border
+							// Gutters are colored by the line's level
+							const gutterColor =
+								level === "error"
+									? colors.error
+									: level === "warn"
+										? colors.warning
+										: colors.textMuted;
+							const timestamp =
+								showTimestamps && logLine
+									? formatLogTimestamp(
+											logLine.timestamp,
+											timestampMode,
+											relativeStartTime,
+										)
+									: "";
 
 							return (
 								<box
@@ -908,7 +1187,20 @@ export const LogViewer = React.memo(function LogViewer({
 									backgroundColor={colors.surface0}
 									onMouseDown={() => handleMouseDown(originalIndex)}
 								>
-									{/* Line number gutter - muted text with right border, red for stderr */}
+									{/* Timestamp gutter - when the line was received */}
+									{showTimestamps && (
+										<box
+											width={timestampColumnWidth}
+											flexShrink={0}
+											backgroundColor={colors.surface0}
+											border={["right"]}
+											borderStyle="single"
+											borderColor={colors.textMuted}
+										>
+											<text fg={gutterColor}>{timestamp}</text>
+										</box>
+									)}
+									{/* Line number gutter - muted text with right border, colored by level */}
 									{shouldShowLineNumbers && (
 										<box
 											width={gutterColumnWidth}
@@ -918,13 +1210,16 @@ export const LogViewer = React.memo(function LogViewer({
 											borderStyle="single"
 											borderColor={colors.textMuted}
 										>
-											<text fg={isStderr ? colors.error : colors.textMuted}>
-												{lineNumber}
-											</text>
+											<text fg={gutterColor}>{lineNumber}</text>
 										</box>
 									)}
 									{/* Log content - flexible column with OpenTUI selection */}
-									<box flexGrow={1} paddingLeft={shouldShowLineNumbers ? 1 : 0}>
+									<box
+										flexGrow={1}
+										paddingLeft={
+											shouldShowLineNumbers || showTimestamps ? 1 : 0
+										}
+									>
 										<text
 											fg={colors.text}
 											selectable
@@ -950,12 +1245,12 @@ export const LogViewer = React.memo(function LogViewer({
 								)}
 
 								{/* Visible lines only */}
-								{visibleItems.map(({ originalIndex, text, isStderr }, idx) =>
+								{visibleItems.map(({ originalIndex, text, level }, idx) =>
 									renderLogLine(
 										originalIndex,
 										text,
 										effectiveRange.start + idx,
-										isStderr,
+										level,
 									),
 								)}
 
@@ -973,6 +1268,40 @@ export const LogViewer = React.memo(function LogViewer({
 				)}
 			</scrollbox>
 
+			{/* Input bar - lines typed here are written to the process stdin */}
+			{inputMode && (
+				<box
+					height={3}
+					width="100%"
+					backgroundColor={colors.surface1}
+					border
+					borderStyle="single"
+					borderColor={colors.accent}
+					paddingLeft={1}
+					paddingRight={1}
+					flexDirection="row"
+				>
+					<TextInput
+						value={inputValue}
+						onValueChange={(value) => {
+							setInputValue(value);
+							setHistoryIndex(null);
+						}}
+						onSubmit={() => {
+							onSubmitInput?.(inputValue);
+							setInputValue("");
+							setHistoryIndex(null);
+						}}
+						focused={focused && inputMode}
+						theme={theme}
+						prefix=">"
+						prefixBold
+						prefixColor={colors.accent}
+					/>
+					<text fg={colors.textMuted}> [Esc to exit]</text>
+				</box>
+			)}
+
 			{/* Bottom scroll indicator or spacer */}
 			{scrollInfo.linesBelow > 0 ? (
 				<box
@@ -1,4 +1,5 @@
 import { describe, expect, test } from "bun:test";
+import { compileSearchRegex } from "../../../lib/search";
 import type { TextSegment } from "../../../types";
 import {
 	buildLineHeightCache,
@@ -7,9 +8,12 @@ import {
 	calculateLineRows,
 	calculateScrollInfo,
 	calculateVisibleRange,
+	collectLogLinks,
 	extendLineHeightCache,
 	findLineAtRow,
 	findMatchingLines,
+	formatStructuredLog,
+	formatStructuredTime,
 	getLineNumberWidth,
 	getLineStartRow,
 	getSegmentsVisibleWidth,
@@ -246,6 +250,34 @@ describe("calculateContentWidth", () => {
 		expect(withLineNumbers).toBe(withoutLineNumbers - 6);
 	});
 
+	test("accounts for the timestamp gutter when shown", () => {
+		const withLineNumbers = calculateContentWidth({
+			terminalWidth: 100,
+			sidebarWidth: 0,
+			showLineNumbers: true,
+			lineNumberWidth: 3,
+		});
+		const withTimestamps = calculateContentWidth({
+			terminalWidth: 100,
+			sidebarWidth: 0,
+			showLineNumbers: true,
+			lineNumberWidth: 3,
+			timestampWidth: 12,
+		});
+		// timestamp gutter = timestampWidth (12) + border (1)
+		expect(withTimestamps).toBe(withLineNumbers - 13);
+
+		const timestampsOnly = calculateContentWidth({
+			terminalWidth: 100,
+			sidebarWidth: 0,
+			showLineNumbers: false,
+			lineNumberWidth: 3,
+			timestampWidth: 12,
+		});
+		// 100 - 2 - 2 - 13 - contentPadding (1) = 82
+		expect(timestampsOnly).toBe(82);
+	});
+
 	test("accounts for larger line number width", () => {
 		const smallLineNumbers = calculateContentWidth({
 			terminalWidth: 100,
@@ -1013,6 +1045,73 @@ describe("Segment utilities", () => {
 		});
 	});
 
+	describe("collectLogLinks", () => {
+		test("joins adjacent segments with the same target", () => {
+			const href = "http://localhost:5173/";
+			const lines: TextSegment[][] = [
+				[
+					{ text: "Local: " },
+					{ text: "http://localhost:", href, colorIndex: 6 },
+					{ text: "5173", href, attributes: 1 },
+					{ text: "/", href },
+				],
+			];
+			expect(collectLogLinks(lines)).toEqual([
+				{ href, text: "http://localhost:5173/" },
+			]);
+		});
+
+		test("keeps the first occurrence of each target in order", () => {
+			const lines: TextSegment[][] = [
+				[{ text: "a", href: "https://a.test/" }, { text: " and " }],
+				[
+					{ text: "b", href: "https://b.test/" },
+					{ text: "a again", href: "https://a.test/" },
+				],
+				[{ text: "no links" }],
+			];
+			expect(collectLogLinks(lines)).toEqual([
+				{ href: "https://a.test/", text: "a" },
+				{ href: "https://b.test/", text: "b" },
+			]);
+		});
+
+		test("turns file hyperlinks into file references", () => {
+			const lines: TextSegment[][] = [
+				[{ text: "report.html", href: "file:///tmp/report.html" }],
+				[{ text: "share", href: "file://server/share/run.exe" }],
+			];
+			expect(collectLogLinks(lines)).toEqual([
+				{
+					href: "/tmp/report.html:1",
+					text: "report.html",
+					file: { file: "/tmp/report.html", line: 1, text: "report.html" },
+				},
+				// Files on other hosts stay links, which aren't opened
+				{ href: "file://server/share/run.exe", text: "share" },
+			]);
+		});
+
+		test("adds file references found in the text", () => {
+			const file = {
+				file: "/app/src/user.ts",
+				line: 42,
+				column: 7,
+				text: "src/user.ts:42:7",
+			};
+			const lines: TextSegment[][] = [
+				[{ text: "docs", href: "https://example.com" }],
+				[{ text: "Error at " }, { text: "src/user.ts:42:7", colorIndex: 6 }],
+			];
+			const findFiles = (text: string) =>
+				text.includes(file.text) ? [file] : [];
+			expect(collectLogLinks(lines, findFiles)).toEqual([
+				{ href: "https://example.com", text: "docs" },
+				{ href: "/app/src/user.ts:42:7", text: "src/user.ts:42:7", file },
+			]);
+		});
+	});
+
 	describe("highlightSegmentsWithSearch", () => {
 		test("returns segments with isMatch false when query is empty", () => {
 			const segments: TextSegment[] = [{ text: "Hello World" }];
@@ -1143,5 +1242,68 @@ describe("Segment utilities", () => {
 			expect(result[0]?.color).toBe("#ff0000");
 			expect(result[0]?.bgColor).toBe("#0000ff");
 		});
+
+		test("highlights regex matches with their capture groups", () => {
+			const segments: TextSegment[] = [
+				{ text: "GET ", color: "#ff0000" },
+				{ text: "/users/42 200" },
+			];
+			const result = highlightSegmentsWithSearch(
+				segments,
+				compileSearchRegex("get /users/(\\d+)"),
+			);
+			expect(
+				result.map(({ text, isMatch, captureGroup }) => ({
+					text,
+					isMatch,
+					captureGroup,
+				})),
+			).toEqual([
+				{ text: "GET ", isMatch: true, captureGroup: undefined },
+				{ text: "/users/", isMatch: true, captureGroup: undefined },
+				{ text: "42", isMatch: true, captureGroup: 1 },
+				{ text: " 200", isMatch: false, captureGroup: undefined },
+			]);
+			expect(result[0]?.color).toBe("#ff0000");
+		});
+	});
+});
+
+describe("Structured log lines", () => {
+	const log = {
+		level: "warn",
+		time: "checkout-7",
+		message: "Slow query\nretrying",
+		fields: [
+			["ms", "812"],
+			["query", "SELECT 1"],
+		] as [string, string][],
+	};
+	const text = (segments: TextSegment[]) =>
+		segments.map((segment) => segment.text).join("");
+
+	test("formatStructuredLog - shows level, time and message with a field count", () => {
+		const segments = formatStructuredLog(log, false);
+		expect(text(segments)).toBe(
+			"WARN  checkout-7 Slow query\\nretrying +2 fields",
+		);
+		expect(segments[0]?.colorIndex).toBe(3);
+	});
+
+	test("formatStructuredLog - shows the fields as key=value pairs", () => {
+		expect(text(formatStructuredLog(log, true))).toBe(
+			'WARN  checkout-7 Slow query\\nretrying ms=812 query="SELECT 1"',
+		);
+		expect(text(formatStructuredLog({ fields: [] }, true))).toBe("     ");
+	});
+
+	test("formatStructuredTime - converts dates and epochs to local time", () => {
+		const date = new Date(2026, 0, 2, 3, 4, 5, 678);
+		expect(formatStructuredTime(date.toISOString())).toBe("03:04:05.678");
+		expect(formatStructuredTime(String(date.getTime()))).toBe("03:04:05.678");
+		expect(formatStructuredTime(String(date.getTime() / 1000))).toBe(
+			"03:04:05.678",
+		);
+		expect(formatStructuredTime("yesterday-ish")).toBe("yesterday-ish");
 	});
 });
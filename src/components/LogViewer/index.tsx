@@ -4,4 +4,5 @@ export {
 	getLineNumberWidth,
 	LINE_NUMBER_GUTTER_WIDTH,
 	LINE_NUMBER_WIDTH_THRESHOLD,
+	type LogLink,
 } from "./log-viewer-utils";
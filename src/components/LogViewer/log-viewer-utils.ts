@@ -1,5 +1,14 @@
+import { TextAttributes } from "@opentui/core";
+import {
+	type FileReference,
+	formatFileReference,
+	parseFileUrl,
+} from "../../lib/editor";
+import { findRegexMatchRanges, type RegexMatchRange } from "../../lib/search";
 import { getVisibleWidth } from "../../lib/text/ansi";
-import type { TextSegment } from "../../types";
+import type { AnsiPalette } from "../../lib/theme";
+import { formatLogTimestamp } from "../../lib/time";
+import type { StructuredLog, TextSegment } from "../../types";
 
 /** Calculate the width needed for line numbers */
 export function getLineNumberWidth(totalLines: number): number {
@@ -31,6 +40,8 @@ interface ContentWidthParams {
 	sidebarWidth: number;
 	showLineNumbers: boolean;
 	lineNumberWidth: number;
+	/** Width of the timestamp gutter text (0 when timestamps are hidden) */
+	timestampWidth?: number;
 }
 
 /**
@@ -39,7 +50,8 @@ interface ContentWidthParams {
  * - Sidebar (when in vertical layout): sidebarWidth (width + border, but borders overlap)
  * - LogViewer border box: 2 (left + right)
  * - Line number gutter (when shown): lineNumberWidth + 2 (number + border + padding)
- * - Content padding left (when line numbers shown): 1
+ * - Timestamp gutter (when shown): timestampWidth + 1 (timestamp + border)
+ * - Content padding left (when line numbers or timestamps shown): 1
  * - Scrollbar area: 2 (scrollbar + paddingLeft)
  */
 export function calculateContentWidth({
@@ -47,10 +59,13 @@ export function calculateContentWidth({
 	sidebarWidth,
 	showLineNumbers,
 	lineNumberWidth,
+	timestampWidth = 0,
 }: ContentWidthParams): number {
 	const logViewerBorder = 2;
-	const gutterWidth = showLineNumbers ? lineNumberWidth + 2 : 0;
-	const contentPadding = showLineNumbers ? 1 : 0;
+	const gutterWidth =
+		(showLineNumbers ? lineNumberWidth + 2 : 0) +
+		(timestampWidth > 0 ? timestampWidth + 1 : 0);
+	const contentPadding = showLineNumbers || timestampWidth > 0 ? 1 : 0;
 	const scrollbarWidth = 2;
 
 	// When sidebar is present, the sidebar's border is already included in sidebarWidth (22 = 20 + 2),
@@ -516,6 +531,7 @@ export function truncateSegments(
 						colorIndex: segment.colorIndex,
 						bgColorIndex: segment.bgColorIndex,
 						attributes: segment.attributes,
+						href: segment.href,
 					});
 				}
 			}
@@ -528,6 +544,138 @@ export function truncateSegments(
 	return result;
 }
 
+/** A hyperlink or file reference in the log output */
+export interface LogLink {
+	/** Link target; the absolute file:line[:column] for file references */
+	href: string;
+	/** Text the link is shown as */
+	text: string;
+	/** Set for file references, which open in the editor */
+	file?: FileReference;
+}
+
+/**
+ * Collect the links of some lines, in order and without duplicates: OSC 8
+ * hyperlinks and, with findFiles, file references in the text. file://
+ * hyperlinks become file references.
+ * Adjacent segments with the same target (e.g. a colored port number) form one link.
+ * @param findFiles - Finds the file references in a line's text
+ */
+export function collectLogLinks(
+	lines: TextSegment[][],
+	findFiles?: (text: string) => FileReference[],
+): LogLink[] {
+	const links = new Map<string, LogLink>();
+	const add = (link: LogLink | null) => {
+		if (!link) return;
+		// file:// hyperlinks open in the editor too, never with the system opener
+		const file = link.file ?? parseFileUrl(link.href, link.text);
+		const resolved = file
+			? { href: formatFileReference(file), text: link.text, file }
+			: link;
+		if (!links.has(resolved.href)) links.set(resolved.href, resolved);
+	};
+
+	for (const segments of lines) {
+		let current: LogLink | null = null;
+		for (const segment of segments) {
+			if (segment.href && segment.href === current?.href) {
+				current.text += segment.text;
+				continue;
+			}
+			add(current);
+			current = segment.href
+				? { href: segment.href, text: segment.text }
+				: null;
+		}
+		add(current);
+
+		const text = segments.map((segment) => segment.text).join("");
+		for (const file of findFiles?.(text) ?? []) {
+			add({ href: formatFileReference(file), text: file.text, file });
+		}
+	}
+	return Array.from(links.values());
+}
+
+/** Width of the level column of structured log lines ("ERROR", "INFO ") */
+const LEVEL_COLUMN_WIDTH = 5;
+
+/** ANSI palette colors of structured log levels */
+const LEVEL_COLOR_INDEXES: Record<string, number> = {
+	fatal: 1,
+	error: 1,
+	warn: 3,
+	info: 2,
+	debug: 6,
+	trace: 8,
+};
+
+/**
+ * Format the time field of a structured log as local time ("14:03:27.512").
+ * Epoch numbers (seconds or milliseconds) and ISO 8601 dates are converted;
+ * anything else is shown as written.
+ */
+export function formatStructuredTime(time: string): string {
+	const epoch = Number(time);
+	const ms =
+		time !== "" && Number.isFinite(epoch)
+			? epoch < 1e12
+				? epoch * 1000
+				: epoch
+			: /^\d{4}-\d{2}-\d{2}[T ]\d/.test(time)
+				? Date.parse(time)
+				: Number.NaN;
+	return Number.isNaN(ms) ? time : formatLogTimestamp(ms, "absolute");
+}
+
+/** Quote field values that contain spaces, quotes or newlines, like logfmt does */
+function formatFieldValue(value: string): string {
+	return /[\s"]/.test(value) || value === "" ? JSON.stringify(value) : value;
+}
+
+/**
+ * Render a structured log line as level, time and message columns.
+ * @param showFields - Show the other fields as key=value pairs; otherwise only their count
+ */
+export function formatStructuredLog(
+	log: StructuredLog,
+	showFields: boolean,
+): TextSegment[] {
+	const segments: TextSegment[] = [
+		{
+			text: (log.level?.toUpperCase() ?? "").padEnd(LEVEL_COLUMN_WIDTH),
+			colorIndex: log.level ? LEVEL_COLOR_INDEXES[log.level] : undefined,
+			attributes: TextAttributes.BOLD,
+		},
+	];
+	if (log.time !== undefined) {
+		segments.push({
+			text: ` ${formatStructuredTime(log.time)}`,
+			attributes: TextAttributes.DIM,
+		});
+	}
+	if (log.message) {
+		segments.push({ text: ` ${log.message.replace(/\r?\n/g, "\\n")}` });
+	}
+
+	if (showFields) {
+		for (const [key, value] of log.fields) {
+			segments.push(
+				{ text: ` ${key}=`, colorIndex: 6 },
+				{ text: formatFieldValue(value) },
+			);
+		}
+	} else if (log.fields.length > 0) {
+		const count = log.fields.length;
+		segments.push({
+			text: ` +${count} ${count === 1 ? "field" : "fields"}`,
+			attributes: TextAttributes.DIM,
+		});
+	}
+	return segments;
+}
+
 /** A segment with ANSI styling plus search match information */
 export interface StyledHighlightSegment {
 	text: string;
@@ -536,17 +684,22 @@ export interface StyledHighlightSegment {
 	colorIndex?: number;
 	bgColorIndex?: number;
 	attributes?: number;
+	href?: string;
 	isMatch: boolean;
+	/** Capture group of a regex match this text belongs to */
+	captureGroup?: number;
 }
 
 /**
  * Overlay search highlighting on styled text segments.
  * Splits segments at match boundaries while preserving original colors.
  * Match portions get isMatch: true for special highlighting.
+ * @param query - A substring (case-insensitive), or a regex from compileSearchRegex
+ *   whose capture groups are marked with captureGroup
  */
 export function highlightSegmentsWithSearch(
 	segments: TextSegment[],
-	query: string,
+	query: string | RegExp,
 ): StyledHighlightSegment[] {
 	if (!query || segments.length === 0) {
 		return segments.map((seg) => ({
@@ -556,26 +709,31 @@ export function highlightSegmentsWithSearch(
 			colorIndex: seg.colorIndex,
 			bgColorIndex: seg.bgColorIndex,
 			attributes: seg.attributes,
+			href: seg.href,
 			isMatch: false,
 		}));
 	}
 
-	const lowerQuery = query.toLowerCase();
 	const result: StyledHighlightSegment[] = [];
 
 	// Build a flat representation of all text with segment boundaries
 	// so we can find matches across segment boundaries
 	const fullText = segments.map((s) => s.text).join("");
-	const lowerFullText = fullText.toLowerCase();
 
 	// Find all match positions in the full text
-	const matchRanges: Array<{ start: number; end: number }> = [];
-	let searchStart = 0;
-	let matchIndex = lowerFullText.indexOf(lowerQuery, searchStart);
-	while (matchIndex !== -1) {
-		matchRanges.push({ start: matchIndex, end: matchIndex + query.length });
-		searchStart = matchIndex + query.length;
-		matchIndex = lowerFullText.indexOf(lowerQuery, searchStart);
+	let matchRanges: RegexMatchRange[] = [];
+	if (typeof query === "string") {
+		const lowerQuery = query.toLowerCase();
+		const lowerFullText = fullText.toLowerCase();
+		let searchStart = 0;
+		let matchIndex = lowerFullText.indexOf(lowerQuery, searchStart);
+		while (matchIndex !== -1) {
+			matchRanges.push({ start: matchIndex, end: matchIndex + query.length });
+			searchStart = matchIndex + query.length;
+			matchIndex = lowerFullText.indexOf(lowerQuery, searchStart);
+		}
+	} else {
+		matchRanges = findRegexMatchRanges(fullText, query);
 	}
 
 	// If no matches, return segments with isMatch: false
@@ -587,6 +745,7 @@ export function highlightSegmentsWithSearch(
 			colorIndex: seg.colorIndex,
 			bgColorIndex: seg.bgColorIndex,
 			attributes: seg.attributes,
+			href: seg.href,
 			isMatch: false,
 		}));
 	}
@@ -634,7 +793,11 @@ export function highlightSegmentsWithSearch(
 						colorIndex: segment.colorIndex,
 						bgColorIndex: segment.bgColorIndex,
 						attributes: segment.attributes,
+						href: segment.href,
 						isMatch: true,
+						...(currentMatch.group !== undefined && {
+							captureGroup: currentMatch.group,
+						}),
 					});
 				}
 				localPos = matchEndInSegment;
@@ -657,6 +820,7 @@ export function highlightSegmentsWithSearch(
 						colorIndex: segment.colorIndex,
 						bgColorIndex: segment.bgColorIndex,
 						attributes: segment.attributes,
+						href: segment.href,
 						isMatch: false,
 					});
 				}
@@ -687,6 +851,7 @@ export function highlightSegmentsWithFuzzyIndices(
 			colorIndex: seg.colorIndex,
 			bgColorIndex: seg.bgColorIndex,
 			attributes: seg.attributes,
+			href: seg.href,
 			isMatch: false,
 		}));
 	}
@@ -717,6 +882,7 @@ export function highlightSegmentsWithFuzzyIndices(
 						colorIndex: segment.colorIndex,
 						bgColorIndex: segment.bgColorIndex,
 						attributes: segment.attributes,
+						href: segment.href,
 						isMatch: currentIsMatch,
 					});
 				}
@@ -735,6 +901,7 @@ export function highlightSegmentsWithFuzzyIndices(
 				colorIndex: segment.colorIndex,
 				bgColorIndex: segment.bgColorIndex,
 				attributes: segment.attributes,
+				href: segment.href,
 				isMatch: currentIsMatch,
 			});
 		}
@@ -744,3 +911,71 @@ export function highlightSegmentsWithFuzzyIndices(
 
 	return result;
 }
+
+/**
+ * Resolves the foreground color for a segment using the theme's ANSI palette.
+ * If colorIndex is set (0-15), looks up from palette; otherwise uses color directly.
+ */
+function resolveRawFgColor(
+	segment: { color?: string; colorIndex?: number },
+	palette: AnsiPalette,
+	fallback: string,
+): string {
+	if (segment.colorIndex !== undefined) {
+		if (segment.colorIndex < 8) {
+			return palette.standard[segment.colorIndex] ?? fallback;
+		}
+		return palette.bright[segment.colorIndex - 8] ?? fallback;
+	}
+	return segment.color ?? fallback;
+}
+
+/**
+ * Resolves the background color for a segment using the theme's ANSI palette.
+ */
+function resolveRawBgColor(
+	segment: { bgColor?: string; bgColorIndex?: number },
+	palette: AnsiPalette,
+): string | undefined {
+	if (segment.bgColorIndex !== undefined) {
+		if (segment.bgColorIndex < 8) {
+			return palette.standard[segment.bgColorIndex];
+		}
+		return palette.bright[segment.bgColorIndex - 8];
+	}
+	return segment.bgColor;
+}
+
+/**
+ * Resolves foreground and background colors for a segment, handling INVERSE attribute.
+ * When INVERSE is set, foreground and background are swapped.
+ */
+export function resolveSegmentColors(
+	segment: {
+		color?: string;
+		colorIndex?: number;
+		bgColor?: string;
+		bgColorIndex?: number;
+		attributes?: number;
+	},
+	palette: AnsiPalette,
+	defaultFg: string,
+	defaultBg: string,
+): { fg: string; bg: string | undefined } {
+	const rawFg = resolveRawFgColor(segment, palette, defaultFg);
+	const rawBg = resolveRawBgColor(segment, palette);
+
+	// Check if INVERSE attribute is set
+	const isInverse = (segment.attributes ?? 0) & TextAttributes.INVERSE;
+
+	if (isInverse) {
+		// Swap foreground and background
+		// If no background was set, use the default background for the new foreground
+		return {
+			fg: rawBg ?? defaultBg,
+			bg: rawFg,
+		};
+	}
+
+	return { fg: rawFg, bg: rawBg };
+}
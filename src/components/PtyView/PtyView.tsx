@@ -0,0 +1,128 @@
+import { type BoxRenderable, TextAttributes } from "@opentui/core";
+import { useKeyboard } from "@opentui/react";
+import { useCallback, useEffect, useRef } from "react";
+import type { TerminalScreen } from "../../lib/terminal";
+import type { Theme } from "../../lib/theme";
+import { resolveSegmentColors } from "../LogViewer/log-viewer-utils";
+import { isTerminalDetachKey, keyToTerminalInput } from "./pty-keys";
+
+interface PtyViewProps {
+	/** Screen of the running pty tool */
+	screen: TerminalScreen;
+	theme: Theme;
+	/** Whether keys are forwarded to the terminal */
+	inputMode: boolean;
+	onInputModeChange: (active: boolean) => void;
+	/** Called with the bytes to write to the terminal for each key press */
+	onInput: (data: string) => void;
+	/** Called when the view size changes, so the terminal can be resized to match */
+	onResize: (cols: number, rows: number) => void;
+	/** Whether this view receives keyboard input (false for unfocused panes) */
+	focused?: boolean;
+}
+
+/**
+ * Shows the screen of a tool running under a pseudo-terminal.
+ * Press "i" to type into the terminal; every key (including Esc and Ctrl+C)
+ * is then forwarded until Ctrl+] is pressed.
+ */
+export function PtyView({
+	screen,
+	theme,
+	inputMode,
+	onInputModeChange,
+	onInput,
+	onResize,
+	focused = true,
+}: PtyViewProps) {
+	const { colors, ansiPalette } = theme;
+	const screenBoxRef = useRef<BoxRenderable>(null);
+
+	// Match the terminal size to the space available for the screen
+	const reportSize = useCallback(() => {
+		const box = screenBoxRef.current;
+		if (box && box.width > 0 && box.height > 0) {
+			onResize(box.width, box.height);
+		}
+	}, [onResize]);
+
+	useEffect(() => {
+		reportSize();
+	}, [reportSize]);
+
+	useKeyboard((key) => {
+		if (!focused || key.eventType === "release") return;
+
+		if (!inputMode) {
+			if (key.name === "i") {
+				onInputModeChange(true);
+			}
+			return;
+		}
+
+		if (isTerminalDetachKey(key)) {
+			onInputModeChange(false);
+			return;
+		}
+		const data = keyToTerminalInput(key);
+		if (data !== null) {
+			onInput(data);
+		}
+	});
+
+	const rows = screen.getRows(focused);
+
+	return (
+		<box flexGrow={1} flexDirection="column" backgroundColor={colors.surface0}>
+			<box
+				ref={screenBoxRef}
+				flexGrow={1}
+				flexDirection="column"
+				overflow="hidden"
+				onSizeChange={reportSize}
+			>
+				{rows.map((segments, y) => {
+					let pos = 0;
+					return (
+						// biome-ignore lint/suspicious/noArrayIndexKey: rows are fixed screen positions
+						<text key={y} fg={colors.text} wrapMode="none">
+							{segments.map((seg) => {
+								const key = pos;
+								pos += seg.text.length;
+								const resolved = resolveSegmentColors(
+									seg,
+									ansiPalette,
+									colors.text,
+									colors.surface0,
+								);
+								return (
+									<span
+										key={key}
+										fg={resolved.fg}
+										bg={resolved.bg}
+										// Inverse is already applied by swapping the colors
+										attributes={(seg.attributes ?? 0) & ~TextAttributes.INVERSE}
+									>
+										{seg.text}
+									</span>
+								);
+							})}
+						</text>
+					);
+				})}
+			</box>
+
+			{/* Hint bar - shows how to start or stop typing into the terminal */}
+			<box height={1} width="100%" flexDirection="row" paddingLeft={1}>
+				{inputMode ? (
+					<text fg={colors.accent}>
+						<span attributes={TextAttributes.BOLD}>TYPING</span>
+						<span fg={colors.textMuted}> · Ctrl+] to stop</span>
+					</text>
+				) : (
+					<text fg={colors.textMuted}>Press i to type into the terminal</text>
+				)}
+			</box>
+		</box>
+	);
+}
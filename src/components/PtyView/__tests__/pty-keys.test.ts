@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { isTerminalDetachKey, keyToTerminalInput } from "../pty-keys";
+
+function key(
+	name: string,
+	sequence = name,
+	mods: Partial<Record<"ctrl" | "meta" | "shift", boolean>> = {},
+) {
+	return { name, sequence, ctrl: false, meta: false, shift: false, ...mods };
+}
+
+describe("keyToTerminalInput", () => {
+	test("passes printable characters through", () => {
+		expect(keyToTerminalInput(key("a"))).toBe("a");
+		expect(keyToTerminalInput(key("a", "A", { shift: true }))).toBe("A");
+		expect(keyToTerminalInput(key("é"))).toBe("é");
+	});
+
+	test("maps named keys to terminal sequences", () => {
+		expect(keyToTerminalInput(key("return", "\r"))).toBe("\r");
+		expect(keyToTerminalInput(key("backspace", "\x7f"))).toBe("\x7f");
+		expect(keyToTerminalInput(key("up", "\x1b[A"))).toBe("\x1b[A");
+		expect(keyToTerminalInput(key("escape", "\x1b"))).toBe("\x1b");
+		expect(keyToTerminalInput(key("tab", "\x1b[Z", { shift: true }))).toBe(
+			"\x1b[Z",
+		);
+	});
+
+	test("maps Ctrl+letter to control codes", () => {
+		expect(keyToTerminalInput(key("c", "\x03", { ctrl: true }))).toBe("\x03");
+		// Kitty protocol sequences are ignored in favour of the key name
+		expect(keyToTerminalInput(key("d", "\x1b[100;5u", { ctrl: true }))).toBe(
+			"\x04",
+		);
+	});
+
+	test("prefixes Alt/Meta keys with ESC", () => {
+		expect(keyToTerminalInput(key("b", "\x1bb", { meta: true }))).toBe("\x1bb");
+	});
+
+	test("returns null for keys without input", () => {
+		expect(keyToTerminalInput(key("unknown", "\x1b[99~"))).toBeNull();
+	});
+});
+
+describe("isTerminalDetachKey", () => {
+	test("matches Ctrl+] only", () => {
+		expect(isTerminalDetachKey(key("", "\x1d"))).toBe(true);
+		expect(isTerminalDetachKey(key("]", "]", { ctrl: true }))).toBe(true);
+		expect(isTerminalDetachKey(key("escape", "\x1b"))).toBe(false);
+		expect(isTerminalDetachKey(key("]"))).toBe(false);
+	});
+});
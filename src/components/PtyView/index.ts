@@ -0,0 +1 @@
+export { PtyView } from "./PtyView";
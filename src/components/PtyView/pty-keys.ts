@@ -0,0 +1,73 @@
+import type { ParsedKey } from "@opentui/core";
+
+type Key = Pick<ParsedKey, "name" | "ctrl" | "meta" | "shift" | "sequence">;
+
+/** Sequences a VT100/xterm sends for named keys */
+const NAMED_KEY_SEQUENCES: Record<string, string> = {
+	return: "\r",
+	enter: "\r",
+	linefeed: "\n",
+	backspace: "\x7f",
+	tab: "\t",
+	escape: "\x1b",
+	space: " ",
+	up: "\x1b[A",
+	down: "\x1b[B",
+	right: "\x1b[C",
+	left: "\x1b[D",
+	home: "\x1b[H",
+	end: "\x1b[F",
+	pageup: "\x1b[5~",
+	pagedown: "\x1b[6~",
+	insert: "\x1b[2~",
+	delete: "\x1b[3~",
+	f1: "\x1bOP",
+	f2: "\x1bOQ",
+	f3: "\x1bOR",
+	f4: "\x1bOS",
+	f5: "\x1b[15~",
+	f6: "\x1b[17~",
+	f7: "\x1b[18~",
+	f8: "\x1b[19~",
+	f9: "\x1b[20~",
+	f10: "\x1b[21~",
+	f11: "\x1b[23~",
+	f12: "\x1b[24~",
+};
+
+/**
+ * Whether a key ends typing into the terminal (Ctrl+]).
+ * Escape can't be used because full-screen programs need it.
+ */
+export function isTerminalDetachKey(key: Key): boolean {
+	return key.sequence === "\x1d" || (key.ctrl && key.name === "]");
+}
+
+/**
+ * Translate a key press into the bytes a terminal would send for it.
+ * Works from the key name so it doesn't depend on the keyboard protocol
+ * of the outer terminal.
+ *
+ * @returns The input to write to the pseudo-terminal, or null if the key has none
+ */
+export function keyToTerminalInput(key: Key): string | null {
+	if (key.name === "tab" && key.shift) return "\x1b[Z";
+
+	let data: string | null = NAMED_KEY_SEQUENCES[key.name] ?? null;
+	if (data === null) {
+		if (key.ctrl && /^[a-z]$/.test(key.name)) {
+			// Ctrl+A..Z map to control codes 1..26
+			data = String.fromCharCode(key.name.charCodeAt(0) - 96);
+		} else if (key.sequence && !key.sequence.startsWith("\x1b")) {
+			data = key.sequence;
+		} else if (key.name.length === 1) {
+			data = key.shift ? key.name.toUpperCase() : key.name;
+		}
+	}
+
+	// Alt/Meta prefixes the key with ESC
+	if (data !== null && key.meta && !data.startsWith("\x1b")) {
+		data = `\x1b${data}`;
+	}
+	return data;
+}
@@ -0,0 +1,79 @@
+import { TextAttributes } from "@opentui/core";
+import type { ReactNode } from "react";
+import type { Theme } from "../../lib/theme";
+import { getPaneSizes } from "./split-pane-utils";
+
+interface SplitPanesProps {
+	/** "row" places panes side by side, "column" stacks them */
+	direction: "row" | "column";
+	/** Tool name shown in each pane */
+	paneNames: string[];
+	/** Index of the pane that receives keyboard input */
+	focusedIndex: number;
+	theme: Theme;
+	/** Width of the whole split area, used to size side-by-side panes */
+	width: number;
+	/** Called when a pane header is clicked */
+	onFocus: (index: number) => void;
+	/** Render the content of a pane, given its width */
+	renderPane: (name: string, index: number, width: number) => ReactNode;
+}
+
+/**
+ * Splits the log area into panes, each with a one-line header naming its tool.
+ * The focused pane's header is highlighted.
+ */
+export function SplitPanes({
+	direction,
+	paneNames,
+	focusedIndex,
+	theme,
+	width,
+	onFocus,
+	renderPane,
+}: SplitPanesProps) {
+	const { colors } = theme;
+	const paneWidths =
+		direction === "row"
+			? getPaneSizes(width, paneNames.length)
+			: paneNames.map(() => width);
+
+	return (
+		<box
+			flexDirection={direction}
+			flexGrow={1}
+			flexShrink={1}
+			flexBasis={0}
+			backgroundColor={colors.surface0}
+		>
+			{paneNames.map((name, index) => {
+				const isFocused = index === focusedIndex;
+				const paneWidth = paneWidths[index] ?? width;
+				return (
+					<box
+						key={`pane-${name}`}
+						flexDirection="column"
+						flexGrow={1}
+						flexShrink={1}
+						flexBasis={0}
+					>
+						<box
+							height={1}
+							paddingLeft={1}
+							backgroundColor={isFocused ? colors.accent : colors.surface1}
+							onMouseDown={() => onFocus(index)}
+						>
+							<text
+								attributes={isFocused ? TextAttributes.BOLD : undefined}
+								fg={isFocused ? colors.accentForeground : colors.textMuted}
+							>
+								{name}
+							</text>
+						</box>
+						{renderPane(name, index, paneWidth)}
+					</box>
+				);
+			})}
+		</box>
+	);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getPaneSizes,
+	MAX_PANES,
+	pickToolForNewPane,
+	restorePaneLayout,
+} from "../split-pane-utils";
+
+describe("pickToolForNewPane", () => {
+	const toolNames = ["web", "api", "worker", "db"];
+
+	test("picks the next tool after the focused one", () => {
+		expect(pickToolForNewPane(["api"], "api", toolNames)).toBe("worker");
+	});
+
+	test("skips tools already shown and wraps around", () => {
+		expect(pickToolForNewPane(["db", "web"], "db", toolNames)).toBe("api");
+	});
+
+	test("returns null when every tool is shown", () => {
+		expect(pickToolForNewPane(toolNames, "web", toolNames)).toBeNull();
+	});
+});
+
+describe("restorePaneLayout", () => {
+	test("keeps panes for existing tools", () => {
+		expect(
+			restorePaneLayout({ direction: "row", panes: ["web", "api"] }, [
+				"web",
+				"api",
+			]),
+		).toEqual({ direction: "row", panes: ["web", "api"] });
+	});
+
+	test("drops missing and duplicate tools", () => {
+		expect(
+			restorePaneLayout(
+				{ direction: "column", panes: ["web", "gone", "web", "api"] },
+				["web", "api"],
+			),
+		).toEqual({ direction: "column", panes: ["web", "api"] });
+	});
+
+	test("returns null when fewer than two panes remain", () => {
+		expect(
+			restorePaneLayout({ direction: "row", panes: ["web", "gone"] }, ["web"]),
+		).toBeNull();
+		expect(restorePaneLayout(undefined, ["web"])).toBeNull();
+	});
+
+	test("limits the number of panes", () => {
+		const names = ["a", "b", "c", "d", "e"];
+		expect(
+			restorePaneLayout({ direction: "row", panes: names }, names)?.panes,
+		).toHaveLength(MAX_PANES);
+	});
+});
+
+describe("getPaneSizes", () => {
+	test("splits evenly", () => {
+		expect(getPaneSizes(100, 2)).toEqual([50, 50]);
+	});
+
+	test("gives the remainder to earlier panes", () => {
+		expect(getPaneSizes(101, 3)).toEqual([34, 34, 33]);
+	});
+
+	test("returns nothing for zero panes", () => {
+		expect(getPaneSizes(100, 0)).toEqual([]);
+	});
+});
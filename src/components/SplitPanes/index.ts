@@ -0,0 +1,7 @@
+export { SplitPanes } from "./SplitPanes";
+export {
+	getPaneSizes,
+	MAX_PANES,
+	pickToolForNewPane,
+	restorePaneLayout,
+} from "./split-pane-utils";
@@ -0,0 +1,62 @@
+import type { PaneLayout } from "../../lib/preferences";
+
+/** Maximum number of panes the log area can be split into */
+export const MAX_PANES = 4;
+
+/**
+ * Pick the tool for a new pane: the first tool after the current one
+ * (wrapping around) that isn't already shown in a pane.
+ * Returns null when every tool is already shown.
+ *
+ * @param panes - Tool names currently shown in panes
+ * @param current - Tool name in the focused pane
+ * @param toolNames - All tool names that can be shown, in tab order
+ */
+export function pickToolForNewPane(
+	panes: string[],
+	current: string,
+	toolNames: string[],
+): string | null {
+	const start = Math.max(0, toolNames.indexOf(current));
+	for (let offset = 1; offset <= toolNames.length; offset++) {
+		const name = toolNames[(start + offset) % toolNames.length];
+		if (name !== undefined && !panes.includes(name)) {
+			return name;
+		}
+	}
+	return null;
+}
+
+/**
+ * Drop panes whose tools no longer exist (e.g. after a config change).
+ * Returns null if fewer than two panes remain, since one pane is no split.
+ *
+ * @param layout - Saved layout
+ * @param toolNames - All tool names that can be shown
+ */
+export function restorePaneLayout(
+	layout: PaneLayout | undefined,
+	toolNames: string[],
+): PaneLayout | null {
+	if (!layout) return null;
+	const panes = layout.panes
+		.filter(
+			(name, i) => toolNames.includes(name) && layout.panes.indexOf(name) === i,
+		)
+		.slice(0, MAX_PANES);
+	return panes.length >= 2 ? { direction: layout.direction, panes } : null;
+}
+
+/**
+ * Split a length (columns or rows) between panes as evenly as possible.
+ * Earlier panes get the remainder.
+ */
+export function getPaneSizes(total: number, count: number): number[] {
+	if (count <= 0) return [];
+	const base = Math.floor(total / count);
+	const remainder = total % count;
+	return Array.from(
+		{ length: count },
+		(_, i) => base + (i < remainder ? 1 : 0),
+	);
+}
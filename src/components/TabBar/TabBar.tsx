@@ -240,8 +240,14 @@ export function TabBar({
 		return vertical ? colors.surface1 : colors.surface0;
 	};
 
-	const getStatusIcon = (status: ToolState["status"]) => {
-		switch (status) {
+	const getStatusIcon = (tool: ToolState) => {
+		if (tool.crashLoop) {
+			return `${StatusIcons.CRASH_LOOP} `;
+		}
+		if (tool.nextRestartAt) {
+			return `${StatusIcons.RESTARTING} `;
+		}
+		switch (tool.status) {
 			case "running":
 				return `${StatusIcons.RUNNING} `;
 			case "shuttingDown":
@@ -259,6 +265,12 @@ export function TabBar({
 		if (index === activeIndex) {
 			return colors.accentForeground;
 		}
+		if (tool.crashLoop) {
+			return colors.error;
+		}
+		if (tool.nextRestartAt) {
+			return colors.warning;
+		}
 		switch (tool.status) {
 			case "error":
 				return colors.error;
@@ -333,7 +345,7 @@ export function TabBar({
 								attributes={tabIndex === activeIndex ? TextAttributes.BOLD : 0}
 								fg={getTabTextColor(tool, tabIndex)}
 							>
-								{getStatusIcon(tool.status)}
+								{getStatusIcon(tool)}
 								{showTabNumbers && index < 9 ? `${index + 1}:` : ""}
 								{tool.config.name}
 							</text>
@@ -452,7 +464,7 @@ export function TabBar({
 							attributes={tabIndex === activeIndex ? TextAttributes.BOLD : 0}
 							fg={getTabTextColor(tool, tabIndex)}
 						>
-							{getStatusIcon(tool.status)}
+							{getStatusIcon(tool)}
 							{showTabNumbers && index < 9 ? `${index + 1}:` : ""}
 							{truncateName(tool.config.name)}
 						</text>
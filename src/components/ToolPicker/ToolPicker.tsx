@@ -0,0 +1,202 @@
+import { type ScrollBoxRenderable, TextAttributes } from "@opentui/core";
+import { useKeyboard, useTerminalDimensions } from "@opentui/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getToolBadgeColorIndex } from "../../lib/processes";
+import { useTheme } from "../../lib/theme";
+
+interface ToolPickerProps {
+	/** Whether the picker is open */
+	isOpen: boolean;
+	/** Called when picker should close */
+	onClose: () => void;
+	/** Names of all tools, in tab order */
+	toolNames: string[];
+	/** Names of tools that are currently left out */
+	excluded: ReadonlySet<string>;
+	/** Called when a tool is checked or unchecked */
+	onToggle: (toolName: string) => void;
+}
+
+/**
+ * Modal checklist for choosing which tools appear in the "All logs" tab.
+ * Changes apply immediately; Esc closes the picker.
+ */
+export function ToolPicker({
+	isOpen,
+	onClose,
+	toolNames,
+	excluded,
+	onToggle,
+}: ToolPickerProps) {
+	const { theme } = useTheme();
+	const { colors, ansiPalette } = theme;
+	const { width: terminalWidth, height: terminalHeight } =
+		useTerminalDimensions();
+
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const scrollboxRef = useRef<ScrollBoxRenderable>(null);
+
+	// Calculate modal dimensions
+	const modalWidth = Math.min(40, terminalWidth - 4);
+	const maxListHeight = Math.min(toolNames.length + 1, terminalHeight - 6);
+
+	// Start at the top each time the picker opens
+	useEffect(() => {
+		if (isOpen) {
+			setSelectedIndex(0);
+		}
+	}, [isOpen]);
+
+	// Scroll to keep selected item visible
+	const scrollToSelected = useCallback((index: number) => {
+		const scrollbox = scrollboxRef.current;
+		if (!scrollbox) return;
+
+		const viewportHeight = scrollbox.viewport.height;
+		const scrollTop = scrollbox.scrollTop;
+
+		if (index < scrollTop) {
+			scrollbox.scrollTo(index);
+		} else if (index >= scrollTop + viewportHeight) {
+			scrollbox.scrollTo(index - viewportHeight + 1);
+		}
+	}, []);
+
+	const handleNavigate = useCallback(
+		(newIndex: number) => {
+			const wrappedIndex =
+				newIndex < 0
+					? toolNames.length - 1
+					: newIndex >= toolNames.length
+						? 0
+						: newIndex;
+			setSelectedIndex(wrappedIndex);
+			scrollToSelected(wrappedIndex);
+		},
+		[toolNames.length, scrollToSelected],
+	);
+
+	// Handle keyboard input
+	useKeyboard((key) => {
+		if (!isOpen) return;
+
+		if (key.name === "escape" || (key.ctrl && key.name === "c")) {
+			key.preventDefault?.();
+			key.stopPropagation?.();
+			onClose();
+			return;
+		}
+
+		if (key.name === "space" || key.name === "return") {
+			const name = toolNames[selectedIndex];
+			if (name) {
+				onToggle(name);
+			}
+			return;
+		}
+
+		if (key.name === "up" || key.name === "k") {
+			handleNavigate(selectedIndex - 1);
+			return;
+		}
+
+		if (key.name === "down" || key.name === "j") {
+			handleNavigate(selectedIndex + 1);
+			return;
+		}
+	});
+
+	if (!isOpen) {
+		return null;
+	}
+
+	return (
+		<box
+			position="absolute"
+			top={0}
+			left={0}
+			width="100%"
+			height="100%"
+			justifyContent="center"
+			alignItems="center"
+			zIndex={2000}
+		>
+			{/* Modal container */}
+			<box
+				width={modalWidth}
+				flexDirection="column"
+				backgroundColor={colors.surface2}
+			>
+				{/* Header */}
+				<box
+					paddingLeft={1}
+					paddingRight={1}
+					backgroundColor={colors.accent}
+					flexDirection="row"
+					justifyContent="space-between"
+				>
+					<text attributes={TextAttributes.BOLD} fg={colors.accentForeground}>
+						Tools in All logs
+					</text>
+					<text
+						fg={colors.accentForeground}
+						attributes={TextAttributes.BOLD}
+						{...({
+							onMouseDown: onClose,
+						} as Record<string, unknown>)}
+					>
+						x
+					</text>
+				</box>
+
+				{/* Tool list */}
+				<scrollbox
+					ref={scrollboxRef}
+					height={maxListHeight}
+					backgroundColor={colors.surface2}
+				>
+					{toolNames.map((name, index) => {
+						const isSelected = index === selectedIndex;
+						const isIncluded = !excluded.has(name);
+						const colorIndex = getToolBadgeColorIndex(index);
+						const badgeColor =
+							colorIndex < 8
+								? ansiPalette.standard[colorIndex]
+								: ansiPalette.bright[colorIndex - 8];
+
+						return (
+							<box
+								key={name}
+								height={1}
+								paddingLeft={1}
+								paddingRight={1}
+								backgroundColor={isSelected ? colors.surface1 : colors.surface2}
+								{...({
+									onMouseDown: () => {
+										setSelectedIndex(index);
+										onToggle(name);
+									},
+								} as Record<string, unknown>)}
+							>
+								<text fg={colors.text}>
+									{isIncluded ? "[x] " : "[ ] "}
+									<span
+										fg={badgeColor ?? colors.text}
+										attributes={TextAttributes.BOLD}
+									>
+										{name}
+									</span>
+								</text>
+							</box>
+						);
+					})}
+				</scrollbox>
+
+				{/* Footer hint */}
+				<box paddingLeft={1} paddingRight={1} backgroundColor={colors.surface1}>
+					<text fg={colors.textDim}>Space: toggle | Esc: close</text>
+				</box>
+			</box>
+		</box>
+	);
+}
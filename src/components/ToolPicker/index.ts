@@ -0,0 +1 @@
+export { ToolPicker } from "./ToolPicker";
@@ -15,6 +15,10 @@ export const StatusIcons = {
 	WARNING: "△",
 	/** Waiting for dependencies indicator (U+25D4 CIRCLE WITH UPPER RIGHT QUADRANT BLACK) */
 	WAITING: "◔",
+	/** Automatic restart pending indicator (U+25CC DOTTED CIRCLE) */
+	RESTARTING: "◌",
+	/** Crash loop indicator - automatic restarts abandoned (U+25C9 FISHEYE) */
+	CRASH_LOOP: "◉",
 } as const;
 
 /**
@@ -1,5 +1,5 @@
 import { useCallback, useRef, useSyncExternalStore } from "react";
-import type { ProcessManager } from "../lib/processes";
+import type { ProcessController } from "../lib/processes";
 import type { ToolState } from "../types";
 
 interface TrackedValues {
@@ -17,7 +17,7 @@ interface TrackedValues {
  * @returns The current tool state, or undefined if index is invalid
  */
 export function useToolState(
-	processManager: ProcessManager,
+	processManager: ProcessController,
 	toolIndex: number,
 ): ToolState | undefined {
 	// Store current state in a ref
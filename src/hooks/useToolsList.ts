@@ -1,11 +1,13 @@
 import { useCallback, useRef, useSyncExternalStore } from "react";
-import type { ProcessManager } from "../lib/processes";
+import type { ProcessController } from "../lib/processes";
 import type { ToolState } from "../types";
 
 interface ToolSummary {
 	name: string;
 	status: string;
 	logVersion: number;
+	/** Terminal screen version (pty tools only) */
+	screenVersion: number;
 }
 
 interface ToolsListSnapshot {
@@ -21,6 +23,7 @@ function createSummaries(tools: ToolState[]): ToolSummary[] {
 		name: t.config.name,
 		status: t.status,
 		logVersion: t.logVersion,
+		screenVersion: t.screen?.version ?? 0,
 	}));
 }
 
@@ -35,7 +38,8 @@ function hasChanges(current: ToolSummary[], last: ToolSummary[]): boolean {
 		if (
 			curr?.name !== prev?.name ||
 			curr?.status !== prev?.status ||
-			curr?.logVersion !== prev?.logVersion
+			curr?.logVersion !== prev?.logVersion ||
+			curr?.screenVersion !== prev?.screenVersion
 		) {
 			return true;
 		}
@@ -49,11 +53,12 @@ function hasChanges(current: ToolSummary[], last: ToolSummary[]): boolean {
  * - Number of tools changes
  * - Tool status changes (for TabBar indicators)
  * - Tool logVersion changes (for log updates including replacements)
+ * - Terminal screen changes (for pty tools)
  *
  * @param processManager - The process manager instance
  * @returns The current tools array
  */
-export function useToolsList(processManager: ProcessManager): ToolState[] {
+export function useToolsList(processManager: ProcessController): ToolState[] {
 	// Initialize with spread to create new array reference
 	const initialTools = processManager.getTools();
 	const snapshotRef = useRef<ToolsListSnapshot>({
@@ -3,20 +3,42 @@ import { createRoot } from "@opentui/react";
 import { createElement } from "react";
 import { App } from "./App";
 import { getHelpText, getVersion, parseArgs } from "./cli";
-import { runInit, runMcp, runUpdate } from "./commands";
+import {
+	isDaemonRunning,
+	runCtl,
+	runDown,
+	runInit,
+	runMcp,
+	runUp,
+	runUpdate,
+} from "./commands";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { toast } from "./components/Toast";
-import { ApiServer, DEFAULT_MCP_PORT } from "./lib/api";
+import {
+	ApiServer,
+	DEFAULT_MCP_PORT,
+	getApiSocketPath,
+	loadApiTokens,
+} from "./lib/api";
 import { copyToClipboard } from "./lib/clipboard";
-import { type Config, loadConfig } from "./lib/config";
-import { loadPreferences, updatePreference } from "./lib/preferences";
-import { ProcessManager } from "./lib/processes";
+import { type Config, loadConfig, resolveProfileTools } from "./lib/config";
+import { getDaemonSocketPath, RemoteProcessManager } from "./lib/daemon";
+import {
+	getPaneLayout,
+	loadPreferences,
+	type PaneLayout,
+	savePaneLayout,
+	updatePreference,
+} from "./lib/preferences";
+import { type ProcessController, ProcessManager } from "./lib/processes";
 import {
 	getTerminalTheme,
 	getTheme,
 	type Theme,
 	ThemeProvider,
 } from "./lib/theme";
+import type { TimestampMode } from "./lib/time";
+import type { ToolState } from "./types";
 
 /** Duration for config warning toast (10 seconds) */
 const CONFIG_WARNING_TOAST_DURATION = 10000;
@@ -49,12 +71,32 @@ async function main() {
 		return;
 	}
 
+	// Handle ctl command
+	if (args.command === "ctl") {
+		process.exit(await runCtl(args.ctlArgs, args.configPath));
+	}
+
 	// Handle update command
 	if (args.command === "update") {
 		await runUpdate();
 		return;
 	}
 
+	// Handle daemon commands (attach continues below with the TUI)
+	if (args.command === "up") {
+		await runUp({
+			configPath: args.configPath,
+			detach: args.detach,
+			profile: args.profile,
+		});
+		return;
+	}
+	if (args.command === "down") {
+		await runDown(args.configPath);
+		return;
+	}
+	const attached = args.command === "attach";
+
 	// Register SIGINT handler early - ensures Ctrl-C always works even if rendering fails
 	// This is critical for exiting the app if it gets into an error state
 	let sigintCount = 0;
@@ -129,6 +171,25 @@ async function main() {
 			process.exit(1);
 		}
 
+		if (args.profile && resolveProfileTools(config, args.profile) === null) {
+			const groupNames = Object.keys(config.groups ?? {});
+			console.error(
+				groupNames.length > 0
+					? `Unknown profile '${args.profile}'. Available groups: ${groupNames.join(", ")}`
+					: `Unknown profile '${args.profile}'. Add a [groups] section to your config file.`,
+			);
+			process.exit(1);
+		}
+
+		// A daemon owns the tools of this config - starting them again would kill its processes
+		if (!attached && (await isDaemonRunning(getDaemonSocketPath(configPath)))) {
+			console.error(`Error: corsa is already running for ${configPath}.`);
+			console.error(
+				"Run 'corsa attach' to open the dashboard or 'corsa down' to stop it.",
+			);
+			process.exit(1);
+		}
+
 		// Load user preferences
 		const preferences = loadPreferences();
 
@@ -138,6 +199,9 @@ async function main() {
 		// Load line wrap preference (default: true)
 		const initialLineWrap = preferences.lineWrap ?? true;
 
+		// Load timestamp gutter preference (default: off)
+		const initialTimestampMode = preferences.timestamps ?? "off";
+
 		// Try to detect terminal theme early (OSC queries must happen before
 		// renderer puts stdin in raw mode). Cache it for later use even if
 		// user starts with a different theme.
@@ -162,13 +226,35 @@ async function main() {
 		const initialThemeKey = config.ui?.theme ?? preferences.theme ?? "default";
 		const initialTheme = resolveTheme(initialThemeKey);
 
-		// Initialize process manager
-		const maxLogLines = config.ui?.maxLogLines ?? 10000;
-		const processManager = new ProcessManager(maxLogLines);
-		processManager.setConfigPath(configPath);
-		const initialTools = await processManager.initialize(config.tools, {
-			cleanupOrphans: config.processes?.cleanupOrphans ?? true,
-		});
+		// Initialize process manager - or connect to the daemon's when attaching
+		let processManager: ProcessController;
+		let localProcessManager: ProcessManager | null = null;
+		let initialTools: ToolState[];
+		if (attached) {
+			try {
+				const daemon = await RemoteProcessManager.connect(
+					getDaemonSocketPath(configPath),
+				);
+				processManager = daemon;
+				initialTools = daemon.getTools();
+			} catch {
+				console.error(
+					`Error: corsa is not running for ${configPath}. Start it with 'corsa up -d'.`,
+				);
+				process.exit(1);
+			}
+		} else {
+			const maxLogLines = config.ui?.maxLogLines ?? 10000;
+			localProcessManager = new ProcessManager(maxLogLines);
+			localProcessManager.setConfigPath(configPath);
+			initialTools = await localProcessManager.initialize(config.tools, {
+				cleanupOrphans: config.processes?.cleanupOrphans ?? true,
+				restartWithDependencies: config.processes?.restartWithDependencies,
+				logs: config.logs,
+				groups: config.groups,
+			});
+			processManager = localProcessManager;
+		}
 
 		// Config update callback - will be set by App component
 		let configUpdateCallback: ((newConfig: Config) => void) | null = null;
@@ -190,12 +276,17 @@ async function main() {
 			healthStatusGetterCallback = callback;
 		};
 
-		// Start MCP API server if enabled
+		// Start MCP API server if enabled (an attached daemon serves its own)
 		let apiServer: ApiServer | null = null;
-		if (config.mcp?.enabled) {
+		if (config.mcp?.enabled && localProcessManager) {
 			const port = config.mcp.port ?? DEFAULT_MCP_PORT;
-			const apiToolIndex = processManager.createVirtualTool("MCP API");
-			apiServer = new ApiServer(processManager, port, apiToolIndex);
+			const apiToolIndex = localProcessManager.createVirtualTool("MCP API");
+			apiServer = new ApiServer(localProcessManager, port, apiToolIndex, {
+				host: config.mcp.host,
+				tokens: await loadApiTokens(configPath),
+				corsOrigins: config.mcp.corsOrigins,
+				socketPath: getApiSocketPath(configPath),
+			});
 
 			// Set up config reload handler
 			apiServer.setOnConfigReload((newConfig: Config) => {
@@ -213,10 +304,10 @@ async function main() {
 			});
 
 			try {
-				apiServer.start();
+				await apiServer.start();
 			} catch (error) {
 				const message = error instanceof Error ? error.message : String(error);
-				processManager.addLogToTool(
+				localProcessManager.addLogToTool(
 					apiToolIndex,
 					`[ERROR] Failed to start MCP API server: ${message}`,
 				);
@@ -232,11 +323,31 @@ async function main() {
 		});
 		const root = createRoot(renderer);
 
+		// Exit when the daemon stops while attached (e.g. `corsa down`)
+		if (processManager instanceof RemoteProcessManager) {
+			processManager.setOnDisconnect(() => {
+				renderer.stop();
+				renderer.destroy();
+				console.log("corsa daemon stopped.");
+				process.exit(0);
+			});
+		}
+
 		// Handle line wrap preference change
 		const handleLineWrapChange = (lineWrap: boolean) => {
 			updatePreference("lineWrap", lineWrap);
 		};
 
+		// Handle split-pane layout change (saved per config file)
+		const handlePaneLayoutChange = (layout: PaneLayout | null) => {
+			savePaneLayout(configPath, layout);
+		};
+
+		// Handle timestamp mode preference change
+		const handleTimestampModeChange = (mode: TimestampMode) => {
+			updatePreference("timestamps", mode);
+		};
+
 		// Cleanup function for error boundary - properly stops renderer before exit
 		const handleErrorExit = () => {
 			renderer.stop();
@@ -274,10 +385,19 @@ async function main() {
 						initialTools={initialTools}
 						renderer={renderer}
 						config={config}
+						attached={attached}
+						initialProfile={attached ? undefined : args.profile}
 						initialLineWrap={initialLineWrap}
 						onLineWrapChange={handleLineWrapChange}
+						initialTimestampMode={initialTimestampMode}
+						onTimestampModeChange={handleTimestampModeChange}
+						initialPaneLayout={getPaneLayout(preferences, configPath)}
+						onPaneLayoutChange={handlePaneLayoutChange}
 						onRegisterConfigUpdate={handleRegisterConfigUpdate}
 						onRegisterGetHealthStatus={handleRegisterGetHealthStatus}
+						onHealthChange={(toolName, status) =>
+							apiServer?.notifyHealthChange(toolName, status)
+						}
 					/>
 				</ThemeProvider>,
 			),
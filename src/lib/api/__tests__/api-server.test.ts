@@ -1,8 +1,10 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, statSync } from "node:fs";
+import { join } from "node:path";
 import type { ToolConfig } from "../../../types";
 import { deletePidFile } from "../../processes/pid-file";
 import { ProcessManager } from "../../processes/process-manager";
-import { ApiServer } from "../api-server";
+import { ApiServer, getApiSocketPath } from "../api-server";
 
 // Types for API responses
 interface ApiResponse {
@@ -19,6 +21,9 @@ interface ProcessSummary {
 	logCount: number;
 	pid?: number;
 	uptime?: number;
+	restartCount?: number;
+	nextRestartAt?: number;
+	crashLoop?: boolean;
 }
 
 interface ProcessDetails extends ProcessSummary {
@@ -32,6 +37,26 @@ interface LogsData {
 	totalLines: number;
 	returnedLines: number;
 	logs: string[];
+	timestamps: number[];
+	fileReferences?: Array<{
+		file: string;
+		line: number;
+		column?: number;
+		text: string;
+		logIndex: number;
+	}>;
+}
+
+interface LogSearchData {
+	totalMatches: number;
+	returnedMatches: number;
+	matches: Array<{
+		tool: string;
+		lineIndex: number;
+		text: string;
+		before: string[];
+		after: string[];
+	}>;
 }
 
 const TEST_PORT = 19876;
@@ -64,13 +89,22 @@ beforeAll(async () => {
 			command: "echo",
 			args: ["no desc"],
 		},
+		{
+			name: "crashing",
+			command: "sh",
+			args: ["-c", "exit 1"],
+			restart: "on-failure",
+			restartDelay: 60000,
+		},
 	];
-	await processManager.initialize(configs);
+	await processManager.initialize(configs, {
+		groups: { sleepers: ["long-running"] },
+	});
 
 	// createVirtualTool uses push and returns the correct index
 	virtualToolIndex = processManager.createVirtualTool("MCP API");
 	apiServer = new ApiServer(processManager, TEST_PORT, virtualToolIndex);
-	apiServer.start();
+	await apiServer.start();
 
 	await new Promise((resolve) => setTimeout(resolve, 200));
 });
@@ -145,6 +179,29 @@ describe("ApiServer", () => {
 				).toBe(true);
 			}
 		});
+
+		test("includes restart tracking only when a restart policy is set", async () => {
+			const index = processManager
+				.getTools()
+				.findIndex((t) => t.config.name === "crashing");
+			await processManager.startTool(index);
+			await new Promise((resolve) => setTimeout(resolve, 200));
+
+			const response = await fetch(apiUrl("/api/processes"));
+			const json = (await response.json()) as ApiResponse;
+			const data = json.data as ProcessSummary[];
+
+			const crashing = data.find((p) => p.name === "crashing");
+			expect(crashing?.restartCount).toBe(0);
+			expect(crashing?.nextRestartAt).toBeGreaterThan(Date.now());
+			expect(crashing?.crashLoop).toBeUndefined();
+
+			const noPolicy = data.find((p) => p.name === "test-process");
+			expect(noPolicy?.restartCount).toBeUndefined();
+
+			// Cancel the pending restart
+			await processManager.stopTool(index);
+		});
 	});
 
 	// ==========================================================================
@@ -280,6 +337,58 @@ describe("ApiServer", () => {
 			).toBe(true);
 		});
 
+		test("filters logs with regex search", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.clearLogs(result.index);
+			processManager.addLogToTool(result.index, "GET /users/42 200");
+			processManager.addLogToTool(result.index, "get /users/7 404");
+			processManager.addLogToTool(result.index, "GET /usersettings 200");
+
+			const query = encodeURIComponent("GET /users/\\d+");
+			const response = await fetch(
+				apiUrl(
+					`/api/processes/test-process/logs?search=${query}&searchType=regex`,
+				),
+			);
+			const data = ((await response.json()) as ApiResponse).data as LogsData;
+			expect(response.status).toBe(200);
+			expect(data.logs).toEqual(["GET /users/42 200", "get /users/7 404"]);
+
+			const caseSensitive = await fetch(
+				apiUrl(
+					`/api/processes/test-process/logs?search=${query}&searchType=regex&caseSensitive=true`,
+				),
+			);
+			expect(
+				(((await caseSensitive.json()) as ApiResponse).data as LogsData).logs,
+			).toEqual(["GET /users/42 200"]);
+
+			const wholeWord = await fetch(
+				apiUrl(
+					"/api/processes/test-process/logs?search=users&searchType=regex&wholeWord=true",
+				),
+			);
+			expect(
+				(((await wholeWord.json()) as ApiResponse).data as LogsData).logs,
+			).toEqual(["GET /users/42 200", "get /users/7 404"]);
+		});
+
+		test("returns 400 for an invalid regex or search type", async () => {
+			const invalidRegex = await fetch(
+				apiUrl("/api/processes/test-process/logs?search=a(b&searchType=regex"),
+			);
+			expect(invalidRegex.status).toBe(400);
+			expect(((await invalidRegex.json()) as ApiResponse).error).toBe(
+				"Invalid regular expression: a(b",
+			);
+
+			const unknownType = await fetch(
+				apiUrl("/api/processes/test-process/logs?search=a&searchType=glob"),
+			);
+			expect(unknownType.status).toBe(400);
+		});
+
 		test("combines search and lines parameters", async () => {
 			const result = processManager.getToolByName("test-process");
 			if (!result) throw new Error("Expected test-process to exist");
@@ -302,6 +411,138 @@ describe("ApiServer", () => {
 			expect(data.logs).toEqual(["[ERROR] Error 2", "[ERROR] Error 3"]);
 		});
 
+		test("resolves file references in the returned lines", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.clearLogs(result.index);
+			const file = join(import.meta.dir, "..", "api-server.ts");
+			processManager.addLogToTool(result.index, "Compiling...");
+			processManager.addLogToTool(result.index, `Error at ${file}:12:3`);
+			processManager.addLogToTool(result.index, "Error at missing/file.ts:1");
+
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs?fileReferences=true"),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			const data = json.data as LogsData;
+			expect(data.fileReferences).toEqual([
+				{ file, line: 12, column: 3, text: `${file}:12:3`, logIndex: 1 },
+			]);
+
+			const withoutReferences = await fetch(
+				apiUrl("/api/processes/test-process/logs"),
+			);
+			const withoutJson = (await withoutReferences.json()) as ApiResponse;
+			expect((withoutJson.data as LogsData).fileReferences).toBeUndefined();
+		});
+
+		test("returns the most recent file references up to a limit", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.clearLogs(result.index);
+			const file = join(import.meta.dir, "..", "api-server.ts");
+			for (let i = 1; i <= 60; i++) {
+				processManager.addLogToTool(result.index, `at ${file}:${i}`);
+			}
+
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs?fileReferences=true"),
+			);
+			const data = ((await response.json()) as ApiResponse).data as LogsData;
+
+			expect(data.fileReferences).toHaveLength(50);
+			expect(data.fileReferences?.[0]?.line).toBe(11);
+			expect(data.fileReferences?.at(-1)?.line).toBe(60);
+		});
+
+		test("includes a receive timestamp for each line", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.clearLogs(result.index);
+			const before = Date.now();
+			processManager.addLogToTool(result.index, "timestamp-test-A");
+			processManager.addLogToTool(result.index, "timestamp-test-B");
+
+			const response = await fetch(apiUrl("/api/processes/test-process/logs"));
+			const json = (await response.json()) as ApiResponse;
+
+			const data = json.data as LogsData;
+			expect(data.timestamps).toHaveLength(2);
+			for (const timestamp of data.timestamps) {
+				expect(timestamp).toBeGreaterThanOrEqual(before);
+				expect(timestamp).toBeLessThanOrEqual(Date.now());
+			}
+		});
+
+		test("filters logs with since and until", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.clearLogs(result.index);
+			const base = Date.parse("2024-01-15T10:00:00.000Z");
+			for (let i = 0; i < 4; i++) {
+				processManager.addLogToTool(result.index, `range-test-${i}`);
+				const logLine = result.tool.logs[i];
+				if (logLine) logLine.timestamp = base + i * 1000;
+			}
+
+			const response = await fetch(
+				apiUrl(
+					`/api/processes/test-process/logs?since=${base + 1000}&until=2024-01-15T10:00:02.000Z`,
+				),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			const data = json.data as LogsData;
+			expect(data.totalLines).toBe(4);
+			expect(data.logs).toEqual(["range-test-1", "range-test-2"]);
+			expect(data.timestamps).toEqual([base + 1000, base + 2000]);
+		});
+
+		test("returns 400 for an invalid since value", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs?since=yesterday"),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(400);
+			expect(json.ok).toBe(false);
+			expect(json.error).toContain("since");
+		});
+
+		test("filters logs by minimum level", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.clearLogs(result.index);
+			processManager.addLogToTool(result.index, "[DEBUG] cache miss");
+			processManager.addLogToTool(result.index, "plain output");
+			processManager.addLogToTool(result.index, "WARN slow request");
+			processManager.addLogToTool(result.index, "ERROR: query failed");
+
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs?level=warning"),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			const data = json.data as LogsData;
+			expect(data.logs).toEqual(["WARN slow request", "ERROR: query failed"]);
+		});
+
+		test("returns 400 for an unknown level", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs?level=loud"),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(400);
+			expect(json.error).toBe(
+				"'level' must be one of: debug, info, warn, error",
+			);
+		});
+
 		test("returns empty logs array when no logs exist", async () => {
 			// Use a different process that hasn't been touched by other tests
 			const result = processManager.getToolByName("no-description");
@@ -329,9 +570,485 @@ describe("ApiServer", () => {
 		});
 	});
 
+	describe("GET /api/logs/search", () => {
+		beforeAll(() => {
+			for (const [name, lines] of [
+				["test-process", ["search-marker booting", "search-marker ERROR one"]],
+				["no-description", ["search-marker ok", "search-marker ERROR two"]],
+			] as const) {
+				const result = processManager.getToolByName(name);
+				if (!result) throw new Error(`Expected ${name} to exist`);
+				processManager.clearLogs(result.index);
+				for (const line of lines) {
+					processManager.addLogToTool(result.index, line);
+				}
+			}
+		});
+
+		test("returns matches from all processes with context", async () => {
+			const response = await fetch(
+				apiUrl("/api/logs/search?q=search-marker%20error&context=1"),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			const data = json.data as LogSearchData;
+			expect(data.totalMatches).toBe(2);
+			expect(data.matches.map((m) => [m.tool, m.text, m.before])).toEqual([
+				["test-process", "search-marker ERROR one", ["search-marker booting"]],
+				["no-description", "search-marker ERROR two", ["search-marker ok"]],
+			]);
+			expect(data.matches[0]?.lineIndex).toBeNumber();
+		});
+
+		test("searches the given processes with a regular expression", async () => {
+			const response = await fetch(
+				apiUrl(
+					`/api/logs/search?q=${encodeURIComponent("^search-marker (ok|booting)$")}&searchType=regex&tools=no-description`,
+				),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			const data = json.data as LogSearchData;
+			expect(data.matches.map((m) => m.text)).toEqual(["search-marker ok"]);
+		});
+
+		test("matches regular expressions with case and whole-word options", async () => {
+			const search = async (params: string) => {
+				const response = await fetch(
+					apiUrl(`/api/logs/search?searchType=regex&${params}`),
+				);
+				const data = ((await response.json()) as ApiResponse)
+					.data as LogSearchData;
+				return data.matches.map((m) => m.text);
+			};
+
+			expect(await search("q=search-marker%20error")).toEqual([
+				"search-marker ERROR one",
+				"search-marker ERROR two",
+			]);
+			expect(
+				await search("q=search-marker%20error&caseSensitive=true"),
+			).toEqual([]);
+			expect(await search("q=marker%20ERR&wholeWord=true")).toEqual([]);
+		});
+
+		test("returns 400 for a missing query or invalid parameters", async () => {
+			for (const query of [
+				"",
+				"?q=(&searchType=regex",
+				"?q=x&searchType=glob",
+				"?q=x&limit=-1",
+			]) {
+				const response = await fetch(apiUrl(`/api/logs/search${query}`));
+				expect(response.status).toBe(400);
+			}
+		});
+
+		test("returns 404 for unknown processes", async () => {
+			const response = await fetch(
+				apiUrl("/api/logs/search?q=x&tools=test-process,nonexistent"),
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(404);
+			expect(json.error).toContain("nonexistent");
+		});
+	});
+
+	// ==========================================================================
+	// Log Streams
+	// ==========================================================================
+	describe("GET /api/processes/:name/logs/stream", () => {
+		/** Read SSE text from a response until it contains a marker */
+		async function readUntil(response: Response, marker: string) {
+			const reader = response.body?.getReader();
+			if (!reader) throw new Error("Expected a response body");
+			const decoder = new TextDecoder();
+			let text = "";
+			while (!text.includes(marker)) {
+				const { value, done } = await reader.read();
+				if (done) break;
+				text += decoder.decode(value);
+			}
+			await reader.cancel();
+			return text;
+		}
+
+		test("streams the status and new lines as events", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs/stream"),
+			);
+			expect(response.status).toBe(200);
+			expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+
+			processManager.addLogToTool(result.index, "stream-marker-1");
+			const text = await readUntil(response, "stream-marker-1");
+
+			expect(text).toStartWith("event: status\n");
+			const { logTrimCount, logs } = result.tool;
+			expect(text).toContain(
+				`event: line\nid: ${logTrimCount + logs.length - 1}\n`,
+			);
+		});
+
+		test("resumes after Last-Event-ID", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.addLogToTool(result.index, "resume-marker-1");
+			processManager.addLogToTool(result.index, "resume-marker-2");
+			const lastCursor = result.tool.logTrimCount + result.tool.logs.length - 1;
+
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs/stream"),
+				{ headers: { "Last-Event-ID": String(lastCursor - 1) } },
+			);
+			const text = await readUntil(response, "resume-marker-2");
+
+			expect(text).not.toContain("resume-marker-1");
+			expect(text).toContain(`id: ${lastCursor}\n`);
+		});
+
+		test("returns 400 for an invalid cursor", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs/stream?cursor=-1"),
+			);
+			expect(response.status).toBe(400);
+		});
+
+		test("returns 404 for non-existent process", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/non-existent/logs/stream"),
+			);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe("GET /api/processes/:name/logs/ws", () => {
+		test("streams events as JSON messages", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.addLogToTool(result.index, "socket-marker-1");
+			const cursor = result.tool.logTrimCount + result.tool.logs.length - 1;
+
+			const ws = new WebSocket(
+				`ws://localhost:${TEST_PORT}/api/processes/test-process/logs/ws?cursor=${cursor}`,
+			);
+			const events: { type: string; text?: string; cursor?: number }[] = [];
+			await new Promise<void>((resolve, reject) => {
+				ws.onmessage = (message) => {
+					events.push(JSON.parse(String(message.data)));
+					if (events.some((e) => e.type === "line")) resolve();
+				};
+				ws.onerror = () => reject(new Error("WebSocket error"));
+			});
+			ws.close();
+
+			expect(events[0]?.type).toBe("status");
+			expect(events[1]).toMatchObject({
+				type: "line",
+				cursor,
+				text: "socket-marker-1",
+			});
+		});
+
+		test("requires a WebSocket upgrade", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/test-process/logs/ws"),
+			);
+			expect(response.status).toBe(400);
+		});
+	});
+
+	// ==========================================================================
+	// Wait Endpoints
+	// ==========================================================================
+	describe("GET /api/processes/:name/logs/wait", () => {
+		test("returns the first new line matching the pattern", async () => {
+			const result = processManager.getToolByName("test-process");
+			if (!result) throw new Error("Expected test-process to exist");
+			processManager.addLogToTool(result.index, "wait-marker old");
+
+			const response = fetch(
+				apiUrl(
+					"/api/processes/test-process/logs/wait?pattern=wait-marker%20%5Cd%2B&context=1",
+				),
+			);
+			await Bun.sleep(50);
+			processManager.addLogToTool(result.index, "before-wait-marker");
+			processManager.addLogToTool(result.index, "wait-marker 42");
+
+			const json = (await (await response).json()) as ApiResponse;
+			expect(json.ok).toBe(true);
+			expect(json.data).toMatchObject({
+				matched: true,
+				line: "wait-marker 42",
+				context: ["before-wait-marker"],
+			});
+		});
+
+		test("reports a timeout without a match", async () => {
+			const response = await fetch(
+				apiUrl(
+					"/api/processes/test-process/logs/wait?pattern=never&timeout=20",
+				),
+			);
+			const json = (await response.json()) as ApiResponse;
+			expect(json.data).toMatchObject({ matched: false, reason: "timeout" });
+		});
+
+		test("rejects missing or invalid parameters", async () => {
+			const missing = await fetch(
+				apiUrl("/api/processes/test-process/logs/wait"),
+			);
+			expect(missing.status).toBe(400);
+
+			const invalid = await fetch(
+				apiUrl("/api/processes/test-process/logs/wait?pattern=(unclosed"),
+			);
+			expect(invalid.status).toBe(400);
+
+			const timeout = await fetch(
+				apiUrl("/api/processes/test-process/logs/wait?pattern=x&timeout=-1"),
+			);
+			expect(timeout.status).toBe(400);
+		});
+
+		test("returns 404 for unknown processes", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/nonexistent/logs/wait?pattern=x"),
+			);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe("GET /api/processes/:name/health/wait", () => {
+		test("reports a timeout for processes that aren't running", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/no-description/health/wait?timeout=20"),
+			);
+			const json = (await response.json()) as ApiResponse;
+			expect(json.data).toMatchObject({ healthy: false, reason: "timeout" });
+		});
+
+		test("returns 404 for unknown processes", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/nonexistent/health/wait"),
+			);
+			expect(response.status).toBe(404);
+		});
+	});
+
 	// ==========================================================================
 	// Stop Process
 	// ==========================================================================
+	describe("POST /api/processes/:name/start", () => {
+		test("starts a stopped process", async () => {
+			const result = processManager.getToolByName("long-running");
+			if (!result) throw new Error("Expected long-running to exist");
+			if (processManager.getTool(result.index)?.status === "running") {
+				await processManager.stopTool(result.index);
+			}
+
+			const response = await fetch(
+				apiUrl("/api/processes/long-running/start"),
+				{ method: "POST" },
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			expect(json.ok).toBe(true);
+			const data = json.data as { message: string };
+			expect(data.message).toContain("Started");
+			expect(processManager.getTool(result.index)?.status).toBe("running");
+		});
+
+		test("returns 400 when process already running", async () => {
+			const response = await fetch(
+				apiUrl("/api/processes/long-running/start"),
+				{ method: "POST" },
+			);
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(400);
+			expect(json.ok).toBe(false);
+			expect(json.error).toContain("already running");
+		});
+
+		test("returns 404 for unknown or virtual process", async () => {
+			for (const name of ["nonexistent", "MCP%20API"]) {
+				const response = await fetch(apiUrl(`/api/processes/${name}/start`), {
+					method: "POST",
+				});
+				expect(response.status).toBe(404);
+			}
+		});
+	});
+
+	describe("POST /api/processes/:name/input", () => {
+		const sendInput = (name: string, body: unknown) =>
+			fetch(apiUrl(`/api/processes/${name}/input`), {
+				method: "POST",
+				body: typeof body === "string" ? body : JSON.stringify(body),
+			});
+
+		test("writes input to a running process and echoes it", async () => {
+			const result = processManager.getToolByName("long-running");
+			if (!result) throw new Error("Expected long-running to exist");
+			if (processManager.getTool(result.index)?.status !== "running") {
+				await processManager.startTool(result.index);
+			}
+
+			const response = await sendInput("long-running", { input: "rs" });
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			expect(json.ok).toBe(true);
+			const texts = (processManager.getTool(result.index)?.logs ?? []).map(
+				(l) => l.segments.map((seg) => seg.text).join(""),
+			);
+			expect(texts).toContain("[INPUT] rs");
+		});
+
+		test("returns 400 for a missing or invalid input", async () => {
+			for (const body of [
+				"not json",
+				"null",
+				"[]",
+				{},
+				{ input: 42 },
+				{ input: "o", newline: "no" },
+			]) {
+				const response = await sendInput("long-running", body);
+				expect(response.status).toBe(400);
+			}
+		});
+
+		test("returns 400 when the process is not running", async () => {
+			const result = processManager.getToolByName("no-description");
+			if (!result) throw new Error("Expected no-description to exist");
+			await processManager.stopTool(result.index);
+
+			const response = await sendInput("no-description", { input: "hi" });
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(400);
+			expect(json.error).toContain("not running");
+		});
+
+		test("returns 404 for unknown or virtual process", async () => {
+			for (const name of ["nonexistent", "MCP%20API"]) {
+				const response = await sendInput(name, { input: "hi" });
+				expect(response.status).toBe(404);
+			}
+		});
+	});
+
+	describe("POST /api/processes/start|stop|restart", () => {
+		test("stops and starts the named processes", async () => {
+			const stopResponse = await fetch(apiUrl("/api/processes/stop"), {
+				method: "POST",
+				body: JSON.stringify({ names: ["long-running"] }),
+			});
+			const stopJson = (await stopResponse.json()) as ApiResponse;
+
+			expect(stopResponse.status).toBe(200);
+			expect(stopJson.data).toEqual({
+				message: "Stopped 1 process",
+				processes: ["long-running"],
+			});
+			const result = processManager.getToolByName("long-running");
+			expect(result?.tool.status).toBe("stopped");
+
+			const startResponse = await fetch(apiUrl("/api/processes/start"), {
+				method: "POST",
+				body: JSON.stringify({ names: ["long-running"] }),
+			});
+			expect(startResponse.status).toBe(200);
+			expect(result?.tool.status).toBe("running");
+		});
+
+		test("restarts the named processes", async () => {
+			const result = processManager.getToolByName("long-running");
+			const firstPid = result?.tool.pid;
+
+			const response = await fetch(apiUrl("/api/processes/restart"), {
+				method: "POST",
+				body: JSON.stringify({ names: ["long-running"] }),
+			});
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			expect((json.data as { message: string }).message).toBe(
+				"Restarted 1 process",
+			);
+			expect(result?.tool.status).toBe("running");
+			expect(result?.tool.pid).not.toBe(firstPid as number);
+		});
+
+		test("returns 404 listing unknown names", async () => {
+			const response = await fetch(apiUrl("/api/processes/start"), {
+				method: "POST",
+				body: JSON.stringify({ names: ["long-running", "missing"] }),
+			});
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(404);
+			expect(json.error).toBe("Process not found: missing");
+		});
+
+		test("acts on the processes of a group", async () => {
+			const response = await fetch(apiUrl("/api/processes/restart"), {
+				method: "POST",
+				body: JSON.stringify({ group: "sleepers" }),
+			});
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(200);
+			expect(json.data).toEqual({
+				message: "Restarted 1 process",
+				processes: ["long-running"],
+			});
+		});
+
+		test("returns 404 for an unknown group", async () => {
+			const response = await fetch(apiUrl("/api/processes/stop"), {
+				method: "POST",
+				body: JSON.stringify({ group: "missing" }),
+			});
+			const json = (await response.json()) as ApiResponse;
+
+			expect(response.status).toBe(404);
+			expect(json.error).toBe("Group not found: missing");
+		});
+
+		test("returns 400 for invalid body", async () => {
+			const invalidJson = await fetch(apiUrl("/api/processes/start"), {
+				method: "POST",
+				body: "{not json",
+			});
+			expect(invalidJson.status).toBe(400);
+
+			const invalidNames = await fetch(apiUrl("/api/processes/start"), {
+				method: "POST",
+				body: JSON.stringify({ names: "long-running" }),
+			});
+			expect(invalidNames.status).toBe(400);
+
+			for (const body of ["null", "[]", '"start"']) {
+				const notObject = await fetch(apiUrl("/api/processes/start"), {
+					method: "POST",
+					body,
+				});
+				expect(notObject.status).toBe(400);
+			}
+		});
+	});
+
 	describe("POST /api/processes/:name/stop", () => {
 		test("stops a running process", async () => {
 			// Start the process first
@@ -561,15 +1278,18 @@ describe("ApiServer", () => {
 		});
 
 		test("logs each request to virtual tool", async () => {
-			const logsBefore =
-				processManager.getTool(virtualToolIndex)?.logs.length ?? 0;
+			// Count trimmed lines too, as earlier requests may have filled the buffer
+			const countLogs = () => {
+				const tool = processManager.getTool(virtualToolIndex);
+				return (tool?.logTrimCount ?? 0) + (tool?.logs.length ?? 0);
+			};
+			const logsBefore = countLogs();
 
 			// Make a request
 			await fetch(apiUrl("/api/health"));
 
 			// Check that new log was added
-			const logsAfter =
-				processManager.getTool(virtualToolIndex)?.logs.length ?? 0;
+			const logsAfter = countLogs();
 			expect(logsAfter).toBeGreaterThan(logsBefore);
 
 			// Check the log contains the request
@@ -582,17 +1302,198 @@ describe("ApiServer", () => {
 	});
 
 	// ==========================================================================
-	// CORS Headers
+	// Authentication and CORS
 	// ==========================================================================
-	describe("CORS headers", () => {
-		test("includes Access-Control-Allow-Origin header", async () => {
-			const response = await fetch(apiUrl("/api/health"));
+	describe("Authentication and CORS", () => {
+		const SECURE_PORT = TEST_PORT + 1;
+		const ALLOWED_ORIGIN = "http://localhost:5173";
+		const tokens = { token: "full-token", readOnlyToken: "read-token" };
+		let secureServer: ApiServer;
+
+		const secureUrl = (path: string) =>
+			`http://127.0.0.1:${SECURE_PORT}${path}`;
+		const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+		beforeAll(async () => {
+			secureServer = new ApiServer(
+				processManager,
+				SECURE_PORT,
+				virtualToolIndex,
+				{
+					tokens,
+					corsOrigins: [ALLOWED_ORIGIN],
+				},
+			);
+			await secureServer.start();
+		});
+
+		afterAll(() => {
+			secureServer.stop();
+			// Keep the request log below its limit for the tests that count lines
+			processManager.clearLogs(virtualToolIndex);
+		});
 
-			expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+		test("leaves the health check open", async () => {
+			const response = await fetch(secureUrl("/api/health"));
+			expect(response.status).toBe(200);
+		});
+
+		test("rejects requests without a valid token", async () => {
+			const missing = await fetch(secureUrl("/api/processes"));
+			expect(missing.status).toBe(401);
+
+			const invalid = await fetch(secureUrl("/api/processes"), {
+				headers: bearer("wrong"),
+			});
+			expect(invalid.status).toBe(401);
+			const json = (await invalid.json()) as ApiResponse;
+			expect(json.error).toBe("Missing or invalid API token");
+		});
+
+		test("accepts the token as a header or a GET query parameter", async () => {
+			const header = await fetch(secureUrl("/api/processes"), {
+				headers: bearer(tokens.token),
+			});
+			expect(header.status).toBe(200);
+
+			const query = await fetch(
+				secureUrl(`/api/processes?token=${tokens.readOnlyToken}`),
+			);
+			expect(query.status).toBe(200);
+
+			const post = await fetch(
+				secureUrl(`/api/processes/long-running/clear?token=${tokens.token}`),
+				{ method: "POST" },
+			);
+			expect(post.status).toBe(401);
+		});
+
+		test("limits the read-only token to GET requests", async () => {
+			const read = await fetch(secureUrl("/api/processes/long-running"), {
+				headers: bearer(tokens.readOnlyToken),
+			});
+			expect(read.status).toBe(200);
+
+			const write = await fetch(
+				secureUrl("/api/processes/long-running/clear"),
+				{
+					method: "POST",
+					headers: bearer(tokens.readOnlyToken),
+				},
+			);
+			expect(write.status).toBe(403);
+		});
+
+		test("rejects requests from origins that aren't allowed", async () => {
+			const response = await fetch(secureUrl("/api/processes"), {
+				headers: { ...bearer(tokens.token), Origin: "http://evil.example" },
+			});
+			expect(response.status).toBe(403);
+			expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+		});
+
+		test("adds CORS headers for allowed origins", async () => {
+			const response = await fetch(secureUrl("/api/processes"), {
+				headers: { ...bearer(tokens.token), Origin: ALLOWED_ORIGIN },
+			});
+			expect(response.status).toBe(200);
+			expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+				ALLOWED_ORIGIN,
+			);
+			expect(response.headers.get("Vary")).toBe("Origin");
+		});
+
+		test("answers preflight requests without a token", async () => {
+			const response = await fetch(secureUrl("/api/processes/start"), {
+				method: "OPTIONS",
+				headers: { Origin: ALLOWED_ORIGIN },
+			});
+			expect(response.status).toBe(204);
+			expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+				ALLOWED_ORIGIN,
+			);
+			expect(response.headers.get("Access-Control-Allow-Headers")).toContain(
+				"Authorization",
+			);
+		});
+
+		test("sends no CORS headers without an Origin", async () => {
+			const response = await fetch(apiUrl("/api/health"));
+			expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
 			expect(response.headers.get("Content-Type")).toBe("application/json");
 		});
 	});
 
+	// ==========================================================================
+	// Unix Socket
+	// ==========================================================================
+	describe("Unix socket", () => {
+		const socketPath = getApiSocketPath(
+			`/tmp/corsa-api-socket-test-${process.pid}.toml`,
+		);
+
+		test("serves the API on the socket and removes it on stop", async () => {
+			// The port is taken by the main test server, like a second instance
+			const socketServer = new ApiServer(
+				processManager,
+				TEST_PORT,
+				virtualToolIndex,
+				{ socketPath },
+			);
+			await socketServer.start();
+			try {
+				const logs = processManager.getTool(virtualToolIndex)?.logs ?? [];
+				const logText = logs
+					.map((l) => l.segments.map((seg) => seg.text).join(""))
+					.join("\n");
+				expect(logText).toContain("only on the unix socket");
+
+				const response = await fetch("http://localhost/api/processes", {
+					unix: socketPath,
+				});
+				expect(response.status).toBe(200);
+				expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+			} finally {
+				socketServer.stop();
+				processManager.clearLogs(virtualToolIndex);
+			}
+			expect(existsSync(socketPath)).toBe(false);
+		});
+
+		test("leaves a socket another instance is listening on", async () => {
+			const first = new ApiServer(processManager, TEST_PORT, virtualToolIndex, {
+				socketPath,
+			});
+			const second = new ApiServer(
+				processManager,
+				TEST_PORT,
+				virtualToolIndex,
+				{
+					socketPath,
+				},
+			);
+			await first.start();
+			try {
+				// Neither the port nor the socket is free
+				await expect(second.start()).rejects.toThrow();
+				second.stop();
+
+				const response = await fetch("http://localhost/api/processes", {
+					unix: socketPath,
+				});
+				expect(response.status).toBe(200);
+			} finally {
+				first.stop();
+				processManager.clearLogs(virtualToolIndex);
+			}
+		});
+
+		test("derives a socket path per config", () => {
+			expect(socketPath).toEndWith(".api.sock");
+			expect(getApiSocketPath("other.toml")).not.toBe(socketPath);
+		});
+	});
+
 	// ==========================================================================
 	// Reload Configuration
 	// ==========================================================================
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { chmod, rm, stat, writeFile } from "node:fs/promises";
+import {
+	getApiTokensPath,
+	getTokenScope,
+	loadApiTokens,
+	readApiTokens,
+} from "../api-tokens";
+
+const CONFIG_PATH = `/tmp/corsa-api-tokens-test-${process.pid}.toml`;
+
+afterEach(async () => {
+	await rm(getApiTokensPath(CONFIG_PATH), { force: true });
+});
+
+describe("loadApiTokens", () => {
+	test("generates tokens readable only by the owner", async () => {
+		const tokens = await loadApiTokens(CONFIG_PATH);
+		expect(tokens.token).toHaveLength(43);
+		expect(tokens.readOnlyToken).not.toBe(tokens.token);
+
+		const stats = await stat(getApiTokensPath(CONFIG_PATH));
+		expect(stats.mode & 0o777).toBe(0o600);
+	});
+
+	test("keeps tokens across restarts", async () => {
+		const first = await loadApiTokens(CONFIG_PATH);
+		expect(await loadApiTokens(CONFIG_PATH)).toEqual(first);
+		expect(await readApiTokens(CONFIG_PATH)).toEqual(first);
+	});
+
+	test("refuses token files other users can read", async () => {
+		const filePath = getApiTokensPath(CONFIG_PATH);
+		await writeFile(
+			filePath,
+			JSON.stringify({ token: "a", readOnlyToken: "b" }),
+		);
+		await chmod(filePath, 0o644);
+
+		await expect(loadApiTokens(CONFIG_PATH)).rejects.toThrow(
+			"Refusing to use API token file",
+		);
+	});
+
+	test("replaces invalid token files", async () => {
+		const filePath = getApiTokensPath(CONFIG_PATH);
+		await writeFile(filePath, "not json", { mode: 0o600 });
+
+		const tokens = await loadApiTokens(CONFIG_PATH);
+		expect(await readApiTokens(CONFIG_PATH)).toEqual(tokens);
+	});
+});
+
+describe("readApiTokens", () => {
+	test("returns null before tokens are generated", async () => {
+		expect(await readApiTokens(CONFIG_PATH)).toBeNull();
+	});
+});
+
+describe("getTokenScope", () => {
+	const tokens = { token: "full", readOnlyToken: "read" };
+
+	test("matches either token", () => {
+		expect(getTokenScope(tokens, "full")).toBe("full");
+		expect(getTokenScope(tokens, "read")).toBe("readOnly");
+	});
+
+	test("rejects other tokens", () => {
+		expect(getTokenScope(tokens, "ful")).toBeNull();
+		expect(getTokenScope(tokens, "")).toBeNull();
+	});
+});
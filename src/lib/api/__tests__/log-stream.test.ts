@@ -0,0 +1,215 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { HealthStatus, LogLine, ToolState } from "../../../types";
+import type { ProcessManager } from "../../processes";
+import { formatSseEvent, LogStream, type LogStreamEvent } from "../log-stream";
+
+function line(text: string): LogLine {
+	return { segments: [{ text }], timestamp: 1000 };
+}
+
+function createTool(texts: string[] = []): ToolState {
+	return {
+		config: { name: "api", command: "api", healthCheck: { url: "http://x" } },
+		process: null,
+		logs: texts.map(line),
+		status: "running",
+		exitCode: null,
+		pid: 42,
+		logTrimCount: 0,
+		logVersion: 0,
+	};
+}
+
+/** Just enough of ProcessManager for a LogStream */
+function createManager(initial: ToolState) {
+	let tool = initial;
+	const callbacks = new Set<() => void>();
+	const manager = {
+		getToolByName: (name: string) =>
+			tool.config.name === name ? { index: 0, tool } : undefined,
+		subscribe: (_key: "all" | number, callback: () => void) => {
+			callbacks.add(callback);
+			return () => callbacks.delete(callback);
+		},
+	};
+	return {
+		manager: manager as unknown as ProcessManager,
+		notify: () => {
+			for (const callback of callbacks) callback();
+		},
+		replaceTool: (next: ToolState) => {
+			tool = next;
+		},
+	};
+}
+
+/** Wait for the stream's batched update */
+const settle = () => Bun.sleep(80);
+
+let stream: LogStream | null = null;
+
+afterEach(() => {
+	stream?.stop();
+	stream = null;
+});
+
+function follow(
+	tool: ToolState,
+	manager: ProcessManager,
+	options: ConstructorParameters<typeof LogStream>[5] = {},
+	health: HealthStatus | null = null,
+) {
+	const events: LogStreamEvent[] = [];
+	let ended = false;
+	stream = new LogStream(
+		manager,
+		tool,
+		() => health,
+		(event) => events.push(event),
+		() => {
+			ended = true;
+		},
+		options,
+	);
+	stream.start();
+	return { events, isEnded: () => ended };
+}
+
+describe("LogStream", () => {
+	test("starts with the status and only new lines by default", async () => {
+		const tool = createTool(["old"]);
+		const { manager, notify } = createManager(tool);
+		const { events } = follow(tool, manager, {}, "starting");
+
+		expect(events).toEqual([
+			{
+				type: "status",
+				status: "running",
+				exitCode: null,
+				pid: 42,
+				healthStatus: "starting",
+			},
+		]);
+
+		tool.logs.push(line("new"));
+		notify();
+		await settle();
+		expect(events.slice(1)).toEqual([
+			{ type: "line", cursor: 1, text: "new", timestamp: 1000 },
+		]);
+	});
+
+	test("sends the last lines or resumes from a cursor", () => {
+		const tool = createTool(["a", "b", "c"]);
+		const { manager } = createManager(tool);
+
+		const tail = follow(tool, manager, { lines: 2 });
+		expect(
+			tail.events.flatMap((e) => (e.type === "line" ? [e.text] : [])),
+		).toEqual(["b", "c"]);
+		stream?.stop();
+
+		const resumed = follow(tool, manager, { cursor: 1 });
+		expect(
+			resumed.events.flatMap((e) => (e.type === "line" ? [e.cursor] : [])),
+		).toEqual([1, 2]);
+	});
+
+	test("keeps cursors stable when lines are trimmed", async () => {
+		const tool = createTool(["a", "b"]);
+		const { manager, notify } = createManager(tool);
+		const { events } = follow(tool, manager, { cursor: 0 });
+
+		tool.logs.shift();
+		tool.logTrimCount++;
+		tool.logs.push(line("c"));
+		notify();
+		await settle();
+
+		expect(events.filter((e) => e.type === "line")).toEqual([
+			{ type: "line", cursor: 0, text: "a", timestamp: 1000 },
+			{ type: "line", cursor: 1, text: "b", timestamp: 1000 },
+			{ type: "line", cursor: 2, text: "c", timestamp: 1000 },
+		]);
+	});
+
+	test("starts from the buffer for cursors it no longer has", () => {
+		const tool = createTool(["c"]);
+		tool.logTrimCount = 2;
+		const { manager } = createManager(tool);
+
+		const behind = follow(tool, manager, { cursor: 0 });
+		expect(behind.events.at(-1)).toMatchObject({ type: "line", cursor: 2 });
+		stream?.stop();
+
+		// Cursors past the end come from before a clear or reload
+		const ahead = follow(tool, manager, { cursor: 10 });
+		expect(ahead.events.at(-1)).toMatchObject({ type: "line", cursor: 2 });
+	});
+
+	test("reports replaced progress lines", async () => {
+		const tool = createTool(["10%"]);
+		const { manager, notify } = createManager(tool);
+		const { events } = follow(tool, manager, { cursor: 0 });
+
+		tool.logs[0] = line("50%");
+		notify();
+		await settle();
+		tool.logs[0] = line("100%");
+		tool.logs.push(line("done"));
+		notify();
+		await settle();
+
+		expect(events.filter((e) => e.type !== "status")).toEqual([
+			{ type: "line", cursor: 0, text: "10%", timestamp: 1000 },
+			{ type: "replace", cursor: 0, text: "50%", timestamp: 1000 },
+			{ type: "replace", cursor: 0, text: "100%", timestamp: 1000 },
+			{ type: "line", cursor: 1, text: "done", timestamp: 1000 },
+		]);
+	});
+
+	test("sends status transitions once", async () => {
+		const tool = createTool();
+		const { manager, notify } = createManager(tool);
+		const { events } = follow(tool, manager);
+
+		tool.status = "error";
+		tool.exitCode = 1;
+		notify();
+		notify();
+		await settle();
+
+		const statuses = events.filter((e) => e.type === "status");
+		expect(statuses).toHaveLength(2);
+		expect(statuses[1]).toMatchObject({ status: "error", exitCode: 1 });
+	});
+
+	test("ends when the tool is replaced by a reload", async () => {
+		const tool = createTool();
+		const { manager, notify, replaceTool } = createManager(tool);
+		const { isEnded } = follow(tool, manager);
+
+		replaceTool(createTool());
+		notify();
+		await settle();
+		expect(isEnded()).toBe(true);
+	});
+});
+
+describe("formatSseEvent", () => {
+	test("uses the cursor as the event id of lines", () => {
+		expect(
+			formatSseEvent({ type: "line", cursor: 7, text: "hi", timestamp: 1 }),
+		).toBe(
+			'event: line\nid: 7\ndata: {"type":"line","cursor":7,"text":"hi","timestamp":1}\n\n',
+		);
+	});
+
+	test("sends status events without an id", () => {
+		expect(
+			formatSseEvent({ type: "status", status: "stopped", exitCode: 0 }),
+		).toBe(
+			'event: status\ndata: {"type":"status","status":"stopped","exitCode":0}\n\n',
+		);
+	});
+});
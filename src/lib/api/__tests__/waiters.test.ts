@@ -0,0 +1,285 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { HealthStatus, ToolConfig, ToolState } from "../../../types";
+import { ProcessManager } from "../../processes";
+import {
+	type HealthChangeListener,
+	waitForHealthy,
+	waitForLog,
+} from "../waiters";
+
+function createTool(texts: string[] = [], config: Partial<ToolConfig> = {}) {
+	const tool: ToolState = {
+		config: { name: "api", command: "api", ...config },
+		process: null,
+		logs: texts.map((text) => ({ segments: [{ text }], timestamp: 1000 })),
+		status: "running",
+		exitCode: null,
+		logTrimCount: 0,
+		logVersion: 0,
+	};
+	return tool;
+}
+
+/** Just enough of ProcessManager for the waiters */
+function createManager(tool: ToolState) {
+	const callbacks = new Set<() => void>();
+	const lineListeners = new Set<
+		(index: number, name: string, text: string) => void
+	>();
+	const manager = {
+		getToolByName: (name: string) =>
+			tool.config.name === name ? { index: 0, tool } : undefined,
+		subscribe: (_key: "all" | number, callback: () => void) => {
+			callbacks.add(callback);
+			return () => callbacks.delete(callback);
+		},
+		onLogLine: (
+			listener: (index: number, name: string, text: string) => void,
+		) => {
+			lineListeners.add(listener);
+			return () => lineListeners.delete(listener);
+		},
+	};
+	return {
+		manager: manager as unknown as ProcessManager,
+		addLine: (text: string) => {
+			tool.logs.push({ segments: [{ text }], timestamp: Date.now() });
+			for (const listener of lineListeners) listener(0, "api", text);
+			for (const callback of callbacks) callback();
+		},
+		notify: () => {
+			for (const callback of callbacks) callback();
+		},
+		listenerCount: () => callbacks.size + lineListeners.size,
+	};
+}
+
+describe("waitForLog", () => {
+	test("resolves with the first new matching line and its context", async () => {
+		const tool = createTool(["ready (old run)"]);
+		const { manager, addLine, listenerCount } = createManager(tool);
+
+		const wait = waitForLog(manager, "api", {
+			pattern: /ready/,
+			context: 2,
+			timeout: 1000,
+		});
+		addLine("compiling");
+		addLine("compiled");
+		addLine("ready on :3000");
+
+		const result = await wait;
+		expect(result).toMatchObject({
+			matched: true,
+			line: "ready on :3000",
+			cursor: 3,
+			context: ["compiling", "compiled"],
+			status: "running",
+		});
+		expect(listenerCount()).toBe(0);
+	});
+
+	test("matches earlier lines received since the given time", async () => {
+		const tool = createTool(["ready"]);
+		const { manager } = createManager(tool);
+
+		const result = await waitForLog(manager, "api", {
+			pattern: /ready/,
+			since: 1000,
+			timeout: 1000,
+		});
+		expect(result).toMatchObject({ matched: true, line: "ready", cursor: 0 });
+	});
+
+	test("times out without a match", async () => {
+		const tool = createTool(["ready"]);
+		const { manager, listenerCount } = createManager(tool);
+
+		const result = await waitForLog(manager, "api", {
+			pattern: /ready/,
+			timeout: 20,
+		});
+		expect(result).toEqual({
+			matched: false,
+			reason: "timeout",
+			status: "running",
+			exitCode: null,
+		});
+		expect(listenerCount()).toBe(0);
+	});
+
+	test("ends when the process crashes", async () => {
+		const tool = createTool();
+		const { manager, notify } = createManager(tool);
+
+		const wait = waitForLog(manager, "api", {
+			pattern: /ready/,
+			timeout: 1000,
+		});
+		tool.status = "error";
+		tool.exitCode = 1;
+		notify();
+
+		expect(await wait).toMatchObject({
+			matched: false,
+			reason: "exited",
+			exitCode: 1,
+		});
+	});
+
+	test("keeps waiting while an automatic restart is pending", async () => {
+		const tool = createTool();
+		const { manager, notify } = createManager(tool);
+
+		const wait = waitForLog(manager, "api", { pattern: /ready/, timeout: 30 });
+		tool.status = "error";
+		tool.nextRestartAt = Date.now() + 1000;
+		notify();
+
+		expect(await wait).toMatchObject({ matched: false, reason: "timeout" });
+	});
+
+	test("waits through a crash that is restarted automatically", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "corsa-waiters-"));
+		const processManager = new ProcessManager();
+		try {
+			await processManager.initialize(
+				[
+					{
+						name: "flaky",
+						command: "sh",
+						// Crashes on the first run, logs "ready" on the second
+						args: [
+							"-c",
+							"if [ -f started ]; then echo ready; sleep 5; else touch started; echo boom; exit 1; fi",
+						],
+						cwd: dir,
+						restart: "on-failure",
+						restartDelay: 200,
+					},
+				],
+				{ cleanupOrphans: false },
+			);
+
+			const wait = waitForLog(processManager, "flaky", {
+				pattern: /ready/,
+				timeout: 3000,
+			});
+			await processManager.startTool(0);
+
+			expect(await wait).toMatchObject({ matched: true, line: "ready" });
+		} finally {
+			await processManager.cleanup();
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("ends when aborted", async () => {
+		const tool = createTool();
+		const { manager } = createManager(tool);
+		const abort = new AbortController();
+
+		const wait = waitForLog(manager, "api", {
+			pattern: /ready/,
+			timeout: 1000,
+			signal: abort.signal,
+		});
+		abort.abort();
+
+		expect(await wait).toMatchObject({ matched: false, reason: "timeout" });
+	});
+});
+
+describe("waitForHealthy", () => {
+	function follow(tool: ToolState, initialHealth: HealthStatus | null) {
+		const { manager, notify } = createManager(tool);
+		let health = initialHealth;
+		const listeners = new Set<HealthChangeListener>();
+		const wait = waitForHealthy(
+			manager,
+			"api",
+			() => health,
+			(listener) => {
+				listeners.add(listener);
+				return () => listeners.delete(listener);
+			},
+			{ timeout: 100 },
+		);
+		return {
+			wait,
+			notify,
+			setHealth: (status: HealthStatus) => {
+				health = status;
+			},
+			pushHealth: (name: string, status: HealthStatus) => {
+				for (const listener of listeners) listener(name, status);
+			},
+			listenerCount: () => listeners.size,
+		};
+	}
+
+	const healthCheck = { healthCheck: { url: "http://localhost:3000" } };
+
+	test("resolves when a health change reports healthy", async () => {
+		const tool = createTool([], healthCheck);
+		const { wait, pushHealth, listenerCount } = follow(tool, "starting");
+
+		pushHealth("other", "healthy");
+		pushHealth("api", "healthy");
+
+		expect(await wait).toEqual({
+			healthy: true,
+			status: "running",
+			exitCode: null,
+			healthStatus: "healthy",
+		});
+		expect(listenerCount()).toBe(0);
+	});
+
+	test("resolves right away when already healthy", async () => {
+		const tool = createTool([], healthCheck);
+		const { wait } = follow(tool, "healthy");
+		expect((await wait).healthy).toBe(true);
+	});
+
+	test("treats running processes without a health check as healthy", async () => {
+		const tool = createTool();
+		tool.status = "waiting";
+		const { wait, notify } = follow(tool, null);
+
+		tool.status = "running";
+		notify();
+
+		expect(await wait).toEqual({
+			healthy: true,
+			status: "running",
+			exitCode: null,
+		});
+	});
+
+	test("reports the last health status on timeout", async () => {
+		const tool = createTool([], healthCheck);
+		const { wait, setHealth } = follow(tool, "starting");
+		setHealth("unhealthy");
+
+		expect(await wait).toMatchObject({
+			healthy: false,
+			reason: "timeout",
+			healthStatus: "unhealthy",
+		});
+	});
+
+	test("ends when the process crashes", async () => {
+		const tool = createTool([], healthCheck);
+		const { wait, notify } = follow(tool, "starting");
+
+		tool.status = "error";
+		tool.crashLoop = true;
+		notify();
+
+		expect(await wait).toMatchObject({ healthy: false, reason: "exited" });
+	});
+});
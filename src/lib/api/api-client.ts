@@ -0,0 +1,196 @@
+/**
+ * Client for corsa's HTTP API, shared by the commands that talk to a
+ * running instance (`corsa mcp`, `corsa ctl`).
+ */
+
+import { existsSync } from "node:fs";
+import { loadConfig } from "../config";
+import type { FileReference } from "../editor";
+import {
+	DEFAULT_MCP_HOST,
+	DEFAULT_MCP_PORT,
+	getApiSocketPath,
+} from "./api-server";
+import { readApiTokens } from "./api-tokens";
+
+/** Process summary returned by the API */
+export interface ProcessSummary {
+	name: string;
+	description?: string;
+	status: "running" | "stopped" | "error" | "shuttingDown" | "waiting";
+	exitCode: number | null;
+	logCount: number;
+	pid?: number;
+	uptime?: number;
+	/** Health status if the tool has a health check configured */
+	healthStatus?: "starting" | "healthy" | "unhealthy";
+	/** Last 20 log lines (plain text) */
+	recentLogs?: string[];
+	/** Consecutive automatic restarts (only when a restart policy is configured) */
+	restartCount?: number;
+	/** Unix timestamp (ms) of the next scheduled automatic restart */
+	nextRestartAt?: number;
+	/** Whether automatic restarts were abandoned after reaching maxRestarts */
+	crashLoop?: boolean;
+}
+
+/** Logs returned by the API */
+export interface LogsResponse {
+	name: string;
+	totalLines: number;
+	returnedLines: number;
+	logs: string[];
+	/** Unix timestamps (ms) when each returned line was received */
+	timestamps: number[];
+	/**
+	 * File references in the returned lines, with absolute paths.
+	 * Only included when requested with fileReferences=true, up to 50.
+	 */
+	fileReferences?: Array<FileReference & { logIndex: number }>;
+}
+
+/** Cross-process log search results returned by the API */
+export interface LogSearchResponse {
+	query: string;
+	totalMatches: number;
+	returnedMatches: number;
+	/** Matches in the order they were logged (the most recent ones when limited) */
+	matches: Array<{
+		tool: string;
+		/** Position of the line in the process's whole output */
+		lineIndex: number;
+		text: string;
+		timestamp: number;
+		before: string[];
+		after: string[];
+	}>;
+}
+
+interface ApiResponse<T> {
+	ok: boolean;
+	data?: T;
+	error?: string;
+}
+
+/** Where and how to reach a running corsa API */
+export interface ApiConnection {
+	/** Base URL, e.g. http://127.0.0.1:18765 */
+	url: string;
+	/** Unix socket to connect through instead of the URL's host and port */
+	socketPath?: string;
+	/** Bearer token sent with each request */
+	token?: string;
+}
+
+/**
+ * Get the connection to the corsa API. The URL is CORSA_API_URL if set,
+ * otherwise the instance's unix socket if it is running, otherwise the host
+ * and port from the config's [mcp] section. The token is CORSA_API_TOKEN if
+ * set, otherwise the one the instance generated.
+ */
+export async function resolveApiConnection(
+	configPath?: string,
+): Promise<ApiConnection> {
+	const path = configPath ?? "corsa.config.toml";
+	const token =
+		process.env.CORSA_API_TOKEN ||
+		(await readApiTokens(path))?.token ||
+		undefined;
+
+	const apiUrl = process.env.CORSA_API_URL;
+	if (apiUrl) return { url: apiUrl, token };
+
+	// The socket is per config, so it finds the right instance whatever port
+	// it has (or couldn't get)
+	const socketPath = getApiSocketPath(path);
+	if (existsSync(socketPath)) {
+		return { url: "http://localhost", socketPath, token };
+	}
+
+	try {
+		const { config } = await loadConfig(path);
+		const host = config.mcp?.host ?? DEFAULT_MCP_HOST;
+		const port = config.mcp?.port ?? DEFAULT_MCP_PORT;
+		return { url: `http://${formatHost(host)}:${port}`, token };
+	} catch {
+		// Config not found, use default
+		return { url: `http://${DEFAULT_MCP_HOST}:${DEFAULT_MCP_PORT}`, token };
+	}
+}
+
+/**
+ * Get the host to connect to for a listen address.
+ */
+function formatHost(host: string): string {
+	// A server listening on every interface is reachable through loopback
+	if (host === "0.0.0.0" || host === "::") return DEFAULT_MCP_HOST;
+	return host.includes(":") ? `[${host}]` : host;
+}
+
+/**
+ * Describe where a connection goes, for messages.
+ */
+export function formatApiAddress(api: ApiConnection): string {
+	return api.socketPath ? `unix:${api.socketPath}` : api.url;
+}
+
+/**
+ * Get the fetch options that reach and authenticate with the API.
+ */
+export function getFetchOptions(api: ApiConnection): {
+	headers: Record<string, string>;
+	unix?: string;
+} {
+	return {
+		headers: api.token ? { Authorization: `Bearer ${api.token}` } : {},
+		...(api.socketPath && { unix: api.socketPath }),
+	};
+}
+
+/**
+ * Make a request to the corsa HTTP API.
+ * @throws Error with the API's error message, or if corsa isn't reachable
+ */
+export async function apiRequest<T>(
+	api: ApiConnection,
+	path: string,
+	method: "GET" | "POST" = "GET",
+	body?: unknown,
+): Promise<T> {
+	const { headers, unix } = getFetchOptions(api);
+	let response: Response;
+	try {
+		response = await fetch(`${api.url}${path}`, {
+			method,
+			unix,
+			headers: {
+				...headers,
+				...(body !== undefined && { "Content-Type": "application/json" }),
+			},
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		});
+	} catch {
+		throw new Error(
+			`Cannot connect to corsa API at ${formatApiAddress(api)}. ` +
+				"Make sure corsa is running with mcp.enabled = true in your config.",
+		);
+	}
+
+	const json = (await response.json()) as ApiResponse<T>;
+	if (!json.ok) {
+		throw new Error(json.error ?? "Unknown API error");
+	}
+	return json.data as T;
+}
+
+/**
+ * Check if corsa API is reachable.
+ */
+export async function checkHealth(api: ApiConnection): Promise<boolean> {
+	try {
+		await apiRequest<{ status: string }>(api, "/api/health");
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -1,12 +1,41 @@
-import type { Server } from "bun";
-import type { HealthStatus } from "../../types";
+import { chmodSync, unlinkSync } from "node:fs";
+import { resolve } from "node:path";
+import type { Server, ServerWebSocket } from "bun";
+import type { HealthStatus, LogLevel } from "../../types";
 import type { Config } from "../config";
-import type { ProcessManager } from "../processes";
-import { fuzzyFindLines, substringFindLines } from "../search";
+import { type FileReference, findFileReferences } from "../editor";
+import { getPidFilePath, type ProcessManager } from "../processes";
+import {
+	findMatchingLines,
+	type LineSearchOptions,
+	type LogSearchMatch,
+	SEARCH_TYPES,
+	type SearchType,
+	searchToolLogs,
+} from "../search";
+import { isAtLeastLevel, LOG_LEVELS, parseLogLevel } from "../text";
+import { type ApiTokens, getTokenScope } from "./api-tokens";
+import { formatSseEvent, LogStream, type LogStreamOptions } from "./log-stream";
+import {
+	type HealthChangeListener,
+	waitForHealthy,
+	waitForLog,
+} from "./waiters";
 
 /** Default port for the MCP API server */
 export const DEFAULT_MCP_PORT = 18765;
 
+/** Default interface the MCP API server listens on (this machine only) */
+export const DEFAULT_MCP_HOST = "127.0.0.1";
+
+/**
+ * Get the path of the unix socket the API listens on for a config, next to
+ * its PID file. Unlike the port, it never collides between projects.
+ */
+export function getApiSocketPath(configPath: string): string {
+	return getPidFilePath(configPath).replace(/\.json$/, ".api.sock");
+}
+
 /** Callback for config reload events */
 export type OnConfigReloadCallback = (config: Config) => void;
 
@@ -27,9 +56,98 @@ interface ApiErrorResponse {
 
 type ApiResponse<T> = ApiSuccessResponse<T> | ApiErrorResponse;
 
+/** Default number of matches returned by a cross-process log search */
+const DEFAULT_SEARCH_LIMIT = 100;
+
+/** Maximum number of file references returned with a process's logs */
+const MAX_FILE_REFERENCES = 50;
+
+/** Default number of lines around each cross-process search match */
+const DEFAULT_SEARCH_CONTEXT = 2;
+
 /** Number of recent log lines to include in process list */
 const RECENT_LOGS_COUNT = 20;
 
+/** Default time a wait endpoint waits before giving up (ms) */
+const DEFAULT_WAIT_TIMEOUT = 30000;
+
+/** Longest time a wait endpoint may wait (ms) */
+const MAX_WAIT_TIMEOUT = 600000;
+
+/** Interval of SSE comments that keep idle streams open through proxies (ms) */
+const SSE_HEARTBEAT_INTERVAL = 15000;
+
+/** Data attached to log stream WebSockets */
+interface LogSocketData {
+	toolName: string;
+	options: LogStreamOptions;
+	/** Ends the stream and closes the socket */
+	close: (() => void) | null;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Parse a `since`/`until` query parameter.
+ * Accepts a Unix timestamp in milliseconds or an ISO 8601 date string.
+ * Returns undefined when absent and NaN when invalid.
+ */
+function parseTimeParam(value: string | null): number | undefined {
+	if (value === null || value === "") return undefined;
+	if (/^\d+$/.test(value)) return Number(value);
+	return Date.parse(value);
+}
+
+/**
+ * Parse how a search query is matched: `searchType` (default substring),
+ * and `caseSensitive` and `wholeWord` for regular expressions.
+ * Returns null when the search type is invalid.
+ */
+function parseSearchOptions(url: URL): LineSearchOptions | null {
+	const searchType = url.searchParams.get("searchType") || "substring";
+	if (!SEARCH_TYPES.includes(searchType as SearchType)) return null;
+	return {
+		searchType: searchType as SearchType,
+		caseSensitive: url.searchParams.get("caseSensitive") === "true",
+		wholeWord: url.searchParams.get("wholeWord") === "true",
+	};
+}
+
+/**
+ * Parse the `timeout` query parameter of a wait endpoint (ms).
+ * Returns null when invalid.
+ */
+function parseWaitTimeout(url: URL): number | null {
+	const value = url.searchParams.get("timeout");
+	if (value === null || value === "") return DEFAULT_WAIT_TIMEOUT;
+	const timeout = Number(value);
+	return Number.isFinite(timeout) && timeout >= 0 && timeout <= MAX_WAIT_TIMEOUT
+		? timeout
+		: null;
+}
+
+/**
+ * Parse where a log stream starts: `cursor` (or the SSE Last-Event-ID header
+ * of a reconnecting client) and `lines`.
+ * Returns null when a value is invalid.
+ */
+function parseStreamOptions(url: URL, req: Request): LogStreamOptions | null {
+	const parse = (value: string | null) =>
+		value === null || value === "" ? undefined : Number(value);
+	const lastEventId = parse(req.headers.get("Last-Event-ID"));
+	const cursor =
+		parse(url.searchParams.get("cursor")) ??
+		(lastEventId === undefined ? undefined : lastEventId + 1);
+	const lines = parse(url.searchParams.get("lines"));
+
+	for (const value of [cursor, lines]) {
+		if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+			return null;
+		}
+	}
+	return { cursor, lines };
+}
+
 /** Process summary returned by list endpoint */
 interface ProcessSummary {
 	name: string;
@@ -43,6 +161,21 @@ interface ProcessSummary {
 	healthStatus?: HealthStatus;
 	/** Last N log lines (plain text) */
 	recentLogs?: string[];
+	/** Consecutive automatic restarts (only when a restart policy is configured) */
+	restartCount?: number;
+	/** Unix timestamp (ms) of the next scheduled automatic restart */
+	nextRestartAt?: number;
+	/** Whether automatic restarts were abandoned after reaching maxRestarts */
+	crashLoop?: boolean;
+}
+
+/** Result of a cross-process log search */
+interface LogSearchResponse {
+	query: string;
+	totalMatches: number;
+	returnedMatches: number;
+	/** Matches in the order they were logged (the most recent ones when limited) */
+	matches: LogSearchMatch[];
 }
 
 /** Full process details */
@@ -50,30 +183,57 @@ interface ProcessDetails extends ProcessSummary {
 	command: string;
 	args?: string[];
 	cwd?: string;
+	/** Log file of the current run (when log persistence is enabled) */
+	logFile?: string;
 	// healthStatus is inherited from ProcessSummary
 }
 
 /** Name of the virtual tool used for MCP API logs */
 const MCP_API_TOOL_NAME = "MCP API";
 
+export interface ApiServerOptions {
+	/** Interface to listen on (default: 127.0.0.1) */
+	host?: string;
+	/** Bearer tokens clients must send; every request is allowed when omitted */
+	tokens?: ApiTokens;
+	/** Browser origins allowed to call the API; requests from other pages are rejected */
+	corsOrigins?: string[];
+	/** Unix socket to listen on as well (see getApiSocketPath) */
+	socketPath?: string;
+}
+
 /**
  * HTTP API server for MCP integration.
  * Runs in-process and logs to a virtual tool tab.
  */
 export class ApiServer {
 	private server: Server | null = null;
+	private socketServer: Server | null = null;
 	private processManager: ProcessManager;
 	private port: number;
+	private host: string;
+	private tokens: ApiTokens | undefined;
+	private corsOrigins: string[];
+	private socketPath: string | undefined;
 	private onConfigReload: OnConfigReloadCallback | null = null;
 	private getHealthStatus: GetHealthStatusCallback | null = null;
+	/** Functions that end the open log streams */
+	private closeLogStreams = new Set<() => void>();
+	/** Listeners of waits for a health check to pass */
+	private healthListeners = new Set<HealthChangeListener>();
 
 	constructor(
 		processManager: ProcessManager,
 		port: number,
 		_toolIndex: number,
+		options: ApiServerOptions = {},
 	) {
 		this.processManager = processManager;
 		this.port = port;
+		this.host = options.host ?? DEFAULT_MCP_HOST;
+		this.tokens = options.tokens;
+		this.corsOrigins = options.corsOrigins ?? [];
+		this.socketPath = options.socketPath;
 		// Note: toolIndex parameter kept for backward compatibility but not used.
 		// We look up the tool by name to handle index changes after config reload.
 	}
@@ -94,23 +254,61 @@ export class ApiServer {
 		this.getHealthStatus = callback;
 	}
 
+	/**
+	 * Report a health status change, so waits for a passing health check end
+	 * right away instead of on the next process change.
+	 */
+	notifyHealthChange(toolName: string, status: HealthStatus): void {
+		for (const listener of this.healthListeners) {
+			listener(toolName, status);
+		}
+	}
+
 	/**
 	 * Start the HTTP server.
 	 */
-	start(): void {
-		this.server = Bun.serve({
-			port: this.port,
-			fetch: (req) => this.handleRequest(req),
-		});
-		this.log(`MCP API server listening on http://localhost:${this.port}`);
+	async start(): Promise<void> {
+		if (this.socketPath && (await isSocketListening(this.socketPath))) {
+			this.log(
+				`[WARN] Another instance is serving unix:${this.socketPath}, not listening on it`,
+			);
+		} else if (this.socketPath) {
+			// A leftover socket from an instance that didn't shut down cleanly
+			// blocks listening, so replace it
+			removeSocketFile(this.socketPath);
+			this.socketServer = this.serve({ unix: this.socketPath });
+			// Only the owner may connect, like the token file
+			chmodSync(this.socketPath, 0o600);
+			this.log(`MCP API server listening on unix:${this.socketPath}`);
+		}
+
+		try {
+			this.server = this.serve({ port: this.port, hostname: this.host });
+			this.log(`MCP API server listening on http://${this.host}:${this.port}`);
+		} catch (error) {
+			// Another instance holding the port is fine while the socket works
+			if (!this.socketServer) throw error;
+			const message = error instanceof Error ? error.message : String(error);
+			this.log(
+				`[WARN] Not listening on port ${this.port} (${message}), only on the unix socket`,
+			);
+		}
 		this.log("Endpoints:");
 		this.log("  GET  /api/health");
 		this.log("  GET  /api/processes");
+		this.log("  GET  /api/logs/search");
 		this.log("  GET  /api/processes/:name");
 		this.log("  GET  /api/processes/:name/logs");
+		this.log("  GET  /api/processes/:name/logs/stream (SSE)");
+		this.log("  GET  /api/processes/:name/logs/ws (WebSocket)");
+		this.log("  GET  /api/processes/:name/logs/wait");
+		this.log("  GET  /api/processes/:name/health/wait");
+		this.log("  POST /api/processes/start|stop|restart");
+		this.log("  POST /api/processes/:name/start");
 		this.log("  POST /api/processes/:name/stop");
 		this.log("  POST /api/processes/:name/restart");
 		this.log("  POST /api/processes/:name/clear");
+		this.log("  POST /api/processes/:name/input");
 		this.log("  POST /api/reload");
 	}
 
@@ -118,11 +316,37 @@ export class ApiServer {
 	 * Stop the HTTP server.
 	 */
 	stop(): void {
-		if (this.server) {
-			this.server.stop();
-			this.server = null;
-			this.log("MCP API server stopped");
+		for (const close of this.closeLogStreams) {
+			close();
+		}
+		if (!this.server && !this.socketServer) return;
+		this.server?.stop();
+		this.server = null;
+		if (this.socketServer && this.socketPath) {
+			this.socketServer.stop();
+			removeSocketFile(this.socketPath);
 		}
+		this.socketServer = null;
+		this.log("MCP API server stopped");
+	}
+
+	/**
+	 * Start a Bun server for the API on a port or unix socket.
+	 */
+	private serve(
+		address: { port: number; hostname: string } | { unix: string },
+	): Server {
+		return Bun.serve<LogSocketData, Record<string, never>>({
+			...address,
+			fetch: async (req, server) =>
+				this.withCors(req, await this.handleRequest(req, server)),
+			websocket: {
+				open: (ws) => this.openLogSocket(ws),
+				// Log sockets only push events
+				message: () => {},
+				close: (ws) => ws.data.close?.(),
+			},
+		});
 	}
 
 	/**
@@ -140,7 +364,10 @@ export class ApiServer {
 	/**
 	 * Handle an incoming HTTP request.
 	 */
-	private async handleRequest(req: Request): Promise<Response> {
+	private async handleRequest(
+		req: Request,
+		server: Server,
+	): Promise<Response | undefined> {
 		const url = new URL(req.url);
 		const path = url.pathname;
 		const method = req.method;
@@ -148,6 +375,30 @@ export class ApiServer {
 		// Log the request
 		this.log(`${method} ${path}`);
 
+		// Reject requests from web pages that aren't allowed, so a page can't
+		// drive the API through the user's browser
+		const origin = req.headers.get("Origin");
+		if (origin !== null && !this.corsOrigins.includes(origin)) {
+			return this.jsonResponse(
+				{ ok: false, error: `Origin not allowed: ${origin}` },
+				403,
+			);
+		}
+
+		// CORS preflight
+		if (method === "OPTIONS") {
+			return new Response(null, {
+				status: 204,
+				headers: {
+					"Access-Control-Allow-Methods": "GET, POST",
+					"Access-Control-Allow-Headers": "Authorization, Content-Type",
+				},
+			});
+		}
+
+		const denied = this.authorize(req, url);
+		if (denied) return denied;
+
 		try {
 			// Health check
 			if (path === "/api/health" && method === "GET") {
@@ -164,6 +415,20 @@ export class ApiServer {
 				return this.handleListProcesses();
 			}
 
+			// Search the logs of all processes
+			if (path === "/api/logs/search" && method === "GET") {
+				return this.handleSearchLogs(url);
+			}
+
+			// Bulk start/stop/restart
+			const bulkMatch = path.match(/^\/api\/processes\/(start|stop|restart)$/);
+			if (bulkMatch && method === "POST") {
+				return await this.handleBulkAction(
+					bulkMatch[1] as "start" | "stop" | "restart",
+					req,
+				);
+			}
+
 			// Process-specific routes
 			const processMatch = path.match(/^\/api\/processes\/([^/]+)(\/.*)?$/);
 			if (processMatch) {
@@ -179,17 +444,79 @@ export class ApiServer {
 				if (subPath === "/logs" && method === "GET") {
 					const lines = url.searchParams.get("lines");
 					const search = url.searchParams.get("search");
-					const searchType = url.searchParams.get("searchType") as
-						| "substring"
-						| "fuzzy"
-						| null;
+					const searchOptions = parseSearchOptions(url);
+					if (!searchOptions) {
+						return this.invalidSearchTypeResponse();
+					}
+					const since = parseTimeParam(url.searchParams.get("since"));
+					const until = parseTimeParam(url.searchParams.get("until"));
+					if (Number.isNaN(since) || Number.isNaN(until)) {
+						return this.jsonResponse(
+							{
+								ok: false,
+								error:
+									"'since' and 'until' must be Unix timestamps (ms) or ISO 8601 dates",
+							},
+							400,
+						);
+					}
+					const levelParam = url.searchParams.get("level");
+					const level = levelParam ? parseLogLevel(levelParam) : undefined;
+					if (levelParam && !level) {
+						return this.jsonResponse(
+							{
+								ok: false,
+								error: `'level' must be one of: ${LOG_LEVELS.join(", ")}`,
+							},
+							400,
+						);
+					}
 					return this.handleGetLogs(name, {
 						lines: lines ? parseInt(lines, 10) : undefined,
+						...searchOptions,
 						search: search ?? undefined,
-						searchType: searchType ?? "substring",
+						since,
+						until,
+						level,
+						fileReferences: url.searchParams.get("fileReferences") === "true",
 					});
 				}
 
+				// Stream logs as Server-Sent Events, or over a WebSocket
+				if (
+					(subPath === "/logs/stream" || subPath === "/logs/ws") &&
+					method === "GET"
+				) {
+					const options = parseStreamOptions(url, req);
+					if (!options) {
+						return this.jsonResponse(
+							{
+								ok: false,
+								error: "'cursor' and 'lines' must be non-negative integers",
+							},
+							400,
+						);
+					}
+					return subPath === "/logs/stream"
+						? this.handleLogStream(name, req, server, options)
+						: this.handleLogSocket(name, req, server, options);
+				}
+
+				// Wait for a log line matching a pattern
+				if (subPath === "/logs/wait" && method === "GET") {
+					return await this.handleWaitForLog(name, url, req, server);
+				}
+
+				// Wait for the health check to pass
+				if (subPath === "/health/wait" && method === "GET") {
+					return await this.handleWaitForHealthy(name, url, req, server);
+				}
+
+				// Start process
+				if (subPath === "/start" && method === "POST") {
+					return await this.handleStartProcess(name);
+				}
+
 				// Stop process
 				if (subPath === "/stop" && method === "POST") {
 					return this.handleStopProcess(name);
@@ -204,6 +531,11 @@ export class ApiServer {
 				if (subPath === "/clear" && method === "POST") {
 					return this.handleClearLogs(name);
 				}
+
+				// Send input to stdin
+				if (subPath === "/input" && method === "POST") {
+					return await this.handleSendInput(name, req);
+				}
 			}
 
 			// Not found
@@ -215,6 +547,79 @@ export class ApiServer {
 		}
 	}
 
+	/**
+	 * Search the logs of several processes at once.
+	 * Query parameters: `q`, `regex` ("true" for a regular expression),
+	 * `tools` (comma-separated names, default all), `context` and `limit`.
+	 */
+	private handleSearchLogs(url: URL): Response {
+		const query = url.searchParams.get("q");
+		if (!query) {
+			return this.jsonResponse({ ok: false, error: "'q' is required" }, 400);
+		}
+
+		const searchOptions = parseSearchOptions(url);
+		if (!searchOptions) {
+			return this.invalidSearchTypeResponse();
+		}
+
+		const toolNames = url.searchParams
+			.get("tools")
+			?.split(",")
+			.map((name) => name.trim())
+			.filter(Boolean);
+		const unknown = toolNames?.find(
+			(name) => !this.processManager.getToolByName(name),
+		);
+		if (unknown) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process not found: ${unknown}` },
+				404,
+			);
+		}
+
+		const parseCount = (name: string, fallback: number) => {
+			const value = url.searchParams.get(name);
+			return value === null || value === "" ? fallback : Number(value);
+		};
+		const context = parseCount("context", DEFAULT_SEARCH_CONTEXT);
+		const limit = parseCount("limit", DEFAULT_SEARCH_LIMIT);
+		for (const [name, value] of [
+			["context", context],
+			["limit", limit],
+		] as const) {
+			if (!Number.isInteger(value) || value < 0) {
+				return this.jsonResponse(
+					{ ok: false, error: `'${name}' must be a non-negative integer` },
+					400,
+				);
+			}
+		}
+
+		let result: ReturnType<typeof searchToolLogs>;
+		try {
+			result = searchToolLogs(this.processManager.getTools(), query, {
+				...searchOptions,
+				toolNames,
+				context,
+				limit,
+			});
+		} catch {
+			return this.jsonResponse(
+				{ ok: false, error: `Invalid regular expression: ${query}` },
+				400,
+			);
+		}
+
+		const response: LogSearchResponse = {
+			query,
+			totalMatches: result.totalMatches,
+			returnedMatches: result.matches.length,
+			matches: result.matches,
+		};
+		return this.jsonResponse({ ok: true, data: response });
+	}
+
 	/**
 	 * List all processes with summary information.
 	 */
@@ -247,6 +652,13 @@ export class ApiServer {
 					}
 				}
 
+				// Include restart tracking if a restart policy is configured
+				if (tool.config.restart && tool.config.restart !== "never") {
+					summary.restartCount = tool.restartCount ?? 0;
+					summary.nextRestartAt = tool.nextRestartAt;
+					summary.crashLoop = tool.crashLoop;
+				}
+
 				return summary;
 			});
 
@@ -276,6 +688,7 @@ export class ApiServer {
 			command: tool.config.command,
 			args: tool.config.args,
 			cwd: tool.config.cwd,
+			logFile: tool.logFile,
 		};
 
 		// Include health status if available
@@ -286,6 +699,13 @@ export class ApiServer {
 			}
 		}
 
+		// Include restart tracking if a restart policy is configured
+		if (tool.config.restart && tool.config.restart !== "never") {
+			details.restartCount = tool.restartCount ?? 0;
+			details.nextRestartAt = tool.nextRestartAt;
+			details.crashLoop = tool.crashLoop;
+		}
+
 		return this.jsonResponse({ ok: true, data: details });
 	}
 
@@ -294,10 +714,17 @@ export class ApiServer {
 	 */
 	private handleGetLogs(
 		name: string,
-		options: {
+		options: LineSearchOptions & {
 			lines?: number;
 			search?: string;
-			searchType: "substring" | "fuzzy";
+			/** Only include lines received at or after this Unix timestamp (ms) */
+			since?: number;
+			/** Only include lines received at or before this Unix timestamp (ms) */
+			until?: number;
+			/** Only include lines of this level and above */
+			level?: LogLevel;
+			/** Resolve file references in the returned lines */
+			fileReferences?: boolean;
 		},
 	): Response {
 		const result = this.processManager.getToolByName(name);
@@ -310,24 +737,60 @@ export class ApiServer {
 
 		const { tool } = result;
 
+		// Apply time range and level filters if provided
+		const { since, until, level } = options;
+		let logLines = tool.logs;
+		if (since !== undefined || until !== undefined || level) {
+			logLines = logLines.filter(
+				(logLine) =>
+					(since === undefined || logLine.timestamp >= since) &&
+					(until === undefined || logLine.timestamp <= until) &&
+					(!level || isAtLeastLevel(logLine.level, level)),
+			);
+		}
+
 		// Convert logs to plain text
-		let logTexts = tool.logs.map((logLine) =>
+		const allTexts = logLines.map((logLine) =>
 			logLine.segments.map((seg) => seg.text).join(""),
 		);
 
 		// Apply search filter if provided
+		let indices = allTexts.map((_, i) => i);
 		if (options.search) {
-			const matchingIndices =
-				options.searchType === "fuzzy"
-					? fuzzyFindLines(logTexts, options.search).map((m) => m.index)
-					: substringFindLines(logTexts, options.search);
-
-			logTexts = matchingIndices.map((i) => logTexts[i] ?? "");
+			try {
+				indices = findMatchingLines(allTexts, options.search, options);
+			} catch {
+				return this.jsonResponse(
+					{ ok: false, error: `Invalid regular expression: ${options.search}` },
+					400,
+				);
+			}
 		}
 
 		// Apply line limit (from the end)
 		if (options.lines && options.lines > 0) {
-			logTexts = logTexts.slice(-options.lines);
+			indices = indices.slice(-options.lines);
+		}
+
+		const logs = indices.map((i) => allTexts[i] ?? "");
+
+		// Resolve file:line references against the tool's working directory,
+		// the most recent ones first as they are the likeliest to matter
+		let fileReferences: Array<FileReference & { logIndex: number }> | undefined;
+		if (options.fileReferences) {
+			const cwd = resolve(tool.config.cwd || process.cwd());
+			fileReferences = [];
+			for (
+				let logIndex = logs.length - 1;
+				logIndex >= 0 && fileReferences.length < MAX_FILE_REFERENCES;
+				logIndex--
+			) {
+				const references = findFileReferences(logs[logIndex] ?? "", cwd);
+				for (const reference of references.reverse()) {
+					fileReferences.push({ ...reference, logIndex });
+				}
+			}
+			fileReferences = fileReferences.slice(0, MAX_FILE_REFERENCES).reverse();
 		}
 
 		return this.jsonResponse({
@@ -335,12 +798,247 @@ export class ApiServer {
 			data: {
 				name,
 				totalLines: tool.logs.length,
-				returnedLines: logTexts.length,
-				logs: logTexts,
+				returnedLines: indices.length,
+				logs,
+				timestamps: indices.map((i) => logLines[i]?.timestamp ?? 0),
+				fileReferences,
+			},
+		});
+	}
+
+	/**
+	 * Start a stopped process.
+	 */
+	private async handleStartProcess(name: string): Promise<Response> {
+		const result = this.processManager.getToolByName(name);
+		if (!result || this.processManager.isVirtualTool(result.index)) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process not found: ${name}` },
+				404,
+			);
+		}
+
+		const { index, tool } = result;
+
+		if (tool.status === "running") {
+			return this.jsonResponse(
+				{ ok: false, error: `Process is already running: ${name}` },
+				400,
+			);
+		}
+
+		this.log(`Starting process: ${name}`);
+		await this.processManager.startTool(index);
+
+		return this.jsonResponse({
+			ok: true,
+			data: { message: `Started: ${name}` },
+		});
+	}
+
+	/**
+	 * Write input to a running process's stdin.
+	 * The JSON body contains `input` (string) and optionally `newline`
+	 * (default true), which appends a newline to submit the input as a line.
+	 */
+	private async handleSendInput(name: string, req: Request): Promise<Response> {
+		const result = this.processManager.getToolByName(name);
+		if (!result || this.processManager.isVirtualTool(result.index)) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process not found: ${name}` },
+				404,
+			);
+		}
+
+		let parsed: unknown;
+		try {
+			const text = await req.text();
+			parsed = text ? JSON.parse(text) : {};
+		} catch {
+			return this.jsonResponse(
+				{ ok: false, error: "Request body must be valid JSON" },
+				400,
+			);
+		}
+		if (
+			typeof parsed !== "object" ||
+			parsed === null ||
+			Array.isArray(parsed)
+		) {
+			return this.jsonResponse(
+				{ ok: false, error: "Request body must be a JSON object" },
+				400,
+			);
+		}
+		const body: { input?: unknown; newline?: unknown } = parsed;
+
+		if (typeof body.input !== "string") {
+			return this.jsonResponse(
+				{ ok: false, error: "'input' must be a string" },
+				400,
+			);
+		}
+		if (body.newline !== undefined && typeof body.newline !== "boolean") {
+			return this.jsonResponse(
+				{ ok: false, error: "'newline' must be a boolean" },
+				400,
+			);
+		}
+
+		const input = body.newline === false ? body.input : `${body.input}\n`;
+		if (!this.processManager.sendInput(result.index, input)) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process is not running: ${name}` },
+				400,
+			);
+		}
+
+		this.log(`Sent input to: ${name}`);
+		return this.jsonResponse({
+			ok: true,
+			data: { message: `Sent input to: ${name}` },
+		});
+	}
+
+	/**
+	 * Start, stop or restart several processes in dependency order.
+	 * The JSON body may contain `names` (array of process names) or `group`
+	 * (name of a group, which includes the processes it depends on); without
+	 * either, all processes are affected.
+	 */
+	private async handleBulkAction(
+		action: "start" | "stop" | "restart",
+		req: Request,
+	): Promise<Response> {
+		let parsed: unknown;
+		try {
+			const text = await req.text();
+			parsed = text ? JSON.parse(text) : {};
+		} catch {
+			return this.jsonResponse(
+				{ ok: false, error: "Request body must be valid JSON" },
+				400,
+			);
+		}
+		if (
+			typeof parsed !== "object" ||
+			parsed === null ||
+			Array.isArray(parsed)
+		) {
+			return this.jsonResponse(
+				{ ok: false, error: "Request body must be a JSON object" },
+				400,
+			);
+		}
+		const body: { names?: unknown; group?: unknown } = parsed;
+
+		if (
+			body.names !== undefined &&
+			(!Array.isArray(body.names) ||
+				!body.names.every((n) => typeof n === "string"))
+		) {
+			return this.jsonResponse(
+				{ ok: false, error: "'names' must be an array of process names" },
+				400,
+			);
+		}
+		if (body.group !== undefined && typeof body.group !== "string") {
+			return this.jsonResponse(
+				{ ok: false, error: "'group' must be a string" },
+				400,
+			);
+		}
+		if (body.names !== undefined && body.group !== undefined) {
+			return this.jsonResponse(
+				{ ok: false, error: "Pass either 'names' or 'group', not both" },
+				400,
+			);
+		}
+		if (body.group !== undefined) {
+			const groupTools = this.processManager.getGroupTools(body.group);
+			if (!groupTools) {
+				return this.jsonResponse(
+					{ ok: false, error: `Group not found: ${body.group}` },
+					404,
+				);
+			}
+			body.names = groupTools;
+		}
+
+		// Resolve names to indices (all non-virtual processes when omitted)
+		const indices: number[] = [];
+		if (body.names) {
+			const unknown: string[] = [];
+			for (const name of body.names as string[]) {
+				const result = this.processManager.getToolByName(name);
+				if (!result || this.processManager.isVirtualTool(result.index)) {
+					unknown.push(name);
+				} else {
+					indices.push(result.index);
+				}
+			}
+			if (unknown.length > 0) {
+				return this.jsonResponse(
+					{ ok: false, error: `Process not found: ${unknown.join(", ")}` },
+					404,
+				);
+			}
+		} else {
+			const tools = this.processManager.getTools();
+			for (let i = 0; i < tools.length; i++) {
+				if (!this.processManager.isVirtualTool(i)) {
+					indices.push(i);
+				}
+			}
+		}
+
+		const names = indices.map(
+			(i) => this.processManager.getTool(i)?.config.name ?? "",
+		);
+		const isToolReady = (toolName: string) => this.isToolReady(toolName);
+
+		switch (action) {
+			case "start":
+				this.log(`Starting processes: ${names.join(", ")}`);
+				await this.processManager.startTools(indices, isToolReady);
+				break;
+			case "stop":
+				this.log(`Stopping processes: ${names.join(", ")}`);
+				await this.processManager.stopTools(indices);
+				break;
+			case "restart":
+				this.log(`Restarting processes: ${names.join(", ")}`);
+				await this.processManager.restartTools(indices, isToolReady);
+				break;
+		}
+
+		const verb = { start: "Started", stop: "Stopped", restart: "Restarted" }[
+			action
+		];
+		return this.jsonResponse({
+			ok: true,
+			data: {
+				message: `${verb} ${names.length} process${names.length === 1 ? "" : "es"}`,
+				processes: names,
 			},
 		});
 	}
 
+	/**
+	 * Check if a tool is ready for its dependents: healthy if it has a
+	 * health check, otherwise running.
+	 */
+	private isToolReady(toolName: string): boolean {
+		const result = this.processManager.getToolByName(toolName);
+		if (!result) return false;
+
+		const { tool } = result;
+		if (tool.config.healthCheck && this.getHealthStatus) {
+			return this.getHealthStatus(toolName) === "healthy";
+		}
+		return tool.status === "running";
+	}
+
 	/**
 	 * Stop a running process.
 	 */
@@ -386,7 +1084,9 @@ export class ApiServer {
 		const { index } = result;
 
 		this.log(`Restarting process: ${name}`);
-		await this.processManager.restartTool(index);
+		await this.processManager.restartTool(index, (toolName) =>
+			this.isToolReady(toolName),
+		);
 
 		return this.jsonResponse({
 			ok: true,
@@ -394,6 +1094,128 @@ export class ApiServer {
 		});
 	}
 
+	/**
+	 * Wait until a new log line matches `pattern` (a regular expression).
+	 * Query parameters: `timeout` (ms), `since` (also match earlier lines
+	 * received after this time) and `context` (lines before the match).
+	 */
+	private async handleWaitForLog(
+		name: string,
+		url: URL,
+		req: Request,
+		server: Server,
+	): Promise<Response> {
+		if (!this.processManager.getToolByName(name)) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process not found: ${name}` },
+				404,
+			);
+		}
+
+		const source = url.searchParams.get("pattern");
+		if (!source) {
+			return this.jsonResponse(
+				{ ok: false, error: "'pattern' is required" },
+				400,
+			);
+		}
+		let pattern: RegExp;
+		try {
+			pattern = new RegExp(source);
+		} catch {
+			return this.jsonResponse(
+				{ ok: false, error: `Invalid pattern: ${source}` },
+				400,
+			);
+		}
+
+		const timeout = parseWaitTimeout(url);
+		const since = parseTimeParam(url.searchParams.get("since"));
+		const contextParam = url.searchParams.get("context");
+		const context = contextParam ? Number(contextParam) : undefined;
+		if (timeout === null) return this.invalidTimeoutResponse();
+		if (Number.isNaN(since)) {
+			return this.jsonResponse(
+				{
+					ok: false,
+					error: "'since' must be a Unix timestamp (ms) or ISO 8601 date",
+				},
+				400,
+			);
+		}
+		if (context !== undefined && !(Number.isInteger(context) && context >= 0)) {
+			return this.jsonResponse(
+				{ ok: false, error: "'context' must be a non-negative integer" },
+				400,
+			);
+		}
+
+		// Long polls outlast the idle timeout
+		server.timeout(req, 0);
+		const result = await waitForLog(this.processManager, name, {
+			pattern,
+			since,
+			context,
+			timeout,
+			signal: req.signal,
+		});
+		return this.jsonResponse({ ok: true, data: result });
+	}
+
+	/**
+	 * Wait until a process's health check passes (or it runs, without one).
+	 * Query parameter: `timeout` (ms).
+	 */
+	private async handleWaitForHealthy(
+		name: string,
+		url: URL,
+		req: Request,
+		server: Server,
+	): Promise<Response> {
+		if (!this.processManager.getToolByName(name)) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process not found: ${name}` },
+				404,
+			);
+		}
+
+		const timeout = parseWaitTimeout(url);
+		if (timeout === null) return this.invalidTimeoutResponse();
+
+		server.timeout(req, 0);
+		const result = await waitForHealthy(
+			this.processManager,
+			name,
+			(toolName) => this.getHealthStatus?.(toolName) ?? null,
+			(listener) => {
+				this.healthListeners.add(listener);
+				return () => this.healthListeners.delete(listener);
+			},
+			{ timeout, signal: req.signal },
+		);
+		return this.jsonResponse({ ok: true, data: result });
+	}
+
+	private invalidSearchTypeResponse(): Response {
+		return this.jsonResponse(
+			{
+				ok: false,
+				error: `'searchType' must be one of: ${SEARCH_TYPES.join(", ")}`,
+			},
+			400,
+		);
+	}
+
+	private invalidTimeoutResponse(): Response {
+		return this.jsonResponse(
+			{
+				ok: false,
+				error: `'timeout' must be between 0 and ${MAX_WAIT_TIMEOUT} ms`,
+			},
+			400,
+		);
+	}
+
 	/**
 	 * Clear logs for a process.
 	 */
@@ -462,16 +1284,214 @@ export class ApiServer {
 		}
 	}
 
+	/**
+	 * Stream a process's logs and status as Server-Sent Events.
+	 */
+	private handleLogStream(
+		name: string,
+		req: Request,
+		server: Server,
+		options: LogStreamOptions,
+	): Response {
+		const result = this.processManager.getToolByName(name);
+		if (!result) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process not found: ${name}` },
+				404,
+			);
+		}
+
+		// Streams stay open while idle
+		server.timeout(req, 0);
+
+		let close = () => {};
+		const body = new ReadableStream<Uint8Array>({
+			start: (controller) => {
+				const write = (chunk: string) => {
+					controller.enqueue(encoder.encode(chunk));
+				};
+				const stream = new LogStream(
+					this.processManager,
+					result.tool,
+					(toolName) => this.getHealthStatus?.(toolName) ?? null,
+					(event) => write(formatSseEvent(event)),
+					() => close(),
+					options,
+				);
+				const heartbeat = setInterval(
+					() => write(": keepalive\n\n"),
+					SSE_HEARTBEAT_INTERVAL,
+				);
+
+				let isClosed = false;
+				close = () => {
+					if (isClosed) return;
+					isClosed = true;
+					stream.stop();
+					clearInterval(heartbeat);
+					this.closeLogStreams.delete(close);
+					try {
+						controller.close();
+					} catch {
+						// Already closed by the client
+					}
+				};
+				this.closeLogStreams.add(close);
+				stream.start();
+			},
+			cancel: () => close(),
+		});
+
+		return new Response(body, {
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+			},
+		});
+	}
+
+	/**
+	 * Upgrade to a WebSocket that streams a process's logs and status as JSON
+	 * messages (see openLogSocket).
+	 */
+	private handleLogSocket(
+		name: string,
+		req: Request,
+		server: Server,
+		options: LogStreamOptions,
+	): Response | undefined {
+		if (!this.processManager.getToolByName(name)) {
+			return this.jsonResponse(
+				{ ok: false, error: `Process not found: ${name}` },
+				404,
+			);
+		}
+
+		const upgraded = server.upgrade<LogSocketData>(req, {
+			data: { toolName: name, options, close: null },
+		});
+		if (!upgraded) {
+			return this.jsonResponse(
+				{ ok: false, error: "Expected a WebSocket upgrade request" },
+				400,
+			);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Start streaming to an upgraded log socket. The socket is closed when
+	 * the process is removed or replaced by a config reload.
+	 */
+	private openLogSocket(ws: ServerWebSocket<LogSocketData>): void {
+		const result = this.processManager.getToolByName(ws.data.toolName);
+		if (!result) {
+			ws.close(1011, "Process not found");
+			return;
+		}
+
+		const stream = new LogStream(
+			this.processManager,
+			result.tool,
+			(toolName) => this.getHealthStatus?.(toolName) ?? null,
+			(event) => ws.send(JSON.stringify(event)),
+			() => close(),
+			ws.data.options,
+		);
+
+		let isClosed = false;
+		const close = () => {
+			if (isClosed) return;
+			isClosed = true;
+			stream.stop();
+			this.closeLogStreams.delete(close);
+			ws.close(1000, "Stream ended");
+		};
+		ws.data.close = close;
+		this.closeLogStreams.add(close);
+		stream.start();
+	}
+
+	/**
+	 * Check the bearer token of a request. The health check is open, and
+	 * read-only tokens may only GET.
+	 * @returns An error response, or null if the request may proceed
+	 */
+	private authorize(req: Request, url: URL): Response | null {
+		if (!this.tokens || url.pathname === "/api/health") return null;
+
+		// Browsers can't set headers on EventSource and WebSocket connections,
+		// so GET requests may pass the token as a query parameter instead
+		const header = req.headers.get("Authorization");
+		const token = header?.startsWith("Bearer ")
+			? header.slice("Bearer ".length)
+			: req.method === "GET"
+				? url.searchParams.get("token")
+				: null;
+
+		const scope = token ? getTokenScope(this.tokens, token) : null;
+		if (!scope) {
+			return this.jsonResponse(
+				{ ok: false, error: "Missing or invalid API token" },
+				401,
+			);
+		}
+		if (scope === "readOnly" && req.method !== "GET") {
+			return this.jsonResponse(
+				{ ok: false, error: "The read-only API token can't change processes" },
+				403,
+			);
+		}
+		return null;
+	}
+
+	/**
+	 * Add CORS headers for allowed origins to a response.
+	 */
+	private withCors(
+		req: Request,
+		response: Response | undefined,
+	): Response | undefined {
+		const origin = req.headers.get("Origin");
+		if (response && origin !== null && this.corsOrigins.includes(origin)) {
+			response.headers.set("Access-Control-Allow-Origin", origin);
+			response.headers.set("Vary", "Origin");
+		}
+		return response;
+	}
+
 	/**
 	 * Create a JSON response.
 	 */
 	private jsonResponse<T>(data: ApiResponse<T>, status = 200): Response {
 		return new Response(JSON.stringify(data), {
 			status,
-			headers: {
-				"Content-Type": "application/json",
-				"Access-Control-Allow-Origin": "*",
-			},
+			headers: { "Content-Type": "application/json" },
 		});
 	}
 }
+
+/**
+ * Check if a server is listening on a unix socket (rather than the file being
+ * left over from an instance that didn't shut down cleanly).
+ */
+async function isSocketListening(socketPath: string): Promise<boolean> {
+	try {
+		const socket = await Bun.connect({
+			unix: socketPath,
+			socket: { data: () => {} },
+		});
+		socket.end();
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function removeSocketFile(socketPath: string): void {
+	try {
+		unlinkSync(socketPath);
+	} catch {
+		// Already removed
+	}
+}
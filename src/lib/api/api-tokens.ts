@@ -0,0 +1,103 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { lstat, readFile, writeFile } from "node:fs/promises";
+import { getPidFilePath } from "../processes";
+
+/** Bearer tokens accepted by the API */
+export interface ApiTokens {
+	/** Grants access to every endpoint */
+	token: string;
+	/** Grants access to GET endpoints only (status and logs) */
+	readOnlyToken: string;
+}
+
+/** Access granted by a token */
+export type ApiTokenScope = "full" | "readOnly";
+
+/**
+ * Get the path of the file holding the API tokens, next to the PID file.
+ */
+export function getApiTokensPath(configPath?: string): string {
+	return getPidFilePath(configPath).replace(/\.json$/, ".tokens.json");
+}
+
+/**
+ * Read the API tokens of an instance.
+ * @returns The tokens, or null if they haven't been generated yet
+ */
+export async function readApiTokens(
+	configPath?: string,
+): Promise<ApiTokens | null> {
+	try {
+		const data = JSON.parse(
+			await readFile(getApiTokensPath(configPath), "utf-8"),
+		) as Partial<ApiTokens>;
+		if (
+			typeof data.token !== "string" ||
+			typeof data.readOnlyToken !== "string"
+		) {
+			return null;
+		}
+		return { token: data.token, readOnlyToken: data.readOnlyToken };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Read the API tokens of an instance, generating them on first use.
+ * Tokens are kept across restarts so configured clients keep working.
+ * @throws Error if the token file belongs to another user
+ */
+export async function loadApiTokens(configPath?: string): Promise<ApiTokens> {
+	const filePath = getApiTokensPath(configPath);
+
+	// The file lives in the shared temp directory - only trust our own
+	const stats = await lstat(filePath).catch(() => null);
+	if (stats) {
+		if (
+			!stats.isFile() ||
+			(process.getuid && stats.uid !== process.getuid()) ||
+			(stats.mode & 0o077) !== 0
+		) {
+			throw new Error(
+				`Refusing to use API token file ${filePath}: it must be a file only you can read`,
+			);
+		}
+		const existing = await readApiTokens(configPath);
+		if (existing) return existing;
+	}
+
+	const tokens: ApiTokens = {
+		token: generateToken(),
+		readOnlyToken: generateToken(),
+	};
+	// Create the file exclusively so a file planted in the meantime isn't reused
+	await writeFile(filePath, JSON.stringify(tokens, null, 2), {
+		mode: 0o600,
+		flag: stats ? "w" : "wx",
+	});
+	return tokens;
+}
+
+/**
+ * Get the scope a token grants, comparing in constant time.
+ * @returns The scope, or null if the token matches neither
+ */
+export function getTokenScope(
+	tokens: ApiTokens,
+	token: string,
+): ApiTokenScope | null {
+	if (tokensEqual(token, tokens.token)) return "full";
+	if (tokensEqual(token, tokens.readOnlyToken)) return "readOnly";
+	return null;
+}
+
+function generateToken(): string {
+	return randomBytes(32).toString("base64url");
+}
+
+function tokensEqual(a: string, b: string): boolean {
+	const bufferA = Buffer.from(a);
+	const bufferB = Buffer.from(b);
+	return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
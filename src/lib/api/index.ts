@@ -1,5 +1,27 @@
+export {
+	type ApiConnection,
+	apiRequest,
+	checkHealth,
+	formatApiAddress,
+	getFetchOptions,
+	type LogSearchResponse,
+	type LogsResponse,
+	type ProcessSummary,
+	resolveApiConnection,
+} from "./api-client";
 export {
 	ApiServer,
+	type ApiServerOptions,
+	DEFAULT_MCP_HOST,
 	DEFAULT_MCP_PORT,
 	type GetHealthStatusCallback,
+	getApiSocketPath,
 } from "./api-server";
+export {
+	type ApiTokens,
+	getApiTokensPath,
+	loadApiTokens,
+	readApiTokens,
+} from "./api-tokens";
+export type { LogStreamEvent } from "./log-stream";
+export type { HealthWaitResult, LogWaitResult } from "./waiters";
@@ -0,0 +1,208 @@
+import type { HealthStatus, LogLine, ToolState } from "../../types";
+import type { ProcessManager } from "../processes";
+
+/**
+ * Event pushed to log stream clients (SSE and WebSocket).
+ *
+ * Lines are identified by their cursor: the line's position in the tool's
+ * whole output, which keeps increasing when old lines are trimmed or cleared.
+ */
+export type LogStreamEvent =
+	| {
+			/** A new line */
+			type: "line";
+			cursor: number;
+			text: string;
+			timestamp: number;
+			stderr?: boolean;
+	  }
+	| {
+			/** An already sent line was replaced (progress bars using \r) */
+			type: "replace";
+			cursor: number;
+			text: string;
+			timestamp: number;
+			stderr?: boolean;
+	  }
+	| {
+			/** Status or health changed (also sent when the stream starts) */
+			type: "status";
+			status: ToolState["status"];
+			exitCode: number | null;
+			pid?: number;
+			healthStatus?: HealthStatus;
+	  };
+
+export interface LogStreamOptions {
+	/** Cursor of the first line to send (for resuming) */
+	cursor?: number;
+	/** Number of existing lines to send when no cursor is given (default: 0) */
+	lines?: number;
+}
+
+/** Delay for batching changes into one update (ms) */
+const BATCH_INTERVAL = 50;
+
+/** How often health is re-checked - it changes without notifying the manager (ms) */
+const HEALTH_POLL_INTERVAL = 1000;
+
+/**
+ * Follows one tool's logs and status, turning ProcessManager changes into
+ * LogStreamEvents. Ends when the tool is removed or replaced by a config reload;
+ * clients reconnect with their last cursor.
+ */
+export class LogStream {
+	private tool: ToolState;
+	/** Cursor of the next line to send */
+	private nextCursor: number;
+	/** First cursor sent to this client - earlier lines are never replaced */
+	private firstCursor: number;
+	/** Last line sent, to detect when it gets replaced */
+	private lastLine: LogLine | undefined;
+	private lastStatus = "";
+	private unsubscribe: (() => void) | null = null;
+	private batchTimer: ReturnType<typeof setTimeout> | null = null;
+	private healthTimer: ReturnType<typeof setInterval> | null = null;
+	private isStopped = false;
+
+	/**
+	 * @param processManager - Manager of the tool
+	 * @param tool - Tool to follow
+	 * @param getHealthStatus - Health status of a tool by name, if it has a health check
+	 * @param send - Called with each event
+	 * @param onEnd - Called when the stream ends on its own (tool removed or reloaded)
+	 */
+	constructor(
+		private processManager: ProcessManager,
+		tool: ToolState,
+		private getHealthStatus: (toolName: string) => HealthStatus | null,
+		private send: (event: LogStreamEvent) => void,
+		private onEnd: () => void,
+		options: LogStreamOptions = {},
+	) {
+		this.tool = tool;
+		const start = tool.logTrimCount;
+		const end = start + tool.logs.length;
+		let cursor = end - Math.min(options.lines ?? 0, tool.logs.length);
+		if (options.cursor !== undefined) {
+			// Lines before the buffer are gone; a cursor past the end is from
+			// before a reload or clear, so everything in the buffer is new to it
+			cursor = options.cursor > end ? start : Math.max(options.cursor, start);
+		}
+		this.nextCursor = cursor;
+		this.firstCursor = cursor;
+	}
+
+	/**
+	 * Send the current status and the requested lines, then follow changes.
+	 */
+	start(): void {
+		this.sync();
+		this.unsubscribe = this.processManager.subscribe("all", () => {
+			if (!this.batchTimer && !this.isStopped) {
+				this.batchTimer = setTimeout(() => this.sync(), BATCH_INTERVAL);
+			}
+		});
+		this.healthTimer = setInterval(
+			() => this.sendStatus(),
+			HEALTH_POLL_INTERVAL,
+		);
+	}
+
+	/**
+	 * Stop following the tool (does not call onEnd).
+	 */
+	stop(): void {
+		this.isStopped = true;
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		if (this.batchTimer) {
+			clearTimeout(this.batchTimer);
+			this.batchTimer = null;
+		}
+		if (this.healthTimer) {
+			clearInterval(this.healthTimer);
+			this.healthTimer = null;
+		}
+	}
+
+	private sync(): void {
+		this.batchTimer = null;
+		if (this.isStopped) return;
+
+		// Reloads replace the tool state, and indices may shift - look it up again
+		const current = this.processManager.getToolByName(
+			this.tool.config.name,
+		)?.tool;
+		if (current !== this.tool) {
+			this.stop();
+			this.onEnd();
+			return;
+		}
+
+		this.sendStatus();
+		this.sendLines();
+	}
+
+	private sendStatus(): void {
+		const { config, status, exitCode, pid } = this.tool;
+		const healthStatus = config.healthCheck
+			? (this.getHealthStatus(config.name) ?? undefined)
+			: undefined;
+		const key = `${status}:${exitCode}:${pid}:${healthStatus}`;
+		if (key === this.lastStatus) return;
+
+		this.lastStatus = key;
+		this.send({ type: "status", status, exitCode, pid, healthStatus });
+	}
+
+	private sendLines(): void {
+		const { logs, logTrimCount } = this.tool;
+
+		// Only the last line is ever replaced, so checking the last one sent
+		// is enough (it may have been followed by new lines since)
+		const lastCursor = this.nextCursor - 1;
+		if (this.lastLine && lastCursor >= this.firstCursor) {
+			const line = logs[lastCursor - logTrimCount];
+			if (line && line !== this.lastLine) {
+				this.send(toEvent("replace", lastCursor, line));
+				this.lastLine = line;
+			}
+		}
+
+		for (
+			let i = Math.max(this.nextCursor - logTrimCount, 0);
+			i < logs.length;
+			i++
+		) {
+			const line = logs[i];
+			if (!line) continue;
+			this.send(toEvent("line", logTrimCount + i, line));
+			this.lastLine = line;
+		}
+		this.nextCursor = Math.max(this.nextCursor, logTrimCount + logs.length);
+	}
+}
+
+function toEvent(
+	type: "line" | "replace",
+	cursor: number,
+	line: LogLine,
+): LogStreamEvent {
+	return {
+		type,
+		cursor,
+		text: line.segments.map((seg) => seg.text).join(""),
+		timestamp: line.timestamp,
+		...(line.isStderr && { stderr: true }),
+	};
+}
+
+/**
+ * Format an event as a Server-Sent Event. Line events carry their cursor as
+ * the event id, so reconnecting clients resume through Last-Event-ID.
+ */
+export function formatSseEvent(event: LogStreamEvent): string {
+	const id = event.type === "status" ? "" : `id: ${event.cursor}\n`;
+	return `event: ${event.type}\n${id}data: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,247 @@
+import type { HealthStatus, ToolState } from "../../types";
+import type { ProcessManager } from "../processes";
+
+/** Called when a tool's health status changes */
+export type HealthChangeListener = (
+	toolName: string,
+	status: HealthStatus,
+) => void;
+
+/** Why a wait ended without success */
+export type WaitEndReason = "timeout" | "exited" | "removed";
+
+export interface LogWaitOptions {
+	/** Pattern a line must match */
+	pattern: RegExp;
+	/** Also match lines already received at or after this Unix timestamp (ms) */
+	since?: number;
+	/** Number of lines before the match to return (default: 5) */
+	context?: number;
+	/** Maximum time to wait (ms) */
+	timeout: number;
+	/** Ends the wait early, e.g. when the client disconnects */
+	signal?: AbortSignal;
+}
+
+export interface LogWaitResult {
+	matched: boolean;
+	/** The matching line */
+	line?: string;
+	/** Cursor of the matching line (see LogStreamEvent) */
+	cursor?: number;
+	/** Unix timestamp (ms) when the matching line was received */
+	timestamp?: number;
+	/** Lines before the matching line */
+	context?: string[];
+	/** Why no line matched */
+	reason?: WaitEndReason;
+	/** Status of the process when the wait ended */
+	status?: ToolState["status"];
+	exitCode?: number | null;
+}
+
+export interface HealthWaitOptions {
+	/** Maximum time to wait (ms) */
+	timeout: number;
+	/** Ends the wait early, e.g. when the client disconnects */
+	signal?: AbortSignal;
+}
+
+export interface HealthWaitResult {
+	healthy: boolean;
+	/** Why the process didn't become healthy */
+	reason?: WaitEndReason;
+	status?: ToolState["status"];
+	exitCode?: number | null;
+	/** Health status, if the tool has a health check */
+	healthStatus?: HealthStatus;
+}
+
+/** Default number of context lines returned with a log match */
+const DEFAULT_CONTEXT_LINES = 5;
+
+/**
+ * Whether a process crashed for good - waiting for it is pointless until
+ * someone starts it again.
+ */
+function hasExited(tool: ToolState): boolean {
+	return tool.status === "error" && tool.nextRestartAt === undefined;
+}
+
+function lineText(tool: ToolState, index: number): string {
+	return tool.logs[index]?.segments.map((seg) => seg.text).join("") ?? "";
+}
+
+/**
+ * Run a wait until a listener settles it, or the timeout or signal ends it.
+ * @param subscribe - Starts listening for changes; returns the unsubscribe functions
+ */
+function runWait<T>(
+	timeout: number,
+	signal: AbortSignal | undefined,
+	onTimeout: () => T,
+	subscribe: (settle: (result: T) => void) => Array<() => void>,
+): Promise<T> {
+	return new Promise((resolve) => {
+		let unsubscribes: Array<() => void> = [];
+		let isSettled = false;
+
+		const settle = (result: T) => {
+			if (isSettled) return;
+			isSettled = true;
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", abort);
+			for (const unsubscribe of unsubscribes) unsubscribe();
+			resolve(result);
+		};
+		const abort = () => settle(onTimeout());
+
+		const timer = setTimeout(abort, timeout);
+		signal?.addEventListener("abort", abort);
+		unsubscribes = subscribe(settle);
+		// Settled while subscribing - drop the listeners added after it
+		if (isSettled) {
+			for (const unsubscribe of unsubscribes) unsubscribe();
+		}
+	});
+}
+
+/**
+ * Wait for a line of a tool's output to match a pattern. Only lines received
+ * after the call count, unless `since` includes earlier ones. Ends early when
+ * the process crashes without a pending automatic restart.
+ */
+export function waitForLog(
+	processManager: ProcessManager,
+	toolName: string,
+	options: LogWaitOptions,
+): Promise<LogWaitResult> {
+	const { pattern, since } = options;
+	const contextLines = options.context ?? DEFAULT_CONTEXT_LINES;
+
+	const getTool = () => processManager.getToolByName(toolName)?.tool;
+	const ended = (reason: WaitEndReason): LogWaitResult => {
+		const tool = getTool();
+		return {
+			matched: false,
+			reason,
+			status: tool?.status,
+			exitCode: tool?.exitCode,
+		};
+	};
+	const match = (tool: ToolState, index: number): LogWaitResult => {
+		const start = Math.max(index - contextLines, 0);
+		return {
+			matched: true,
+			line: lineText(tool, index),
+			cursor: tool.logTrimCount + index,
+			timestamp: tool.logs[index]?.timestamp,
+			context: Array.from({ length: index - start }, (_, i) =>
+				lineText(tool, start + i),
+			),
+			status: tool.status,
+			exitCode: tool.exitCode,
+		};
+	};
+
+	return runWait(
+		options.timeout,
+		options.signal,
+		() => ended("timeout"),
+		(settle) => {
+			const tool = getTool();
+			if (!tool) {
+				settle(ended("removed"));
+				return [];
+			}
+
+			// Lines received since the requested time, before the call
+			if (since !== undefined) {
+				const index = tool.logs.findIndex(
+					(line, i) =>
+						line.timestamp >= since && pattern.test(lineText(tool, i)),
+				);
+				if (index !== -1) {
+					settle(match(tool, index));
+					return [];
+				}
+			}
+
+			const unsubscribeLines = processManager.onLogLine((_, name, text) => {
+				if (name !== toolName || !pattern.test(text)) return;
+				// The line was just added (or replaced) at the end of the buffer
+				const current = getTool();
+				if (current) settle(match(current, current.logs.length - 1));
+			});
+			const unsubscribeStatus = processManager.subscribe("all", () => {
+				const current = getTool();
+				if (!current) settle(ended("removed"));
+				else if (hasExited(current)) settle(ended("exited"));
+			});
+			return [unsubscribeLines, unsubscribeStatus];
+		},
+	);
+}
+
+/**
+ * Wait for a tool's health check to pass. Tools without a health check are
+ * healthy once running. Ends early when the process crashes without a
+ * pending automatic restart.
+ *
+ * @param getHealthStatus - Current health status of a tool
+ * @param onHealthChange - Listens for health changes; returns an unsubscribe function
+ */
+export function waitForHealthy(
+	processManager: ProcessManager,
+	toolName: string,
+	getHealthStatus: (toolName: string) => HealthStatus | null,
+	onHealthChange: (listener: HealthChangeListener) => () => void,
+	options: HealthWaitOptions,
+): Promise<HealthWaitResult> {
+	const getTool = () => processManager.getToolByName(toolName)?.tool;
+	const result = (
+		healthy: boolean,
+		reason?: WaitEndReason,
+		healthStatus?: HealthStatus | null,
+	): HealthWaitResult => {
+		const tool = getTool();
+		const status = tool?.config.healthCheck
+			? (healthStatus ?? getHealthStatus(toolName) ?? undefined)
+			: undefined;
+		return {
+			healthy,
+			...(reason && { reason }),
+			status: tool?.status,
+			exitCode: tool?.exitCode,
+			...(status && { healthStatus: status }),
+		};
+	};
+
+	return runWait(
+		options.timeout,
+		options.signal,
+		() => result(false, "timeout"),
+		(settle) => {
+			// Health updates are passed in directly: the getter may lag behind them
+			const check = (healthStatus?: HealthStatus) => {
+				const tool = getTool();
+				if (!tool) return settle(result(false, "removed"));
+				if (hasExited(tool)) return settle(result(false, "exited"));
+				if (tool.status !== "running") return;
+
+				const isHealthy = tool.config.healthCheck
+					? (healthStatus ?? getHealthStatus(toolName)) === "healthy"
+					: true;
+				if (isHealthy) settle(result(true, undefined, healthStatus));
+			};
+
+			check();
+			return [
+				processManager.subscribe("all", () => check()),
+				onHealthChange((name, status) => {
+					if (name === toolName) check(status);
+				}),
+			];
+		},
+	);
+}
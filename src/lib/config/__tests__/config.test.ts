@@ -2,7 +2,7 @@ import { describe, expect, test } from "bun:test";
 import { unlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { loadConfig } from "../config";
+import { loadConfig, resolveProfileTools } from "../config";
 
 describe("Config loading", () => {
 	const tempDir = tmpdir();
@@ -216,6 +216,57 @@ command = "echo"
 		}
 	});
 
+	test("loadConfig - mcp host and corsOrigins", async () => {
+		const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+		const configContent = `
+[mcp]
+enabled = true
+host = "0.0.0.0"
+corsOrigins = ["http://localhost:5173"]
+
+[[tools]]
+name = "test"
+command = "echo"
+		`.trim();
+
+		await writeFile(configPath, configContent);
+
+		try {
+			const { config, warnings } = await loadConfig(configPath);
+			expect(warnings).toHaveLength(0);
+			expect(config.mcp?.host).toBe("0.0.0.0");
+			expect(config.mcp?.corsOrigins).toEqual(["http://localhost:5173"]);
+		} finally {
+			await unlink(configPath).catch(() => {});
+		}
+	});
+
+	test("loadConfig - invalid mcp host and corsOrigins return warnings", async () => {
+		const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+		const configContent = `
+[mcp]
+host = ""
+corsOrigins = "*"
+
+[[tools]]
+name = "test"
+command = "echo"
+		`.trim();
+
+		await writeFile(configPath, configContent);
+
+		try {
+			const { config, warnings } = await loadConfig(configPath);
+			expect(config.mcp?.host).toBeUndefined();
+			expect(config.mcp?.corsOrigins).toBeUndefined();
+			expect(warnings).toHaveLength(2);
+			expect(warnings[0]).toContain("host");
+			expect(warnings[1]).toContain("corsOrigins");
+		} finally {
+			await unlink(configPath).catch(() => {});
+		}
+	});
+
 	test("loadConfig - multiple invalid values return multiple warnings", async () => {
 		const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
 		const configContent = `
@@ -274,6 +325,29 @@ command = "echo"
 		}
 	});
 
+	test("loadConfig - editorCommand must be a non-empty string", async () => {
+		const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+		const configContent = `
+[ui]
+editorCommand = "  "
+
+[[tools]]
+name = "test"
+command = "echo"
+		`.trim();
+
+		await writeFile(configPath, configContent);
+
+		try {
+			const { config, warnings } = await loadConfig(configPath);
+			expect(config.ui?.editorCommand).toBeUndefined();
+			expect(warnings).toHaveLength(1);
+			expect(warnings[0]).toContain("editorCommand");
+		} finally {
+			await unlink(configPath).catch(() => {});
+		}
+	});
+
 	// Process config tests
 	describe("process config", () => {
 		test("loadConfig - valid processes config with cleanupOrphans true", async () => {
@@ -346,6 +420,47 @@ command = "echo"
 			}
 		});
 
+		test("loadConfig - restartWithDependencies is parsed and validated", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			await writeFile(
+				configPath,
+				`
+[processes]
+restartWithDependencies = true
+
+[[tools]]
+name = "test"
+command = "echo"
+				`.trim(),
+			);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.processes?.restartWithDependencies).toBe(true);
+				expect(warnings).toHaveLength(0);
+
+				await writeFile(
+					configPath,
+					`
+[processes]
+restartWithDependencies = "yes"
+
+[[tools]]
+name = "test"
+command = "echo"
+					`.trim(),
+				);
+				const invalid = await loadConfig(configPath);
+				expect(
+					invalid.config.processes?.restartWithDependencies,
+				).toBeUndefined();
+				expect(invalid.warnings).toHaveLength(1);
+				expect(invalid.warnings[0]).toContain("restartWithDependencies");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
 		test("loadConfig - unknown processes option returns warning", async () => {
 			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
 			const configContent = `
@@ -391,4 +506,429 @@ command = "echo"
 			}
 		});
 	});
+
+	describe("groups", () => {
+		test("loadConfig - parses groups and drops unknown tools", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[groups]
+frontend = ["web", "storybook", "missing"]
+broken = "web"
+
+[[tools]]
+name = "web"
+command = "echo"
+
+[[tools]]
+name = "storybook"
+command = "echo"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.groups).toEqual({ frontend: ["web", "storybook"] });
+				expect(warnings).toHaveLength(2);
+				expect(warnings[0]).toContain("unknown tool 'missing'");
+				expect(warnings[1]).toContain("[groups] 'broken' must be an array");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("resolveProfileTools - includes dependencies in config order", () => {
+			const config = {
+				tools: [
+					{ name: "db", command: "db" },
+					{ name: "api", command: "api", dependsOn: ["db"] },
+					{ name: "web", command: "web", dependsOn: ["api"] },
+					{ name: "docs", command: "docs" },
+				],
+				groups: { frontend: ["web"], docs: ["docs"], empty: [] },
+			};
+
+			expect(resolveProfileTools(config, "frontend")).toEqual([
+				"db",
+				"api",
+				"web",
+			]);
+			expect(resolveProfileTools(config, "docs")).toEqual(["docs"]);
+			expect(resolveProfileTools(config, "empty")).toEqual([]);
+			expect(resolveProfileTools(config, "missing")).toBeNull();
+		});
+	});
+
+	describe("pty", () => {
+		test("loadConfig - accepts a boolean pty flag", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "top"
+command = "htop"
+pty = true
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(warnings).toHaveLength(0);
+				expect(config.tools[0]?.pty).toBe(true);
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("loadConfig - invalid pty flag returns a warning", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "top"
+command = "htop"
+pty = "yes"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.tools[0]?.pty).toBeUndefined();
+				expect(warnings).toHaveLength(1);
+				expect(warnings[0]).toContain("[tools.top] 'pty' must be a boolean");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+	});
+
+	describe("logFormat", () => {
+		test("loadConfig - accepts json and logfmt", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "api"
+command = "node"
+logFormat = "json"
+
+[[tools]]
+name = "worker"
+command = "go"
+logFormat = "logfmt"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(warnings).toHaveLength(0);
+				expect(config.tools.map((tool) => tool.logFormat)).toEqual([
+					"json",
+					"logfmt",
+				]);
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("loadConfig - unknown logFormat returns a warning", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "api"
+command = "node"
+logFormat = "yaml"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.tools[0]?.logFormat).toBeUndefined();
+				expect(warnings).toHaveLength(1);
+				expect(warnings[0]).toContain(
+					"[tools.api] 'logFormat' must be one of: text, json, logfmt",
+				);
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+	});
+
+	describe("restart policy", () => {
+		test("loadConfig - valid restart options", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "test"
+command = "echo"
+restart = "on-failure"
+maxRestarts = 3
+restartDelay = 500
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(warnings).toHaveLength(0);
+				expect(config.tools[0]?.restart).toBe("on-failure");
+				expect(config.tools[0]?.maxRestarts).toBe(3);
+				expect(config.tools[0]?.restartDelay).toBe(500);
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("loadConfig - invalid restart options return warnings", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "test"
+command = "echo"
+restart = "sometimes"
+maxRestarts = -1
+restartDelay = "fast"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.tools[0]?.restart).toBeUndefined();
+				expect(config.tools[0]?.maxRestarts).toBeUndefined();
+				expect(config.tools[0]?.restartDelay).toBeUndefined();
+				expect(warnings).toHaveLength(3);
+				expect(warnings[0]).toContain("[tools.test] 'restart'");
+				expect(warnings[1]).toContain("'maxRestarts'");
+				expect(warnings[2]).toContain("'restartDelay'");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+	});
+
+	describe("watch config", () => {
+		test("loadConfig - valid watch block", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "test"
+command = "echo"
+
+[tools.watch]
+include = ["src/**/*.go"]
+exclude = ["**/*_test.go"]
+debounce = 500
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(warnings).toHaveLength(0);
+				expect(config.tools[0]?.watch).toEqual({
+					include: ["src/**/*.go"],
+					exclude: ["**/*_test.go"],
+					debounce: 500,
+				});
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("loadConfig - invalid watch options return warnings", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "test"
+command = "echo"
+
+[tools.watch]
+include = "src"
+debounce = -1
+paths = ["src"]
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.tools[0]?.watch).toEqual({});
+				expect(warnings).toHaveLength(3);
+				expect(warnings[0]).toContain("Unknown option 'paths'");
+				expect(warnings[1]).toContain("'include'");
+				expect(warnings[2]).toContain("'debounce'");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+	});
+
+	describe("health check probes", () => {
+		test("loadConfig - accepts tcp, command and logPattern probes", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "db"
+command = "postgres"
+
+[tools.healthCheck]
+tcp = "localhost:5432"
+
+[[tools]]
+name = "queue"
+command = "rabbitmq-server"
+
+[tools.healthCheck]
+command = "rabbitmq-diagnostics -q ping"
+
+[[tools]]
+name = "worker"
+command = "worker"
+
+[tools.healthCheck]
+logPattern = "ready"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(warnings).toHaveLength(0);
+				expect(config.tools[0]?.healthCheck?.tcp).toBe("localhost:5432");
+				expect(config.tools[1]?.healthCheck?.command).toBe(
+					"rabbitmq-diagnostics -q ping",
+				);
+				expect(config.tools[2]?.healthCheck?.logPattern).toBe("ready");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("loadConfig - invalid probes disable the health check", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "db"
+command = "postgres"
+
+[tools.healthCheck]
+tcp = "localhost"
+
+[[tools]]
+name = "worker"
+command = "worker"
+
+[tools.healthCheck]
+logPattern = "(unclosed"
+
+[[tools]]
+name = "empty"
+command = "echo"
+
+[tools.healthCheck]
+interval = 1000
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.tools.every((t) => !t.healthCheck)).toBe(true);
+				expect(warnings).toHaveLength(3);
+				expect(warnings[0]).toContain("[tools.db.healthCheck] 'tcp'");
+				expect(warnings[1]).toContain("'logPattern'");
+				expect(warnings[2]).toContain("Must specify one of");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("loadConfig - multiple probes keep the first one", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[[tools]]
+name = "api"
+command = "api"
+
+[tools.healthCheck]
+url = "http://localhost:3000/health"
+tcp = "localhost:3000"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(warnings).toHaveLength(1);
+				expect(warnings[0]).toContain("Only one probe");
+				expect(config.tools[0]?.healthCheck?.url).toBe(
+					"http://localhost:3000/health",
+				);
+				expect(config.tools[0]?.healthCheck?.tcp).toBeUndefined();
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+	});
+
+	describe("logs config", () => {
+		test("loadConfig - valid logs section", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[logs]
+dir = ".corsa/logs"
+maxFileSize = 1048576
+maxFiles = 5
+
+[[tools]]
+name = "test"
+command = "echo"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(warnings).toHaveLength(0);
+				expect(config.logs).toEqual({
+					dir: ".corsa/logs",
+					maxFileSize: 1048576,
+					maxFiles: 5,
+				});
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+
+		test("loadConfig - invalid logs options return warnings", async () => {
+			const configPath = join(tempDir, `test-config-${Date.now()}.toml`);
+			const configContent = `
+[logs]
+dir = ""
+maxFileSize = "10MB"
+maxFiles = 0
+rotate = true
+
+[[tools]]
+name = "test"
+command = "echo"
+			`.trim();
+
+			await writeFile(configPath, configContent);
+
+			try {
+				const { config, warnings } = await loadConfig(configPath);
+				expect(config.logs).toEqual({});
+				expect(warnings).toHaveLength(4);
+				expect(warnings[0]).toContain("[logs] Unknown option 'rotate'");
+				expect(warnings[1]).toContain("'dir'");
+				expect(warnings[2]).toContain("'maxFileSize'");
+				expect(warnings[3]).toContain("'maxFiles'");
+			} finally {
+				await unlink(configPath).catch(() => {});
+			}
+		});
+	});
 });
@@ -16,7 +16,15 @@ import { parse as parseToml } from "@iarna/toml";
  */
 
 // From src/lib/config/types.ts - Config interface
-const CONFIG_KEYS = ["tools", "home", "mcp", "processes", "ui"] as const;
+const CONFIG_KEYS = [
+	"tools",
+	"home",
+	"mcp",
+	"processes",
+	"logs",
+	"ui",
+	"groups",
+] as const;
 
 // From src/lib/config/types.ts - HomeConfig interface
 const HOME_CONFIG_KEYS = [
@@ -27,10 +35,16 @@ const HOME_CONFIG_KEYS = [
 ] as const;
 
 // From src/lib/config/types.ts - McpConfig interface
-const MCP_CONFIG_KEYS = ["enabled", "port"] as const;
+const MCP_CONFIG_KEYS = ["enabled", "port", "host", "corsOrigins"] as const;
 
 // From src/lib/config/types.ts - ProcessConfig interface
-const PROCESS_CONFIG_KEYS = ["cleanupOrphans"] as const;
+const PROCESS_CONFIG_KEYS = [
+	"cleanupOrphans",
+	"restartWithDependencies",
+] as const;
+
+// From src/lib/config/types.ts - LogsConfig interface
+const LOGS_CONFIG_KEYS = ["dir", "maxFileSize", "maxFiles"] as const;
 
 // From src/lib/config/types.ts - Config.ui interface
 const UI_CONFIG_KEYS = [
@@ -41,6 +55,7 @@ const UI_CONFIG_KEYS = [
 	"maxLogLines",
 	"showTabNumbers",
 	"showLineNumbers",
+	"editorCommand",
 ] as const;
 
 // From src/types.ts - ToolConfig interface
@@ -55,10 +70,26 @@ const TOOL_CONFIG_KEYS = [
 	"healthCheck",
 	"ui",
 	"dependsOn",
+	"restart",
+	"maxRestarts",
+	"restartDelay",
+	"watch",
+	"pty",
+	"logFormat",
 ] as const;
 
 // From src/types.ts - ToolHealthCheck interface
-const TOOL_HEALTH_CHECK_KEYS = ["url", "interval", "retries"] as const;
+const TOOL_HEALTH_CHECK_KEYS = [
+	"url",
+	"tcp",
+	"command",
+	"logPattern",
+	"interval",
+	"retries",
+] as const;
+
+// From src/types.ts - ToolWatchConfig interface
+const TOOL_WATCH_KEYS = ["include", "exclude", "debounce"] as const;
 
 // From src/types.ts - ToolUI interface
 const TOOL_UI_KEYS = ["label", "url"] as const;
@@ -187,6 +218,33 @@ describe("Sample config validation", () => {
 		}
 	});
 
+	test("sample config [logs] section has all and only valid keys", async () => {
+		const samplePath = join(
+			import.meta.dir,
+			"..",
+			"..",
+			"..",
+			"sample-config-full.toml",
+		);
+		const content = await readFile(samplePath, "utf-8");
+		const config = parseToml(content) as Record<string, unknown>;
+
+		const logs = config.logs as Record<string, unknown>;
+		const logsKeys = Object.keys(logs);
+
+		// Check all expected keys are present
+		for (const key of LOGS_CONFIG_KEYS) {
+			expect(logsKeys).toContain(key);
+		}
+
+		// Check no extra keys exist
+		for (const key of logsKeys) {
+			expect(LOGS_CONFIG_KEYS).toContain(
+				key as (typeof LOGS_CONFIG_KEYS)[number],
+			);
+		}
+	});
+
 	test("sample config [ui] section has all and only valid keys", async () => {
 		const samplePath = join(
 			import.meta.dir,
@@ -260,17 +318,15 @@ describe("Sample config validation", () => {
 
 		const tools = config.tools as Record<string, unknown>[];
 
-		// Find a tool with healthCheck
-		const toolWithHealthCheck = tools.find((t) => t.healthCheck);
-		expect(toolWithHealthCheck).toBeDefined();
+		// Only one probe is allowed per health check, so collect keys across all tools
+		const healthChecks = tools
+			.map((t) => t.healthCheck as Record<string, unknown> | undefined)
+			.filter((h) => h !== undefined);
+		expect(healthChecks.length).toBeGreaterThan(0);
 
-		if (!toolWithHealthCheck)
-			throw new Error("Expected tool with healthCheck to exist");
-		const healthCheck = toolWithHealthCheck.healthCheck as Record<
-			string,
-			unknown
-		>;
-		const healthCheckKeys = Object.keys(healthCheck);
+		const healthCheckKeys = [
+			...new Set(healthChecks.flatMap((h) => Object.keys(h))),
+		];
 
 		// Check all expected keys are present
 		for (const key of TOOL_HEALTH_CHECK_KEYS) {
@@ -285,6 +341,40 @@ describe("Sample config validation", () => {
 		}
 	});
 
+	test("sample config [tools.watch] has all and only valid keys", async () => {
+		const samplePath = join(
+			import.meta.dir,
+			"..",
+			"..",
+			"..",
+			"sample-config-full.toml",
+		);
+		const content = await readFile(samplePath, "utf-8");
+		const config = parseToml(content) as Record<string, unknown>;
+
+		const tools = config.tools as Record<string, unknown>[];
+
+		// Find a tool with watch
+		const toolWithWatch = tools.find((t) => t.watch);
+		expect(toolWithWatch).toBeDefined();
+
+		if (!toolWithWatch) throw new Error("Expected tool with watch to exist");
+		const watch = toolWithWatch.watch as Record<string, unknown>;
+		const watchKeys = Object.keys(watch);
+
+		// Check all expected keys are present
+		for (const key of TOOL_WATCH_KEYS) {
+			expect(watchKeys).toContain(key);
+		}
+
+		// Check no extra keys exist
+		for (const key of watchKeys) {
+			expect(TOOL_WATCH_KEYS).toContain(
+				key as (typeof TOOL_WATCH_KEYS)[number],
+			);
+		}
+	});
+
 	test("sample config [tools.ui] has all and only valid keys", async () => {
 		const samplePath = join(
 			import.meta.dir,
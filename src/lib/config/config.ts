@@ -1,9 +1,12 @@
 import { readFile } from "node:fs/promises";
 import { parse as parseToml } from "@iarna/toml";
+import { parseTcpTarget } from "../health";
 import type {
 	ASCIIFontName,
 	Config,
+	GroupsConfig,
 	HomeConfig,
+	LogsConfig,
 	McpConfig,
 	ProcessConfig,
 } from "./types";
@@ -25,6 +28,12 @@ const VALID_SIDEBAR_POSITIONS = ["left", "right"] as const;
 /** Valid horizontal tab positions */
 const VALID_HORIZONTAL_TAB_POSITIONS = ["top", "bottom"] as const;
 
+/** Valid tool restart policies */
+const VALID_RESTART_POLICIES = ["never", "on-failure", "always"] as const;
+
+/** Valid tool log formats */
+const VALID_LOG_FORMATS = ["text", "json", "logfmt"] as const;
+
 /** Result of loading config - includes parsed config and any validation warnings */
 export interface LoadConfigResult {
 	config: Config;
@@ -79,21 +88,51 @@ export async function loadConfig(
 			warnings,
 		);
 
+		// Validate and normalize logs config
+		const logsConfig = validateLogsConfig(
+			rawConfig.logs as Record<string, unknown> | undefined,
+			warnings,
+		);
+
 		// Validate and normalize ui config
 		const uiConfig = validateUiConfig(
 			rawConfig.ui as Record<string, unknown> | undefined,
 			warnings,
 		);
 
+		// Validate and normalize tool groups
+		const groupsConfig = validateGroupsConfig(
+			rawConfig.groups as Record<string, unknown> | undefined,
+			rawTools.map((tool) => String(tool.name)),
+			warnings,
+		);
+
 		// Build the validated config
 		const config: Config = {
 			tools: rawTools as unknown as Config["tools"],
 			...(homeConfig && { home: homeConfig }),
 			...(mcpConfig && { mcp: mcpConfig }),
 			...(processesConfig && { processes: processesConfig }),
+			...(logsConfig && { logs: logsConfig }),
 			...(uiConfig && { ui: uiConfig }),
+			...(groupsConfig && { groups: groupsConfig }),
 		};
 
+		// Validate health check probes
+		validateHealthChecks(config.tools, warnings);
+
+		// Validate restart policy options
+		validateRestartPolicies(config.tools, warnings);
+
+		// Validate file watching options
+		validateWatchConfigs(config.tools, warnings);
+
+		// Validate pseudo-terminal options
+		validatePtyOptions(config.tools, warnings);
+
+		// Validate structured log formats
+		validateLogFormats(config.tools, warnings);
+
 		// Validate depends_on references and check for circular dependencies
 		validateDependsOn(config.tools, warnings);
 
@@ -183,7 +222,7 @@ function validateHomeConfig(
 }
 
 /** Known keys for mcp config section */
-const MCP_CONFIG_KEYS = ["enabled", "port"];
+const MCP_CONFIG_KEYS = ["enabled", "port", "host", "corsOrigins"];
 
 /**
  * Validate mcp config section, collecting warnings for invalid values
@@ -225,11 +264,28 @@ function validateMcpConfig(
 		);
 	}
 
+	if (typeof raw.host === "string" && raw.host.trim() !== "") {
+		result.host = raw.host.trim();
+	} else if (raw.host !== undefined) {
+		warnings.push(
+			"[mcp] 'host' must be a non-empty string. Using default: 127.0.0.1",
+		);
+	}
+
+	if (
+		Array.isArray(raw.corsOrigins) &&
+		raw.corsOrigins.every((origin) => typeof origin === "string")
+	) {
+		result.corsOrigins = raw.corsOrigins as string[];
+	} else if (raw.corsOrigins !== undefined) {
+		warnings.push("[mcp] 'corsOrigins' must be an array of origins. Ignoring");
+	}
+
 	return result;
 }
 
 /** Known keys for processes config section */
-const PROCESS_CONFIG_KEYS = ["cleanupOrphans"];
+const PROCESS_CONFIG_KEYS = ["cleanupOrphans", "restartWithDependencies"];
 
 /**
  * Validate processes config section, collecting warnings for invalid values
@@ -257,6 +313,74 @@ function validateProcessConfig(
 		);
 	}
 
+	if (typeof raw.restartWithDependencies === "boolean") {
+		result.restartWithDependencies = raw.restartWithDependencies;
+	} else if (raw.restartWithDependencies !== undefined) {
+		warnings.push(
+			`[processes] 'restartWithDependencies' must be a boolean, got ${typeof raw.restartWithDependencies}. Using default: false`,
+		);
+	}
+
+	return result;
+}
+
+/** Known keys for logs config section */
+const LOGS_CONFIG_KEYS = ["dir", "maxFileSize", "maxFiles"];
+
+/**
+ * Validate logs config section, collecting warnings for invalid values
+ */
+function validateLogsConfig(
+	raw: Record<string, unknown> | undefined,
+	warnings: string[],
+): LogsConfig | undefined {
+	if (!raw) return undefined;
+
+	// Warn about unknown keys
+	for (const key of Object.keys(raw)) {
+		if (!LOGS_CONFIG_KEYS.includes(key)) {
+			warnings.push(`[logs] Unknown option '${key}' - ignoring`);
+		}
+	}
+
+	const result: LogsConfig = {};
+
+	if (typeof raw.dir === "string" && raw.dir.length > 0) {
+		result.dir = raw.dir;
+	} else if (raw.dir !== undefined) {
+		warnings.push(
+			`[logs] 'dir' must be a non-empty string, got ${typeof raw.dir}. Logs will not be written to disk`,
+		);
+	}
+
+	if (raw.maxFileSize !== undefined) {
+		if (
+			typeof raw.maxFileSize === "number" &&
+			Number.isInteger(raw.maxFileSize) &&
+			raw.maxFileSize > 0
+		) {
+			result.maxFileSize = raw.maxFileSize;
+		} else {
+			warnings.push(
+				`[logs] 'maxFileSize' must be a positive integer (bytes), got ${raw.maxFileSize}. Using default: 10485760`,
+			);
+		}
+	}
+
+	if (raw.maxFiles !== undefined) {
+		if (
+			typeof raw.maxFiles === "number" &&
+			Number.isInteger(raw.maxFiles) &&
+			raw.maxFiles > 0
+		) {
+			result.maxFiles = raw.maxFiles;
+		} else {
+			warnings.push(
+				`[logs] 'maxFiles' must be a positive integer, got ${raw.maxFiles}. Using default: 10`,
+			);
+		}
+	}
+
 	return result;
 }
 
@@ -269,6 +393,7 @@ const UI_CONFIG_KEYS = [
 	"maxLogLines",
 	"showTabNumbers",
 	"showLineNumbers",
+	"editorCommand",
 ];
 
 /**
@@ -392,9 +517,293 @@ function validateUiConfig(
 		);
 	}
 
+	// editorCommand
+	if (typeof raw.editorCommand === "string" && raw.editorCommand.trim()) {
+		result.editorCommand = raw.editorCommand.trim();
+	} else if (raw.editorCommand !== undefined) {
+		warnings.push(
+			"[ui] 'editorCommand' must be a non-empty string. Using default: $VISUAL or $EDITOR",
+		);
+	}
+
 	return result;
 }
 
+/** Health check probe types, in order of precedence */
+const HEALTH_CHECK_PROBES = ["url", "tcp", "command", "logPattern"] as const;
+
+/**
+ * Validate groups config section, collecting warnings for invalid values.
+ * Each group must be an array of tool names; unknown names are dropped.
+ */
+function validateGroupsConfig(
+	raw: Record<string, unknown> | undefined,
+	toolNames: string[],
+	warnings: string[],
+): GroupsConfig | undefined {
+	if (!raw) return undefined;
+
+	const result: GroupsConfig = {};
+	for (const [name, members] of Object.entries(raw)) {
+		if (
+			!Array.isArray(members) ||
+			!members.every((member) => typeof member === "string")
+		) {
+			warnings.push(
+				`[groups] '${name}' must be an array of tool names - ignoring`,
+			);
+			continue;
+		}
+
+		const valid: string[] = [];
+		for (const member of members as string[]) {
+			if (toolNames.includes(member)) {
+				valid.push(member);
+			} else {
+				warnings.push(
+					`[groups] '${name}' references unknown tool '${member}' - ignoring`,
+				);
+			}
+		}
+		result[name] = valid;
+	}
+
+	return result;
+}
+
+/**
+ * Get the tools to run for a profile: the tools in the group of that name
+ * plus everything they depend on (directly or indirectly), in config order.
+ *
+ * @returns Tool names, or null if there is no group with that name
+ */
+export function resolveProfileTools(
+	config: Config,
+	profile: string,
+): string[] | null {
+	const group = config.groups?.[profile];
+	if (!group) return null;
+
+	const byName = new Map(config.tools.map((tool) => [tool.name, tool]));
+	const included = new Set<string>();
+	const pending = [...group];
+	while (pending.length > 0) {
+		const name = pending.pop();
+		if (name === undefined || included.has(name) || !byName.has(name)) {
+			continue;
+		}
+		included.add(name);
+		pending.push(...(byName.get(name)?.dependsOn ?? []));
+	}
+
+	return config.tools
+		.map((tool) => tool.name)
+		.filter((name) => included.has(name));
+}
+
+/**
+ * Validate per-tool health check probes.
+ * A health check needs exactly one probe; extra probes are dropped and
+ * health checks without a usable probe are removed.
+ */
+function validateHealthChecks(
+	tools: Config["tools"],
+	warnings: string[],
+): void {
+	for (const tool of tools) {
+		const healthCheck = tool.healthCheck;
+		if (!healthCheck) continue;
+
+		const prefix = `[tools.${tool.name}.healthCheck]`;
+
+		const configured = HEALTH_CHECK_PROBES.filter(
+			(probe) => healthCheck[probe] !== undefined,
+		);
+		if (configured.length === 0) {
+			warnings.push(
+				`${prefix} Must specify one of: ${HEALTH_CHECK_PROBES.join(", ")} - health check disabled`,
+			);
+			delete tool.healthCheck;
+			continue;
+		}
+		if (configured.length > 1) {
+			warnings.push(
+				`${prefix} Only one probe is allowed, got ${configured.join(", ")}. Using '${configured[0]}'`,
+			);
+			for (const probe of configured.slice(1)) {
+				delete healthCheck[probe];
+			}
+		}
+
+		const [probe] = configured;
+		const value = probe ? healthCheck[probe] : undefined;
+		let error: string | null = null;
+		if (typeof value !== "string") {
+			error = `'${probe}' must be a string, got ${typeof value}`;
+		} else if (probe === "tcp" && !parseTcpTarget(value)) {
+			error = `'tcp' must be "host:port", got "${value}"`;
+		} else if (probe === "logPattern") {
+			try {
+				new RegExp(value);
+			} catch {
+				error = `'logPattern' is not a valid regular expression: "${value}"`;
+			}
+		}
+
+		if (error) {
+			warnings.push(`${prefix} ${error} - health check disabled`);
+			delete tool.healthCheck;
+		}
+	}
+}
+
+/**
+ * Validate per-tool restart policy options.
+ * Invalid values produce a warning and are removed so defaults apply.
+ */
+function validateRestartPolicies(
+	tools: Config["tools"],
+	warnings: string[],
+): void {
+	for (const tool of tools) {
+		const { restart, maxRestarts, restartDelay } = tool as unknown as Record<
+			string,
+			unknown
+		>;
+
+		if (
+			restart !== undefined &&
+			!VALID_RESTART_POLICIES.includes(
+				restart as (typeof VALID_RESTART_POLICIES)[number],
+			)
+		) {
+			warnings.push(
+				`[tools.${tool.name}] 'restart' must be one of: ${VALID_RESTART_POLICIES.join(", ")}. Got "${restart}". Using default: "never"`,
+			);
+			delete tool.restart;
+		}
+
+		if (
+			maxRestarts !== undefined &&
+			(typeof maxRestarts !== "number" ||
+				!Number.isInteger(maxRestarts) ||
+				maxRestarts < 0)
+		) {
+			warnings.push(
+				`[tools.${tool.name}] 'maxRestarts' must be a non-negative integer, got ${maxRestarts}. Using default: 5`,
+			);
+			delete tool.maxRestarts;
+		}
+
+		if (
+			restartDelay !== undefined &&
+			(typeof restartDelay !== "number" || restartDelay < 0)
+		) {
+			warnings.push(
+				`[tools.${tool.name}] 'restartDelay' must be a non-negative number, got ${restartDelay}. Using default: 1000`,
+			);
+			delete tool.restartDelay;
+		}
+	}
+}
+
+/** Known keys for tools.watch section */
+const TOOL_WATCH_KEYS = ["include", "exclude", "debounce"];
+
+/**
+ * Validate per-tool watch blocks.
+ * Invalid values produce a warning and are removed so defaults apply.
+ */
+function validateWatchConfigs(
+	tools: Config["tools"],
+	warnings: string[],
+): void {
+	for (const tool of tools) {
+		const raw = tool.watch as unknown;
+		if (raw === undefined) continue;
+
+		if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+			warnings.push(
+				`[tools.${tool.name}] 'watch' must be a table, got ${typeof raw}. File watching disabled`,
+			);
+			delete tool.watch;
+			continue;
+		}
+
+		const watch = raw as Record<string, unknown>;
+
+		for (const key of Object.keys(watch)) {
+			if (!TOOL_WATCH_KEYS.includes(key)) {
+				warnings.push(
+					`[tools.${tool.name}.watch] Unknown option '${key}' - ignoring`,
+				);
+				delete watch[key];
+			}
+		}
+
+		for (const key of ["include", "exclude"] as const) {
+			const patterns = watch[key];
+			if (
+				patterns !== undefined &&
+				(!Array.isArray(patterns) ||
+					!patterns.every((p) => typeof p === "string"))
+			) {
+				warnings.push(
+					`[tools.${tool.name}.watch] '${key}' must be an array of glob strings - ignoring`,
+				);
+				delete watch[key];
+			}
+		}
+
+		if (
+			watch.debounce !== undefined &&
+			(typeof watch.debounce !== "number" || watch.debounce < 0)
+		) {
+			warnings.push(
+				`[tools.${tool.name}.watch] 'debounce' must be a non-negative number, got ${watch.debounce}. Using default: 300`,
+			);
+			delete watch.debounce;
+		}
+	}
+}
+
+/**
+ * Validate per-tool pty flags.
+ * Non-boolean values produce a warning and are removed so the tool runs with pipes.
+ */
+function validatePtyOptions(tools: Config["tools"], warnings: string[]): void {
+	for (const tool of tools) {
+		const pty = tool.pty as unknown;
+		if (pty !== undefined && typeof pty !== "boolean") {
+			warnings.push(
+				`[tools.${tool.name}] 'pty' must be a boolean, got ${typeof pty}. Using default: false`,
+			);
+			delete tool.pty;
+		}
+	}
+}
+
+/**
+ * Validate per-tool log formats.
+ * Unknown formats produce a warning and are removed so lines are shown as text.
+ */
+function validateLogFormats(tools: Config["tools"], warnings: string[]): void {
+	for (const tool of tools) {
+		const logFormat = tool.logFormat as unknown;
+		if (
+			logFormat !== undefined &&
+			!VALID_LOG_FORMATS.includes(
+				logFormat as (typeof VALID_LOG_FORMATS)[number],
+			)
+		) {
+			warnings.push(
+				`[tools.${tool.name}] 'logFormat' must be one of: ${VALID_LOG_FORMATS.join(", ")}. Got "${logFormat}". Using default: "text"`,
+			);
+			delete tool.logFormat;
+		}
+	}
+}
+
 /**
  * Validate depends_on references and detect circular dependencies.
  * Adds warnings for invalid references, throws for circular dependencies.
@@ -1,2 +1,13 @@
-export { type LoadConfigResult, loadConfig } from "./config";
-export type { ASCIIFontName, Config, HomeConfig, McpConfig } from "./types";
+export {
+	type LoadConfigResult,
+	loadConfig,
+	resolveProfileTools,
+} from "./config";
+export type {
+	ASCIIFontName,
+	Config,
+	GroupsConfig,
+	HomeConfig,
+	LogsConfig,
+	McpConfig,
+} from "./types";
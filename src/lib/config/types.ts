@@ -28,6 +28,10 @@ export interface McpConfig {
 	enabled?: boolean;
 	/** Port for the HTTP API server. Default: 18765 */
 	port?: number;
+	/** Interface the HTTP API listens on. Default: "127.0.0.1" (this machine only) */
+	host?: string;
+	/** Browser origins allowed to call the API (CORS). Default: none */
+	corsOrigins?: string[];
 }
 
 /** Process management configuration */
@@ -44,16 +48,49 @@ export interface ProcessConfig {
 	 * Default: true
 	 */
 	cleanupOrphans?: boolean;
+	/**
+	 * Whether restarting a tool also restarts the tools that depend on it
+	 * (directly or transitively), so they reconnect to the new instance.
+	 * Dependents stop before the tool and start again in dependency order.
+	 * When enabled, shutdown also stops dependents before their dependencies.
+	 *
+	 * Default: false
+	 */
+	restartWithDependencies?: boolean;
+}
+
+/** Log persistence configuration */
+export interface LogsConfig {
+	/**
+	 * Directory to write tool logs to, relative to the current directory.
+	 * Each tool gets a subdirectory with one file per run.
+	 * Logs are only written to disk when this is set.
+	 */
+	dir?: string;
+	/** Maximum size of a log file in bytes before continuing in a new file. Default: 10485760 (10 MB) */
+	maxFileSize?: number;
+	/** Maximum number of log files to keep per tool. Default: 10 */
+	maxFiles?: number;
 }
 
+/**
+ * Named groups of tools, e.g. `frontend = ["web", "storybook"]`.
+ * Selected with `--profile <name>` or from the command palette.
+ */
+export type GroupsConfig = Record<string, string[]>;
+
 export interface Config {
 	tools: ToolConfig[];
+	/** Named groups of tools that can be run as a profile */
+	groups?: GroupsConfig;
 	/** Home tab configuration */
 	home?: HomeConfig;
 	/** MCP API configuration for AI agent integration */
 	mcp?: McpConfig;
 	/** Process management configuration */
 	processes?: ProcessConfig;
+	/** Log persistence configuration */
+	logs?: LogsConfig;
 	ui?: {
 		/** Sidebar position for wide terminals: "left" or "right". Default: "left" */
 		sidebarPosition?: "left" | "right";
@@ -79,5 +116,11 @@ export interface Config {
 		 * - "auto": Show line numbers when terminal width >= 80 (default)
 		 */
 		showLineNumbers?: boolean | "auto";
+		/**
+		 * Command that opens a file reference from the logs in an editor, with
+		 * {file}, {line} and {column} placeholders, e.g. "code --goto {file}:{line}:{column}".
+		 * Default: $VISUAL or $EDITOR
+		 */
+		editorCommand?: string;
 	};
 }
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { statSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ToolConfig } from "../../../types";
+import { ProcessManager } from "../../processes";
+import { DaemonServer } from "../daemon-server";
+import { RemoteProcessManager } from "../remote-process-manager";
+
+/**
+ * Helper to poll until a condition holds (or the timeout elapses).
+ */
+async function waitForCondition(
+	condition: () => boolean,
+	timeoutMs: number = 2000,
+): Promise<void> {
+	const startTime = Date.now();
+	while (Date.now() - startTime < timeoutMs) {
+		if (condition()) return;
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+}
+
+const logText = (manager: RemoteProcessManager, index: number) =>
+	manager
+		.getTool(index)
+		?.logs.map((line) => line.segments.map((seg) => seg.text).join("")) ?? [];
+
+describe("DaemonServer", () => {
+	let tempDir: string;
+	let processManager: ProcessManager;
+	let server: DaemonServer;
+	let clients: RemoteProcessManager[];
+
+	const configs: ToolConfig[] = [
+		{ name: "printer", command: "echo", args: ["hello"] },
+		{ name: "cat", command: "cat" },
+	];
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "corsa-daemon-test-"));
+		processManager = new ProcessManager();
+		await processManager.initialize(configs, { cleanupOrphans: false });
+		server = new DaemonServer(
+			processManager,
+			join(tempDir, "daemon.sock"),
+			() => true,
+		);
+		server.start();
+		clients = [];
+	});
+
+	afterEach(async () => {
+		for (const client of clients) {
+			await client.cleanup();
+		}
+		server.stop();
+		await processManager.cleanup();
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	const connect = async () => {
+		const client = await RemoteProcessManager.connect(
+			join(tempDir, "daemon.sock"),
+		);
+		clients.push(client);
+		return client;
+	};
+
+	test("sends a snapshot of all tools on connect", async () => {
+		const client = await connect();
+
+		expect(client.getTools().map((t) => t.config.name)).toEqual([
+			"printer",
+			"cat",
+		]);
+		expect(client.getTool(0)?.status).toBe("stopped");
+	});
+
+	test("streams status and logs to every attached client", async () => {
+		const first = await connect();
+		const second = await connect();
+
+		await first.startTool(0);
+		await waitForCondition(
+			() =>
+				logText(second, 0).includes("hello") &&
+				second.getTool(0)?.status === "stopped",
+		);
+
+		for (const client of [first, second]) {
+			expect(logText(client, 0)).toContain("hello");
+			expect(client.getTool(0)?.status).toBe("stopped");
+			expect(client.getTool(0)?.exitCode).toBe(0);
+		}
+	});
+
+	test("runs commands from clients on the daemon", async () => {
+		const client = await connect();
+
+		await client.startTool(1);
+		await waitForCondition(() => client.getTool(1)?.status === "running");
+		expect(processManager.getTool(1)?.status).toBe("running");
+
+		expect(client.sendInput(1, "ping\n")).toBe(true);
+		await waitForCondition(() => logText(client, 1).includes("ping"));
+		expect(logText(client, 1)).toContain("ping");
+
+		await client.stopTool(1);
+		expect(processManager.getTool(1)?.status).not.toBe("running");
+	});
+
+	test("reports every start of a process to attached clients", async () => {
+		const client = await connect();
+		const starts: string[] = [];
+		client.onToolStart((_index, name) => starts.push(name));
+
+		await client.startTool(1);
+		await waitForCondition(() => starts.length === 1);
+		await client.restartTool(1);
+		await waitForCondition(() => starts.length === 2);
+
+		expect(starts).toEqual(["cat", "cat"]);
+	});
+
+	test("calls the shutdown callback when a client asks", async () => {
+		let shutdownRequested = false;
+		server.setOnShutdown(() => {
+			shutdownRequested = true;
+		});
+		const client = await connect();
+
+		await client.shutdownDaemon();
+
+		expect(shutdownRequested).toBe(true);
+	});
+
+	test("only lets the owner connect to the socket", () => {
+		expect(statSync(join(tempDir, "daemon.sock")).mode & 0o777).toBe(0o600);
+	});
+
+	test("connect fails when no daemon is listening", async () => {
+		await expect(
+			RemoteProcessManager.connect(join(tempDir, "missing.sock")),
+		).rejects.toThrow();
+	});
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import type { LogLine } from "../../../types";
+import { createLogCursor } from "../../processes";
+import { applyLogDelta, diffLogs } from "../log-sync";
+
+function line(text: string): LogLine {
+	return { segments: [{ text }], timestamp: 0 };
+}
+
+/**
+ * Sync logs from `previous` to `current` through a delta and check the result.
+ * Trim counts are the positions of the first line of each (see ToolState.logTrimCount).
+ */
+function sync(
+	previous: LogLine[],
+	current: LogLine[],
+	previousTrimCount = 0,
+	currentTrimCount = previousTrimCount,
+) {
+	const cursor = createLogCursor({
+		logs: previous,
+		logTrimCount: previousTrimCount,
+	});
+	const tool = { logs: current, logTrimCount: currentTrimCount };
+	const changes = diffLogs(cursor, tool);
+	const synced = changes ? applyLogDelta(previous, changes.delta) : previous;
+	expect(synced).toEqual(current);
+	if (changes) expect(changes.cursor).toEqual(createLogCursor(tool));
+	return changes?.delta ?? null;
+}
+
+describe("diffLogs", () => {
+	const a = line("a");
+	const b = line("b");
+	const c = line("c");
+
+	test("returns null when nothing changed", () => {
+		expect(sync([a, b], [a, b])).toBeNull();
+		expect(sync([], [])).toBeNull();
+	});
+
+	test("sends only appended lines", () => {
+		expect(sync([a], [a, b, c])).toEqual({ drop: 0, keep: 1, lines: [b, c] });
+	});
+
+	test("sends a replaced last line", () => {
+		const b2 = line("b2");
+		expect(sync([a, b], [a, b2])).toEqual({ drop: 0, keep: 1, lines: [b2] });
+	});
+
+	test("drops lines trimmed from the front", () => {
+		expect(sync([a, b], [b, c], 0, 1)).toEqual({
+			drop: 1,
+			keep: 1,
+			lines: [c],
+		});
+	});
+
+	test("resends everything after the logs were cleared", () => {
+		expect(sync([a, b], [c], 0, 2)).toEqual({ drop: 2, keep: 0, lines: [c] });
+		expect(sync([a, b], [], 0, 2)).toEqual({ drop: 2, keep: 0, lines: [] });
+	});
+
+	test("resends everything when positions go back", () => {
+		expect(sync([a, b], [c], 5, 0)).toEqual({ drop: 2, keep: 0, lines: [c] });
+	});
+});
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { createMessageChannel, readMessages } from "../protocol";
+
+describe("readMessages", () => {
+	test("decodes messages split across chunks", () => {
+		const channel = createMessageChannel();
+		expect(readMessages(channel, Buffer.from('{"a":'))).toEqual([]);
+		expect(readMessages(channel, Buffer.from('1}\n{"b":2}\n{"c"'))).toEqual([
+			{ a: 1 },
+			{ b: 2 },
+		]);
+		expect(channel.received).toBe('{"c"');
+	});
+
+	test("decodes a multibyte character split across chunks", () => {
+		const channel = createMessageChannel();
+		const data = Buffer.from('{"line":"✓ done"}\n');
+		// Split inside the three bytes of "✓"
+		const split = data.indexOf(0xe2) + 1;
+
+		expect(readMessages(channel, data.subarray(0, split))).toEqual([]);
+		expect(readMessages(channel, data.subarray(split))).toEqual([
+			{ line: "✓ done" },
+		]);
+	});
+
+	test("skips malformed lines", () => {
+		const channel = createMessageChannel();
+		expect(readMessages(channel, Buffer.from('oops\n{"ok":true}\n'))).toEqual([
+			{ ok: true },
+		]);
+	});
+});
@@ -0,0 +1,271 @@
+import { chmodSync, unlinkSync } from "node:fs";
+import type { Socket, SocketListener } from "bun";
+import type { ToolState } from "../../types";
+import {
+	createLogCursor,
+	type IsToolReadyCallback,
+	type LogCursor,
+	type ProcessManager,
+} from "../processes";
+import { diffLogs } from "./log-sync";
+import {
+	type ClientMessage,
+	createMessageChannel,
+	type DaemonCommand,
+	type DaemonMessage,
+	flushMessages,
+	getToolStatus,
+	type MessageChannel,
+	readMessages,
+	writeMessage,
+} from "./protocol";
+
+/** Delay for batching tool changes into one update per client (50ms) */
+const BROADCAST_INTERVAL = 50;
+
+/** Callback when a client asks the daemon to shut down */
+export type OnShutdownCallback = () => void;
+
+/**
+ * Serves a headless ProcessManager to attached TUI clients over a unix socket.
+ * Every client gets a snapshot of all tools on connect, then status changes
+ * and new log lines as they happen; commands from clients run on the daemon.
+ */
+export class DaemonServer {
+	private listener: SocketListener<MessageChannel> | null = null;
+	private clients = new Set<Socket<MessageChannel>>();
+	private processManager: ProcessManager;
+	private socketPath: string;
+	private isToolReady: IsToolReadyCallback;
+	private onShutdown: OnShutdownCallback | null = null;
+	private unsubscribe: (() => void) | null = null;
+	private broadcastTimer: ReturnType<typeof setTimeout> | null = null;
+
+	/** Tools as last sent to clients, to detect reloads */
+	private syncedTools: ToolState[] = [];
+	/** Where the logs last sent to clients end, by tool index */
+	private syncedLogs = new Map<number, LogCursor>();
+	/** Serialized status as last sent to clients, by tool index */
+	private syncedStatus = new Map<number, string>();
+
+	constructor(
+		processManager: ProcessManager,
+		socketPath: string,
+		isToolReady: IsToolReadyCallback,
+	) {
+		this.processManager = processManager;
+		this.socketPath = socketPath;
+		this.isToolReady = isToolReady;
+	}
+
+	/**
+	 * Set a callback to be called when a client asks the daemon to shut down.
+	 */
+	setOnShutdown(callback: OnShutdownCallback): void {
+		this.onShutdown = callback;
+	}
+
+	/**
+	 * Start listening on the socket. A leftover socket file is replaced, so
+	 * check that no other daemon is running first.
+	 */
+	start(): void {
+		try {
+			unlinkSync(this.socketPath);
+		} catch {
+			// No leftover socket
+		}
+
+		this.syncAll();
+		this.listener = Bun.listen<MessageChannel>({
+			unix: this.socketPath,
+			socket: {
+				open: (socket) => {
+					socket.data = createMessageChannel();
+					// Bring existing clients up to date so everyone shares one baseline
+					this.broadcastChanges();
+					this.clients.add(socket);
+					writeMessage(socket, this.createSnapshot());
+				},
+				data: (socket, data) => {
+					for (const message of readMessages<ClientMessage>(
+						socket.data,
+						data,
+					)) {
+						void this.handleMessage(socket, message);
+					}
+				},
+				drain: (socket) => flushMessages(socket),
+				close: (socket) => {
+					this.clients.delete(socket);
+				},
+				error: (socket) => {
+					this.clients.delete(socket);
+				},
+			},
+		});
+		// Only the owner may connect: clients can run any command in the tools' shells
+		chmodSync(this.socketPath, 0o600);
+
+		this.unsubscribe = this.processManager.subscribe("all", () =>
+			this.scheduleBroadcast(),
+		);
+	}
+
+	/**
+	 * Stop listening, disconnect all clients and remove the socket file.
+	 */
+	stop(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		if (this.broadcastTimer) {
+			clearTimeout(this.broadcastTimer);
+			this.broadcastTimer = null;
+		}
+		for (const client of this.clients) {
+			client.end();
+		}
+		this.clients.clear();
+		this.listener?.stop(true);
+		this.listener = null;
+		try {
+			unlinkSync(this.socketPath);
+		} catch {
+			// Already removed
+		}
+	}
+
+	/** Number of attached clients */
+	getClientCount(): number {
+		return this.clients.size;
+	}
+
+	private scheduleBroadcast(): void {
+		if (this.broadcastTimer) return;
+		this.broadcastTimer = setTimeout(() => {
+			this.broadcastTimer = null;
+			this.broadcastChanges();
+		}, BROADCAST_INTERVAL);
+	}
+
+	/**
+	 * Send what changed since the last broadcast to every client.
+	 * A changed set of tools (config reload) is sent as a new snapshot.
+	 */
+	private broadcastChanges(): void {
+		const tools = this.processManager.getTools();
+		const replaced =
+			tools.length !== this.syncedTools.length ||
+			tools.some((tool, i) => tool !== this.syncedTools[i]);
+		if (replaced) {
+			this.syncAll();
+			this.broadcast(this.createSnapshot());
+			return;
+		}
+
+		tools.forEach((tool, index) => {
+			const status = getToolStatus(tool);
+			const serialized = JSON.stringify(status);
+			if (serialized !== this.syncedStatus.get(index)) {
+				this.syncedStatus.set(index, serialized);
+				this.broadcast({ type: "status", index, status });
+			}
+
+			const synced = this.syncedLogs.get(index);
+			const changes = synced && diffLogs(synced, tool);
+			if (changes) {
+				this.syncedLogs.set(index, changes.cursor);
+				this.broadcast({ type: "logs", index, delta: changes.delta });
+			}
+		});
+	}
+
+	/** Record the current tools as sent */
+	private syncAll(): void {
+		const tools = this.processManager.getTools();
+		this.syncedTools = tools.slice();
+		this.syncedLogs.clear();
+		this.syncedStatus.clear();
+		tools.forEach((tool, index) => {
+			this.syncedLogs.set(index, createLogCursor(tool));
+			this.syncedStatus.set(index, JSON.stringify(getToolStatus(tool)));
+		});
+	}
+
+	/**
+	 * Snapshot of all tools. Only valid right after syncing, when the synced
+	 * cursors are at the end of the tools' logs.
+	 */
+	private createSnapshot(): DaemonMessage {
+		return {
+			type: "snapshot",
+			tools: this.syncedTools.map((tool) => ({
+				...getToolStatus(tool),
+				config: tool.config,
+				logs: tool.logs,
+				logVersion: tool.logVersion,
+				logTrimCount: tool.logTrimCount,
+			})),
+		};
+	}
+
+	private broadcast(message: DaemonMessage): void {
+		for (const client of this.clients) {
+			writeMessage(client, message);
+		}
+	}
+
+	private async handleMessage(
+		socket: Socket<MessageChannel>,
+		message: ClientMessage,
+	): Promise<void> {
+		if (message.type !== "command") return;
+
+		try {
+			await this.runCommand(message.command);
+			writeMessage(socket, { type: "result", id: message.id, ok: true });
+		} catch (error) {
+			writeMessage(socket, {
+				type: "result",
+				id: message.id,
+				ok: false,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	private async runCommand(command: DaemonCommand): Promise<void> {
+		const pm = this.processManager;
+		switch (command.action) {
+			case "start":
+				await pm.startTool(command.index);
+				break;
+			case "startTools":
+				await pm.startTools(command.indices, this.isToolReady);
+				break;
+			case "stop":
+				await pm.stopTool(command.index);
+				break;
+			case "stopTools":
+				await pm.stopTools(command.indices);
+				break;
+			case "restart":
+				await pm.restartTool(command.index, this.isToolReady);
+				break;
+			case "input":
+				if (!pm.sendInput(command.index, command.input)) {
+					throw new Error("Process is not running");
+				}
+				break;
+			case "clearLogs":
+				pm.clearLogs(command.index);
+				break;
+			case "setWatchEnabled":
+				pm.setWatchEnabled(command.index, command.enabled);
+				break;
+			case "shutdown":
+				this.onShutdown?.();
+				break;
+		}
+	}
+}
@@ -0,0 +1,13 @@
+export type { OnShutdownCallback } from "./daemon-server";
+export { DaemonServer } from "./daemon-server";
+export type { LogDelta } from "./log-sync";
+export { applyLogDelta, diffLogs } from "./log-sync";
+export type {
+	ClientMessage,
+	DaemonCommand,
+	DaemonMessage,
+	RemoteToolState,
+	RemoteToolStatus,
+} from "./protocol";
+export { getDaemonLogPath, getDaemonSocketPath } from "./protocol";
+export { RemoteProcessManager } from "./remote-process-manager";
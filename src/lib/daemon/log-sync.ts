@@ -0,0 +1,49 @@
+import type { LogLine, ToolState } from "../../types";
+import { type LogCursor, readLogChanges } from "../processes";
+
+/**
+ * Change to a tool's logs since the last sync.
+ * Applied as: drop the first `drop` lines, keep the next `keep` lines and
+ * append `lines` (see applyLogDelta).
+ */
+export interface LogDelta {
+	/** Lines trimmed from the front (maxLogLines) */
+	drop: number;
+	/** Lines kept after the trimmed ones - earlier lines than this were replaced */
+	keep: number;
+	/** New or replaced lines to append */
+	lines: LogLine[];
+}
+
+/**
+ * Compute the change to a tool's logs since they were last synced, from where
+ * the sync left off: appended lines, a replaced last line (progress output),
+ * lines trimmed from the front and cleared logs are all expressed as one
+ * delta, without keeping a copy of the synced lines.
+ *
+ * @returns The delta and the cursor to sync from next, or null if nothing changed
+ */
+export function diffLogs(
+	cursor: LogCursor,
+	tool: Pick<ToolState, "logs" | "logTrimCount">,
+): { delta: LogDelta; cursor: LogCursor } | null {
+	const changes = readLogChanges(cursor, tool);
+	if (!changes) return null;
+
+	const kept = cursor.end - cursor.start - changes.removed;
+	return {
+		delta: {
+			drop: changes.removed,
+			keep: changes.replacedLast ? kept - 1 : kept,
+			lines: changes.lines,
+		},
+		cursor: changes.cursor,
+	};
+}
+
+/**
+ * Apply a delta from diffLogs to a copy of the previously synced logs.
+ */
+export function applyLogDelta(logs: LogLine[], delta: LogDelta): LogLine[] {
+	return logs.slice(delta.drop, delta.drop + delta.keep).concat(delta.lines);
+}
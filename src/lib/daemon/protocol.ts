@@ -0,0 +1,146 @@
+import type { Socket } from "bun";
+import type { ToolState } from "../../types";
+import { getPidFilePath } from "../processes";
+import type { LogDelta } from "./log-sync";
+
+/**
+ * Messages between the daemon (`corsa up`) and attached clients are JSON
+ * objects, one per line, over a unix socket next to the PID file.
+ */
+
+/** Tool state as sent to clients - everything but the process handle and terminal */
+export type RemoteToolState = Omit<ToolState, "process" | "screen">;
+
+/** Tool state without config and logs, sent when a tool's status changes */
+export type RemoteToolStatus = Omit<
+	RemoteToolState,
+	"config" | "logs" | "logVersion" | "logTrimCount"
+>;
+
+/** Actions a client can ask the daemon to run */
+export type DaemonCommand =
+	| { action: "start"; index: number }
+	| { action: "startTools"; indices: number[] }
+	| { action: "stop"; index: number }
+	| { action: "stopTools"; indices: number[] }
+	| { action: "restart"; index: number }
+	| { action: "input"; index: number; input: string }
+	| { action: "clearLogs"; index: number }
+	| { action: "setWatchEnabled"; index: number; enabled: boolean }
+	| { action: "shutdown" };
+
+/** Messages sent by clients */
+export type ClientMessage = {
+	type: "command";
+	id: number;
+	command: DaemonCommand;
+};
+
+/** Messages sent by the daemon */
+export type DaemonMessage =
+	/** Every tool with its logs - sent on connect and when the tools change (reload) */
+	| { type: "snapshot"; tools: RemoteToolState[] }
+	| { type: "status"; index: number; status: RemoteToolStatus }
+	| { type: "logs"; index: number; delta: LogDelta }
+	| { type: "result"; id: number; ok: boolean; error?: string };
+
+/**
+ * Get the daemon socket path for a config file.
+ * The socket lives next to the PID file, so each config file gets its own daemon.
+ */
+export function getDaemonSocketPath(configPath: string): string {
+	return getPidFilePath(configPath).replace(/\.json$/, ".sock");
+}
+
+/**
+ * Get the path of the log file a detached daemon writes its own output to.
+ */
+export function getDaemonLogPath(configPath: string): string {
+	return getPidFilePath(configPath).replace(/\.json$/, ".daemon.log");
+}
+
+/** Get the fields of a tool sent in a status message */
+export function getToolStatus(tool: ToolState): RemoteToolStatus {
+	const {
+		config: _config,
+		logs: _logs,
+		logVersion: _logVersion,
+		logTrimCount: _logTrimCount,
+		process: _process,
+		screen: _screen,
+		...status
+	} = tool;
+	return status;
+}
+
+/**
+ * Per-connection state for reading and writing messages.
+ * Writes that don't fit in the socket buffer are queued until it drains.
+ */
+export interface MessageChannel {
+	/** Decodes socket data, keeping multibyte characters split across chunks */
+	decoder: TextDecoder;
+	/** Partial line received so far */
+	received: string;
+	/** Encoded messages waiting for the socket to drain */
+	pending: Buffer[];
+}
+
+export function createMessageChannel(): MessageChannel {
+	return { decoder: new TextDecoder(), received: "", pending: [] };
+}
+
+/**
+ * Decode the complete messages in a chunk of socket data.
+ * Lines that aren't valid JSON are skipped.
+ */
+export function readMessages<T>(channel: MessageChannel, data: Buffer): T[] {
+	channel.received += channel.decoder.decode(data, { stream: true });
+	const lines = channel.received.split("\n");
+	channel.received = lines.pop() ?? "";
+
+	const messages: T[] = [];
+	for (const line of lines) {
+		if (!line) continue;
+		try {
+			messages.push(JSON.parse(line) as T);
+		} catch {
+			// Ignore malformed lines
+		}
+	}
+	return messages;
+}
+
+/**
+ * Write a message to a socket, queueing whatever doesn't fit.
+ */
+export function writeMessage(
+	socket: Socket<MessageChannel>,
+	message: DaemonMessage | ClientMessage,
+): void {
+	socket.data.pending.push(Buffer.from(`${JSON.stringify(message)}\n`));
+	if (socket.data.pending.length === 1) {
+		flushMessages(socket);
+	}
+}
+
+/**
+ * Write queued messages until the socket buffer is full.
+ * Call from the socket's drain handler.
+ */
+export function flushMessages(socket: Socket<MessageChannel>): void {
+	const { pending } = socket.data;
+	while (pending.length > 0) {
+		const chunk = pending[0];
+		if (!chunk) break;
+		const written = socket.write(chunk);
+		if (written < chunk.length) {
+			// Keep the rest for the next drain (nothing written if closed)
+			if (written > 0) {
+				pending[0] = chunk.subarray(written);
+			}
+			return;
+		}
+		pending.shift();
+	}
+}
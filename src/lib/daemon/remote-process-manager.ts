@@ -0,0 +1,345 @@
+import type { Socket } from "bun";
+import type { ToolState } from "../../types";
+import type {
+	ChangeCallback,
+	IsToolReadyCallback,
+	LogLineCallback,
+	ProcessController,
+	SubscriberKey,
+	ToolStartCallback,
+} from "../processes";
+import { applyLogDelta } from "./log-sync";
+import {
+	type ClientMessage,
+	createMessageChannel,
+	type DaemonCommand,
+	type DaemonMessage,
+	flushMessages,
+	type MessageChannel,
+	type RemoteToolState,
+	readMessages,
+	writeMessage,
+} from "./protocol";
+
+/** Timeout for the daemon's first snapshot after connecting (5 seconds) */
+const CONNECT_TIMEOUT = 5000;
+
+/**
+ * Controls the tools of a daemon (`corsa up`) for an attached TUI.
+ * Keeps a local copy of the daemon's tools that is updated as status changes
+ * and log lines arrive, and sends actions to the daemon to run.
+ *
+ * pty tools have no terminal screen here - their output shows as logs.
+ */
+export class RemoteProcessManager implements ProcessController {
+	private tools: ToolState[] = [];
+	private socket: Socket<MessageChannel> | null = null;
+	private subscribers = new Map<SubscriberKey, Set<ChangeCallback>>();
+	private logLineListeners = new Set<LogLineCallback>();
+	private toolStartListeners = new Set<ToolStartCallback>();
+	private nextCommandId = 1;
+	private pendingCommands = new Map<
+		number,
+		{ resolve: () => void; reject: (error: Error) => void }
+	>();
+	private onDisconnect: (() => void) | null = null;
+	private isDetaching = false;
+
+	/**
+	 * Connect to a daemon and wait for its tools.
+	 * @throws Error if no daemon is listening on the socket
+	 */
+	static async connect(socketPath: string): Promise<RemoteProcessManager> {
+		const manager = new RemoteProcessManager();
+		await manager.open(socketPath);
+		return manager;
+	}
+
+	private async open(socketPath: string): Promise<void> {
+		let resolveSnapshot: () => void = () => {};
+		const snapshotReceived = new Promise<void>((resolve) => {
+			resolveSnapshot = resolve;
+		});
+
+		this.socket = await Bun.connect<MessageChannel>({
+			unix: socketPath,
+			socket: {
+				open: (socket) => {
+					socket.data = createMessageChannel();
+				},
+				data: (socket, data) => {
+					for (const message of readMessages<DaemonMessage>(
+						socket.data,
+						data,
+					)) {
+						this.handleMessage(message);
+						if (message.type === "snapshot") {
+							resolveSnapshot();
+						}
+					}
+				},
+				drain: (socket) => flushMessages(socket),
+				close: () => this.handleClose(),
+				error: () => this.handleClose(),
+			},
+		});
+
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(
+				() => reject(new Error("Timed out waiting for the daemon")),
+				CONNECT_TIMEOUT,
+			);
+		});
+		try {
+			await Promise.race([snapshotReceived, timeout]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/**
+	 * Set a callback for when the connection to the daemon is lost
+	 * (not called after cleanup()).
+	 */
+	setOnDisconnect(callback: () => void): void {
+		this.onDisconnect = callback;
+	}
+
+	getTools(): ToolState[] {
+		return this.tools;
+	}
+
+	getTool(index: number): ToolState | undefined {
+		return this.tools[index];
+	}
+
+	getToolByName(name: string): { index: number; tool: ToolState } | undefined {
+		const index = this.tools.findIndex((t) => t.config.name === name);
+		const tool = this.tools[index];
+		if (!tool) return undefined;
+		return { index, tool };
+	}
+
+	subscribe(key: SubscriberKey, callback: ChangeCallback): () => void {
+		let callbacks = this.subscribers.get(key);
+		if (!callbacks) {
+			callbacks = new Set();
+			this.subscribers.set(key, callbacks);
+		}
+		callbacks.add(callback);
+
+		return () => {
+			callbacks?.delete(callback);
+			if (callbacks?.size === 0) {
+				this.subscribers.delete(key);
+			}
+		};
+	}
+
+	onLogLine(callback: LogLineCallback): () => void {
+		this.logLineListeners.add(callback);
+		return () => {
+			this.logLineListeners.delete(callback);
+		};
+	}
+
+	/** Called when the daemon reports a new process for a tool, before its output */
+	onToolStart(callback: ToolStartCallback): () => void {
+		this.toolStartListeners.add(callback);
+		return () => {
+			this.toolStartListeners.delete(callback);
+		};
+	}
+
+	async startTool(index: number): Promise<void> {
+		await this.send({ action: "start", index });
+	}
+
+	/** Start tools on the daemon - it waits for dependencies with its own health checks */
+	async startTools(
+		indices: number[],
+		_isToolReady: IsToolReadyCallback,
+	): Promise<void> {
+		await this.send({ action: "startTools", indices });
+	}
+
+	async startAllToolsWithDependencies(
+		isToolReady: IsToolReadyCallback,
+	): Promise<void> {
+		await this.startTools(
+			this.tools.map((_, i) => i),
+			isToolReady,
+		);
+	}
+
+	async stopTool(index: number): Promise<void> {
+		await this.send({ action: "stop", index });
+	}
+
+	async stopTools(indices: number[]): Promise<void> {
+		await this.send({ action: "stopTools", indices });
+	}
+
+	async restartTool(
+		index: number,
+		_isToolReady?: IsToolReadyCallback,
+	): Promise<void> {
+		await this.send({ action: "restart", index });
+	}
+
+	/**
+	 * Send input to a tool's stdin on the daemon.
+	 * @returns false if the tool isn't running
+	 */
+	sendInput(index: number, input: string): boolean {
+		if (this.tools[index]?.status !== "running") return false;
+		this.send({ action: "input", index, input }).catch(() => {
+			// The daemon logs input it could not write
+		});
+		return true;
+	}
+
+	/** pty tools have no terminal screen in attached clients */
+	resizeTerminal(_index: number, _cols: number, _rows: number): void {}
+
+	clearLogs(index: number): void {
+		this.send({ action: "clearLogs", index }).catch(() => {});
+	}
+
+	setWatchEnabled(index: number, enabled: boolean): void {
+		this.send({ action: "setWatchEnabled", index, enabled }).catch(() => {});
+	}
+
+	/**
+	 * Detach from the daemon. Its tools keep running.
+	 */
+	async cleanup(): Promise<void> {
+		this.isDetaching = true;
+		this.socket?.end();
+		this.socket = null;
+	}
+
+	/** Attached clients never shut the tools down themselves */
+	getIsShuttingDown(): boolean {
+		return false;
+	}
+
+	/**
+	 * Ask the daemon to stop all tools and exit.
+	 */
+	async shutdownDaemon(): Promise<void> {
+		await this.send({ action: "shutdown" });
+	}
+
+	private send(command: DaemonCommand): Promise<void> {
+		const socket = this.socket;
+		if (!socket) {
+			return Promise.reject(new Error("Not connected to the daemon"));
+		}
+
+		const id = this.nextCommandId++;
+		const message: ClientMessage = { type: "command", id, command };
+		return new Promise((resolve, reject) => {
+			this.pendingCommands.set(id, { resolve, reject });
+			writeMessage(socket, message);
+		});
+	}
+
+	private handleMessage(message: DaemonMessage): void {
+		switch (message.type) {
+			case "snapshot":
+				this.tools = message.tools.map((tool) => this.toToolState(tool));
+				for (let i = 0; i < this.tools.length; i++) {
+					this.notifyChange(i);
+				}
+				break;
+			case "status": {
+				const tool = this.tools[message.index];
+				if (!tool) return;
+				// A new start time is a new process, even if no other status was seen between them
+				const started =
+					message.status.status === "running" &&
+					message.status.startTime !== tool.startTime;
+				// Fields missing from the status were cleared on the daemon
+				for (const key of Object.keys(tool) as (keyof ToolState)[]) {
+					if (
+						key !== "config" &&
+						key !== "logs" &&
+						key !== "logVersion" &&
+						key !== "logTrimCount" &&
+						key !== "process" &&
+						!(key in message.status)
+					) {
+						delete tool[key];
+					}
+				}
+				Object.assign(tool, message.status);
+				this.notifyChange(message.index);
+				if (started) {
+					for (const listener of this.toolStartListeners) {
+						listener(message.index, tool.config.name);
+					}
+				}
+				break;
+			}
+			case "logs": {
+				const tool = this.tools[message.index];
+				if (!tool) return;
+				const { delta } = message;
+				tool.logs = applyLogDelta(tool.logs, delta);
+				tool.logTrimCount += delta.drop;
+				tool.logVersion++;
+				this.notifyChange(message.index);
+
+				if (this.logLineListeners.size > 0) {
+					for (const line of delta.lines) {
+						const text = line.segments.map((seg) => seg.text).join("");
+						for (const listener of this.logLineListeners) {
+							listener(message.index, tool.config.name, text);
+						}
+					}
+				}
+				break;
+			}
+			case "result": {
+				const pending = this.pendingCommands.get(message.id);
+				if (!pending) return;
+				this.pendingCommands.delete(message.id);
+				if (message.ok) {
+					pending.resolve();
+				} else {
+					pending.reject(new Error(message.error ?? "Command failed"));
+				}
+				break;
+			}
+		}
+	}
+
+	private toToolState(tool: RemoteToolState): ToolState {
+		return { ...tool, process: null };
+	}
+
+	private handleClose(): void {
+		this.socket = null;
+		for (const pending of this.pendingCommands.values()) {
+			pending.reject(new Error("Disconnected from the daemon"));
+		}
+		this.pendingCommands.clear();
+		if (!this.isDetaching) {
+			this.isDetaching = true;
+			this.onDisconnect?.();
+		}
+	}
+
+	private notifyChange(toolIndex: number): void {
+		for (const key of [toolIndex, "all"] as const) {
+			const callbacks = this.subscribers.get(key);
+			if (callbacks) {
+				for (const callback of callbacks) {
+					callback();
+				}
+			}
+		}
+	}
+}
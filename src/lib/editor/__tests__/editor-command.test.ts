@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { getEditorCommand, isTerminalEditor } from "../editor-command";
+
+const reference = {
+	file: "/work/my app/src/user.ts",
+	line: 42,
+	column: 7,
+	text: "src/user.ts:42:7",
+};
+
+describe("getEditorCommand", () => {
+	test("fills in a template, keeping paths with spaces as one argument", () => {
+		expect(
+			getEditorCommand(reference, "code  --goto {file}:{line}:{column}", {}),
+		).toEqual(["code", "--goto", "/work/my app/src/user.ts:42:7"]);
+	});
+
+	test("defaults the column to 1", () => {
+		expect(
+			getEditorCommand(
+				{ ...reference, column: undefined },
+				"idea --line {line} --column {column} {file}",
+				{},
+			),
+		).toEqual([
+			"idea",
+			"--line",
+			"42",
+			"--column",
+			"1",
+			"/work/my app/src/user.ts",
+		]);
+	});
+
+	test("prefers VISUAL over EDITOR", () => {
+		expect(
+			getEditorCommand(reference, undefined, {
+				VISUAL: "nvim",
+				EDITOR: "nano",
+			}),
+		).toEqual(["nvim", "+42", "/work/my app/src/user.ts"]);
+	});
+
+	test("uses the line options of known editors", () => {
+		expect(
+			getEditorCommand(reference, undefined, { EDITOR: "code -w" }),
+		).toEqual(["code", "-w", "--goto", "/work/my app/src/user.ts:42:7"]);
+		expect(
+			getEditorCommand(reference, undefined, {
+				EDITOR: "/usr/local/bin/webstorm",
+			}),
+		).toEqual([
+			"/usr/local/bin/webstorm",
+			"--line",
+			"42",
+			"--column",
+			"7",
+			"/work/my app/src/user.ts",
+		]);
+		expect(getEditorCommand(reference, undefined, { EDITOR: "gedit" })).toEqual(
+			["gedit", "/work/my app/src/user.ts"],
+		);
+	});
+
+	test("returns null without an editor", () => {
+		expect(getEditorCommand(reference, undefined, {})).toBeNull();
+	});
+});
+
+describe("isTerminalEditor", () => {
+	test("recognizes terminal editors by their binary name", () => {
+		expect(isTerminalEditor(["/usr/bin/vim", "+1", "a.ts"])).toBe(true);
+		expect(isTerminalEditor(["code", "--goto", "a.ts:1:1"])).toBe(false);
+	});
+});
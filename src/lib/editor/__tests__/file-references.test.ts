@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+	findFileReferences,
+	formatFileReference,
+	parseFileUrl,
+} from "../file-references";
+
+const cwd = "/work/app";
+const everyFile = () => true;
+
+describe("findFileReferences", () => {
+	test("resolves relative paths against the working directory", () => {
+		expect(
+			findFileReferences("Error in src/api/user.ts:42:7", cwd, everyFile),
+		).toEqual([
+			{
+				file: "/work/app/src/api/user.ts",
+				line: 42,
+				column: 7,
+				text: "src/api/user.ts:42:7",
+			},
+		]);
+	});
+
+	test("keeps absolute paths and handles stack trace frames", () => {
+		const [reference] = findFileReferences(
+			"    at handler (/srv/lib/router.js:118:15)",
+			cwd,
+			everyFile,
+		);
+		expect(reference).toMatchObject({
+			file: "/srv/lib/router.js",
+			line: 118,
+			column: 15,
+		});
+	});
+
+	test("unwraps file:// URLs", () => {
+		const [reference] = findFileReferences(
+			"at file:///srv/app/index.mjs:3:9",
+			cwd,
+			everyFile,
+		);
+		expect(reference).toEqual({
+			file: "/srv/app/index.mjs",
+			line: 3,
+			column: 9,
+			text: "/srv/app/index.mjs:3:9",
+		});
+	});
+
+	test("supports the tsc (line,column) form and missing columns", () => {
+		const references = findFileReferences(
+			"src/a.ts(10,5): error TS2304 - see ./lib/b.py:3 and ../c.rs:8:1",
+			cwd,
+			everyFile,
+		);
+		expect(references.map(formatFileReference)).toEqual([
+			"/work/app/src/a.ts:10:5",
+			"/work/app/lib/b.py:3",
+			"/work/c.rs:8:1",
+		]);
+	});
+
+	test("expands the home directory", () => {
+		const [reference] = findFileReferences("~/notes.md:2", cwd, everyFile);
+		expect(reference?.file).toBe(join(homedir(), "notes.md"));
+	});
+
+	test("ignores URLs, times and versions", () => {
+		expect(
+			findFileReferences(
+				"GET http://localhost:5173/src/main.ts:10 at 12:30:45 with v1.2.3:4",
+				cwd,
+				everyFile,
+			),
+		).toEqual([]);
+	});
+
+	test("only returns files that exist", () => {
+		const references = findFileReferences(
+			"example.com:443 and src/index.ts:1",
+			cwd,
+			(path) => path === "/work/app/src/index.ts",
+		);
+		expect(references.map((r) => r.text)).toEqual(["src/index.ts:1"]);
+	});
+});
+
+describe("parseFileUrl", () => {
+	test("opens local files at their first line", () => {
+		expect(parseFileUrl("file:///tmp/my%20report.html", "report")).toEqual({
+			file: "/tmp/my report.html",
+			line: 1,
+			text: "report",
+		});
+		expect(parseFileUrl("file://localhost/tmp/a.ts", "a.ts")?.file).toBe(
+			"/tmp/a.ts",
+		);
+	});
+
+	test("ignores other URLs and files on other hosts", () => {
+		expect(parseFileUrl("https://example.com/a.ts", "a.ts")).toBeNull();
+		expect(parseFileUrl("file://server/share/run.exe", "run")).toBeNull();
+	});
+});
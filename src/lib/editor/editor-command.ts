@@ -0,0 +1,96 @@
+import { basename } from "node:path";
+import type { FileReference } from "./file-references";
+
+/** Editors that run in the terminal, so corsa hands the terminal over while they run */
+const TERMINAL_EDITORS = new Set([
+	"vi",
+	"vim",
+	"nvim",
+	"nano",
+	"micro",
+	"emacs",
+	"hx",
+	"helix",
+	"kak",
+	"joe",
+	"ne",
+]);
+
+/** Editors that take a file:line:column argument after --goto */
+const GOTO_EDITORS = new Set(["code", "code-insiders", "codium", "cursor"]);
+
+/** JetBrains IDE launchers, which take --line and --column options */
+const JETBRAINS_EDITORS = new Set([
+	"idea",
+	"webstorm",
+	"pycharm",
+	"goland",
+	"rubymine",
+	"phpstorm",
+	"clion",
+	"rider",
+	"rustrover",
+]);
+
+/**
+ * Build the command that opens a file reference in an editor.
+ *
+ * A template (`ui.editorCommand`) is split into arguments at spaces, then
+ * `{file}`, `{line}` and `{column}` are replaced in each argument, so paths with
+ * spaces stay one argument. Without a template, `$VISUAL` or `$EDITOR` is used
+ * with the line option of known editors (VS Code, JetBrains IDEs, vim-style `+line`).
+ *
+ * @returns The command and its arguments, or null when no editor is configured
+ */
+export function getEditorCommand(
+	reference: FileReference,
+	template?: string,
+	env: Record<string, string | undefined> = process.env,
+): string[] | null {
+	const { file, line } = reference;
+	const column = reference.column ?? 1;
+
+	if (template) {
+		return template
+			.split(/\s+/)
+			.filter(Boolean)
+			.map((arg) =>
+				arg
+					.replaceAll("{file}", file)
+					.replaceAll("{line}", String(line))
+					.replaceAll("{column}", String(column)),
+			);
+	}
+
+	const editor = (env.VISUAL || env.EDITOR)?.split(/\s+/).filter(Boolean);
+	const [command, ...args] = editor ?? [];
+	if (!command) return null;
+
+	const name = basename(command);
+	if (GOTO_EDITORS.has(name)) {
+		return [command, ...args, "--goto", `${file}:${line}:${column}`];
+	}
+	if (JETBRAINS_EDITORS.has(name)) {
+		return [
+			command,
+			...args,
+			"--line",
+			String(line),
+			"--column",
+			String(column),
+			file,
+		];
+	}
+	if (name === "subl" || name === "zed") {
+		return [command, ...args, `${file}:${line}:${column}`];
+	}
+	if (TERMINAL_EDITORS.has(name)) {
+		return [command, ...args, `+${line}`, file];
+	}
+	return [command, ...args, file];
+}
+
+/** Whether an editor command runs in the terminal (and needs it while running) */
+export function isTerminalEditor(command: string[]): boolean {
+	return TERMINAL_EDITORS.has(basename(command[0] ?? ""));
+}
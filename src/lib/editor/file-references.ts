@@ -0,0 +1,72 @@
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/** A file position mentioned in a log line, e.g. by a stack trace or compiler error */
+export interface FileReference {
+	/** Absolute path of the file */
+	file: string;
+	line: number;
+	column?: number;
+	/** The reference as written in the log */
+	text: string;
+}
+
+// path:line[:column] (stack traces, eslint, cargo, go) or path(line,column) (tsc).
+// The path needs an extension; a path right after "/", ":" or a word is part of a URL or
+// a longer word, so it doesn't count. file:// URLs (Node stack traces) are unwrapped.
+const FILE_REFERENCE_REGEX =
+	/(?<![\w/.~@+:-])(?:file:\/\/)?((?:[A-Za-z]:[\\/]|~\/|\.{1,2}\/|\/)?(?:[\w.@+~-]+[\\/])*[\w.@+-]*\w\.[A-Za-z]\w*)(?::(\d+)(?::(\d+))?|\((\d+),(\d+)\))/g;
+
+/**
+ * Find the file references in a line of output, resolved against the directory
+ * the tool runs in. Only references to existing files are returned.
+ * @param cwd - Directory relative paths are resolved against
+ * @param fileExists - Checks whether a resolved path exists
+ */
+export function findFileReferences(
+	text: string,
+	cwd: string,
+	fileExists: (path: string) => boolean = existsSync,
+): FileReference[] {
+	const references: FileReference[] = [];
+	for (const match of text.matchAll(FILE_REFERENCE_REGEX)) {
+		const [reference, path = "", line, column, parenLine, parenColumn] = match;
+		const file = path.startsWith("~/")
+			? resolve(homedir(), path.slice(2))
+			: isAbsolute(path)
+				? path
+				: resolve(cwd, path);
+		if (!fileExists(file)) continue;
+
+		const columnText = column ?? parenColumn;
+		references.push({
+			file,
+			line: Number(line ?? parenLine),
+			...(columnText !== undefined && { column: Number(columnText) }),
+			text: reference.startsWith("file://") ? reference.slice(7) : reference,
+		});
+	}
+	return references;
+}
+
+/**
+ * Get the file a file:// hyperlink points to, to open it at its first line.
+ * @param text - The link text shown in the log
+ * @returns null for other URLs and for files on other hosts
+ */
+export function parseFileUrl(href: string, text: string): FileReference | null {
+	if (!href.startsWith("file:")) return null;
+	try {
+		return { file: fileURLToPath(href), line: 1, text };
+	} catch {
+		return null;
+	}
+}
+
+/** Format a reference as an absolute file:line[:column] */
+export function formatFileReference(reference: FileReference): string {
+	const column = reference.column !== undefined ? `:${reference.column}` : "";
+	return `${reference.file}:${reference.line}${column}`;
+}
@@ -0,0 +1,7 @@
+export { getEditorCommand, isTerminalEditor } from "./editor-command";
+export {
+	type FileReference,
+	findFileReferences,
+	formatFileReference,
+	parseFileUrl,
+} from "./file-references";
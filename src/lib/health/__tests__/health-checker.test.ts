@@ -1,6 +1,10 @@
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
 import type { ToolConfig } from "../../../types";
-import { HealthChecker } from "../health-checker";
+import {
+	HealthChecker,
+	isHealthCheckerNeeded,
+	parseTcpTarget,
+} from "../health-checker";
 
 /**
  * Create a mock fetch function that satisfies TypeScript's fetch type
@@ -437,4 +441,169 @@ describe("HealthChecker", () => {
 			expect(checker.getHealthState("tool1")?.status).toBe("unhealthy");
 		});
 	});
+
+	describe("tcp probe", () => {
+		test("should mark tool as healthy when the port accepts connections", async () => {
+			const server = Bun.listen({
+				hostname: "127.0.0.1",
+				port: 0,
+				socket: { data() {} },
+			});
+
+			try {
+				checker.initialize([
+					{
+						name: "db",
+						command: "cmd",
+						healthCheck: { tcp: `127.0.0.1:${server.port}` },
+					},
+				]);
+				await checker.checkNow("db");
+
+				expect(checker.getHealthState("db")?.status).toBe("healthy");
+			} finally {
+				server.stop(true);
+			}
+		});
+
+		test("should count a refused connection as a failure", async () => {
+			// Grab a free port, then close it so nothing is listening
+			const server = Bun.listen({
+				hostname: "127.0.0.1",
+				port: 0,
+				socket: { data() {} },
+			});
+			const port = server.port;
+			server.stop(true);
+
+			checker.initialize([
+				{
+					name: "db",
+					command: "cmd",
+					healthCheck: { tcp: `127.0.0.1:${port}`, retries: 1 },
+				},
+			]);
+			await checker.checkNow("db");
+
+			expect(checker.getHealthState("db")?.status).toBe("unhealthy");
+		});
+	});
+
+	describe("command probe", () => {
+		test("should mark tool as healthy when the command exits with 0", async () => {
+			checker.initialize([
+				{ name: "queue", command: "cmd", healthCheck: { command: "true" } },
+			]);
+			await checker.checkNow("queue");
+
+			expect(checker.getHealthState("queue")?.status).toBe("healthy");
+		});
+
+		test("should count a non-zero exit as a failure", async () => {
+			checker.initialize([
+				{
+					name: "queue",
+					command: "cmd",
+					healthCheck: { command: "exit 1", retries: 2 },
+				},
+			]);
+			await checker.checkNow("queue");
+
+			const state = checker.getHealthState("queue");
+			expect(state?.status).toBe("starting");
+			expect(state?.failureCount).toBe(1);
+		});
+	});
+
+	describe("logPattern probe", () => {
+		const tools: ToolConfig[] = [
+			{
+				name: "worker",
+				command: "cmd",
+				healthCheck: { logPattern: "ready on port \\d+" },
+			},
+		];
+
+		test("should mark tool as healthy once a log line matches", () => {
+			const callback = mock(() => {});
+			checker.initialize(tools);
+			checker.onChange(callback);
+
+			checker.handleLogLine("worker", "starting up...");
+			expect(checker.getHealthState("worker")?.status).toBe("starting");
+
+			checker.handleLogLine("worker", "ready on port 8080");
+			expect(checker.getHealthState("worker")?.status).toBe("healthy");
+			expect(callback).toHaveBeenCalledTimes(1);
+		});
+
+		test("should ignore lines for other tools", () => {
+			checker.initialize(tools);
+			checker.handleLogLine("other", "ready on port 8080");
+
+			expect(checker.getHealthState("worker")?.status).toBe("starting");
+		});
+
+		test("should not be affected by checkNow", async () => {
+			checker.initialize(tools);
+			checker.handleLogLine("worker", "ready on port 8080");
+			await checker.checkNow("worker");
+
+			expect(checker.getHealthState("worker")?.status).toBe("healthy");
+		});
+
+		test("markUnhealthy should mark the tool unhealthy", () => {
+			checker.initialize(tools);
+			checker.handleLogLine("worker", "ready on port 8080");
+			checker.markUnhealthy("worker");
+
+			expect(checker.getHealthState("worker")?.status).toBe("unhealthy");
+		});
+	});
+
+	describe("parseTcpTarget", () => {
+		test("should parse host and port", () => {
+			expect(parseTcpTarget("localhost:5432")).toEqual({
+				hostname: "localhost",
+				port: 5432,
+			});
+			expect(parseTcpTarget("[::1]:6379")).toEqual({
+				hostname: "::1",
+				port: 6379,
+			});
+		});
+
+		test("should reject invalid targets", () => {
+			expect(parseTcpTarget("localhost")).toBeNull();
+			expect(parseTcpTarget(":5432")).toBeNull();
+			expect(parseTcpTarget("localhost:abc")).toBeNull();
+			expect(parseTcpTarget("localhost:70000")).toBeNull();
+		});
+	});
+
+	describe("isHealthCheckerNeeded", () => {
+		const checked: ToolConfig = {
+			name: "api",
+			command: "node",
+			healthCheck: { url: "http://localhost:3000/health" },
+		};
+		const unchecked: ToolConfig = { name: "worker", command: "node" };
+
+		test("should be needed for the home tab or dependencies", () => {
+			expect(isHealthCheckerNeeded({ home: { enabled: true } }, [])).toBe(true);
+			expect(
+				isHealthCheckerNeeded({}, [
+					checked,
+					{ ...unchecked, dependsOn: ["api"] },
+				]),
+			).toBe(true);
+			expect(isHealthCheckerNeeded({}, [checked, unchecked])).toBe(false);
+		});
+
+		test("should be needed for the MCP API when a tool has a health check", () => {
+			const mcp = { enabled: true };
+			expect(isHealthCheckerNeeded({ mcp }, [unchecked, checked])).toBe(true);
+			expect(isHealthCheckerNeeded({ mcp }, [unchecked])).toBe(false);
+		});
+	});
 });
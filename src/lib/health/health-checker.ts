@@ -1,4 +1,5 @@
 import type { HealthStatus, ToolConfig, ToolHealthState } from "../../types";
+import type { Config } from "../config";
 
 /** Default interval between health checks in milliseconds */
 const DEFAULT_INTERVAL = 3000;
@@ -6,7 +7,7 @@ const DEFAULT_INTERVAL = 3000;
 /** Default number of retries before declaring unhealthy */
 const DEFAULT_RETRIES = 3;
 
-/** Timeout for health check requests in milliseconds */
+/** Timeout for health check requests, connections and commands in milliseconds */
 const FETCH_TIMEOUT = 3000;
 
 export type HealthStateMap = Map<string, ToolHealthState>;
@@ -17,14 +18,123 @@ export type HealthChangeCallback = (
 ) => void;
 
 /**
- * HealthChecker manages periodic health checks for tools with configured health endpoints.
- * It tracks health status and supports immediate checks when process status changes.
+ * Parse a "host:port" TCP probe target.
+ * @returns The hostname and port, or null if the target is invalid
+ */
+export function parseTcpTarget(
+	target: string,
+): { hostname: string; port: number } | null {
+	const separator = target.lastIndexOf(":");
+	if (separator <= 0) return null;
+
+	// Allow bracketed IPv6 addresses like [::1]:5432
+	const hostname = target.slice(0, separator).replace(/^\[(.*)\]$/, "$1");
+	const port = Number(target.slice(separator + 1));
+	if (!Number.isInteger(port) || port < 1 || port > 65535) return null;
+
+	return { hostname, port };
+}
+
+/**
+ * Whether the UI needs a health checker: for the home tab, for dependency
+ * tracking, or to report health checks through the MCP API.
+ */
+export function isHealthCheckerNeeded(
+	config: Pick<Config, "home" | "mcp">,
+	tools: ToolConfig[],
+): boolean {
+	if (config.home?.enabled) return true;
+	if (tools.some((t) => t.dependsOn && t.dependsOn.length > 0)) return true;
+	return (config.mcp?.enabled ?? false) && tools.some((t) => t.healthCheck);
+}
+
+/**
+ * Open a TCP connection to a target and close it again.
+ * @returns true if the connection was accepted within the timeout
+ */
+async function probeTcp(target: string): Promise<boolean> {
+	const parsed = parseTcpTarget(target);
+	if (!parsed) return false;
+
+	let timeoutId: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<boolean>((resolve) => {
+		timeoutId = setTimeout(() => resolve(false), FETCH_TIMEOUT);
+	});
+	const connect = Bun.connect({
+		...parsed,
+		socket: { data() {} },
+	}).then(
+		(socket) => {
+			socket.end();
+			return true;
+		},
+		() => false,
+	);
+
+	const result = await Promise.race([connect, timeout]);
+	clearTimeout(timeoutId);
+	return result;
+}
+
+/**
+ * Run a shell command probe in the tool's working directory.
+ * @returns true if the command exited with code 0 within the timeout
+ */
+async function probeCommand(
+	tool: ToolConfig,
+	command: string,
+): Promise<boolean> {
+	try {
+		const proc = Bun.spawn(["sh", "-c", command], {
+			cwd: tool.cwd || process.cwd(),
+			env: { ...process.env, ...tool.env },
+			stdout: "ignore",
+			stderr: "ignore",
+		});
+		const timeoutId = setTimeout(() => proc.kill("SIGKILL"), FETCH_TIMEOUT);
+		const exitCode = await proc.exited;
+		clearTimeout(timeoutId);
+		return exitCode === 0;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Perform an HTTP GET request.
+ * @returns true if the response status was 2xx
+ */
+async function probeUrl(url: string): Promise<boolean> {
+	try {
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+		const response = await fetch(url, {
+			method: "GET",
+			signal: controller.signal,
+		});
+
+		clearTimeout(timeoutId);
+		return response.ok;
+	} catch {
+		// Network error, timeout, etc.
+		return false;
+	}
+}
+
+/**
+ * HealthChecker manages health checks for tools with a configured health probe.
+ * URL, TCP and command probes run periodically; log pattern probes are driven by
+ * log lines passed to handleLogLine. It tracks health status and supports immediate
+ * checks when process status changes.
  */
 export class HealthChecker {
 	private healthStates: HealthStateMap = new Map();
 	private intervals: Map<string, ReturnType<typeof setInterval>> = new Map();
 	private tools: ToolConfig[] = [];
 	private onChangeCallbacks: Set<HealthChangeCallback> = new Set();
+	/** Compiled log patterns by tool name */
+	private logPatterns: Map<string, RegExp> = new Map();
 
 	/**
 	 * Initialize the health checker with a list of tools.
@@ -36,6 +146,7 @@ export class HealthChecker {
 
 		// Clear existing health states to avoid stale data on reload
 		this.healthStates.clear();
+		this.logPatterns.clear();
 
 		// Initialize health state for tools with health checks
 		for (const tool of tools) {
@@ -44,16 +155,28 @@ export class HealthChecker {
 					status: "starting",
 					failureCount: 0,
 				});
+
+				if (tool.healthCheck.logPattern) {
+					try {
+						this.logPatterns.set(
+							tool.name,
+							new RegExp(tool.healthCheck.logPattern),
+						);
+					} catch {
+						// Invalid pattern - the config loader already warned about it
+					}
+				}
 			}
 		}
 	}
 
 	/**
 	 * Start health checks for all configured tools.
+	 * Log pattern probes are not polled - they are driven by handleLogLine.
 	 */
 	start(): void {
 		for (const tool of this.tools) {
-			if (tool.healthCheck) {
+			if (tool.healthCheck && !tool.healthCheck.logPattern) {
 				this.startToolHealthCheck(tool);
 			}
 		}
@@ -104,6 +227,45 @@ export class HealthChecker {
 		}
 	}
 
+	/**
+	 * Match a log line against the tool's logPattern probe.
+	 * Marks the tool healthy on the first matching line.
+	 */
+	handleLogLine(toolName: string, line: string): void {
+		const pattern = this.logPatterns.get(toolName);
+		const currentState = this.healthStates.get(toolName);
+		if (!pattern || !currentState || currentState.status === "healthy") {
+			return;
+		}
+
+		if (pattern.test(line)) {
+			const newState: ToolHealthState = {
+				status: "healthy",
+				failureCount: 0,
+				lastCheck: Date.now(),
+			};
+			this.healthStates.set(toolName, newState);
+			this.notifyChange(toolName, newState);
+		}
+	}
+
+	/**
+	 * Mark a tool as unhealthy.
+	 * Used for log pattern probes when the process exits, since nothing polls them.
+	 */
+	markUnhealthy(toolName: string): void {
+		const currentState = this.healthStates.get(toolName);
+		if (!currentState || currentState.status === "unhealthy") return;
+
+		const newState: ToolHealthState = {
+			status: "unhealthy",
+			failureCount: currentState.failureCount + 1,
+			lastCheck: Date.now(),
+		};
+		this.healthStates.set(toolName, newState);
+		this.notifyChange(toolName, newState);
+	}
+
 	/**
 	 * Reset health state for a tool to "starting".
 	 * Useful when a process restarts.
@@ -139,40 +301,37 @@ export class HealthChecker {
 	private async performHealthCheck(tool: ToolConfig): Promise<void> {
 		if (!tool.healthCheck) return;
 
-		const { url, retries = DEFAULT_RETRIES } = tool.healthCheck;
+		const { url, tcp, command, retries = DEFAULT_RETRIES } = tool.healthCheck;
 		const currentState = this.healthStates.get(tool.name);
 
 		if (!currentState) return;
 
-		try {
-			const controller = new AbortController();
-			const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
-
-			const response = await fetch(url, {
-				method: "GET",
-				signal: controller.signal,
-			});
-
-			clearTimeout(timeoutId);
+		let ok: boolean;
+		if (url) {
+			ok = await probeUrl(url);
+		} else if (tcp) {
+			ok = await probeTcp(tcp);
+		} else if (command) {
+			ok = await probeCommand(tool, command);
+		} else {
+			// Log pattern probes are driven by handleLogLine
+			return;
+		}
 
-			if (response.ok) {
-				// Success - mark as healthy
-				const newState: ToolHealthState = {
-					status: "healthy",
-					failureCount: 0,
-					lastCheck: Date.now(),
-				};
-				this.healthStates.set(tool.name, newState);
+		if (ok) {
+			// Success - mark as healthy
+			const newState: ToolHealthState = {
+				status: "healthy",
+				failureCount: 0,
+				lastCheck: Date.now(),
+			};
+			this.healthStates.set(tool.name, newState);
 
-				if (currentState.status !== "healthy") {
-					this.notifyChange(tool.name, newState);
-				}
-			} else {
-				// Non-2xx response - count as failure
-				this.handleFailure(tool.name, currentState, retries);
+			if (currentState.status !== "healthy") {
+				this.notifyChange(tool.name, newState);
 			}
-		} catch {
-			// Network error, timeout, etc. - count as failure
+		} else {
+			// Non-2xx response, refused connection, non-zero exit - count as failure
 			this.handleFailure(tool.name, currentState, retries);
 		}
 	}
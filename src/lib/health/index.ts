@@ -1,2 +1,6 @@
 export type { HealthChangeCallback, HealthStateMap } from "./health-checker";
-export { HealthChecker } from "./health-checker";
+export {
+	HealthChecker,
+	isHealthCheckerNeeded,
+	parseTcpTarget,
+} from "./health-checker";
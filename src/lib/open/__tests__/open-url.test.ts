@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { getOpenCommand, isOpenableUrl } from "../open-url";
+
+describe("getOpenCommand", () => {
+	test("uses open on macOS", () => {
+		expect(getOpenCommand("https://example.com", "darwin")).toEqual([
+			"open",
+			"https://example.com",
+		]);
+	});
+
+	test("uses xdg-open on Linux", () => {
+		expect(getOpenCommand("https://example.com", "linux")).toEqual([
+			"xdg-open",
+			"https://example.com",
+		]);
+	});
+
+	test("uses the URL handler on Windows, without a shell", () => {
+		expect(getOpenCommand("https://example.com/?a=1&calc", "win32")).toEqual([
+			"rundll32",
+			"url.dll,FileProtocolHandler",
+			"https://example.com/?a=1&calc",
+		]);
+	});
+
+	test("refuses hostile hrefs", () => {
+		for (const href of [
+			"javascript:alert(1)",
+			"file:///tmp/payload.desktop",
+			"ms-msdt:/id PCWDiagnostic /skip force",
+			"smb://attacker/share/run.exe",
+			"--help",
+			"not a url",
+		]) {
+			for (const platform of ["darwin", "linux", "win32"] as const) {
+				expect(getOpenCommand(href, platform)).toBeNull();
+			}
+			expect(isOpenableUrl(href)).toBe(false);
+		}
+	});
+});
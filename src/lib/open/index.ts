@@ -0,0 +1 @@
+export { getOpenCommand, isOpenableUrl, openUrl } from "./open-url";
@@ -0,0 +1,55 @@
+/**
+ * URL schemes that may be opened - others can run programs or reach other machines.
+ * Files (which the default app might run) open in the editor instead.
+ */
+const OPENABLE_PROTOCOLS = new Set(["http:", "https:"]);
+
+/**
+ * Check whether a URL is a web page that is safe to open.
+ * Log output is untrusted, so links found in it must pass this check.
+ */
+export function isOpenableUrl(url: string): boolean {
+	try {
+		return OPENABLE_PROTOCOLS.has(new URL(url).protocol);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Builds the command that opens a URL with the system's default handler.
+ * @param url - The URL to open
+ * @param platform - The platform to build the command for (defaults to the current one)
+ * @returns The command, or null if the URL isn't an http(s) URL
+ */
+export function getOpenCommand(
+	url: string,
+	platform: NodeJS.Platform = process.platform,
+): string[] | null {
+	if (!isOpenableUrl(url)) return null;
+	if (platform === "darwin") return ["open", url];
+	// Unlike `cmd /c start`, this doesn't pass the URL through a shell
+	if (platform === "win32") {
+		return ["rundll32", "url.dll,FileProtocolHandler", url];
+	}
+	return ["xdg-open", url];
+}
+
+/**
+ * Open a URL in the default browser.
+ * URLs with other schemes are ignored (see isOpenableUrl).
+ * Runs in the background; failures are ignored, as there is no terminal to report them to.
+ */
+export function openUrl(url: string): void {
+	const command = getOpenCommand(url);
+	if (!command) return;
+	try {
+		Bun.spawn(command, {
+			stdin: "ignore",
+			stdout: "ignore",
+			stderr: "ignore",
+		});
+	} catch {
+		// The opener isn't installed
+	}
+}
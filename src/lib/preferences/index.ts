@@ -1,7 +1,10 @@
 export {
+	getPaneLayout,
 	getPreferencesPath,
 	loadPreferences,
+	type PaneLayout,
 	type Preferences,
+	savePaneLayout,
 	savePreferences,
 	updatePreference,
 } from "./preferences";
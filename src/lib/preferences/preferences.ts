@@ -1,6 +1,17 @@
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
+import type { TimestampMode } from "../time";
+
+/**
+ * Split-pane layout of the log area.
+ */
+export interface PaneLayout {
+	/** "row" places panes side by side, "column" stacks them */
+	direction: "row" | "column";
+	/** Tool name shown in each pane (2-4 panes) */
+	panes: string[];
+}
 
 /**
  * User preferences that persist across sessions.
@@ -10,6 +21,10 @@ export interface Preferences {
 	theme?: string;
 	/** Whether to wrap long lines (default: true) */
 	lineWrap?: boolean;
+	/** Log timestamp gutter mode (default: "off") */
+	timestamps?: TimestampMode;
+	/** Split-pane layouts keyed by absolute config file path */
+	paneLayouts?: Record<string, PaneLayout>;
 }
 
 /**
@@ -27,6 +42,19 @@ export function getPreferencesPath(): string {
 	return path.join(configDir, "corsa", "preferences.json");
 }
 
+/**
+ * Checks that a parsed value is a valid pane layout.
+ */
+function isPaneLayout(value: unknown): value is PaneLayout {
+	if (typeof value !== "object" || value === null) return false;
+	const layout = value as Record<string, unknown>;
+	return (
+		(layout.direction === "row" || layout.direction === "column") &&
+		Array.isArray(layout.panes) &&
+		layout.panes.every((pane) => typeof pane === "string")
+	);
+}
+
 /**
  * Loads user preferences from the preferences file.
  * Returns default preferences if the file doesn't exist or is invalid.
@@ -63,6 +91,28 @@ export function loadPreferences(): Preferences {
 			prefs.lineWrap = obj.lineWrap;
 		}
 
+		if (
+			obj.timestamps === "off" ||
+			obj.timestamps === "absolute" ||
+			obj.timestamps === "relative"
+		) {
+			prefs.timestamps = obj.timestamps;
+		}
+
+		if (
+			typeof obj.paneLayouts === "object" &&
+			obj.paneLayouts !== null &&
+			!Array.isArray(obj.paneLayouts)
+		) {
+			const layouts: Record<string, PaneLayout> = {};
+			for (const [configPath, layout] of Object.entries(obj.paneLayouts)) {
+				if (isPaneLayout(layout)) {
+					layouts[configPath] = layout;
+				}
+			}
+			prefs.paneLayouts = layouts;
+		}
+
 		return prefs;
 	} catch {
 		// Return defaults if file doesn't exist or is invalid JSON
@@ -106,3 +156,32 @@ export function updatePreference<K extends keyof Preferences>(
 	current[key] = value;
 	savePreferences(current);
 }
+
+/**
+ * Saves the split-pane layout for a config file, or removes it when null.
+ */
+export function savePaneLayout(
+	configPath: string,
+	layout: PaneLayout | null,
+): void {
+	const current = loadPreferences();
+	const layouts = { ...current.paneLayouts };
+	const key = path.resolve(configPath);
+	if (layout) {
+		layouts[key] = layout;
+	} else {
+		delete layouts[key];
+	}
+	current.paneLayouts = layouts;
+	savePreferences(current);
+}
+
+/**
+ * Gets the saved split-pane layout for a config file, if any.
+ */
+export function getPaneLayout(
+	preferences: Preferences,
+	configPath: string,
+): PaneLayout | undefined {
+	return preferences.paneLayouts?.[path.resolve(configPath)];
+}
@@ -2,6 +2,7 @@ import { describe, expect, test } from "bun:test";
 import type { ToolConfig } from "../../../types";
 import { detectCircularDependencies } from "../../config/config";
 import {
+	getTransitiveDependents,
 	getValidDependencies,
 	resolveDependencies,
 } from "../dependency-resolver";
@@ -131,6 +132,34 @@ describe("getValidDependencies", () => {
 	});
 });
 
+describe("getTransitiveDependents", () => {
+	test("returns direct and transitive dependents in dependency order", () => {
+		const tools: ToolConfig[] = [
+			{ name: "web", command: "start", dependsOn: ["api"] },
+			{ name: "api", command: "start", dependsOn: ["database"] },
+			{ name: "worker", command: "start", dependsOn: ["database"] },
+			{ name: "database", command: "start" },
+			{ name: "docs", command: "start" },
+		];
+
+		expect(getTransitiveDependents(tools, "database")).toEqual([
+			"api",
+			"worker",
+			"web",
+		]);
+		expect(getTransitiveDependents(tools, "api")).toEqual(["web"]);
+		expect(getTransitiveDependents(tools, "docs")).toEqual([]);
+	});
+
+	test("ignores self-references", () => {
+		const tools: ToolConfig[] = [
+			{ name: "api", command: "start", dependsOn: ["api"] },
+		];
+
+		expect(getTransitiveDependents(tools, "api")).toEqual([]);
+	});
+});
+
 describe("detectCircularDependencies", () => {
 	test("returns null for no circular dependencies", () => {
 		const tools: ToolConfig[] = [
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createWatchMatcher, FileWatcher } from "../file-watcher";
+
+describe("createWatchMatcher", () => {
+	test("matches all files by default", () => {
+		const matches = createWatchMatcher();
+		expect(matches("main.go")).toBe(true);
+		expect(matches("src/deep/file.ts")).toBe(true);
+	});
+
+	test("requires a match against include patterns", () => {
+		const matches = createWatchMatcher(["src/**/*.ts"]);
+		expect(matches("src/foo.ts")).toBe(true);
+		expect(matches("src/a/b/foo.ts")).toBe(true);
+		expect(matches("src/foo.js")).toBe(false);
+		expect(matches("test/foo.ts")).toBe(false);
+	});
+
+	test("exclude patterns take precedence over include", () => {
+		const matches = createWatchMatcher(["**/*.ts"], ["**/*.test.ts"]);
+		expect(matches("src/foo.test.ts")).toBe(false);
+		expect(matches("src/foo.ts")).toBe(true);
+	});
+
+	test("always excludes node_modules and .git", () => {
+		const matches = createWatchMatcher();
+		expect(matches("node_modules/pkg/index.js")).toBe(false);
+		expect(matches("web/node_modules/pkg/index.js")).toBe(false);
+		expect(matches(".git/HEAD")).toBe(false);
+	});
+
+	test("empty include list falls back to all files", () => {
+		expect(createWatchMatcher([])("foo.py")).toBe(true);
+	});
+
+	test("normalizes Windows path separators", () => {
+		expect(createWatchMatcher(["src/**/*.ts"])("src\\foo.ts")).toBe(true);
+	});
+});
+
+describe("FileWatcher", () => {
+	let dir: string;
+	let watcher: FileWatcher | null = null;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "corsa-watch-"));
+		await mkdir(join(dir, "src"));
+	});
+
+	afterEach(async () => {
+		watcher?.stop();
+		watcher = null;
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	test("reports matching changes once after the debounce window", async () => {
+		const batches: string[][] = [];
+		watcher = new FileWatcher(
+			dir,
+			{ include: ["src/**/*.ts"], debounce: 50 },
+			(paths) => batches.push(paths),
+			(error) => {
+				throw error;
+			},
+		);
+		watcher.start();
+
+		await writeFile(join(dir, "src", "a.ts"), "a");
+		await writeFile(join(dir, "src", "b.ts"), "b");
+		await writeFile(join(dir, "notes.md"), "ignored");
+		await new Promise((resolve) => setTimeout(resolve, 300));
+
+		expect(batches).toHaveLength(1);
+		expect(batches[0]?.sort()).toEqual(["src/a.ts", "src/b.ts"]);
+	});
+
+	test("stop discards pending changes", async () => {
+		const batches: string[][] = [];
+		watcher = new FileWatcher(
+			dir,
+			{ debounce: 100 },
+			(paths) => batches.push(paths),
+			(error) => {
+				throw error;
+			},
+		);
+		watcher.start();
+
+		await writeFile(join(dir, "src", "a.ts"), "a");
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		watcher.stop();
+		await new Promise((resolve) => setTimeout(resolve, 200));
+
+		expect(batches).toHaveLength(0);
+	});
+});
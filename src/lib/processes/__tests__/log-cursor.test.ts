@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import type { LogLine } from "../../../types";
+import { createLogCursor, readLogChanges } from "../log-cursor";
+
+function line(text: string): LogLine {
+	return { segments: [{ text }], timestamp: 0 };
+}
+
+describe("readLogChanges", () => {
+	const a = line("a");
+	const b = line("b");
+	const c = line("c");
+
+	test("returns null when nothing changed", () => {
+		const tool = { logs: [a, b], logTrimCount: 0 };
+		expect(readLogChanges(createLogCursor(tool), tool)).toBeNull();
+	});
+
+	test("reads only appended lines", () => {
+		const tool = { logs: [a], logTrimCount: 0 };
+		const cursor = createLogCursor(tool);
+		tool.logs.push(b, c);
+
+		const changes = readLogChanges(cursor, tool);
+		expect(changes).toMatchObject({
+			removed: 0,
+			replacedLast: false,
+			lines: [b, c],
+		});
+		expect(changes?.cursor).toEqual({ start: 0, end: 3, last: c });
+	});
+
+	test("reads a replaced last line before new lines", () => {
+		const tool = { logs: [a, b], logTrimCount: 0 };
+		const cursor = createLogCursor(tool);
+		const b2 = line("b2");
+		tool.logs[1] = b2;
+		tool.logs.push(c);
+
+		expect(readLogChanges(cursor, tool)).toMatchObject({
+			removed: 0,
+			replacedLast: true,
+			lines: [b2, c],
+		});
+	});
+
+	test("counts lines trimmed from the front", () => {
+		const tool = { logs: [a, b], logTrimCount: 0 };
+		const cursor = createLogCursor(tool);
+		tool.logs = [b, c];
+		tool.logTrimCount = 1;
+
+		expect(readLogChanges(cursor, tool)).toMatchObject({
+			removed: 1,
+			replacedLast: false,
+			lines: [c],
+		});
+	});
+
+	test("reads everything after the logs were cleared", () => {
+		const tool = { logs: [a, b], logTrimCount: 0 };
+		const cursor = createLogCursor(tool);
+		tool.logs = [c];
+		tool.logTrimCount = 2;
+
+		expect(readLogChanges(cursor, tool)).toMatchObject({
+			removed: 2,
+			replacedLast: false,
+			lines: [c],
+		});
+	});
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { getToolLogDir, LogFileWriter } from "../log-file";
+
+describe("getToolLogDir", () => {
+	test("uses a subdirectory per tool", () => {
+		expect(getToolLogDir("/var/logs", "api")).toBe("/var/logs/api");
+	});
+
+	test("sanitizes tool names", () => {
+		expect(getToolLogDir("/var/logs", "web app/dev")).toBe(
+			"/var/logs/web_app_dev",
+		);
+	});
+});
+
+describe("LogFileWriter", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "corsa-logs-"));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	test("writes lines to a file named after the run start", async () => {
+		const writer = new LogFileWriter("api", { dir });
+		writer.open();
+		writer.write("first");
+		writer.write("\x1b[31msecond\x1b[0m");
+		writer.close();
+
+		const path = writer.path ?? "";
+		expect(path.startsWith(join(dir, "api"))).toBe(true);
+		expect(basename(path)).toMatch(/^\d{4}-\d{2}-\d{2}T[\d-]+Z\.log$/);
+		expect(await readFile(path, "utf-8")).toBe(
+			"first\n\x1b[31msecond\x1b[0m\n",
+		);
+	});
+
+	test("continues in a new part file when maxFileSize is exceeded", async () => {
+		const writer = new LogFileWriter("api", { dir, maxFileSize: 10 });
+		writer.open();
+		writer.write("12345678"); // 9 bytes
+		writer.write("abc"); // would exceed 10 bytes - rotates
+		writer.close();
+
+		const files = (await readdir(join(dir, "api"))).sort();
+		expect(files).toHaveLength(2);
+		const part = files.find((f) => f.endsWith(".1.log"));
+		expect(part).toBeDefined();
+		expect(await readFile(join(dir, "api", part ?? ""), "utf-8")).toBe("abc\n");
+	});
+
+	test("keeps only the newest maxFiles files", async () => {
+		for (let i = 0; i < 4; i++) {
+			const writer = new LogFileWriter("api", { dir, maxFiles: 2 });
+			writer.open();
+			writer.write(`run ${i}`);
+			writer.close();
+			// Distinct run timestamps
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		}
+
+		const files = (await readdir(join(dir, "api"))).sort();
+		expect(files).toHaveLength(2);
+		const contents = await Promise.all(
+			files.map((f) => readFile(join(dir, "api", f), "utf-8")),
+		);
+		expect(contents).toEqual(["run 2\n", "run 3\n"]);
+	});
+
+	test("writes only the final version of a line replaced in place", async () => {
+		const writer = new LogFileWriter("api", { dir });
+		writer.open();
+		writer.write("start");
+		writer.write("10%", true);
+		writer.write("50%", true);
+		writer.write("100%", true);
+		writer.write("done");
+		writer.write("again", true);
+		writer.close();
+
+		expect(await readFile(writer.path ?? "", "utf-8")).toBe(
+			"start\n100%\ndone\nagain\n",
+		);
+	});
+
+	test("write is a no-op after close", () => {
+		const writer = new LogFileWriter("api", { dir });
+		writer.open();
+		writer.close();
+		expect(() => writer.write("ignored")).not.toThrow();
+		expect(() => writer.close()).not.toThrow();
+	});
+});
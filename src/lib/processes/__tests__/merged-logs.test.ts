@@ -0,0 +1,234 @@
+import { describe, expect, test } from "bun:test";
+import type { LogLine, ToolState } from "../../../types";
+import {
+	ALL_LOGS_TAB_NAME,
+	createAllLogsTool,
+	getToolBadgeColorIndex,
+	MergedLogBuffer,
+	mergeToolLogs,
+} from "../merged-logs";
+
+function line(text: string, timestamp: number, isStderr?: boolean): LogLine {
+	return { segments: [{ text }], timestamp, isStderr };
+}
+
+function createMockTool(
+	name: string,
+	logs: LogLine[],
+	overrides: Partial<ToolState> = {},
+): ToolState {
+	return {
+		config: { name, command: "echo" },
+		process: null,
+		logs,
+		status: "stopped",
+		exitCode: null,
+		logTrimCount: 0,
+		logVersion: logs.length,
+		...overrides,
+	};
+}
+
+const plainText = (logLine: LogLine) =>
+	logLine.segments.map((seg) => seg.text).join("");
+
+describe("mergeToolLogs", () => {
+	test("interleaves lines from all tools by arrival time", () => {
+		const tools = [
+			createMockTool("web", [line("GET /", 100), line("200 OK", 400)]),
+			createMockTool("api", [line("handling", 200), line("done", 300)]),
+		];
+
+		expect(mergeToolLogs(tools).map(plainText)).toEqual([
+			"web GET /",
+			"api handling",
+			"api done",
+			"web 200 OK",
+		]);
+	});
+
+	test("keeps tool order for lines received at the same time", () => {
+		const tools = [
+			createMockTool("a", [line("a1", 100), line("a2", 100)]),
+			createMockTool("b", [line("b1", 100)]),
+		];
+
+		expect(mergeToolLogs(tools).map(plainText)).toEqual([
+			"a a1",
+			"a a2",
+			"b b1",
+		]);
+	});
+
+	test("pads badges to the longest included tool name", () => {
+		const tools = [
+			createMockTool("db", [line("ready", 100)]),
+			createMockTool("worker", [line("polling", 200)]),
+		];
+
+		const merged = mergeToolLogs(tools);
+		expect(merged[0]?.segments[0]?.text).toBe("db    ");
+		expect(merged[1]?.segments[0]?.text).toBe("worker");
+	});
+
+	test("colors badges by tool position and keeps line metadata", () => {
+		const tools = [
+			createMockTool("web", [line("ok", 100)]),
+			createMockTool("api", [line("boom", 200, true)]),
+		];
+
+		const merged = mergeToolLogs(tools);
+		expect(merged[0]?.segments[0]?.colorIndex).toBe(getToolBadgeColorIndex(0));
+		expect(merged[1]?.segments[0]?.colorIndex).toBe(getToolBadgeColorIndex(1));
+		expect(merged[1]?.isStderr).toBe(true);
+		expect(merged[1]?.timestamp).toBe(200);
+	});
+
+	test("shows structured lines as text behind the badge", () => {
+		const structuredLine: LogLine = {
+			...line('{"level":"warn","msg":"slow"}', 100),
+			structured: { level: "warn", message: "slow", fields: [] },
+			level: "warn",
+		};
+
+		const [merged] = mergeToolLogs([createMockTool("api", [structuredLine])]);
+		expect(merged?.structured).toBeUndefined();
+		expect(merged?.level).toBe("warn");
+		expect(merged && plainText(merged)).toBe(
+			'api {"level":"warn","msg":"slow"}',
+		);
+	});
+
+	test("leaves out excluded tools", () => {
+		const tools = [
+			createMockTool("web", [line("GET /", 100)]),
+			createMockTool("api", [line("handling", 200)]),
+		];
+
+		expect(mergeToolLogs(tools, new Set(["web"])).map(plainText)).toEqual([
+			"api handling",
+		]);
+		expect(mergeToolLogs(tools, new Set(["web", "api"]))).toEqual([]);
+	});
+});
+
+describe("getToolBadgeColorIndex", () => {
+	test("cycles through the badge colors", () => {
+		expect(getToolBadgeColorIndex(0)).not.toBe(getToolBadgeColorIndex(1));
+		expect(getToolBadgeColorIndex(6)).toBe(getToolBadgeColorIndex(0));
+	});
+});
+
+describe("MergedLogBuffer", () => {
+	const excluded = new Set<string>();
+
+	test("appends new lines without merging earlier ones again", () => {
+		const web = createMockTool("web", [line("GET /", 100)]);
+		const api = createMockTool("api", [line("handling", 200)]);
+		const tools = [web, api];
+		const buffer = new MergedLogBuffer(100);
+		buffer.update(tools, excluded);
+		const [first] = buffer.logs;
+
+		api.logs.push(line("done", 300));
+		web.logs.push(line("200 OK", 300));
+		buffer.update([...tools], excluded);
+
+		expect(buffer.logs.map(plainText)).toEqual([
+			"web GET /",
+			"api handling",
+			"web 200 OK",
+			"api done",
+		]);
+		expect(buffer.logs[0]).toBe(first as LogLine);
+		expect(buffer.trimCount).toBe(0);
+	});
+
+	test("replaces a progress line in place", () => {
+		const web = createMockTool("web", [line("10%", 100)]);
+		const api = createMockTool("api", [line("ready", 200)]);
+		const buffer = new MergedLogBuffer(100);
+		buffer.update([web, api], excluded);
+		const version = buffer.version;
+
+		web.logs[0] = line("50%", 300);
+		buffer.update([web, api], excluded);
+
+		expect(buffer.logs.map(plainText)).toEqual(["web 50%", "api ready"]);
+		expect(buffer.version).toBeGreaterThan(version);
+	});
+
+	test("trims itself and counts the trimmed lines", () => {
+		const web = createMockTool("web", [line("a", 100)]);
+		const buffer = new MergedLogBuffer(2);
+		buffer.update([web], excluded);
+
+		web.logs.push(line("b", 200), line("c", 300));
+		buffer.update([web], excluded);
+
+		expect(buffer.logs.map(plainText)).toEqual(["web b", "web c"]);
+		expect(buffer.trimCount).toBe(1);
+	});
+
+	test("keeps lines trimmed from a tool's own logs", () => {
+		const web = createMockTool("web", [line("a", 100), line("b", 200)]);
+		const buffer = new MergedLogBuffer(100);
+		buffer.update([web], excluded);
+
+		web.logs.shift();
+		web.logTrimCount++;
+		web.logs.push(line("c", 300));
+		buffer.update([web], excluded);
+
+		expect(buffer.logs.map(plainText)).toEqual(["web a", "web b", "web c"]);
+	});
+
+	test("merges again when a tool's logs are cleared or the tools change", () => {
+		const web = createMockTool("web", [line("a", 100)]);
+		const api = createMockTool("api", [line("b", 200)]);
+		const buffer = new MergedLogBuffer(100);
+		buffer.update([web, api], excluded);
+
+		web.logTrimCount += web.logs.length;
+		web.logs = [];
+		buffer.update([web, api], excluded);
+		expect(buffer.logs.map(plainText)).toEqual(["api b"]);
+		// Positions of earlier lines are no longer valid
+		expect(buffer.trimCount).toBe(2);
+
+		buffer.update([web, api], new Set(["api"]));
+		expect(buffer.logs).toEqual([]);
+		expect(buffer.trimCount).toBe(3);
+	});
+});
+
+describe("createAllLogsTool", () => {
+	const empty = { logs: [], trimCount: 0, version: 0 };
+
+	test("is running when any included tool is running", () => {
+		const tools = [
+			createMockTool("web", [], { status: "running", startTime: 500 }),
+			createMockTool("api", [], { status: "error", startTime: 100 }),
+		];
+
+		const tool = createAllLogsTool(tools, new Set(), empty);
+		expect(tool.config.name).toBe(ALL_LOGS_TAB_NAME);
+		expect(tool.status).toBe("running");
+		expect(tool.startTime).toBe(100);
+
+		const withoutWeb = createAllLogsTool(tools, new Set(["web"]), empty);
+		expect(withoutWeb.status).toBe("stopped");
+	});
+
+	test("takes the log counters of the merged buffer", () => {
+		const logs = [line("web ok", 100)];
+		const tool = createAllLogsTool([], new Set(), {
+			logs,
+			trimCount: 4,
+			version: 7,
+		});
+		expect(tool.logs).toBe(logs);
+		expect(tool.logTrimCount).toBe(4);
+		expect(tool.logVersion).toBe(7);
+	});
+});
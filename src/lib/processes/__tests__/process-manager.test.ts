@@ -1,4 +1,7 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import type { ToolConfig } from "../../../types";
 import { deletePidFile } from "../pid-file";
 import { ProcessManager } from "../process-manager";
@@ -26,6 +29,20 @@ async function waitForProcessExit(
 	}
 }
 
+/**
+ * Helper to poll until a condition holds (or the timeout elapses).
+ */
+async function waitForCondition(
+	condition: () => boolean,
+	timeoutMs: number = 2000,
+): Promise<void> {
+	const startTime = Date.now();
+	while (Date.now() - startTime < timeoutMs) {
+		if (condition()) return;
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+}
+
 describe("ProcessManager", () => {
 	let processManager: ProcessManager;
 
@@ -265,6 +282,121 @@ describe("ProcessManager", () => {
 		expect(hasOutput).toBe(true);
 	});
 
+	test("records a receive timestamp on each log line", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "printer", command: "echo", args: ["hello"] },
+		];
+
+		await processManager.initialize(configs);
+		const before = Date.now();
+		await processManager.startTool(0);
+		await waitForProcessExit(processManager, 0);
+
+		const logs = processManager.getTool(0)?.logs ?? [];
+		expect(logs.length).toBeGreaterThan(0);
+		for (const logLine of logs) {
+			expect(logLine.timestamp).toBeGreaterThanOrEqual(before);
+			expect(logLine.timestamp).toBeLessThanOrEqual(Date.now());
+		}
+	});
+
+	test("parses lines of tools with a structured logFormat", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "json",
+				command: "sh",
+				args: [
+					"-c",
+					`echo '{"level":"warn","msg":"slow query","ms":812}'; echo plain`,
+				],
+				logFormat: "json",
+			},
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await waitForProcessExit(processManager, 0);
+
+		const [jsonLine, plainLine] = processManager.getTool(0)?.logs ?? [];
+		expect(jsonLine?.structured).toEqual({
+			level: "warn",
+			message: "slow query",
+			fields: [["ms", "812"]],
+		});
+		expect(plainLine?.structured).toBeUndefined();
+		expect(jsonLine?.level).toBe("warn");
+	});
+
+	test("sendInput - writes to stdin and echoes the input", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "prompt",
+				command: "sh",
+				args: ["-c", 'read answer; echo "got $answer"'],
+			},
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+
+		expect(processManager.sendInput(0, "yes\n")).toBe(true);
+		await waitForProcessExit(processManager, 0);
+
+		const texts = (processManager.getTool(0)?.logs ?? []).map((l) =>
+			l.segments.map((seg) => seg.text).join(""),
+		);
+		expect(texts).toContain("[INPUT] yes");
+		expect(texts).toContain("got yes");
+	});
+
+	test("sendInput - returns false when the tool is not running", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "printer", command: "echo", args: ["hello"] },
+		];
+
+		await processManager.initialize(configs);
+		expect(processManager.sendInput(0, "ignored\n")).toBe(false);
+		expect(processManager.sendInput(5, "ignored\n")).toBe(false);
+	});
+
+	test("pty - runs the tool under a terminal and logs finished lines", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "tty",
+				command: "sh",
+				args: [
+					"-c",
+					'if [ -t 1 ]; then echo "is a tty"; fi; read x; stty size',
+				],
+				pty: true,
+			},
+		];
+
+		await processManager.initialize(configs);
+		processManager.resizeTerminal(0, 50, 10);
+		await processManager.startTool(0);
+
+		const tool = processManager.getTool(0);
+		expect(tool?.screen?.cols).toBe(50);
+		await waitForCondition(
+			() => tool?.screen?.getText().includes("is a tty") ?? false,
+		);
+
+		processManager.resizeTerminal(0, 60, 12);
+		expect(tool?.screen?.rows).toBe(12);
+		expect(processManager.sendInput(0, "go\n")).toBe(true);
+		await waitForProcessExit(processManager, 0);
+
+		const texts = (tool?.logs ?? []).map((l) =>
+			l.segments.map((seg) => seg.text).join(""),
+		);
+		expect(texts).toContain("is a tty");
+		expect(texts).toContain("12 60");
+		// The terminal echoes input itself
+		expect(texts.some((t) => t.startsWith("[INPUT]"))).toBe(false);
+		expect(tool?.screen).toBeUndefined();
+	});
+
 	test("maxLogLines limits log size", async () => {
 		const manager = new ProcessManager(5); // Very small limit
 		const configs: ToolConfig[] = [
@@ -364,12 +496,15 @@ describe("ProcessManager", () => {
 		await waitForProcessExit(processManager, 0);
 
 		const toolBefore = processManager.getTool(0);
-		expect(toolBefore?.logs?.length).toBeGreaterThan(0);
+		const lineCount = toolBefore?.logs?.length ?? 0;
+		expect(lineCount).toBeGreaterThan(0);
 
 		processManager.clearLogs(0);
 
 		const toolAfter = processManager.getTool(0);
 		expect(toolAfter?.logs).toEqual([]);
+		// Cleared lines count as trimmed so line positions keep increasing
+		expect(toolAfter?.logTrimCount).toBe(lineCount);
 	});
 
 	test("clearLogs - handles invalid index", async () => {
@@ -1014,4 +1149,503 @@ command = "echo"
 		const tools = processManager.getTools();
 		expect(tools).toHaveLength(1);
 	});
+
+	test("onLogLine - notifies listeners with plain text lines", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "printer",
+				command: "printf",
+				args: ["\\033[32mready\\033[0m\\n"],
+			},
+		];
+		const lines: Array<[number, string, string]> = [];
+
+		await processManager.initialize(configs);
+		const unsubscribe = processManager.onLogLine((index, name, line) => {
+			lines.push([index, name, line]);
+		});
+		await processManager.startTool(0);
+		await waitForProcessExit(processManager, 0);
+		await waitForCondition(() => lines.length >= 2);
+		unsubscribe();
+
+		expect(lines[0]).toEqual([0, "printer", "ready"]);
+	});
+
+	test("onToolStart - notifies listeners of every start before its output", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "printer", command: "echo", args: ["ready"] },
+		];
+		const events: string[] = [];
+
+		await processManager.initialize(configs);
+		const unsubscribeStart = processManager.onToolStart((index, name) => {
+			events.push(`start ${index} ${name}`);
+		});
+		const unsubscribeLines = processManager.onLogLine((_index, _name, line) => {
+			if (line === "ready") events.push(line);
+		});
+		for (let run = 0; run < 2; run++) {
+			await processManager.startTool(0);
+			await waitForProcessExit(processManager, 0);
+			await waitForCondition(() => events.length === 2 * (run + 1));
+		}
+		unsubscribeStart();
+		unsubscribeLines();
+
+		expect(events).toEqual([
+			"start 0 printer",
+			"ready",
+			"start 0 printer",
+			"ready",
+		]);
+	});
+
+	// =========================================================================
+	// Log Persistence Tests
+	// =========================================================================
+
+	test("logs - writes each run to its own file when logs.dir is set", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "corsa-logs-"));
+		try {
+			const configs: ToolConfig[] = [
+				{ name: "printer", command: "echo", args: ["hello"] },
+			];
+
+			await processManager.initialize(configs, { logs: { dir } });
+			await processManager.startTool(0);
+			await waitForProcessExit(processManager, 0);
+			await waitForCondition(
+				() => processManager.getTool(0)?.logs.length === 3,
+			);
+
+			const logFile = processManager.getTool(0)?.logFile;
+			expect(logFile).toBeDefined();
+			const content = await readFile(logFile ?? "", "utf-8");
+			expect(content).toContain("hello\n");
+			expect(content).toContain("[Process exited with code 0]");
+
+			// A second run gets a new file
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			await processManager.startTool(0);
+			await waitForProcessExit(processManager, 0);
+			expect(await readdir(join(dir, "printer"))).toHaveLength(2);
+		} finally {
+			await processManager.cleanup();
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("logs - writes all output and final progress lines before the exit line", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "corsa-logs-"));
+		try {
+			const configs: ToolConfig[] = [
+				{
+					name: "progress",
+					command: "sh",
+					args: [
+						"-c",
+						"printf '\\r10%%'; sleep 0.05; printf '\\r100%%\\n'; echo done",
+					],
+				},
+			];
+
+			await processManager.initialize(configs, { logs: { dir } });
+			await processManager.startTool(0);
+			await waitForProcessExit(processManager, 0);
+			await waitForCondition(() =>
+				(processManager.getTool(0)?.logs ?? []).some((log) =>
+					log.segments.some((seg) => seg.text.includes("[Process exited")),
+				),
+			);
+
+			const content = await readFile(
+				processManager.getTool(0)?.logFile ?? "",
+				"utf-8",
+			);
+			expect(content).toBe("100%\ndone\n\n[Process exited with code 0]\n");
+		} finally {
+			await processManager.cleanup();
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("logs - nothing is written without logs.dir", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "printer", command: "echo", args: ["hello"] },
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await waitForProcessExit(processManager, 0);
+
+		expect(processManager.getTool(0)?.logFile).toBeUndefined();
+	});
+
+	// =========================================================================
+	// Bulk Start/Stop Tests
+	// =========================================================================
+
+	test("startTools - starts selected tools in dependency order", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "app", command: "sleep", args: ["10"], dependsOn: ["db"] },
+			{ name: "db", command: "sleep", args: ["10"] },
+			{ name: "other", command: "sleep", args: ["10"] },
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTools([0, 1], (name) => {
+			const tool = processManager.getToolByName(name)?.tool;
+			return tool?.status === "running";
+		});
+
+		const db = processManager.getTool(1);
+		const app = processManager.getTool(0);
+		expect(db?.status).toBe("running");
+		expect(app?.status).toBe("running");
+		expect(processManager.getTool(2)?.status).toBe("stopped");
+		expect(db?.startTime).toBeLessThanOrEqual(app?.startTime ?? 0);
+	});
+
+	test("startTools - does not wait for stopped dependencies outside the set", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "app", command: "sleep", args: ["10"], dependsOn: ["db"] },
+			{ name: "db", command: "sleep", args: ["10"] },
+		];
+
+		await processManager.initialize(configs);
+		const started = Date.now();
+		await processManager.startTools([0], () => false, 5000);
+
+		expect(Date.now() - started).toBeLessThan(1000);
+		expect(processManager.getTool(0)?.status).toBe("running");
+		expect(processManager.getTool(1)?.status).toBe("stopped");
+	});
+
+	test("stopTools - stops dependents before their dependencies", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "app", command: "sleep", args: ["10"], dependsOn: ["db"] },
+			{ name: "db", command: "sleep", args: ["10"] },
+		];
+		const stopOrder: string[] = [];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await processManager.startTool(1);
+		const unsubscribe = processManager.subscribe("all", () => {
+			for (const tool of processManager.getTools()) {
+				if (
+					tool.status === "stopped" &&
+					!stopOrder.includes(tool.config.name)
+				) {
+					stopOrder.push(tool.config.name);
+				}
+			}
+		});
+		await processManager.stopTools([1, 0]);
+		unsubscribe();
+
+		expect(stopOrder).toEqual(["app", "db"]);
+	});
+
+	test("restartTool - restarts running dependents with restartWithDependencies", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "db", command: "sleep", args: ["10"] },
+			{ name: "api", command: "sleep", args: ["10"], dependsOn: ["db"] },
+			{ name: "web", command: "sleep", args: ["10"], dependsOn: ["api"] },
+			{ name: "other", command: "sleep", args: ["10"] },
+		];
+
+		await processManager.initialize(configs, {
+			restartWithDependencies: true,
+		});
+		for (let i = 0; i < configs.length; i++) {
+			await processManager.startTool(i);
+		}
+		const pidsBefore = processManager.getTools().map((t) => t.pid ?? -1);
+
+		await processManager.restartTool(0);
+
+		const tools = processManager.getTools();
+		for (let i = 0; i < 3; i++) {
+			expect(tools[i]?.status).toBe("running");
+			expect(tools[i]?.pid).not.toBe(pidsBefore[i]);
+		}
+		expect(tools[3]?.pid ?? -1).toBe(pidsBefore[3] ?? 0);
+		expect(tools[0]?.startTime ?? 0).toBeLessThanOrEqual(
+			tools[1]?.startTime ?? 0,
+		);
+		expect(tools[1]?.startTime ?? 0).toBeLessThanOrEqual(
+			tools[2]?.startTime ?? 0,
+		);
+	});
+
+	test("restartTool - leaves dependents alone by default", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "db", command: "sleep", args: ["10"] },
+			{ name: "api", command: "sleep", args: ["10"], dependsOn: ["db"] },
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await processManager.startTool(1);
+		const apiPid = processManager.getTool(1)?.pid ?? -1;
+
+		await processManager.restartTool(0);
+
+		expect(processManager.getTool(0)?.status).toBe("running");
+		expect(processManager.getTool(1)?.pid).toBe(apiPid);
+	});
+
+	// =========================================================================
+	// Restart Policy Tests
+	// =========================================================================
+
+	test("restart - never policy leaves a crashed tool stopped", async () => {
+		const configs: ToolConfig[] = [
+			{ name: "crash", command: "sh", args: ["-c", "exit 1"] },
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await waitForProcessExit(processManager, 0);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		const tool = processManager.getTool(0);
+		expect(tool?.status).toBe("error");
+		expect(tool?.nextRestartAt).toBeUndefined();
+		expect(tool?.restartCount ?? 0).toBe(0);
+	});
+
+	test("restart - on-failure restarts a crashed tool and keeps its logs", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "crash",
+				command: "sh",
+				args: ["-c", "echo boot; exit 1"],
+				restart: "on-failure",
+				maxRestarts: 1,
+				restartDelay: 20,
+			},
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await waitForCondition(() => processManager.getTool(0)?.crashLoop === true);
+
+		const tool = processManager.getTool(0);
+		expect(tool?.restartCount).toBe(1);
+		const text =
+			tool?.logs.map((l) => l.segments.map((seg) => seg.text).join("")) ?? [];
+		expect(text.filter((t) => t === "boot")).toHaveLength(2);
+		expect(text.some((t) => t.includes("[RESTART] Restarting in"))).toBe(true);
+		expect(text.some((t) => t.includes("crash loop"))).toBe(true);
+	});
+
+	test("restart - on-failure does not restart on clean exit", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "ok",
+				command: "sh",
+				args: ["-c", "exit 0"],
+				restart: "on-failure",
+				restartDelay: 20,
+			},
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await waitForProcessExit(processManager, 0);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		const tool = processManager.getTool(0);
+		expect(tool?.status).toBe("stopped");
+		expect(tool?.nextRestartAt).toBeUndefined();
+		expect(tool?.restartCount).toBe(0);
+	});
+
+	test("restart - always policy restarts on clean exit", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "ok",
+				command: "sh",
+				args: ["-c", "exit 0"],
+				restart: "always",
+				maxRestarts: 2,
+				restartDelay: 10,
+			},
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await waitForCondition(() => processManager.getTool(0)?.crashLoop === true);
+
+		expect(processManager.getTool(0)?.restartCount).toBe(2);
+	});
+
+	test("restart - schedules with backoff and stopTool cancels it", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "crash",
+				command: "sh",
+				args: ["-c", "exit 1"],
+				restart: "on-failure",
+				restartDelay: 60000,
+			},
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await waitForCondition(
+			() => processManager.getTool(0)?.nextRestartAt !== undefined,
+		);
+
+		const tool = processManager.getTool(0);
+		expect(tool?.nextRestartAt).toBeGreaterThan(Date.now());
+
+		await processManager.stopTool(0);
+		expect(tool?.nextRestartAt).toBeUndefined();
+		expect(
+			tool?.logs.some((l) =>
+				l.segments.some((seg) =>
+					seg.text.includes("Automatic restart cancelled"),
+				),
+			),
+		).toBe(true);
+	});
+
+	test("restart - manual stop does not trigger a restart", async () => {
+		const configs: ToolConfig[] = [
+			{
+				name: "server",
+				command: "sleep",
+				args: ["10"],
+				restart: "always",
+				restartDelay: 10,
+			},
+		];
+
+		await processManager.initialize(configs);
+		await processManager.startTool(0);
+		await processManager.stopTool(0);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		const tool = processManager.getTool(0);
+		expect(tool?.status).toBe("stopped");
+		expect(tool?.nextRestartAt).toBeUndefined();
+	});
+
+	test("restart - manual start resets crash loop state", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "corsa-crash-"));
+		try {
+			const configs: ToolConfig[] = [
+				{
+					name: "crash",
+					command: "sh",
+					// Crashes on the first run only, so the second doesn't set crashLoop again
+					args: [
+						"-c",
+						"if [ -f started ]; then sleep 5; else touch started; exit 1; fi",
+					],
+					cwd: dir,
+					restart: "on-failure",
+					maxRestarts: 0,
+				},
+			];
+
+			await processManager.initialize(configs);
+			await processManager.startTool(0);
+			await waitForCondition(
+				() => processManager.getTool(0)?.crashLoop === true,
+			);
+			expect(processManager.getTool(0)?.crashLoop).toBe(true);
+
+			await processManager.startTool(0);
+			expect(processManager.getTool(0)?.crashLoop).toBeUndefined();
+			expect(processManager.getTool(0)?.restartCount).toBe(0);
+		} finally {
+			await processManager.cleanup();
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	// =========================================================================
+	// File Watching Tests
+	// =========================================================================
+
+	test("watch - restarts a running tool when a matching file changes", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "corsa-watch-"));
+		try {
+			const configs: ToolConfig[] = [
+				{
+					name: "watched",
+					command: "sleep",
+					args: ["10"],
+					cwd: dir,
+					watch: { include: ["**/*.ts"], debounce: 20 },
+				},
+			];
+
+			await processManager.initialize(configs);
+			expect(processManager.getTool(0)?.watchEnabled).toBe(true);
+			await processManager.startTool(0);
+			const firstPid = processManager.getTool(0)?.pid;
+
+			await writeFile(join(dir, "ignored.md"), "x");
+			await writeFile(join(dir, "foo.ts"), "x");
+			await waitForCondition(() => processManager.getTool(0)?.pid !== firstPid);
+
+			const tool = processManager.getTool(0);
+			expect(tool?.status).toBe("running");
+			expect(tool?.pid).not.toBe(firstPid);
+			await waitForCondition(
+				() =>
+					tool?.logs.some((l) =>
+						l.segments.some((seg) => seg.text.includes("[Process exited")),
+					) ?? false,
+			);
+			const texts =
+				tool?.logs.map((l) => l.segments.map((seg) => seg.text).join("")) ?? [];
+			const watchLine = texts.find((text) => text.includes("[WATCH]"));
+			expect(watchLine).toBe("[WATCH] foo.ts changed, restarting");
+			// Logged before the old process stops, and kept by the restart
+			const exitLine = texts.findIndex((text) =>
+				text.includes("[Process exited"),
+			);
+			expect(exitLine).toBeGreaterThan(texts.indexOf(watchLine ?? ""));
+		} finally {
+			await processManager.cleanup();
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("watch - paused watching does not restart", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "corsa-watch-"));
+		try {
+			const configs: ToolConfig[] = [
+				{
+					name: "watched",
+					command: "sleep",
+					args: ["10"],
+					cwd: dir,
+					watch: { debounce: 20 },
+				},
+			];
+
+			await processManager.initialize(configs);
+			await processManager.startTool(0);
+			const firstPid = processManager.getTool(0)?.pid;
+
+			processManager.setWatchEnabled(0, false);
+			expect(processManager.getTool(0)?.watchEnabled).toBe(false);
+
+			await writeFile(join(dir, "foo.ts"), "x");
+			await new Promise((resolve) => setTimeout(resolve, 200));
+
+			expect(processManager.getTool(0)?.pid).toBe(firstPid as number);
+		} finally {
+			await processManager.cleanup();
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
 });
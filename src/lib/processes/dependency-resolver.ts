@@ -88,3 +88,41 @@ export function getValidDependencies(
 		(dep) => toolNames.has(dep) && dep !== tool.name,
 	);
 }
+
+/**
+ * Get the tools that depend on a tool, directly or transitively.
+ * Returned in dependency order (the order resolveDependencies starts them in),
+ * so every dependent comes after the tools it depends on.
+ *
+ * @param tools - Array of tool configurations
+ * @param name - Name of the tool whose dependents to find
+ * @returns Names of the dependent tools
+ */
+export function getTransitiveDependents(
+	tools: ToolConfig[],
+	name: string,
+): string[] {
+	const toolNames = new Set(tools.map((t) => t.name));
+	const dependents = new Set<string>();
+	const queue = [name];
+
+	while (queue.length > 0) {
+		const current = queue.shift();
+		for (const tool of tools) {
+			if (
+				tool.name !== name &&
+				!dependents.has(tool.name) &&
+				current !== undefined &&
+				getValidDependencies(tool, toolNames).includes(current)
+			) {
+				dependents.add(tool.name);
+				queue.push(tool.name);
+			}
+		}
+	}
+
+	return resolveDependencies(tools)
+		.levels.flat()
+		.map((t) => t.name)
+		.filter((toolName) => dependents.has(toolName));
+}
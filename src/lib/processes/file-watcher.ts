@@ -0,0 +1,122 @@
+import { type FSWatcher, watch } from "node:fs";
+import { Glob } from "bun";
+import type { ToolWatchConfig } from "../../types";
+
+/** Default delay after the last file change before restarting (300ms) */
+export const DEFAULT_WATCH_DEBOUNCE = 300;
+
+/** Files watched when no include patterns are configured */
+const DEFAULT_WATCH_INCLUDE = ["**/*"];
+
+/** Directories that are never watched, in addition to configured excludes */
+const DEFAULT_WATCH_EXCLUDE = ["**/node_modules/**", "**/.git/**"];
+
+/** Callback invoked with the changed paths (relative to the watched directory) */
+export type FileChangeCallback = (paths: string[]) => void;
+
+/** Callback invoked when watching fails after it started (the watcher is stopped) */
+export type FileWatchErrorCallback = (error: Error) => void;
+
+/**
+ * Compile include and exclude patterns into a matcher for paths relative to
+ * the watched directory.
+ *
+ * @param include - Glob patterns a path must match (defaults to all files)
+ * @param exclude - Glob patterns that rule a path out (node_modules and .git are always excluded)
+ */
+export function createWatchMatcher(
+	include: string[] = DEFAULT_WATCH_INCLUDE,
+	exclude: string[] = [],
+): (path: string) => boolean {
+	const includeGlobs = (
+		include.length > 0 ? include : DEFAULT_WATCH_INCLUDE
+	).map((pattern) => new Glob(pattern));
+	const excludeGlobs = [...DEFAULT_WATCH_EXCLUDE, ...exclude].map(
+		(pattern) => new Glob(pattern),
+	);
+
+	return (path) => {
+		const normalized = path.replace(/\\/g, "/");
+		return (
+			includeGlobs.some((glob) => glob.match(normalized)) &&
+			!excludeGlobs.some((glob) => glob.match(normalized))
+		);
+	};
+}
+
+/**
+ * Watches a directory recursively and reports batches of changed files
+ * once no further changes arrive within the debounce window.
+ */
+export class FileWatcher {
+	private dir: string;
+	private config: ToolWatchConfig;
+	private matches: (path: string) => boolean;
+	private onChange: FileChangeCallback;
+	private onError: FileWatchErrorCallback;
+	private watcher: FSWatcher | null = null;
+	private pending = new Set<string>();
+	private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(
+		dir: string,
+		config: ToolWatchConfig,
+		onChange: FileChangeCallback,
+		onError: FileWatchErrorCallback,
+	) {
+		this.dir = dir;
+		this.config = config;
+		this.matches = createWatchMatcher(config.include, config.exclude);
+		this.onChange = onChange;
+		this.onError = onError;
+	}
+
+	/**
+	 * Start watching. Throws if the directory cannot be watched.
+	 */
+	start(): void {
+		if (this.watcher) return;
+
+		this.watcher = watch(this.dir, { recursive: true }, (_event, filename) => {
+			if (!filename) return;
+			const path = filename.toString();
+			if (!this.matches(path)) return;
+
+			this.pending.add(path);
+			if (this.debounceTimer) {
+				clearTimeout(this.debounceTimer);
+			}
+			this.debounceTimer = setTimeout(
+				() => this.flush(),
+				this.config.debounce ?? DEFAULT_WATCH_DEBOUNCE,
+			);
+		});
+		// E.g. the directory was removed or too many files to watch (EMFILE)
+		this.watcher.on("error", (error) => {
+			this.stop();
+			this.onError(error);
+		});
+	}
+
+	/**
+	 * Stop watching and discard any pending changes.
+	 */
+	stop(): void {
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer);
+			this.debounceTimer = null;
+		}
+		this.pending.clear();
+		this.watcher?.close();
+		this.watcher = null;
+	}
+
+	private flush(): void {
+		this.debounceTimer = null;
+		const paths = [...this.pending];
+		this.pending.clear();
+		if (paths.length > 0) {
+			this.onChange(paths);
+		}
+	}
+}
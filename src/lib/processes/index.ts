@@ -1,8 +1,22 @@
 export type { DependencyResolution } from "./dependency-resolver";
 export {
+	getTransitiveDependents,
 	getValidDependencies,
 	resolveDependencies,
 } from "./dependency-resolver";
+export {
+	createLogCursor,
+	type LogChanges,
+	type LogCursor,
+	readLogChanges,
+} from "./log-cursor";
+export {
+	ALL_LOGS_TAB_NAME,
+	createAllLogsTool,
+	getToolBadgeColorIndex,
+	MergedLogBuffer,
+	mergeToolLogs,
+} from "./merged-logs";
 export type { PidFileData, PidFileEntry } from "./pid-file";
 export {
 	deletePidFile,
@@ -16,7 +30,10 @@ export type {
 	ChangeCallback,
 	InitializeOptions,
 	IsToolReadyCallback,
+	LogLineCallback,
+	ProcessController,
 	SubscriberKey,
+	ToolStartCallback,
 } from "./process-manager";
 export { ProcessManager } from "./process-manager";
 export {
@@ -0,0 +1,72 @@
+import type { LogLine, ToolState } from "../../types";
+
+/**
+ * Where a reader of a tool's logs left off, by position in the tool's whole
+ * output (see ToolState.logTrimCount).
+ */
+export interface LogCursor {
+	/** Position of the first line read */
+	start: number;
+	/** Position after the last line read */
+	end: number;
+	/** The last line read, to notice it being replaced in place (progress output) */
+	last: LogLine | undefined;
+}
+
+/** Changes to a tool's logs since a cursor */
+export interface LogChanges {
+	/** Number of lines read that were removed from the front (trimmed or cleared) */
+	removed: number;
+	/** Whether the last line read was replaced; its new version is the first of `lines` */
+	replacedLast: boolean;
+	/** Lines to read, in order */
+	lines: LogLine[];
+	/** Cursor after reading these changes */
+	cursor: LogCursor;
+}
+
+/** Get a cursor at the end of a tool's logs */
+export function createLogCursor(
+	tool: Pick<ToolState, "logs" | "logTrimCount">,
+): LogCursor {
+	return {
+		start: tool.logTrimCount,
+		end: tool.logTrimCount + tool.logs.length,
+		last: tool.logs.at(-1),
+	};
+}
+
+/**
+ * Get the changes to a tool's logs since a cursor, without copying the lines
+ * that were already read. Lines are only appended, replaced at the end or
+ * removed from the front, so positions are enough to find them.
+ * @returns The changes, or null if nothing changed
+ */
+export function readLogChanges(
+	cursor: LogCursor,
+	tool: Pick<ToolState, "logs" | "logTrimCount">,
+): LogChanges | null {
+	const next = createLogCursor(tool);
+
+	// Positions never go back; if they did, nothing read before is still there
+	if (next.start < cursor.start || next.end < cursor.end) {
+		return {
+			removed: cursor.end - cursor.start,
+			replacedLast: false,
+			lines: tool.logs.slice(),
+			cursor: next,
+		};
+	}
+
+	const removed = Math.min(next.start, cursor.end) - cursor.start;
+	const lastPosition = cursor.end - 1;
+	const replacedLast =
+		cursor.last !== undefined &&
+		lastPosition >= next.start &&
+		tool.logs[lastPosition - next.start] !== cursor.last;
+	const from = replacedLast ? lastPosition : Math.max(cursor.end, next.start);
+	const lines = tool.logs.slice(from - next.start);
+
+	if (removed === 0 && !replacedLast && lines.length === 0) return null;
+	return { removed, replacedLast, lines, cursor: next };
+}
@@ -0,0 +1,147 @@
+import {
+	closeSync,
+	mkdirSync,
+	openSync,
+	readdirSync,
+	statSync,
+	unlinkSync,
+	writeSync,
+} from "node:fs";
+import { join, resolve } from "node:path";
+import type { LogsConfig } from "../config";
+
+/** Default maximum size of a single log file before rotating (10 MB) */
+export const DEFAULT_MAX_LOG_FILE_SIZE = 10 * 1024 * 1024;
+
+/** Default number of log files to keep per tool */
+export const DEFAULT_MAX_LOG_FILES = 10;
+
+/**
+ * Get the directory holding a tool's log files.
+ * Tool names are sanitized so they are safe to use as a directory name.
+ */
+export function getToolLogDir(dir: string, toolName: string): string {
+	return join(resolve(dir), toolName.replace(/[^a-zA-Z0-9._-]/g, "_"));
+}
+
+/**
+ * Writes a single run of a tool's output to disk.
+ * Each run gets its own file, named after the time the run started. When the
+ * file exceeds maxFileSize, output continues in a numbered part file. Only the
+ * newest maxFiles files are kept per tool.
+ */
+export class LogFileWriter {
+	private toolDir: string;
+	private maxFileSize: number;
+	private maxFiles: number;
+	private runStamp: string;
+	private part = 0;
+	private fd: number | null = null;
+	private size = 0;
+	private currentPath: string | null = null;
+	/** Latest version of a line being replaced in place, written once it is final */
+	private pendingLine: string | null = null;
+
+	constructor(toolName: string, config: LogsConfig & { dir: string }) {
+		this.toolDir = getToolLogDir(config.dir, toolName);
+		this.maxFileSize = config.maxFileSize ?? DEFAULT_MAX_LOG_FILE_SIZE;
+		this.maxFiles = config.maxFiles ?? DEFAULT_MAX_LOG_FILES;
+		this.runStamp = new Date().toISOString().replace(/[:.]/g, "-");
+	}
+
+	/** Path of the file currently being written, if open */
+	get path(): string | null {
+		return this.currentPath;
+	}
+
+	/**
+	 * Create the log directory and open the first file for this run.
+	 * Throws if the directory or file cannot be created.
+	 */
+	open(): void {
+		mkdirSync(this.toolDir, { recursive: true });
+		this.openPart();
+	}
+
+	/**
+	 * Append a line of raw output, rotating to a new part file if needed.
+	 * A line that replaces the previous one (progress output) is held back
+	 * until the next line or close, so only its final version is written.
+	 * Throws if the write fails.
+	 */
+	write(line: string, isReplacement = false): void {
+		if (this.fd === null) return;
+
+		if (isReplacement) {
+			this.pendingLine = line;
+			return;
+		}
+		this.flushPendingLine();
+		this.writeLine(line);
+	}
+
+	/**
+	 * Close the current file. Safe to call more than once.
+	 */
+	close(): void {
+		if (this.fd === null) return;
+		try {
+			this.flushPendingLine();
+			closeSync(this.fd);
+		} catch {
+			// Ignore - file may already be closed
+		}
+		this.fd = null;
+	}
+
+	private flushPendingLine(): void {
+		if (this.pendingLine === null) return;
+		const line = this.pendingLine;
+		this.pendingLine = null;
+		this.writeLine(line);
+	}
+
+	private writeLine(line: string): void {
+		if (this.fd === null) return;
+
+		const data = `${line}\n`;
+		const bytes = Buffer.byteLength(data);
+		if (this.size > 0 && this.size + bytes > this.maxFileSize) {
+			closeSync(this.fd);
+			this.part++;
+			this.openPart();
+		}
+
+		writeSync(this.fd, data);
+		this.size += bytes;
+	}
+
+	private openPart(): void {
+		const suffix = this.part > 0 ? `.${this.part}` : "";
+		this.currentPath = join(this.toolDir, `${this.runStamp}${suffix}.log`);
+		this.fd = openSync(this.currentPath, "a");
+		this.size = 0;
+		this.prune();
+	}
+
+	/**
+	 * Delete the oldest log files so at most maxFiles remain.
+	 */
+	private prune(): void {
+		const files = readdirSync(this.toolDir)
+			.filter((name) => name.endsWith(".log"))
+			.map((name) => {
+				const path = join(this.toolDir, name);
+				return { path, mtime: statSync(path).mtimeMs };
+			})
+			.sort((a, b) => a.mtime - b.mtime || a.path.localeCompare(b.path));
+
+		const excess = files.length - this.maxFiles;
+		for (let i = 0; i < excess; i++) {
+			const file = files[i];
+			if (file && file.path !== this.currentPath) {
+				unlinkSync(file.path);
+			}
+		}
+	}
+}
@@ -0,0 +1,230 @@
+import { TextAttributes } from "@opentui/core";
+import type { LogLine, TextSegment, ToolState } from "../../types";
+import { createLogCursor, type LogCursor, readLogChanges } from "./log-cursor";
+
+/** Name of the "All logs" tab that interleaves output from every tool */
+export const ALL_LOGS_TAB_NAME = "All logs";
+
+/**
+ * ANSI color indices used for tool-name badges (bright blue, green, magenta,
+ * yellow, cyan, red). Resolved through the theme's ANSI palette when rendered.
+ */
+const BADGE_COLOR_INDICES = [12, 10, 13, 11, 14, 9];
+
+/**
+ * Get the badge color (ANSI color index) for a tool, based on its position
+ * in the tools list so each tool keeps its color across renders.
+ */
+export function getToolBadgeColorIndex(toolIndex: number): number {
+	return (
+		BADGE_COLOR_INDICES[toolIndex % BADGE_COLOR_INDICES.length] ??
+		BADGE_COLOR_INDICES[0] ??
+		12
+	);
+}
+
+/** Get the badge of each included tool, padded so log content lines up */
+function getToolBadges(
+	tools: ToolState[],
+	excluded: ReadonlySet<string>,
+): Map<ToolState, TextSegment> {
+	const included = tools
+		.map((tool, index) => ({ tool, index }))
+		.filter(({ tool }) => !excluded.has(tool.config.name));
+	const badgeWidth = Math.max(
+		0,
+		...included.map(({ tool }) => tool.config.name.length),
+	);
+	return new Map(
+		included.map(({ tool, index }) => [
+			tool,
+			{
+				text: tool.config.name.padEnd(badgeWidth),
+				colorIndex: getToolBadgeColorIndex(index),
+				attributes: TextAttributes.BOLD,
+			},
+		]),
+	);
+}
+
+/** Prefix a line with its tool's badge */
+function withBadge(
+	{ structured: _structured, ...logLine }: LogLine,
+	badge: TextSegment,
+): LogLine {
+	// Structured lines are shown as text here, so the badge stays in front
+	return { ...logLine, segments: [badge, { text: " " }, ...logLine.segments] };
+}
+
+const byTimestamp = (a: LogLine, b: LogLine) => a.timestamp - b.timestamp;
+
+/**
+ * Interleave log lines from several tools in arrival order.
+ * Each line is prefixed with a colored, bold badge holding the tool name
+ * (padded so log content lines up). Lines received in the same millisecond
+ * keep the order of the tools list.
+ *
+ * @param tools - All tools (positions determine badge colors)
+ * @param excluded - Names of tools to leave out
+ */
+export function mergeToolLogs(
+	tools: ToolState[],
+	excluded: ReadonlySet<string> = new Set(),
+): LogLine[] {
+	const buffer = new MergedLogBuffer(Number.POSITIVE_INFINITY);
+	buffer.update(tools, excluded);
+	return buffer.logs;
+}
+
+/**
+ * The interleaved logs of the "All logs" tab, kept up to date as lines arrive.
+ * Only lines added since the last update are merged, and they are appended,
+ * so positions (trimCount + index) stay valid like those of a tool's logs.
+ * The buffer is trimmed to a maximum number of lines like a tool's logs.
+ */
+export class MergedLogBuffer {
+	/** Merged lines - appended in place, replaced by a new array when rebuilt */
+	logs: LogLine[] = [];
+	/** Lines removed from the front (see ToolState.logTrimCount) */
+	trimCount = 0;
+	/** Incremented on every change (see ToolState.logVersion) */
+	version = 0;
+
+	private maxLines: number;
+	private tools: ToolState[] = [];
+	private excluded: ReadonlySet<string> = new Set();
+	private badges = new Map<ToolState, TextSegment>();
+	private cursors = new Map<ToolState, LogCursor>();
+	/** Merged version of each tool's last line, to replace it in place */
+	private lastLines = new Map<ToolState, LogLine>();
+
+	constructor(maxLines: number) {
+		this.maxLines = maxLines;
+	}
+
+	/**
+	 * Bring the buffer up to date with the tools' logs.
+	 * A different list of tools, or a tool whose logs were cleared or restarted,
+	 * merges all logs again.
+	 *
+	 * @param tools - All tools (positions determine badge colors)
+	 * @param excluded - Names of tools to leave out
+	 */
+	update(tools: ToolState[], excluded: ReadonlySet<string>): void {
+		if (
+			excluded !== this.excluded ||
+			tools.length !== this.tools.length ||
+			tools.some((tool, i) => tool !== this.tools[i])
+		) {
+			this.rebuild(tools, excluded);
+			return;
+		}
+
+		const added: LogLine[] = [];
+		let changed = false;
+		for (const [tool, badge] of this.badges) {
+			const cursor = this.cursors.get(tool);
+			const changes = cursor && readLogChanges(cursor, tool);
+			if (!changes) continue;
+			if (
+				changes.removed > 0 &&
+				changes.removed === cursor.end - cursor.start
+			) {
+				this.rebuild(tools, excluded);
+				return;
+			}
+			this.cursors.set(tool, changes.cursor);
+
+			const lines = changes.lines.map((logLine) => withBadge(logLine, badge));
+			if (changes.replacedLast) {
+				// Progress output: update the line where it is, unless it was trimmed
+				const previous = this.lastLines.get(tool);
+				const position = previous ? this.logs.lastIndexOf(previous) : -1;
+				const replacement = lines[0];
+				if (replacement && position !== -1) {
+					this.logs[position] = replacement;
+					this.lastLines.set(tool, replacement);
+					lines.shift();
+					changed = true;
+				}
+			}
+
+			const last = lines.at(-1);
+			if (last) this.lastLines.set(tool, last);
+			for (const logLine of lines) added.push(logLine);
+		}
+
+		if (added.length > 0) {
+			// Lines from the same update are interleaved; earlier lines stay put
+			for (const logLine of added.sort(byTimestamp)) this.logs.push(logLine);
+			this.trim();
+			changed = true;
+		}
+		if (changed) this.version++;
+	}
+
+	/** Merge the logs of all included tools again, as if the buffer was cleared */
+	private rebuild(tools: ToolState[], excluded: ReadonlySet<string>): void {
+		this.tools = tools.slice();
+		this.excluded = excluded;
+		this.badges = getToolBadges(tools, excluded);
+		this.cursors.clear();
+		this.lastLines.clear();
+
+		const merged: LogLine[] = [];
+		for (const [tool, badge] of this.badges) {
+			this.cursors.set(tool, createLogCursor(tool));
+			for (const logLine of tool.logs) {
+				merged.push(withBadge(logLine, badge));
+			}
+			const last = merged.at(-1);
+			if (tool.logs.length > 0 && last) this.lastLines.set(tool, last);
+		}
+
+		// Array.prototype.sort is stable, so ties keep per-tool order
+		this.trimCount += this.logs.length;
+		this.logs = merged.sort(byTimestamp);
+		this.trim();
+		this.version++;
+	}
+
+	private trim(): void {
+		const excess = this.logs.length - this.maxLines;
+		if (excess > 0) {
+			this.logs.splice(0, excess);
+			this.trimCount += excess;
+		}
+	}
+}
+
+/**
+ * Build the tool state shown in the "All logs" tab.
+ * It is never part of the ProcessManager's tools - it only exists for display.
+ *
+ * @param tools - All tools
+ * @param excluded - Names of tools left out of the merged view
+ * @param merged - The merged log lines
+ */
+export function createAllLogsTool(
+	tools: ToolState[],
+	excluded: ReadonlySet<string>,
+	merged: Pick<MergedLogBuffer, "logs" | "trimCount" | "version">,
+): ToolState {
+	const included = tools.filter((tool) => !excluded.has(tool.config.name));
+	const startTimes = included
+		.map((tool) => tool.startTime)
+		.filter((time): time is number => time !== undefined);
+
+	return {
+		config: { name: ALL_LOGS_TAB_NAME, command: "" },
+		process: null,
+		logs: merged.logs,
+		status: included.some((tool) => tool.status === "running")
+			? "running"
+			: "stopped",
+		exitCode: null,
+		startTime: startTimes.length > 0 ? Math.min(...startTimes) : undefined,
+		logTrimCount: merged.trimCount,
+		logVersion: merged.version,
+	};
+}
@@ -1,10 +1,27 @@
-import type { ToolConfig, ToolState } from "../../types";
-import { type Config, loadConfig } from "../config";
-import { parseAnsiLine } from "../text";
+import { isAbsolute, relative, resolve } from "node:path";
+import type { LogLine, TextSegment, ToolConfig, ToolState } from "../../types";
 import {
+	type Config,
+	type GroupsConfig,
+	type LogsConfig,
+	loadConfig,
+	resolveProfileTools,
+} from "../config";
+import {
+	DEFAULT_TERMINAL_COLS,
+	DEFAULT_TERMINAL_ROWS,
+	type PtyTerminal,
+	spawnPty,
+	TerminalScreen,
+} from "../terminal";
+import { detectLogLevel, parseAnsiLine, parseStructuredLine } from "../text";
+import {
+	getTransitiveDependents,
 	getValidDependencies,
 	resolveDependencies,
 } from "./dependency-resolver";
+import { FileWatcher } from "./file-watcher";
+import { LogFileWriter } from "./log-file";
 import {
 	deletePidFile,
 	loadPidFile,
@@ -23,6 +40,42 @@ export type ChangeCallback = () => void;
 /** Subscriber key - either "all" for all tools or a tool index */
 export type SubscriberKey = "all" | number;
 
+/** Callback for new log lines, with ANSI codes stripped */
+export type LogLineCallback = (
+	toolIndex: number,
+	toolName: string,
+	line: string,
+) => void;
+
+/** Callback for a tool being started (or restarted) */
+export type ToolStartCallback = (toolIndex: number, toolName: string) => void;
+
+/**
+ * The part of ProcessManager the TUI uses. Implemented by ProcessManager and
+ * by RemoteProcessManager, which controls the tools of a daemon (`corsa attach`).
+ */
+export type ProcessController = Pick<
+	ProcessManager,
+	| "getTools"
+	| "getTool"
+	| "getToolByName"
+	| "subscribe"
+	| "onLogLine"
+	| "onToolStart"
+	| "startTool"
+	| "startTools"
+	| "startAllToolsWithDependencies"
+	| "stopTool"
+	| "stopTools"
+	| "restartTool"
+	| "sendInput"
+	| "resizeTerminal"
+	| "clearLogs"
+	| "setWatchEnabled"
+	| "cleanup"
+	| "getIsShuttingDown"
+>;
+
 /** Default timeout for waiting on dependencies (30 seconds) */
 const DEFAULT_DEPENDENCY_TIMEOUT = 30000;
 
@@ -32,6 +85,24 @@ const GRACEFUL_SHUTDOWN_TIMEOUT = 10000;
 /** Polling interval for checking dependency readiness */
 const DEPENDENCY_POLL_INTERVAL = 500;
 
+/** Default maximum number of consecutive automatic restarts */
+const DEFAULT_MAX_RESTARTS = 5;
+
+/** Default delay before the first automatic restart (1 second) */
+const DEFAULT_RESTART_DELAY = 1000;
+
+/** Upper bound for the exponential restart backoff (60 seconds) */
+const MAX_RESTART_DELAY = 60000;
+
+/** Uptime after which a crashed process counts as recovered and its restart counter resets (60 seconds) */
+const RESTART_STABLE_UPTIME = 60000;
+
+/**
+ * How long to wait for a process's remaining output after it exits (1 second).
+ * A child process that inherited its output streams can keep them open.
+ */
+const OUTPUT_DRAIN_TIMEOUT = 1000;
+
 /** Options for ProcessManager.initialize() */
 export interface InitializeOptions {
 	/**
@@ -39,6 +110,19 @@ export interface InitializeOptions {
 	 * Default: true
 	 */
 	cleanupOrphans?: boolean;
+	/**
+	 * Log persistence settings. When logs.dir is set, each tool's output is
+	 * also written to a rotating file on disk.
+	 */
+	logs?: LogsConfig;
+	/**
+	 * Whether restarting a tool also restarts its dependents, and shutdown
+	 * stops dependents before their dependencies.
+	 * Default: false
+	 */
+	restartWithDependencies?: boolean;
+	/** Named groups of tools, to act on a group by name (see getGroupTools) */
+	groups?: GroupsConfig;
 }
 
 export class ProcessManager {
@@ -54,6 +138,37 @@ export class ProcessManager {
 	/** Subscribers for change notifications */
 	private subscribers = new Map<SubscriberKey, Set<ChangeCallback>>();
 
+	/** Listeners for new log lines */
+	private logLineListeners = new Set<LogLineCallback>();
+	private toolStartListeners = new Set<ToolStartCallback>();
+
+	/** Tool indices whose next exit was requested (stop/restart) and must not trigger an automatic restart */
+	private stopRequested = new Set<number>();
+	/** Tool indices whose next start keeps the logs, e.g. to show why they were restarted */
+	private keepLogsOnStart = new Set<number>();
+
+	/** Pending automatic restart timers by tool index */
+	private restartTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+	/** File watchers for tools with a watch config, by tool index */
+	private fileWatchers = new Map<number, FileWatcher>();
+
+	/** Log persistence settings (logs are only written to disk when dir is set) */
+	private logsConfig: LogsConfig | undefined;
+
+	/** Whether restarts cascade to dependents (processes.restartWithDependencies) */
+	private restartWithDependencies = false;
+	private groups: GroupsConfig | undefined;
+
+	/** Log files for the current run of each tool, by tool index */
+	private logFiles = new Map<number, LogFileWriter>();
+
+	/** Pseudo-terminals of running pty tools, by tool index */
+	private terminals = new Map<number, PtyTerminal>();
+
+	/** Last size reported by the view for each pty tool, by tool index */
+	private terminalSizes = new Map<number, { cols: number; rows: number }>();
+
 	constructor(maxLogLines: number = 100000) {
 		this.maxLogLines = maxLogLines;
 	}
@@ -94,6 +209,31 @@ export class ProcessManager {
 		};
 	}
 
+	/**
+	 * Listen for log lines added to any tool (including replaced progress lines).
+	 * @param callback - Function called with the tool index, name and plain text of each line
+	 * @returns Unsubscribe function
+	 */
+	onLogLine(callback: LogLineCallback): () => void {
+		this.logLineListeners.add(callback);
+		return () => {
+			this.logLineListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Listen for tools being started, including restarts. Called before any
+	 * output of the new process is read.
+	 * @param callback - Function called with the tool index and name
+	 * @returns Unsubscribe function
+	 */
+	onToolStart(callback: ToolStartCallback): () => void {
+		this.toolStartListeners.add(callback);
+		return () => {
+			this.toolStartListeners.delete(callback);
+		};
+	}
+
 	/**
 	 * Notify subscribers of a change to a specific tool.
 	 * Notifies both tool-specific subscribers and "all" subscribers.
@@ -128,6 +268,9 @@ export class ProcessManager {
 		options: InitializeOptions = {},
 	): Promise<ToolState[]> {
 		const { cleanupOrphans = true } = options;
+		this.logsConfig = options.logs;
+		this.restartWithDependencies = options.restartWithDependencies ?? false;
+		this.groups = options.groups;
 
 		// First, load and cleanup any orphaned processes from previous sessions
 		// (if enabled and config path is set for instance-specific cleanup)
@@ -144,6 +287,7 @@ export class ProcessManager {
 			logTrimCount: 0,
 			logVersion: 0,
 		}));
+		this.startFileWatchers();
 		return this.tools;
 	}
 
@@ -153,50 +297,104 @@ export class ProcessManager {
 			return;
 		}
 
+		// A manual start resets automatic restart tracking
+		this.cancelScheduledRestart(index);
+		tool.restartCount = 0;
+		tool.crashLoop = undefined;
+
+		await this.spawnTool(index, this.keepLogsOnStart.delete(index));
+	}
+
+	/**
+	 * Spawn the process for a tool and wire up log streaming and exit handling.
+	 *
+	 * @param index - Tool index
+	 * @param keepLogs - Keep existing logs instead of clearing them (used for
+	 *                   automatic and watch restarts so the crash output or
+	 *                   the changed files stay visible)
+	 */
+	private async spawnTool(index: number, keepLogs = false): Promise<void> {
+		const tool = this.tools[index];
+		if (!tool || tool.status === "running") {
+			return;
+		}
+
 		try {
 			const { command, args = [], cwd, env } = tool.config;
 
-			const proc = Bun.spawn([command, ...args], {
-				cwd: cwd || process.cwd(),
-				env: { ...process.env, ...env },
-				stdout: "pipe",
-				stderr: "pipe",
-			});
+			const proc = tool.config.pty
+				? this.spawnPtyTool(index)
+				: Bun.spawn([command, ...args], {
+						cwd: cwd || process.cwd(),
+						env: { ...process.env, ...env },
+						stdin: "pipe",
+						stdout: "pipe",
+						stderr: "pipe",
+					});
 
 			tool.process = proc;
 			tool.status = "running";
-			tool.logs = [];
+			if (!keepLogs) {
+				tool.logTrimCount += tool.logs.length;
+				tool.logs = [];
+				tool.logVersion = 0;
+			}
 			tool.exitCode = null;
 			tool.pid = proc.pid;
 			tool.startTime = Date.now();
-			tool.logVersion = 0;
 
 			// Notify subscribers of status change
 			this.notifyChange(index);
+			for (const listener of this.toolStartListeners) {
+				listener(index, tool.config.name);
+			}
+
+			// Start a new log file for this run (if log persistence is enabled)
+			const logFile = this.openLogFile(index);
 
 			// Save PID to file for persistence
 			await this.savePidToFile(index);
 
-			// Handle stdout
-			if (proc.stdout) {
+			// Handle stdout (pty tools have no output streams - their output
+			// goes to the terminal screen)
+			const outputRead: Promise<void>[] = [];
+			if (proc.stdout instanceof ReadableStream) {
 				const reader =
 					proc.stdout.getReader() as ReadableStreamDefaultReader<Uint8Array>;
-				this.readStream(reader, (line, isReplacement) => {
-					this.addLog(index, line, false, isReplacement);
-				});
+				outputRead.push(
+					this.readStream(reader, (line, isReplacement) => {
+						this.addLog(index, line, false, isReplacement);
+					}),
+				);
 			}
 
 			// Handle stderr
-			if (proc.stderr) {
+			if (proc.stderr instanceof ReadableStream) {
 				const reader =
 					proc.stderr.getReader() as ReadableStreamDefaultReader<Uint8Array>;
-				this.readStream(reader, (line, isReplacement) => {
-					this.addLog(index, line, true, isReplacement);
-				});
+				outputRead.push(
+					this.readStream(reader, (line, isReplacement) => {
+						this.addLog(index, line, true, isReplacement);
+					}),
+				);
 			}
 
 			// Handle process exit
 			proc.exited.then(async (exitCode) => {
+				// Exits requested via stop/restart never trigger an automatic restart
+				const wasStopRequested = this.stopRequested.delete(index);
+				const uptime = tool.startTime ? Date.now() - tool.startTime : 0;
+
+				// Apply the restart policy, unless the tool was replaced by a reload.
+				// Decided before the status changes, so nobody sees the crash without
+				// the pending restart (nextRestartAt)
+				const restart =
+					!wasStopRequested &&
+					!this.isShuttingDown &&
+					this.tools[index] === tool
+						? this.planRestart(index, exitCode, uptime)
+						: null;
+
 				// Only update status if not already shutting down (to preserve shutdown state)
 				if (tool.status !== "shuttingDown") {
 					tool.status = exitCode === 0 ? "stopped" : "error";
@@ -211,11 +409,31 @@ export class ProcessManager {
 				tool.process = null;
 				tool.pid = undefined;
 				tool.startTime = undefined;
+				tool.screen = undefined;
+				this.terminals.get(index)?.close();
+				this.terminals.delete(index);
 				// Remove PID from file when process exits
 				await removePidFromFile(index, this.configPath);
 				// addLog will also notify, but notify here for immediate status update
 				this.notifyChange(index);
+				// The last output may still be unread - keep it before the exit line
+				let drainTimer: ReturnType<typeof setTimeout> | undefined;
+				await Promise.race([
+					Promise.all(outputRead),
+					new Promise((resolve) => {
+						drainTimer = setTimeout(resolve, OUTPUT_DRAIN_TIMEOUT);
+					}),
+				]);
+				clearTimeout(drainTimer);
 				this.addLog(index, `\n[Process exited with code ${exitCode}]`);
+				this.closeLogFile(index, logFile);
+
+				if (restart) {
+					this.addLog(index, restart.message);
+					if (restart.attempt !== undefined) {
+						this.scheduleRestart(index, tool, restart.attempt);
+					}
+				}
 			});
 		} catch (error) {
 			tool.status = "error";
@@ -224,6 +442,228 @@ export class ProcessManager {
 		}
 	}
 
+	/**
+	 * Spawn a pty tool attached to a pseudo-terminal.
+	 * Output is fed to a fresh terminal screen on the tool; lines finished on
+	 * the main screen are also added to the logs.
+	 */
+	private spawnPtyTool(index: number): ReturnType<typeof Bun.spawn> {
+		const tool = this.tools[index];
+		if (!tool) {
+			throw new Error(`Unknown tool index: ${index}`);
+		}
+
+		const { command, args = [], cwd, env } = tool.config;
+		const { cols, rows } = this.terminalSizes.get(index) ?? {
+			cols: DEFAULT_TERMINAL_COLS,
+			rows: DEFAULT_TERMINAL_ROWS,
+		};
+
+		const screen = new TerminalScreen({
+			cols,
+			rows,
+			onResponse: (data) => this.terminals.get(index)?.write(data),
+			onLine: (segments, text) => this.appendLog(index, segments, text),
+		});
+
+		const { proc, terminal } = spawnPty([command, ...args], {
+			cwd: cwd || process.cwd(),
+			// Advertise a terminal the screen emulator can render
+			env: { ...process.env, TERM: "xterm-256color", ...env },
+			cols,
+			rows,
+			onData: (data) => {
+				screen.write(data);
+				this.notifyChange(index);
+			},
+		});
+
+		tool.screen = screen;
+		this.terminals.set(index, terminal);
+		return proc;
+	}
+
+	/**
+	 * Resize the terminal of a pty tool to match the view showing it.
+	 * The size is remembered for the tool's next run.
+	 */
+	resizeTerminal(index: number, cols: number, rows: number): void {
+		const tool = this.tools[index];
+		if (!tool?.config.pty || cols < 1 || rows < 1) return;
+
+		this.terminalSizes.set(index, { cols, rows });
+		const screen = tool.screen;
+		if (!screen || (screen.cols === cols && screen.rows === rows)) return;
+
+		screen.resize(cols, rows);
+		try {
+			this.terminals.get(index)?.resize(cols, rows);
+		} catch {
+			// Terminal may already be closed
+		}
+		this.notifyChange(index);
+	}
+
+	/**
+	 * Open a new log file for a tool run, closing the previous run's file.
+	 * @returns The writer, or undefined if log persistence is disabled or the file could not be opened
+	 */
+	private openLogFile(index: number): LogFileWriter | undefined {
+		const tool = this.tools[index];
+		const dir = this.logsConfig?.dir;
+		if (!tool || !dir || this.virtualToolIndices.has(index)) return undefined;
+
+		this.logFiles.get(index)?.close();
+		this.logFiles.delete(index);
+
+		const writer = new LogFileWriter(tool.config.name, {
+			...this.logsConfig,
+			dir,
+		});
+		try {
+			writer.open();
+		} catch (error) {
+			tool.logFile = undefined;
+			this.addLog(index, `[LOGS] Failed to open log file: ${error}`, true);
+			return undefined;
+		}
+
+		this.logFiles.set(index, writer);
+		tool.logFile = writer.path ?? undefined;
+		return writer;
+	}
+
+	/**
+	 * Close a run's log file. Leaves a newer run's file open if the tool was restarted meanwhile.
+	 */
+	private closeLogFile(index: number, writer: LogFileWriter | undefined): void {
+		if (!writer) return;
+		writer.close();
+		if (this.logFiles.get(index) === writer) {
+			this.logFiles.delete(index);
+		}
+	}
+
+	/**
+	 * Close all open log files.
+	 */
+	private closeAllLogFiles(): void {
+		for (const writer of this.logFiles.values()) {
+			writer.close();
+		}
+		this.logFiles.clear();
+	}
+
+	/**
+	 * Decide on an automatic restart for an exited tool according to its restart policy.
+	 * Uses exponential backoff and marks the tool as crash-looping once maxRestarts
+	 * consecutive restarts have been attempted. A restart is recorded in
+	 * nextRestartAt right away; scheduleRestart starts its timer.
+	 *
+	 * @param index - Tool index
+	 * @param exitCode - Exit code of the process that just exited
+	 * @param uptime - How long the process ran before exiting (ms)
+	 * @returns The message to log and the restart attempt (none when giving up), or null without a restart
+	 */
+	private planRestart(
+		index: number,
+		exitCode: number,
+		uptime: number,
+	): { message: string; attempt?: number } | null {
+		const tool = this.tools[index];
+		if (!tool) return null;
+
+		const {
+			restart = "never",
+			maxRestarts = DEFAULT_MAX_RESTARTS,
+			restartDelay = DEFAULT_RESTART_DELAY,
+		} = tool.config;
+
+		if (restart === "never") return null;
+		if (restart === "on-failure" && exitCode === 0) return null;
+
+		// A process that stayed up long enough has recovered - start counting afresh
+		if (uptime >= RESTART_STABLE_UPTIME) {
+			tool.restartCount = 0;
+		}
+
+		const attempt = (tool.restartCount ?? 0) + 1;
+		if (attempt > maxRestarts) {
+			tool.crashLoop = true;
+			return {
+				message: `[RESTART] Giving up after ${maxRestarts} restart attempt${maxRestarts === 1 ? "" : "s"} (crash loop)`,
+			};
+		}
+
+		const delay = Math.min(
+			restartDelay * 2 ** (attempt - 1),
+			MAX_RESTART_DELAY,
+		);
+		tool.nextRestartAt = Date.now() + delay;
+		return {
+			message: `[RESTART] Restarting in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${maxRestarts})`,
+			attempt,
+		};
+	}
+
+	/**
+	 * Start the timer of a restart decided by planRestart, at its nextRestartAt.
+	 * Does nothing if the restart was cancelled or the tool replaced meanwhile.
+	 */
+	private scheduleRestart(
+		index: number,
+		tool: ToolState,
+		attempt: number,
+	): void {
+		if (
+			tool.nextRestartAt === undefined ||
+			this.isShuttingDown ||
+			this.tools[index] !== tool
+		) {
+			return;
+		}
+
+		const delay = Math.max(0, tool.nextRestartAt - Date.now());
+		const timer = setTimeout(() => {
+			this.restartTimers.delete(index);
+			tool.nextRestartAt = undefined;
+			// Tool may have been replaced by a reload or started manually meanwhile
+			if (this.tools[index] !== tool || tool.status === "running") return;
+			tool.restartCount = attempt;
+			this.spawnTool(index, true);
+		}, delay);
+		this.restartTimers.set(index, timer);
+	}
+
+	/**
+	 * Cancel a pending automatic restart for a tool.
+	 * @returns true if a restart was pending
+	 */
+	private cancelScheduledRestart(index: number): boolean {
+		const timer = this.restartTimers.get(index);
+		const tool = this.tools[index];
+		// A restart is pending from the exit on, before its timer starts
+		const pending = timer !== undefined || tool?.nextRestartAt !== undefined;
+
+		if (timer) {
+			clearTimeout(timer);
+			this.restartTimers.delete(index);
+		}
+		if (tool) {
+			tool.nextRestartAt = undefined;
+		}
+		return pending;
+	}
+
+	/**
+	 * Cancel all pending automatic restarts.
+	 */
+	private cancelAllScheduledRestarts(): void {
+		for (const index of [...this.restartTimers.keys()]) {
+			this.cancelScheduledRestart(index);
+		}
+	}
+
 	/**
 	 * Read a stream and emit lines, handling carriage returns for progress bars.
 	 *
@@ -327,13 +767,48 @@ export class ProcessManager {
 		line: string,
 		isStderr = false,
 		isReplacement = false,
+	): void {
+		// Parse ANSI codes into segments
+		this.appendLog(index, parseAnsiLine(line), line, isStderr, isReplacement);
+	}
+
+	/**
+	 * Add an already parsed log line for a tool.
+	 * Lines of tools with a "json" or "logfmt" logFormat are also parsed into fields,
+	 * and each line gets the level detected from its fields or text.
+	 *
+	 * @param index - Tool index
+	 * @param segments - Styled segments of the line
+	 * @param line - Raw line written to the log file
+	 * @param isStderr - Whether this line came from stderr
+	 * @param isReplacement - If true, replace the last log line instead of appending
+	 */
+	private appendLog(
+		index: number,
+		segments: TextSegment[],
+		line: string,
+		isStderr = false,
+		isReplacement = false,
 	): void {
 		const tool = this.tools[index];
 		if (!tool) return;
 
-		// Parse ANSI codes into segments
-		const segments = parseAnsiLine(line);
-		const logEntry = { segments, isStderr: isStderr || undefined };
+		const text = segments.map((seg) => seg.text).join("");
+		const { logFormat } = tool.config;
+		const structured =
+			logFormat && logFormat !== "text"
+				? parseStructuredLine(text, logFormat)
+				: undefined;
+
+		const level = detectLogLevel(text, structured, isStderr);
+
+		const logEntry: LogLine = {
+			segments,
+			isStderr: isStderr || undefined,
+			timestamp: Date.now(),
+			...(structured && { structured }),
+			...(level && { level }),
+		};
 
 		if (isReplacement && tool.logs.length > 0) {
 			// Replace the last log line instead of appending
@@ -354,6 +829,23 @@ export class ProcessManager {
 
 		// Notify subscribers of the change
 		this.notifyChange(index);
+
+		// Tee raw output to the log file for the current run
+		const logFile = this.logFiles.get(index);
+		if (logFile) {
+			try {
+				logFile.write(line, isReplacement);
+			} catch (error) {
+				this.closeLogFile(index, logFile);
+				this.addLog(index, `[LOGS] Failed to write log file: ${error}`, true);
+			}
+		}
+
+		if (this.logLineListeners.size > 0) {
+			for (const listener of this.logLineListeners) {
+				listener(index, tool.config.name, text);
+			}
+		}
 	}
 
 	getTools(): ToolState[] {
@@ -366,7 +858,15 @@ export class ProcessManager {
 
 	async stopTool(index: number): Promise<void> {
 		const tool = this.tools[index];
-		if (!tool || !tool.process) return;
+		if (!tool) return;
+
+		// Stopping also cancels a pending automatic restart
+		if (this.cancelScheduledRestart(index)) {
+			this.addLog(index, "[RESTART] Automatic restart cancelled");
+		}
+
+		if (!tool.process) return;
+		this.stopRequested.add(index);
 
 		try {
 			// Send SIGTERM for graceful shutdown
@@ -403,7 +903,62 @@ export class ProcessManager {
 		}
 	}
 
-	async restartTool(index: number): Promise<void> {
+	/**
+	 * Restart a tool. With restartWithDependencies enabled, its running
+	 * dependents are restarted too: they stop before the tool and start again
+	 * in dependency order once it is ready.
+	 *
+	 * @param index - Tool index
+	 * @param isToolReady - Callback to check if a tool is ready (default: running)
+	 */
+	async restartTool(
+		index: number,
+		isToolReady: IsToolReadyCallback = (toolName) =>
+			this.getToolByName(toolName)?.tool.status === "running",
+	): Promise<void> {
+		const tool = this.tools[index];
+		if (!tool) return;
+
+		const dependents = this.restartWithDependencies
+			? this.getRunningDependents(index)
+			: [];
+		if (dependents.length === 0) {
+			await this.forceStopTool(index);
+			await this.startTool(index);
+			return;
+		}
+
+		// Stop dependents before the tools they depend on, then start everything
+		// again so dependents wait for the restarted tool
+		await this.stopInReverseOrder([index, ...dependents], (i) =>
+			this.forceStopTool(i),
+		);
+		await this.startTools([index, ...dependents], isToolReady);
+	}
+
+	/**
+	 * Get the indices of the running tools that depend on a tool, directly or
+	 * transitively, in dependency order.
+	 */
+	private getRunningDependents(index: number): number[] {
+		const tool = this.tools[index];
+		if (!tool) return [];
+
+		const configs = this.tools.map((t) => t.config);
+		const indices: number[] = [];
+		for (const name of getTransitiveDependents(configs, tool.config.name)) {
+			const dependent = this.getToolByName(name);
+			if (dependent?.tool.status === "running") {
+				indices.push(dependent.index);
+			}
+		}
+		return indices;
+	}
+
+	/**
+	 * Stop a tool for a restart: graceful, with a force kill on timeout.
+	 */
+	private async forceStopTool(index: number): Promise<void> {
 		const tool = this.tools[index];
 		if (!tool) return;
 
@@ -412,6 +967,7 @@ export class ProcessManager {
 			tool.process &&
 			(tool.status === "running" || tool.status === "shuttingDown")
 		) {
+			this.stopRequested.add(index);
 			try {
 				tool.process.kill("SIGTERM");
 				const timeout = new Promise((resolve) =>
@@ -435,14 +991,64 @@ export class ProcessManager {
 			tool.startTime = undefined;
 			await removePidFromFile(index, this.configPath);
 		}
+	}
+
+	/**
+	 * Write input to a running tool's stdin.
+	 * The input is echoed to the tool's logs as an `[INPUT]` line. For pty tools
+	 * it is written to the terminal instead (newlines become carriage returns).
+	 *
+	 * @param index - Tool index
+	 * @param input - Text to write (include a trailing newline to submit a line)
+	 * @returns false if the tool isn't running or its stdin is closed
+	 */
+	sendInput(index: number, input: string): boolean {
+		const tool = this.tools[index];
+
+		// pty tools read from their terminal, which echoes the input itself
+		const terminal = this.terminals.get(index);
+		if (terminal) {
+			if (tool?.status !== "running") return false;
+			try {
+				// Enter sends a carriage return on a real terminal
+				terminal.write(input.replace(/\r?\n/g, "\r"));
+			} catch (error) {
+				this.addLog(
+					index,
+					`[INPUT] Failed to write to terminal: ${error}`,
+					true,
+				);
+				return false;
+			}
+			return true;
+		}
+
+		const stdin = tool?.process?.stdin;
+		if (
+			!tool ||
+			tool.status !== "running" ||
+			!stdin ||
+			typeof stdin === "number"
+		) {
+			return false;
+		}
 
-		// Start fresh
-		await this.startTool(index);
+		try {
+			stdin.write(input);
+			stdin.flush();
+		} catch (error) {
+			this.addLog(index, `[INPUT] Failed to write to stdin: ${error}`, true);
+			return false;
+		}
+
+		this.addLog(index, `[INPUT] ${input.replace(/\r?\n$/, "")}`);
+		return true;
 	}
 
 	clearLogs(index: number): void {
 		const tool = this.tools[index];
 		if (tool) {
+			tool.logTrimCount += tool.logs.length;
 			tool.logs = [];
 			tool.logVersion++;
 			this.notifyChange(index);
@@ -453,24 +1059,27 @@ export class ProcessManager {
 		// Set shutdown state
 		this.isShuttingDown = true;
 		this.recentlyStopped.clear();
+		this.cancelAllScheduledRestarts();
+		this.stopFileWatchers();
 
-		// Mark all running processes as shutting down and send SIGTERM immediately
-		const shutdownPromises: Promise<void>[] = [];
-
+		// Mark all running processes as shutting down
+		const runningIndices: number[] = [];
 		for (let i = 0; i < this.tools.length; i++) {
 			const tool = this.tools[i];
 			if (tool?.process && tool.status === "running") {
-				// Mark as shutting down immediately
 				tool.status = "shuttingDown";
 				this.addLog(i, "\n[SHUTDOWN] Initiating graceful shutdown...");
-
-				// Start shutdown process (don't await yet)
-				shutdownPromises.push(this.stopTool(i));
+				runningIndices.push(i);
 			}
 		}
 
-		// Wait for all processes to shutdown in parallel (with timeout)
-		await Promise.allSettled(shutdownPromises);
+		if (this.restartWithDependencies) {
+			// Stop dependents before the tools they depend on
+			await this.stopInReverseOrder(runningIndices, (i) => this.stopTool(i));
+		} else {
+			// Send SIGTERM to all processes and wait for them in parallel (with timeout)
+			await Promise.allSettled(runningIndices.map((i) => this.stopTool(i)));
+		}
 
 		// Force kill any processes that are still running after timeout
 		for (let i = 0; i < this.tools.length; i++) {
@@ -517,6 +1126,8 @@ export class ProcessManager {
 
 		await Promise.allSettled(cleanupPromises);
 
+		this.closeAllLogFiles();
+
 		// Clear PID file after cleanup completes
 		await deletePidFile(this.configPath);
 	}
@@ -570,6 +1181,10 @@ export class ProcessManager {
 			throw new Error("Config path not set. Cannot reload.");
 		}
 
+		// Pending automatic restarts and watchers refer to tool indices that are about to change
+		this.cancelAllScheduledRestarts();
+		this.stopFileWatchers();
+
 		// Mark all running non-virtual processes as shuttingDown
 		const runningIndices: number[] = [];
 		for (let i = 0; i < this.tools.length; i++) {
@@ -627,6 +1242,11 @@ export class ProcessManager {
 
 		// Re-read config
 		const { config, warnings } = await loadConfig(path);
+		this.closeAllLogFiles();
+		this.logsConfig = config.logs;
+		this.restartWithDependencies =
+			config.processes?.restartWithDependencies ?? false;
+		this.groups = config.groups;
 
 		if (config.tools.length === 0) {
 			throw new Error("No tools configured in the config file.");
@@ -661,6 +1281,7 @@ export class ProcessManager {
 
 		// Combine new tools with preserved virtual tools
 		this.tools = [...newTools, ...virtualTools];
+		this.startFileWatchers();
 
 		// Clear tool-specific subscribers since indices have changed
 		// Keep only "all" subscribers
@@ -680,6 +1301,128 @@ export class ProcessManager {
 		return { tools: this.tools, config, warnings };
 	}
 
+	/**
+	 * Get the tools of a group plus everything they depend on, in config order.
+	 *
+	 * @returns Tool names, or null if there is no group with that name
+	 */
+	getGroupTools(group: string): string[] | null {
+		const tools = this.tools
+			.filter((_, index) => !this.virtualToolIndices.has(index))
+			.map((tool) => tool.config);
+		return resolveProfileTools({ tools, groups: this.groups }, group);
+	}
+
+	/**
+	 * Pause or resume file watching for a tool.
+	 * Has no effect on tools without a watch config.
+	 */
+	setWatchEnabled(index: number, enabled: boolean): void {
+		const tool = this.tools[index];
+		// Tools whose watcher failed have nothing to pause or resume
+		if (
+			!tool?.config.watch ||
+			tool.watchEnabled === undefined ||
+			tool.watchEnabled === enabled
+		) {
+			return;
+		}
+
+		tool.watchEnabled = enabled;
+		this.addLog(
+			index,
+			enabled ? "[WATCH] Watching resumed" : "[WATCH] Watching paused",
+		);
+	}
+
+	/**
+	 * Start file watchers for all tools with a watch config.
+	 */
+	private startFileWatchers(): void {
+		for (let i = 0; i < this.tools.length; i++) {
+			const tool = this.tools[i];
+			if (!tool?.config.watch) continue;
+
+			const dir = tool.config.cwd || process.cwd();
+			const watchConfig = { ...tool.config.watch };
+
+			// Never restart because of our own log files
+			if (this.logsConfig?.dir) {
+				const logsDir = relative(resolve(dir), resolve(this.logsConfig.dir));
+				if (logsDir && !logsDir.startsWith("..") && !isAbsolute(logsDir)) {
+					watchConfig.exclude = [
+						...(watchConfig.exclude ?? []),
+						`${logsDir.replace(/\\/g, "/")}/**`,
+					];
+				}
+			}
+
+			const watcher = new FileWatcher(
+				dir,
+				watchConfig,
+				(paths) => this.handleFileChanges(i, tool, paths),
+				(error) => {
+					if (this.fileWatchers.get(i) !== watcher) return;
+					this.fileWatchers.delete(i);
+					tool.watchEnabled = undefined;
+					this.addLog(
+						i,
+						`[WATCH] Stopped watching ${dir}: ${error.message}`,
+						true,
+					);
+				},
+			);
+			try {
+				watcher.start();
+				this.fileWatchers.set(i, watcher);
+				tool.watchEnabled = true;
+			} catch (error) {
+				this.addLog(i, `[WATCH] Failed to watch ${dir}: ${error}`, true);
+			}
+		}
+	}
+
+	/**
+	 * Stop all file watchers.
+	 */
+	private stopFileWatchers(): void {
+		for (const watcher of this.fileWatchers.values()) {
+			watcher.stop();
+		}
+		this.fileWatchers.clear();
+	}
+
+	/**
+	 * Restart a watched tool after matching files changed.
+	 * Only running or crashed tools are restarted - stopped and waiting tools are left alone.
+	 */
+	private async handleFileChanges(
+		index: number,
+		tool: ToolState,
+		paths: string[],
+	): Promise<void> {
+		if (
+			this.isShuttingDown ||
+			this.tools[index] !== tool ||
+			!tool.watchEnabled ||
+			(tool.status !== "running" && tool.status !== "error")
+		) {
+			return;
+		}
+
+		const [first] = paths;
+		const more = paths.length > 1 ? ` (+${paths.length - 1} more)` : "";
+		this.addLog(index, `[WATCH] ${first}${more} changed, restarting`);
+
+		// Keep the logs, so the reason stays above the new process's output
+		this.keepLogsOnStart.add(index);
+		try {
+			await this.restartTool(index);
+		} finally {
+			this.keepLogsOnStart.delete(index);
+		}
+	}
+
 	/**
 	 * Find a tool by name.
 	 * @returns The tool index and state, or undefined if not found
@@ -692,6 +1435,13 @@ export class ProcessManager {
 		return { index, tool };
 	}
 
+	/**
+	 * Check whether a tool is a virtual tool (log-only tab without a process).
+	 */
+	isVirtualTool(index: number): boolean {
+		return this.virtualToolIndices.has(index);
+	}
+
 	/**
 	 * Create a virtual tool (no spawned process) for internal use like MCP API.
 	 * The tool starts in "running" status and can receive logs via addLogToTool().
@@ -797,38 +1547,76 @@ export class ProcessManager {
 	async startAllToolsWithDependencies(
 		isToolReady: IsToolReadyCallback,
 		timeout: number = DEFAULT_DEPENDENCY_TIMEOUT,
+	): Promise<void> {
+		await this.startTools(
+			this.tools.map((_, i) => i),
+			isToolReady,
+			timeout,
+		);
+	}
+
+	/**
+	 * Start a set of tools respecting dependency order.
+	 * Tools start level by level (see resolveDependencies). A tool waits for
+	 * dependencies that are part of the set or already running/waiting - stopped
+	 * dependencies outside the set are not waited on. Running tools are skipped.
+	 *
+	 * @param indices - Indices of the tools to start
+	 * @param isToolReady - Callback to check if a tool is ready (healthy or running)
+	 * @param timeout - Maximum time to wait for dependencies (default: 30s)
+	 */
+	async startTools(
+		indices: number[],
+		isToolReady: IsToolReadyCallback,
+		timeout: number = DEFAULT_DEPENDENCY_TIMEOUT,
 	): Promise<void> {
 		const toolNames = new Set(this.tools.map((t) => t.config.name));
-		const { levels } = resolveDependencies(this.tools.map((t) => t.config));
+		const selected = new Map<string, number>();
+		for (const index of indices) {
+			const tool = this.tools[index];
+			if (tool && tool.status !== "running") {
+				selected.set(tool.config.name, index);
+			}
+		}
 
-		// Mark all tools with dependencies as "waiting" before starting
-		for (let i = 0; i < this.tools.length; i++) {
-			const tool = this.tools[i];
+		// Decide which dependencies to wait for before any status changes
+		const depsToWaitFor = new Map<number, string[]>();
+		for (const index of selected.values()) {
+			const tool = this.tools[index];
 			if (!tool) continue;
-			const deps = getValidDependencies(tool.config, toolNames);
-			if (deps.length > 0) {
+			const deps = getValidDependencies(tool.config, toolNames).filter(
+				(dep) => {
+					if (selected.has(dep)) return true;
+					const depStatus = this.getToolByName(dep)?.tool.status;
+					return depStatus === "running" || depStatus === "waiting";
+				},
+			);
+			depsToWaitFor.set(index, deps);
+		}
+
+		// Mark all tools with dependencies as "waiting" before starting
+		for (const [index, deps] of depsToWaitFor) {
+			const tool = this.tools[index];
+			if (tool && deps.length > 0) {
 				tool.status = "waiting";
-				this.notifyChange(i);
+				this.notifyChange(index);
 			}
 		}
 
+		const { levels } = resolveDependencies(this.tools.map((t) => t.config));
+
 		// Start tools level by level
 		for (let levelIdx = 0; levelIdx < levels.length; levelIdx++) {
 			const level = levels[levelIdx];
 			if (!level || level.length === 0) continue;
 
-			// Start all tools in this level in parallel
+			// Start all selected tools in this level in parallel
 			const startPromises = level.map(async (config) => {
-				const index = this.tools.findIndex(
-					(t) => t.config.name === config.name,
-				);
-				if (index === -1) return;
-
-				const tool = this.tools[index];
-				if (!tool) return;
+				const index = selected.get(config.name);
+				if (index === undefined) return;
 
 				// Wait for dependencies to be ready
-				const deps = getValidDependencies(config, toolNames);
+				const deps = depsToWaitFor.get(index) ?? [];
 				if (deps.length > 0) {
 					this.addLog(
 						index,
@@ -860,6 +1648,58 @@ export class ProcessManager {
 		}
 	}
 
+	/**
+	 * Stop a set of tools in reverse dependency order, so dependents stop before
+	 * the tools they depend on. Tools in the same level stop in parallel.
+	 *
+	 * @param indices - Indices of the tools to stop
+	 */
+	async stopTools(indices: number[]): Promise<void> {
+		await this.stopInReverseOrder(indices, (index) => this.stopTool(index));
+	}
+
+	/**
+	 * Run a stop function over a set of tools in reverse dependency order.
+	 * Tools in the same level are stopped in parallel.
+	 */
+	private async stopInReverseOrder(
+		indices: number[],
+		stop: (index: number) => Promise<void>,
+	): Promise<void> {
+		const { levelMap } = resolveDependencies(this.tools.map((t) => t.config));
+
+		const byLevel = new Map<number, number[]>();
+		for (const index of indices) {
+			const tool = this.tools[index];
+			if (!tool) continue;
+			const level = levelMap.get(tool.config.name) ?? 0;
+			byLevel.set(level, [...(byLevel.get(level) ?? []), index]);
+		}
+
+		const levels = [...byLevel.keys()].sort((a, b) => b - a);
+		for (const level of levels) {
+			await Promise.all((byLevel.get(level) ?? []).map(stop));
+		}
+	}
+
+	/**
+	 * Restart a set of tools: stop them in reverse dependency order (killing any
+	 * that ignore SIGTERM, like restartTool), then start them again in
+	 * dependency order.
+	 *
+	 * @param indices - Indices of the tools to restart
+	 * @param isToolReady - Callback to check if a tool is ready (healthy or running)
+	 * @param timeout - Maximum time to wait for dependencies (default: 30s)
+	 */
+	async restartTools(
+		indices: number[],
+		isToolReady: IsToolReadyCallback,
+		timeout: number = DEFAULT_DEPENDENCY_TIMEOUT,
+	): Promise<void> {
+		await this.stopInReverseOrder(indices, (i) => this.forceStopTool(i));
+		await this.startTools(indices, isToolReady, timeout);
+	}
+
 	/**
 	 * Wait for all dependencies to be ready.
 	 * Returns true if all are ready, false if timeout.
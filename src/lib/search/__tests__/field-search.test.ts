@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import type { StructuredLog } from "../../../types";
+import {
+	fieldFindLines,
+	getFieldValues,
+	parseFieldQuery,
+} from "../field-search";
+
+const log: StructuredLog = {
+	level: "error",
+	time: "2026-01-02T03:04:05Z",
+	message: "Query failed",
+	fields: [
+		["user_id", "123"],
+		["metadata.userId", "user-42"],
+		["error.message", "timeout"],
+	],
+};
+
+describe("parseFieldQuery", () => {
+	test("splits key:value queries", () => {
+		expect(parseFieldQuery("level:error")).toEqual({
+			key: "level",
+			value: "error",
+		});
+		expect(parseFieldQuery("error.code:ERR 1")).toEqual({
+			key: "error.code",
+			value: "ERR 1",
+		});
+	});
+
+	test("ignores queries that aren't field queries", () => {
+		expect(parseFieldQuery("error")).toBeNull();
+		expect(parseFieldQuery("12:30")).toBeNull();
+		expect(parseFieldQuery("level:")).toBeNull();
+	});
+});
+
+describe("getFieldValues", () => {
+	test("finds the level, time, message and nested fields", () => {
+		expect(getFieldValues(log, "level")).toEqual(["error"]);
+		expect(getFieldValues(log, "msg")).toEqual(["Query failed"]);
+		expect(getFieldValues(log, "message")).toEqual(["Query failed", "timeout"]);
+		expect(getFieldValues(log, "USERID")).toEqual(["user-42"]);
+		expect(getFieldValues(log, "missing")).toEqual([]);
+	});
+});
+
+describe("fieldFindLines", () => {
+	const lines = [
+		"ERROR Query failed",
+		"INFO user_id:123 in plain text",
+		"INFO Listening",
+	];
+	const logs = [
+		log,
+		undefined,
+		{ level: "info", message: "Listening", fields: [] },
+	];
+
+	test("matches structured fields and plain text", () => {
+		expect(fieldFindLines(lines, logs, "level:err")).toEqual([0]);
+		expect(fieldFindLines(lines, logs, "user_id:123")).toEqual([0, 1]);
+		expect(fieldFindLines(lines, logs, "level:info")).toEqual([2]);
+	});
+
+	test("falls back to substring search", () => {
+		expect(fieldFindLines(lines, logs, "listening")).toEqual([2]);
+	});
+});
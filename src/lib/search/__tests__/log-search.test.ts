@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import type { ToolState } from "../../../types";
+import { findMatchingLines, searchToolLogs } from "../log-search";
+
+function createTool(
+	name: string,
+	lines: Array<[text: string, timestamp: number]>,
+	logTrimCount = 0,
+): ToolState {
+	return {
+		config: { name, command: name },
+		process: null,
+		logs: lines.map(([text, timestamp]) => ({
+			segments: [{ text }],
+			timestamp,
+		})),
+		status: "running",
+		exitCode: null,
+		logTrimCount,
+		logVersion: 0,
+	};
+}
+
+const tools = [
+	createTool(
+		"api",
+		[
+			["starting api", 1],
+			["Error: connection refused", 4],
+			["retrying", 5],
+		],
+		10,
+	),
+	createTool("web", [
+		["compiling", 2],
+		["error TS2304", 3],
+	]),
+];
+
+describe("findMatchingLines", () => {
+	const lines = ["an error occurred", "all good", "Error: connection refused"];
+
+	test("matches substrings case-insensitively by default", () => {
+		expect(findMatchingLines(lines, "ERROR")).toEqual([0, 2]);
+	});
+
+	test("matches fuzzily", () => {
+		expect(findMatchingLines(lines, "conref", { searchType: "fuzzy" })).toEqual(
+			[2],
+		);
+	});
+
+	test("matches regular expressions with the regex search options", () => {
+		expect(
+			findMatchingLines(lines, "^error: \\w+", { searchType: "regex" }),
+		).toEqual([2]);
+		expect(
+			findMatchingLines(lines, "^error: \\w+", {
+				searchType: "regex",
+				caseSensitive: true,
+			}),
+		).toEqual([]);
+		expect(
+			findMatchingLines(lines, "err", { searchType: "regex", wholeWord: true }),
+		).toEqual([]);
+	});
+
+	test("throws for invalid regular expressions", () => {
+		expect(() =>
+			findMatchingLines(lines, "(unclosed", { searchType: "regex" }),
+		).toThrow(SyntaxError);
+	});
+});
+
+describe("searchToolLogs", () => {
+	test("merges matches from all tools in log order", () => {
+		const result = searchToolLogs(tools, "error");
+		expect(result.totalMatches).toBe(2);
+		expect(result.matches.map((m) => [m.tool, m.lineIndex, m.text])).toEqual([
+			["web", 1, "error TS2304"],
+			["api", 11, "Error: connection refused"],
+		]);
+	});
+
+	test("includes surrounding lines", () => {
+		const [match] = searchToolLogs(tools, "connection", { context: 1 }).matches;
+		expect(match?.before).toEqual(["starting api"]);
+		expect(match?.after).toEqual(["retrying"]);
+	});
+
+	test("only searches the given tools", () => {
+		const result = searchToolLogs(tools, "error", { toolNames: ["web"] });
+		expect(result.matches.map((m) => m.tool)).toEqual(["web"]);
+	});
+
+	test("keeps the most recent matches within the limit", () => {
+		const result = searchToolLogs(tools, "error", { limit: 1 });
+		expect(result.totalMatches).toBe(2);
+		expect(result.matches.map((m) => m.tool)).toEqual(["api"]);
+	});
+
+	test("supports regular expressions", () => {
+		const result = searchToolLogs(tools, "^(compiling|retrying)$", {
+			searchType: "regex",
+		});
+		expect(result.matches.map((m) => m.text)).toEqual([
+			"compiling",
+			"retrying",
+		]);
+	});
+
+	test("throws for an invalid regular expression without matching lines", () => {
+		expect(() =>
+			searchToolLogs([], "(unclosed", { searchType: "regex" }),
+		).toThrow(SyntaxError);
+	});
+
+	test("returns nothing for an empty query", () => {
+		expect(searchToolLogs(tools, "")).toEqual({ matches: [], totalMatches: 0 });
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import {
+	compileSearchRegex,
+	findRegexMatchRanges,
+	regexFindLines,
+} from "../regex-search";
+
+const lines = [
+	"GET /users/42 200",
+	"get /Users/7 404",
+	"error: user not found",
+	"username updated",
+];
+
+describe("compileSearchRegex", () => {
+	test("ignores case by default", () => {
+		expect(
+			regexFindLines(lines, compileSearchRegex("get /users/\\d+")),
+		).toEqual([0, 1]);
+	});
+
+	test("matches case exactly when case-sensitive", () => {
+		expect(
+			regexFindLines(
+				lines,
+				compileSearchRegex("GET /users/\\d+", { caseSensitive: true }),
+			),
+		).toEqual([0]);
+	});
+
+	test("matches whole words only", () => {
+		expect(regexFindLines(lines, compileSearchRegex("user"))).toEqual([
+			0, 1, 2, 3,
+		]);
+		expect(
+			regexFindLines(lines, compileSearchRegex("user", { wholeWord: true })),
+		).toEqual([2]);
+		expect(
+			regexFindLines(
+				lines,
+				compileSearchRegex("users|user", { wholeWord: true }),
+			),
+		).toEqual([0, 1, 2]);
+	});
+
+	test("throws for invalid patterns, also with whole words", () => {
+		expect(() => compileSearchRegex("a(b")).toThrow(SyntaxError);
+		expect(() => compileSearchRegex("a)|(b", { wholeWord: true })).toThrow(
+			SyntaxError,
+		);
+	});
+});
+
+describe("regexFindLines", () => {
+	test("doesn't skip matches because of the global flag", () => {
+		const regex = compileSearchRegex("\\d+");
+		expect(regexFindLines(["1", "2", "3"], regex)).toEqual([0, 1, 2]);
+	});
+});
+
+describe("findRegexMatchRanges", () => {
+	test("finds every match in a line", () => {
+		expect(findRegexMatchRanges("a1b22", compileSearchRegex("\\d+"))).toEqual([
+			{ start: 1, end: 2 },
+			{ start: 3, end: 5 },
+		]);
+	});
+
+	test("splits matches at their capture groups", () => {
+		expect(
+			findRegexMatchRanges(
+				"GET /users/42 200",
+				compileSearchRegex("/users/(\\d+) (\\d+)"),
+			),
+		).toEqual([
+			{ start: 4, end: 11 },
+			{ start: 11, end: 13, group: 1 },
+			{ start: 13, end: 14 },
+			{ start: 14, end: 17, group: 2 },
+		]);
+	});
+
+	test("highlights nested groups as their outermost group", () => {
+		expect(
+			findRegexMatchRanges("id=ab", compileSearchRegex("id=((a)b)")),
+		).toEqual([
+			{ start: 0, end: 3 },
+			{ start: 3, end: 5, group: 1 },
+		]);
+	});
+
+	test("leaves out empty matches and groups outside the match", () => {
+		expect(findRegexMatchRanges("abc", compileSearchRegex("x*"))).toEqual([]);
+		expect(
+			findRegexMatchRanges("foobar", compileSearchRegex("foo(?=(bar))")),
+		).toEqual([{ start: 0, end: 3 }]);
+	});
+});
@@ -0,0 +1,76 @@
+import type { StructuredLog } from "../../types";
+import { substringFindLines } from "./fuzzy";
+
+/** A search for a structured log field, e.g. "level:error" or "user_id:123" */
+export interface FieldQuery {
+	key: string;
+	value: string;
+}
+
+const FIELD_QUERY_REGEX = /^([A-Za-z_@][\w.@-]*):(\S.*)$/;
+
+/**
+ * Parse a "key:value" search query.
+ * @returns The key and value, or null when the query isn't a field query
+ */
+export function parseFieldQuery(query: string): FieldQuery | null {
+	const match = FIELD_QUERY_REGEX.exec(query);
+	if (!match) return null;
+	const [, key = "", value = ""] = match;
+	return { key, value };
+}
+
+/**
+ * Get the values of a field. The level, time and message are found by their
+ * usual names; other keys also match nested fields by their last part,
+ * so "userId" finds "metadata.userId".
+ */
+export function getFieldValues(log: StructuredLog, key: string): string[] {
+	const lowerKey = key.toLowerCase();
+	const values: string[] = [];
+	if (lowerKey === "level" && log.level !== undefined) values.push(log.level);
+	if (lowerKey === "time" && log.time !== undefined) values.push(log.time);
+	if ((lowerKey === "msg" || lowerKey === "message") && log.message) {
+		values.push(log.message);
+	}
+	for (const [fieldKey, value] of log.fields) {
+		const lowerFieldKey = fieldKey.toLowerCase();
+		if (lowerFieldKey === lowerKey || lowerFieldKey.endsWith(`.${lowerKey}`)) {
+			values.push(value);
+		}
+	}
+	return values;
+}
+
+/**
+ * Find matching lines using substring search (case-insensitive), where a
+ * "key:value" query also matches structured lines with a field containing the value.
+ * Returns indices of matching lines in their original order.
+ * @param lines - Plain text of each line
+ * @param logs - Parsed fields of each line, if it is structured
+ */
+export function fieldFindLines(
+	lines: string[],
+	logs: (StructuredLog | undefined)[],
+	query: string,
+): number[] {
+	const fieldQuery = parseFieldQuery(query);
+	if (!fieldQuery) return substringFindLines(lines, query);
+
+	const lowerQuery = query.toLowerCase();
+	const lowerValue = fieldQuery.value.toLowerCase();
+	const matches: number[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		const log = logs[i];
+		if (
+			lines[i]?.toLowerCase().includes(lowerQuery) ||
+			(log &&
+				getFieldValues(log, fieldQuery.key).some((value) =>
+					value.toLowerCase().includes(lowerValue),
+				))
+		) {
+			matches.push(i);
+		}
+	}
+	return matches;
+}
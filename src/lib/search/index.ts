@@ -1,3 +1,9 @@
+export {
+	type FieldQuery,
+	fieldFindLines,
+	getFieldValues,
+	parseFieldQuery,
+} from "./field-search";
 export {
 	calculateFuzzyHighlightSegments,
 	type FuzzyFilterResult,
@@ -7,3 +13,20 @@ export {
 	type HighlightSegment,
 	substringFindLines,
 } from "./fuzzy";
+export {
+	findMatchingLines,
+	type LineSearchOptions,
+	type LogSearchMatch,
+	type LogSearchOptions,
+	type LogSearchResult,
+	searchToolLogs,
+} from "./log-search";
+export {
+	compileSearchRegex,
+	findRegexMatchRanges,
+	type RegexMatchRange,
+	type RegexSearchOptions,
+	regexFindLines,
+	SEARCH_TYPES,
+	type SearchType,
+} from "./regex-search";
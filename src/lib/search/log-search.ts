@@ -0,0 +1,114 @@
+import type { ToolState } from "../../types";
+import { fuzzyFindLines, substringFindLines } from "./fuzzy";
+import {
+	compileSearchRegex,
+	type RegexSearchOptions,
+	regexFindLines,
+	type SearchType,
+} from "./regex-search";
+
+/** How a search query is matched against log lines */
+export interface LineSearchOptions extends RegexSearchOptions {
+	/** Search type (default: "substring") */
+	searchType?: SearchType;
+}
+
+/** Options for searching the logs of several tools */
+export interface LogSearchOptions extends LineSearchOptions {
+	/** Only search these tools (default: all) */
+	toolNames?: string[];
+	/** Number of lines before and after each match to include (default: 0) */
+	context?: number;
+	/** Maximum number of matches to return, keeping the most recent (default: all) */
+	limit?: number;
+}
+
+/** A line matching a cross-tool log search */
+export interface LogSearchMatch {
+	/** Name of the tool that logged the line */
+	tool: string;
+	/** Position of the line in the tool's whole output (see ToolState.logTrimCount) */
+	lineIndex: number;
+	/** Plain text of the line */
+	text: string;
+	/** Unix timestamp (ms) when the line was received */
+	timestamp: number;
+	/** Lines before the match */
+	before: string[];
+	/** Lines after the match */
+	after: string[];
+}
+
+export interface LogSearchResult {
+	/** Matches in the order they were logged */
+	matches: LogSearchMatch[];
+	/** Number of matching lines, including those left out by the limit */
+	totalMatches: number;
+}
+
+/**
+ * Find the lines matching a query: a case-insensitive substring, a fuzzy
+ * match or a regular expression (see compileSearchRegex).
+ * Returns indices of matching lines in their original order.
+ * @throws SyntaxError if the regular expression is invalid
+ */
+export function findMatchingLines(
+	lines: string[],
+	query: string,
+	options: LineSearchOptions = {},
+): number[] {
+	switch (options.searchType ?? "substring") {
+		case "regex":
+			return regexFindLines(lines, compileSearchRegex(query, options));
+		case "fuzzy":
+			return fuzzyFindLines(lines, query).map((match) => match.index);
+		case "substring":
+			return substringFindLines(lines, query);
+	}
+}
+
+/**
+ * Search the logs of several tools at once. Matches from all tools are
+ * merged in the order they were logged.
+ * @throws SyntaxError if the query is an invalid regular expression
+ */
+export function searchToolLogs(
+	tools: ToolState[],
+	query: string,
+	options: LogSearchOptions = {},
+): LogSearchResult {
+	if (!query) return { matches: [], totalMatches: 0 };
+
+	// Compile once up front, so an invalid pattern throws even without logs
+	if (options.searchType === "regex") compileSearchRegex(query, options);
+	const context = options.context ?? 0;
+	const toolNames = options.toolNames && new Set(options.toolNames);
+
+	const found: LogSearchMatch[] = [];
+	for (const tool of tools) {
+		if (toolNames && !toolNames.has(tool.config.name)) continue;
+
+		const texts = tool.logs.map((line) =>
+			line.segments.map((seg) => seg.text).join(""),
+		);
+		for (const i of findMatchingLines(texts, query, options)) {
+			const text = texts[i] ?? "";
+			found.push({
+				tool: tool.config.name,
+				lineIndex: tool.logTrimCount + i,
+				text,
+				timestamp: tool.logs[i]?.timestamp ?? 0,
+				before: texts.slice(Math.max(i - context, 0), i),
+				after: texts.slice(i + 1, i + 1 + context),
+			});
+		}
+	}
+
+	// Stable, so lines logged in the same millisecond keep the tool order
+	found.sort((a, b) => a.timestamp - b.timestamp);
+	const limit = options.limit ?? found.length;
+	return {
+		matches: limit > 0 ? found.slice(-limit) : [],
+		totalMatches: found.length,
+	};
+}
@@ -0,0 +1,89 @@
+/** How a search query is matched against log lines */
+export type SearchType = "fuzzy" | "substring" | "regex";
+
+export const SEARCH_TYPES: readonly SearchType[] = [
+	"fuzzy",
+	"substring",
+	"regex",
+];
+
+/** Options of the regex search mode */
+export interface RegexSearchOptions {
+	/** Match letter case exactly (default: case-insensitive) */
+	caseSensitive?: boolean;
+	/** Only match whole words, as if the pattern were wrapped in \b...\b */
+	wholeWord?: boolean;
+}
+
+/** A part of a line matched by a regex search */
+export interface RegexMatchRange {
+	start: number;
+	end: number;
+	/** Number of the capture group this part belongs to, if any */
+	group?: number;
+}
+
+/**
+ * Compile a regex search query. The "d" flag records where capture groups
+ * matched, for highlighting them.
+ * @throws SyntaxError if the pattern is invalid
+ */
+export function compileSearchRegex(
+	query: string,
+	options: RegexSearchOptions = {},
+): RegExp {
+	const flags = options.caseSensitive ? "gd" : "gid";
+	// Check the pattern on its own first, so an unbalanced ")" can't escape the word boundaries
+	const regex = new RegExp(query, flags);
+	return options.wholeWord ? new RegExp(`\\b(?:${query})\\b`, flags) : regex;
+}
+
+/**
+ * Find lines matching a compiled search regex.
+ * Returns indices of matching lines in their original order.
+ */
+export function regexFindLines(lines: string[], regex: RegExp): number[] {
+	const matches: number[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		// search() ignores lastIndex, so the global flag doesn't carry over between lines
+		const line = lines[i];
+		if (line !== undefined && line.search(regex) !== -1) {
+			matches.push(i);
+		}
+	}
+	return matches;
+}
+
+/**
+ * Find the parts of a line matched by a search regex (from compileSearchRegex).
+ * Each match is split at its capture groups so they can be highlighted on
+ * their own; nested groups belong to their outermost group, and empty
+ * matches are left out.
+ */
+export function findRegexMatchRanges(
+	text: string,
+	regex: RegExp,
+): RegexMatchRange[] {
+	const ranges: RegexMatchRange[] = [];
+	for (const match of text.matchAll(regex)) {
+		const start = match.index;
+		const end = start + match[0].length;
+		if (start === end) continue;
+
+		let pos = start;
+		const groups = match.indices?.slice(1) ?? [];
+		groups.forEach((groupRange, i) => {
+			if (!groupRange) return;
+			const [groupStart, groupEnd] = groupRange;
+			// Skip empty groups, nested groups and groups in lookarounds outside the match
+			if (groupStart < pos || groupEnd > end || groupStart === groupEnd) {
+				return;
+			}
+			if (groupStart > pos) ranges.push({ start: pos, end: groupStart });
+			ranges.push({ start: groupStart, end: groupEnd, group: i + 1 });
+			pos = groupEnd;
+		});
+		if (pos < end) ranges.push({ start: pos, end });
+	}
+	return ranges;
+}
@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test";
+import { TextAttributes } from "@opentui/core";
+import { TerminalScreen } from "../terminal-screen";
+
+function createScreen(cols = 10, rows = 4) {
+	const lines: string[] = [];
+	const responses: string[] = [];
+	const screen = new TerminalScreen({
+		cols,
+		rows,
+		onLine: (_segments, text) => lines.push(text),
+		onResponse: (data) => responses.push(data),
+	});
+	return { screen, lines, responses };
+}
+
+describe("TerminalScreen", () => {
+	test("prints text and handles CR/LF", () => {
+		const { screen } = createScreen();
+		screen.write("hello\r\nworld");
+		expect(screen.getText()).toEqual(["hello", "world", "", ""]);
+		expect(screen.cursorX).toBe(5);
+		expect(screen.cursorY).toBe(1);
+	});
+
+	test("scrolls when writing past the last row", () => {
+		const { screen } = createScreen(10, 2);
+		screen.write("a\r\nb\r\nc");
+		expect(screen.getText()).toEqual(["b", "c"]);
+	});
+
+	test("wraps long lines and reports them as one line", () => {
+		const { screen, lines } = createScreen(4, 3);
+		screen.write("abcdefg\r\n");
+		expect(screen.getText()).toEqual(["abcd", "efg", ""]);
+		expect(lines).toEqual(["abcdefg"]);
+	});
+
+	test("moves the cursor with CSI sequences", () => {
+		const { screen } = createScreen();
+		screen.write("\x1b[3;4HX");
+		screen.write("\x1b[2AY");
+		screen.write("\x1b[1;1H\x1b[2CZ");
+		expect(screen.getText()).toEqual(["  Z Y", "", "   X", ""]);
+	});
+
+	test("clamps cursor movement to the screen", () => {
+		const { screen } = createScreen(5, 2);
+		screen.write("\x1b[99;99H");
+		expect(screen.cursorX).toBe(4);
+		expect(screen.cursorY).toBe(1);
+		screen.write("\x1b[99D\x1b[99A");
+		expect(screen.cursorX).toBe(0);
+		expect(screen.cursorY).toBe(0);
+	});
+
+	test("clears the screen and lines", () => {
+		const { screen } = createScreen();
+		screen.write("one\r\ntwo\r\nthree");
+		screen.write("\x1b[2J");
+		expect(screen.getText()).toEqual(["", "", "", ""]);
+
+		screen.write("\x1b[Habcdef\x1b[1;3H\x1b[K");
+		expect(screen.getText()[0]).toBe("ab");
+		screen.write("\x1b[1;2H\x1b[1K");
+		expect(screen.getText()[0]).toBe("");
+	});
+
+	test("overwrites in place with carriage return", () => {
+		const { screen, lines } = createScreen();
+		screen.write("10%\r50%\r100%\r\n");
+		expect(screen.getText()[0]).toBe("100%");
+		expect(lines).toEqual(["100%"]);
+	});
+
+	test("parses SGR colors and attributes", () => {
+		const { screen } = createScreen(20, 1);
+		screen.write("\x1b[1;31mred\x1b[0m \x1b[38;5;196mext\x1b[48;2;0;0;255mbg");
+		const [row] = screen.getRows();
+		expect(row?.[0]).toMatchObject({
+			text: "red",
+			colorIndex: 1,
+			attributes: TextAttributes.BOLD,
+		});
+		expect(row?.[1]?.text).toBe(" ");
+		expect(row?.[2]).toMatchObject({ text: "ext", color: "#ff0000" });
+		expect(row?.[3]).toMatchObject({
+			text: "bg",
+			color: "#ff0000",
+			bgColor: "#0000ff",
+		});
+	});
+
+	test("switches to and from the alternate screen", () => {
+		const { screen, lines } = createScreen();
+		screen.write("main\r\n");
+		screen.write("\x1b[?1049h\x1b[Hfull\r\nscreen\r\n");
+		expect(screen.altScreen).toBe(true);
+		expect(screen.getText().slice(0, 2)).toEqual(["full", "screen"]);
+
+		screen.write("\x1b[?1049l");
+		expect(screen.altScreen).toBe(false);
+		expect(screen.getText()[0]).toBe("main");
+		expect(screen.cursorY).toBe(1);
+		// Lines on the alternate screen are not reported
+		expect(lines).toEqual(["main"]);
+	});
+
+	test("scrolls only within the scroll region", () => {
+		const { screen } = createScreen(10, 4);
+		screen.write("top\x1b[2;3r\x1b[2;1Ha\r\nb\r\nc\x1b[4;1Hbottom");
+		expect(screen.getText()).toEqual(["top", "b", "c", "bottom"]);
+	});
+
+	test("inserts and deletes lines and characters", () => {
+		const { screen } = createScreen(10, 3);
+		screen.write("one\r\ntwo\r\nthree\x1b[2;1H\x1b[L");
+		expect(screen.getText()).toEqual(["one", "", "two"]);
+		screen.write("\x1b[M");
+		expect(screen.getText()).toEqual(["one", "two", ""]);
+
+		screen.write("\x1b[1;1H\x1b[2P");
+		expect(screen.getText()[0]).toBe("e");
+		screen.write("\x1b[2@");
+		expect(screen.getText()[0]).toBe("  e");
+	});
+
+	test("answers cursor position and device attribute queries", () => {
+		const { screen, responses } = createScreen();
+		screen.write("\x1b[2;3H\x1b[6n\x1b[c");
+		expect(responses).toEqual(["\x1b[2;3R", "\x1b[?1;2c"]);
+	});
+
+	test("handles sequences split across writes", () => {
+		const { screen } = createScreen();
+		screen.write("\x1b[");
+		screen.write("2;2");
+		screen.write("HX\x1b]0;title");
+		screen.write("\x07Y");
+		expect(screen.getText()[1]).toBe(" XY");
+	});
+
+	test("resize keeps the cursor row visible", () => {
+		const { screen } = createScreen(10, 4);
+		screen.write("a\r\nb\r\nc\r\nd");
+		screen.resize(3, 2);
+		expect(screen.getText()).toEqual(["c", "d"]);
+		expect(screen.cursorY).toBe(1);
+
+		screen.resize(6, 3);
+		expect(screen.getText()).toEqual(["c", "d", ""]);
+		expect(screen.cols).toBe(6);
+	});
+
+	test("renders the cursor inverted when requested", () => {
+		const { screen } = createScreen(5, 1);
+		screen.write("ab");
+		const [row] = screen.getRows(true);
+		expect(row?.at(-1)).toMatchObject({
+			text: " ",
+			attributes: TextAttributes.INVERSE,
+		});
+
+		screen.write("\x1b[?25l");
+		expect(screen.getRows(true)[0]).toEqual([{ text: "ab" }]);
+	});
+});
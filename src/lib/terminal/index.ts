@@ -0,0 +1,7 @@
+export { type PtyTerminal, spawnPty } from "./pty";
+export {
+	type CellStyle,
+	DEFAULT_TERMINAL_COLS,
+	DEFAULT_TERMINAL_ROWS,
+	TerminalScreen,
+} from "./terminal-screen";
@@ -0,0 +1,52 @@
+/**
+ * Pseudo-terminal attached to a process spawned with Bun's `terminal` option.
+ * Declared here because the installed Bun type definitions predate the API.
+ */
+export interface PtyTerminal {
+	write(data: string): void;
+	resize(cols: number, rows: number): void;
+	close(): void;
+}
+
+export interface PtySpawnOptions {
+	cwd: string;
+	env: Record<string, string | undefined>;
+	cols: number;
+	rows: number;
+	/** Called with decoded output from the terminal */
+	onData: (data: string) => void;
+}
+
+/**
+ * Spawn a command attached to a new pseudo-terminal.
+ * stdin/stdout/stderr all go through the terminal, so the process sees a TTY
+ * (the returned process has no stdin/stdout/stderr streams).
+ */
+export function spawnPty(
+	cmd: string[],
+	options: PtySpawnOptions,
+): { proc: ReturnType<typeof Bun.spawn>; terminal: PtyTerminal } {
+	const decoder = new TextDecoder();
+	const spawn = Bun.spawn as unknown as (
+		cmd: string[],
+		options: object,
+	) => ReturnType<typeof Bun.spawn> & { terminal?: PtyTerminal };
+
+	const proc = spawn(cmd, {
+		cwd: options.cwd,
+		env: options.env,
+		terminal: {
+			cols: options.cols,
+			rows: options.rows,
+			data: (_terminal: PtyTerminal, data: Uint8Array) => {
+				options.onData(decoder.decode(data, { stream: true }));
+			},
+		},
+	});
+
+	if (!proc.terminal) {
+		proc.kill();
+		throw new Error("Pseudo-terminals are not supported by this Bun version");
+	}
+	return { proc, terminal: proc.terminal };
+}
@@ -0,0 +1,824 @@
+import { TextAttributes } from "@opentui/core";
+import type { TextSegment } from "../../types";
+import { getVisibleWidth, map256Color, rgbToHex } from "../text/ansi";
+
+/** Default screen size used until the view reports its real size */
+export const DEFAULT_TERMINAL_COLS = 80;
+export const DEFAULT_TERMINAL_ROWS = 24;
+
+/** Style of a single screen cell (a text segment without its text) */
+export type CellStyle = Omit<TextSegment, "text">;
+
+interface Cell {
+	/** Character in the cell ("" for the second half of a wide character) */
+	char: string;
+	style: CellStyle;
+}
+
+interface Row {
+	cells: Cell[];
+	/** Whether the row was soft-wrapped onto the next row */
+	wrapped: boolean;
+}
+
+const DEFAULT_STYLE: CellStyle = {};
+
+const ESC = "\x1b";
+
+export interface TerminalScreenOptions {
+	cols?: number;
+	rows?: number;
+	/** Called with replies to terminal queries (cursor position, device attributes) */
+	onResponse?: (data: string) => void;
+	/**
+	 * Called when a line on the main screen is ended with a line feed.
+	 * Soft-wrapped rows are joined into a single line. Not called on the
+	 * alternate screen used by full-screen programs.
+	 */
+	onLine?: (segments: TextSegment[], text: string) => void;
+}
+
+/**
+ * A VT100/xterm screen emulator.
+ *
+ * Output written to a pseudo-terminal is fed to write(), which updates a
+ * fixed-size grid of styled cells. Supports cursor movement, erasing,
+ * scroll regions, insert/delete of lines and characters, SGR colors and
+ * attributes, and the alternate screen. Unknown sequences are ignored.
+ */
+export class TerminalScreen {
+	cols: number;
+	rows: number;
+	cursorX = 0;
+	cursorY = 0;
+	cursorVisible = true;
+	/** Incremented on every change, for change detection */
+	version = 0;
+
+	private buffer: Row[];
+	/** Main screen rows, saved while the alternate screen is active */
+	private savedMainBuffer: Row[] | null = null;
+	private style: CellStyle = DEFAULT_STYLE;
+	private savedCursor: { x: number; y: number; style: CellStyle } | null = null;
+	private scrollTop = 0;
+	private scrollBottom: number;
+	private autoWrap = true;
+	/** Cursor is past the last column; the next character wraps first */
+	private wrapPending = false;
+	/** Style of erased cells, cached so equal blanks merge into one segment */
+	private blankStyle: { for: CellStyle; style: CellStyle } = {
+		for: DEFAULT_STYLE,
+		style: DEFAULT_STYLE,
+	};
+	/** Wrapped rows that scrolled off the top before their line was ended */
+	private pendingWrapSegments: TextSegment[] = [];
+
+	private parserState: "ground" | "escape" | "csi" | "osc" | "charset" =
+		"ground";
+	private csiParams = "";
+	private oscEscape = false;
+
+	private onResponse?: (data: string) => void;
+	private onLine?: (segments: TextSegment[], text: string) => void;
+
+	constructor(options: TerminalScreenOptions = {}) {
+		this.cols = Math.max(1, options.cols ?? DEFAULT_TERMINAL_COLS);
+		this.rows = Math.max(1, options.rows ?? DEFAULT_TERMINAL_ROWS);
+		this.scrollBottom = this.rows - 1;
+		this.buffer = this.createRows(this.rows);
+		this.onResponse = options.onResponse;
+		this.onLine = options.onLine;
+	}
+
+	/** Whether a full-screen program switched to the alternate screen */
+	get altScreen(): boolean {
+		return this.savedMainBuffer !== null;
+	}
+
+	/**
+	 * Process output from the terminal.
+	 * Escape sequences split across calls are handled.
+	 */
+	write(data: string): void {
+		for (const char of data) {
+			switch (this.parserState) {
+				case "ground":
+					this.handleGround(char);
+					break;
+				case "escape":
+					this.handleEscape(char);
+					break;
+				case "csi":
+					this.handleCsi(char);
+					break;
+				case "osc":
+					// Operating system commands (window title etc.) end with BEL or ESC \
+					if (char === "\x07" || (this.oscEscape && char === "\\")) {
+						this.parserState = "ground";
+					}
+					this.oscEscape = char === ESC;
+					break;
+				case "charset":
+					// Character set designation (ESC ( B etc.) - only ASCII is supported
+					this.parserState = "ground";
+					break;
+			}
+		}
+		this.version++;
+	}
+
+	/**
+	 * Resize the screen, keeping the cursor row visible.
+	 * Content is truncated or padded; the scroll region is reset.
+	 */
+	resize(cols: number, rows: number): void {
+		const newCols = Math.max(1, cols);
+		const newRows = Math.max(1, rows);
+		if (newCols === this.cols && newRows === this.rows) return;
+
+		// Drop rows from the top when shrinking below the cursor
+		const drop = Math.max(0, this.cursorY - (newRows - 1));
+		this.buffer = this.resizeRows(this.buffer.slice(drop), newCols, newRows);
+		if (this.savedMainBuffer) {
+			this.savedMainBuffer = this.resizeRows(
+				this.savedMainBuffer,
+				newCols,
+				newRows,
+			);
+		}
+
+		this.cols = newCols;
+		this.rows = newRows;
+		this.cursorY -= drop;
+		this.clampCursor();
+		this.scrollTop = 0;
+		this.scrollBottom = newRows - 1;
+		this.wrapPending = false;
+		this.version++;
+	}
+
+	/**
+	 * Get the screen contents as styled segments, one array per row.
+	 * Trailing unstyled blanks are trimmed.
+	 *
+	 * @param showCursor - Render the cursor cell inverted (when the cursor is visible)
+	 */
+	getRows(showCursor = false): TextSegment[][] {
+		return this.buffer.map((row, y) => {
+			const cursorX =
+				showCursor && this.cursorVisible && y === this.cursorY
+					? this.cursorX
+					: -1;
+			return rowToSegments(row.cells, cursorX);
+		});
+	}
+
+	/** Get the screen contents as plain text, one string per row */
+	getText(): string[] {
+		return this.buffer.map((row) =>
+			row.cells
+				.map((cell) => cell.char)
+				.join("")
+				.trimEnd(),
+		);
+	}
+
+	// --- Parser states ---
+
+	private handleGround(char: string): void {
+		switch (char) {
+			case ESC:
+				this.parserState = "escape";
+				return;
+			case "\r":
+				this.cursorX = 0;
+				this.wrapPending = false;
+				return;
+			case "\n":
+			case "\v":
+			case "\f":
+				this.lineFeed(true);
+				return;
+			case "\b":
+				this.cursorX = Math.max(0, this.cursorX - 1);
+				this.wrapPending = false;
+				return;
+			case "\t":
+				this.cursorX = Math.min(
+					this.cols - 1,
+					(Math.floor(this.cursorX / 8) + 1) * 8,
+				);
+				this.wrapPending = false;
+				return;
+		}
+
+		// Ignore other control characters (BEL, SO/SI, DEL, ...)
+		const code = char.codePointAt(0) ?? 0;
+		if (code < 0x20 || code === 0x7f) return;
+
+		this.print(char);
+	}
+
+	private handleEscape(char: string): void {
+		this.parserState = "ground";
+		switch (char) {
+			case "[":
+				this.parserState = "csi";
+				this.csiParams = "";
+				break;
+			case "]":
+				this.parserState = "osc";
+				this.oscEscape = false;
+				break;
+			case "(":
+			case ")":
+			case "*":
+			case "+":
+				this.parserState = "charset";
+				break;
+			case "7":
+				this.saveCursor();
+				break;
+			case "8":
+				this.restoreCursor();
+				break;
+			case "D":
+				this.lineFeed(false);
+				break;
+			case "E":
+				this.cursorX = 0;
+				this.lineFeed(false);
+				break;
+			case "M":
+				this.reverseIndex();
+				break;
+			case "c":
+				this.reset();
+				break;
+		}
+	}
+
+	private handleCsi(char: string): void {
+		const code = char.codePointAt(0) ?? 0;
+		if (code >= 0x20 && code <= 0x3f) {
+			// Parameter and intermediate bytes
+			this.csiParams += char;
+			return;
+		}
+		this.parserState = "ground";
+		if (code >= 0x40 && code <= 0x7e) {
+			this.executeCsi(this.csiParams, char);
+		}
+	}
+
+	// --- Sequence handlers ---
+
+	private executeCsi(rawParams: string, final: string): void {
+		const prefix = /^[?>=<]/.test(rawParams) ? rawParams.charAt(0) : "";
+		const params = rawParams
+			.slice(prefix.length)
+			.split(/[;:]/)
+			.map((p) => Number.parseInt(p, 10));
+		// Parameter with a default; 0 also means the default for counts
+		const param = (i: number, fallback = 1) => params[i] || fallback;
+
+		if (prefix === "?") {
+			if (final === "h" || final === "l") {
+				this.setPrivateModes(params, final === "h");
+			}
+			return;
+		}
+		if (prefix === ">") {
+			if (final === "c") {
+				this.onResponse?.(`${ESC}[>0;0;0c`);
+			}
+			return;
+		}
+		if (prefix) return;
+
+		if (final !== "m") {
+			this.wrapPending = false;
+		}
+
+		switch (final) {
+			case "A":
+				this.cursorY = Math.max(0, this.cursorY - param(0));
+				break;
+			case "B":
+			case "e":
+				this.cursorY = Math.min(this.rows - 1, this.cursorY + param(0));
+				break;
+			case "C":
+			case "a":
+				this.cursorX = Math.min(this.cols - 1, this.cursorX + param(0));
+				break;
+			case "D":
+				this.cursorX = Math.max(0, this.cursorX - param(0));
+				break;
+			case "E":
+				this.cursorX = 0;
+				this.cursorY = Math.min(this.rows - 1, this.cursorY + param(0));
+				break;
+			case "F":
+				this.cursorX = 0;
+				this.cursorY = Math.max(0, this.cursorY - param(0));
+				break;
+			case "G":
+			case "`":
+				this.cursorX = param(0) - 1;
+				break;
+			case "d":
+				this.cursorY = param(0) - 1;
+				break;
+			case "H":
+			case "f":
+				this.cursorY = param(0) - 1;
+				this.cursorX = param(1) - 1;
+				break;
+			case "J":
+				this.eraseInDisplay(params[0] || 0);
+				break;
+			case "K":
+				this.eraseInLine(params[0] || 0);
+				break;
+			case "L":
+				this.insertLines(param(0));
+				break;
+			case "M":
+				this.deleteLines(param(0));
+				break;
+			case "P":
+				this.deleteChars(param(0));
+				break;
+			case "@":
+				this.insertChars(param(0));
+				break;
+			case "X":
+				this.eraseCells(this.cursorY, this.cursorX, this.cursorX + param(0));
+				break;
+			case "S":
+				this.scrollUp(param(0));
+				break;
+			case "T":
+				this.scrollDown(param(0));
+				break;
+			case "m":
+				this.applySgr(params);
+				break;
+			case "r": {
+				const top = param(0) - 1;
+				const bottom = param(1, this.rows) - 1;
+				if (top < bottom && bottom < this.rows) {
+					this.scrollTop = top;
+					this.scrollBottom = bottom;
+				}
+				this.cursorX = 0;
+				this.cursorY = 0;
+				break;
+			}
+			case "s":
+				this.saveCursor();
+				break;
+			case "u":
+				this.restoreCursor();
+				break;
+			case "n":
+				if (params[0] === 6) {
+					this.onResponse?.(`${ESC}[${this.cursorY + 1};${this.cursorX + 1}R`);
+				} else if (params[0] === 5) {
+					this.onResponse?.(`${ESC}[0n`);
+				}
+				break;
+			case "c":
+				this.onResponse?.(`${ESC}[?1;2c`);
+				break;
+		}
+		this.clampCursor();
+	}
+
+	private setPrivateModes(modes: number[], enable: boolean): void {
+		for (const mode of modes) {
+			switch (mode) {
+				case 7:
+					this.autoWrap = enable;
+					break;
+				case 25:
+					this.cursorVisible = enable;
+					break;
+				case 47:
+				case 1047:
+				case 1049:
+					if (enable) {
+						if (mode === 1049) this.saveCursor();
+						this.enterAltScreen();
+					} else {
+						this.exitAltScreen();
+						if (mode === 1049) this.restoreCursor();
+					}
+					break;
+			}
+		}
+	}
+
+	private applySgr(params: number[]): void {
+		const style = { ...this.style };
+		let attributes = style.attributes ?? 0;
+		const codes = params.map((p) => (Number.isNaN(p) ? 0 : p));
+
+		for (let i = 0; i < codes.length; i++) {
+			const c = codes[i] ?? 0;
+			if (c === 0) {
+				for (const key of Object.keys(style) as (keyof CellStyle)[]) {
+					delete style[key];
+				}
+				attributes = 0;
+			} else if (SGR_ATTRIBUTES[c] !== undefined) {
+				attributes |= SGR_ATTRIBUTES[c];
+			} else if (SGR_RESET_ATTRIBUTES[c] !== undefined) {
+				attributes &= ~SGR_RESET_ATTRIBUTES[c];
+			} else if (c >= 30 && c <= 37) {
+				style.colorIndex = c - 30;
+				style.color = undefined;
+			} else if (c >= 90 && c <= 97) {
+				style.colorIndex = 8 + (c - 90);
+				style.color = undefined;
+			} else if (c === 39) {
+				style.colorIndex = undefined;
+				style.color = undefined;
+			} else if (c >= 40 && c <= 47) {
+				style.bgColorIndex = c - 40;
+				style.bgColor = undefined;
+			} else if (c >= 100 && c <= 107) {
+				style.bgColorIndex = 8 + (c - 100);
+				style.bgColor = undefined;
+			} else if (c === 49) {
+				style.bgColorIndex = undefined;
+				style.bgColor = undefined;
+			} else if (c === 38 || c === 48) {
+				const { index, color, consumed } = parseExtendedColor(codes, i + 1);
+				i += consumed;
+				if (c === 38) {
+					style.colorIndex = index;
+					style.color = color;
+				} else {
+					style.bgColorIndex = index;
+					style.bgColor = color;
+				}
+			}
+		}
+
+		style.attributes = attributes || undefined;
+		this.style = style;
+	}
+
+	// --- Screen operations ---
+
+	private print(char: string): void {
+		const width = getVisibleWidth(char) > 1 ? 2 : 1;
+
+		if (this.wrapPending || (width === 2 && this.cursorX === this.cols - 1)) {
+			if (this.autoWrap) {
+				this.getRow(this.cursorY).wrapped = true;
+				this.cursorX = 0;
+				this.lineFeed(false);
+			}
+			this.wrapPending = false;
+		}
+
+		const cells = this.getRow(this.cursorY).cells;
+		cells[this.cursorX] = { char, style: this.style };
+		if (width === 2 && this.cursorX + 1 < this.cols) {
+			cells[this.cursorX + 1] = { char: "", style: this.style };
+		}
+
+		this.cursorX += width;
+		if (this.cursorX >= this.cols) {
+			this.cursorX = this.cols - 1;
+			this.wrapPending = this.autoWrap;
+		}
+	}
+
+	/**
+	 * Move the cursor down a row, scrolling at the bottom of the scroll region.
+	 * @param endsLine - Whether this ends the current line (a real line feed)
+	 */
+	private lineFeed(endsLine: boolean): void {
+		if (endsLine && !this.altScreen) {
+			this.emitLine(this.cursorY);
+		}
+		this.wrapPending = false;
+
+		if (this.cursorY === this.scrollBottom) {
+			this.scrollUp(1);
+		} else if (this.cursorY < this.rows - 1) {
+			this.cursorY++;
+		}
+	}
+
+	private reverseIndex(): void {
+		this.wrapPending = false;
+		if (this.cursorY === this.scrollTop) {
+			this.scrollDown(1);
+		} else if (this.cursorY > 0) {
+			this.cursorY--;
+		}
+	}
+
+	private scrollUp(count: number): void {
+		for (let i = 0; i < count; i++) {
+			const [removed] = this.buffer.splice(this.scrollTop, 1);
+			// Keep the start of a wrapped line that leaves the screen
+			if (removed?.wrapped && this.scrollTop === 0 && !this.altScreen) {
+				this.pendingWrapSegments.push(...rowToSegments(removed.cells));
+			}
+			this.buffer.splice(this.scrollBottom, 0, this.createRow());
+		}
+	}
+
+	private scrollDown(count: number): void {
+		for (let i = 0; i < count; i++) {
+			this.buffer.splice(this.scrollBottom, 1);
+			this.buffer.splice(this.scrollTop, 0, this.createRow());
+		}
+	}
+
+	private insertLines(count: number): void {
+		if (this.cursorY < this.scrollTop || this.cursorY > this.scrollBottom) {
+			return;
+		}
+		for (let i = 0; i < count; i++) {
+			this.buffer.splice(this.scrollBottom, 1);
+			this.buffer.splice(this.cursorY, 0, this.createRow());
+		}
+		this.cursorX = 0;
+	}
+
+	private deleteLines(count: number): void {
+		if (this.cursorY < this.scrollTop || this.cursorY > this.scrollBottom) {
+			return;
+		}
+		for (let i = 0; i < count; i++) {
+			this.buffer.splice(this.cursorY, 1);
+			this.buffer.splice(this.scrollBottom, 0, this.createRow());
+		}
+		this.cursorX = 0;
+	}
+
+	private insertChars(count: number): void {
+		const cells = this.getRow(this.cursorY).cells;
+		const blanks = Array.from({ length: count }, () => this.blankCell());
+		cells.splice(this.cursorX, 0, ...blanks);
+		cells.length = this.cols;
+	}
+
+	private deleteChars(count: number): void {
+		const cells = this.getRow(this.cursorY).cells;
+		cells.splice(this.cursorX, count);
+		while (cells.length < this.cols) {
+			cells.push(this.blankCell());
+		}
+	}
+
+	private eraseInDisplay(mode: number): void {
+		if (mode === 0) {
+			this.eraseCells(this.cursorY, this.cursorX, this.cols);
+			for (let y = this.cursorY + 1; y < this.rows; y++) {
+				this.eraseCells(y, 0, this.cols);
+			}
+		} else if (mode === 1) {
+			for (let y = 0; y < this.cursorY; y++) {
+				this.eraseCells(y, 0, this.cols);
+			}
+			this.eraseCells(this.cursorY, 0, this.cursorX + 1);
+		} else {
+			for (let y = 0; y < this.rows; y++) {
+				this.eraseCells(y, 0, this.cols);
+			}
+		}
+	}
+
+	private eraseInLine(mode: number): void {
+		if (mode === 0) {
+			this.eraseCells(this.cursorY, this.cursorX, this.cols);
+		} else if (mode === 1) {
+			this.eraseCells(this.cursorY, 0, this.cursorX + 1);
+		} else {
+			this.eraseCells(this.cursorY, 0, this.cols);
+		}
+	}
+
+	/** Blank the cells in [start, end) of a row */
+	private eraseCells(y: number, start: number, end: number): void {
+		const row = this.getRow(y);
+		for (let x = start; x < Math.min(end, this.cols); x++) {
+			row.cells[x] = this.blankCell();
+		}
+		if (end >= this.cols) {
+			row.wrapped = false;
+		}
+	}
+
+	private saveCursor(): void {
+		this.savedCursor = { x: this.cursorX, y: this.cursorY, style: this.style };
+	}
+
+	private restoreCursor(): void {
+		if (!this.savedCursor) return;
+		this.cursorX = this.savedCursor.x;
+		this.cursorY = this.savedCursor.y;
+		this.style = this.savedCursor.style;
+		this.wrapPending = false;
+		this.clampCursor();
+	}
+
+	private enterAltScreen(): void {
+		if (this.savedMainBuffer) return;
+		this.savedMainBuffer = this.buffer;
+		this.buffer = this.createRows(this.rows);
+	}
+
+	private exitAltScreen(): void {
+		if (!this.savedMainBuffer) return;
+		this.buffer = this.savedMainBuffer;
+		this.savedMainBuffer = null;
+	}
+
+	private reset(): void {
+		this.savedMainBuffer = null;
+		this.buffer = this.createRows(this.rows);
+		this.style = DEFAULT_STYLE;
+		this.savedCursor = null;
+		this.cursorX = 0;
+		this.cursorY = 0;
+		this.cursorVisible = true;
+		this.autoWrap = true;
+		this.wrapPending = false;
+		this.scrollTop = 0;
+		this.scrollBottom = this.rows - 1;
+	}
+
+	/** Report a finished line (joined with any soft-wrapped rows above it) */
+	private emitLine(y: number): void {
+		if (!this.onLine) return;
+
+		let start = y;
+		while (start > 0 && this.buffer[start - 1]?.wrapped) {
+			start--;
+		}
+		const segments = [...this.pendingWrapSegments];
+		this.pendingWrapSegments = [];
+		for (let row = start; row <= y; row++) {
+			segments.push(...rowToSegments(this.getRow(row).cells));
+		}
+		this.onLine(segments, segments.map((seg) => seg.text).join(""));
+	}
+
+	// --- Helpers ---
+
+	private getRow(y: number): Row {
+		const row = this.buffer[y];
+		if (!row) {
+			throw new Error(`Row out of range: ${y}`);
+		}
+		return row;
+	}
+
+	/** A blank cell keeps the current background color, like xterm */
+	private blankCell(): Cell {
+		if (this.blankStyle.for !== this.style) {
+			const { bgColor, bgColorIndex } = this.style;
+			this.blankStyle = {
+				for: this.style,
+				style:
+					bgColor !== undefined || bgColorIndex !== undefined
+						? { bgColor, bgColorIndex }
+						: DEFAULT_STYLE,
+			};
+		}
+		return { char: " ", style: this.blankStyle.style };
+	}
+
+	private createRow(): Row {
+		return {
+			cells: Array.from({ length: this.cols }, () => this.blankCell()),
+			wrapped: false,
+		};
+	}
+
+	private createRows(count: number): Row[] {
+		return Array.from({ length: count }, () => this.createRow());
+	}
+
+	private resizeRows(rows: Row[], cols: number, count: number): Row[] {
+		const resized = rows.slice(0, count).map((row) => {
+			const cells = row.cells.slice(0, cols);
+			while (cells.length < cols) {
+				cells.push({ char: " ", style: DEFAULT_STYLE });
+			}
+			return {
+				cells,
+				wrapped: row.wrapped && cells.length === row.cells.length,
+			};
+		});
+		while (resized.length < count) {
+			resized.push({
+				cells: Array.from({ length: cols }, () => ({
+					char: " ",
+					style: DEFAULT_STYLE,
+				})),
+				wrapped: false,
+			});
+		}
+		return resized;
+	}
+
+	private clampCursor(): void {
+		this.cursorX = Math.max(0, Math.min(this.cols - 1, this.cursorX));
+		this.cursorY = Math.max(0, Math.min(this.rows - 1, this.cursorY));
+	}
+}
+
+/** SGR codes that set an attribute */
+const SGR_ATTRIBUTES: Record<number, number> = {
+	1: TextAttributes.BOLD,
+	2: TextAttributes.DIM,
+	3: TextAttributes.ITALIC,
+	4: TextAttributes.UNDERLINE,
+	5: TextAttributes.BLINK,
+	7: TextAttributes.INVERSE,
+	9: TextAttributes.STRIKETHROUGH,
+};
+
+/** SGR codes that clear attributes */
+const SGR_RESET_ATTRIBUTES: Record<number, number> = {
+	22: TextAttributes.BOLD | TextAttributes.DIM,
+	23: TextAttributes.ITALIC,
+	24: TextAttributes.UNDERLINE,
+	25: TextAttributes.BLINK,
+	27: TextAttributes.INVERSE,
+	29: TextAttributes.STRIKETHROUGH,
+};
+
+/**
+ * Parse a 256-color (5;N) or RGB (2;R;G;B) color following SGR 38/48.
+ * Colors 0-15 are returned as an index for theme-aware rendering.
+ */
+function parseExtendedColor(
+	codes: number[],
+	start: number,
+): { index?: number; color?: string; consumed: number } {
+	const mode = codes[start];
+	if (mode === 5) {
+		const code = codes[start + 1];
+		if (code === undefined) return { consumed: 1 };
+		return code <= 15
+			? { index: code, consumed: 2 }
+			: { color: map256Color(code), consumed: 2 };
+	}
+	if (mode === 2) {
+		const [r, g, b] = codes.slice(start + 1, start + 4);
+		if (r === undefined || g === undefined || b === undefined) {
+			return { consumed: codes.length - start };
+		}
+		return { color: rgbToHex(r, g, b), consumed: 4 };
+	}
+	return { consumed: 0 };
+}
+
+/**
+ * Merge a row's cells into segments of equal style.
+ * Trailing blanks without a background are trimmed (unless under the cursor).
+ *
+ * @param cursorX - Column of the cursor to render inverted, or -1
+ */
+function rowToSegments(cells: Cell[], cursorX = -1): TextSegment[] {
+	let end = cells.length;
+	while (end > 0 && end - 1 > cursorX) {
+		const cell = cells[end - 1];
+		if (!cell || cell.char !== " " || cell.style !== DEFAULT_STYLE) break;
+		end--;
+	}
+
+	const segments: TextSegment[] = [];
+	let current: TextSegment | null = null;
+	let currentStyle: CellStyle | null = null;
+	for (let x = 0; x < end; x++) {
+		const cell = cells[x];
+		if (!cell) continue;
+		let style = cell.style;
+		if (x === cursorX) {
+			style = {
+				...style,
+				attributes: (style.attributes ?? 0) ^ TextAttributes.INVERSE,
+			};
+		}
+		if (current && style === currentStyle) {
+			current.text += cell.char;
+		} else {
+			current = { ...style, text: cell.char };
+			currentStyle = style;
+			segments.push(current);
+		}
+	}
+	return segments;
+}
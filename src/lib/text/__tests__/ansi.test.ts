@@ -548,6 +548,54 @@ describe("ANSI complex scenarios", () => {
 	});
 });
 
+describe("OSC 8 hyperlinks", () => {
+	test("parseAnsiLine - link terminated by ESC backslash", () => {
+		const result = parseAnsiLine(
+			"see \x1b]8;;https://example.com/docs\x1b\\the docs\x1b]8;;\x1b\\ now",
+		);
+		expect(result.map((seg) => [seg.text, seg.href])).toEqual([
+			["see ", undefined],
+			["the docs", "https://example.com/docs"],
+			[" now", undefined],
+		]);
+	});
+
+	test("parseAnsiLine - link terminated by BEL, with parameters", () => {
+		const result = parseAnsiLine(
+			"\x1b]8;id=1;file:///src/app.ts\x07app.ts\x1b]8;;\x07",
+		);
+		expect(result).toHaveLength(1);
+		expect(result[0]?.text).toBe("app.ts");
+		expect(result[0]?.href).toBe("file:///src/app.ts");
+	});
+
+	test("parseAnsiLine - link keeps its target across color changes", () => {
+		const result = parseAnsiLine(
+			"\x1b]8;;http://localhost:5173/\x07\x1b[36mhttp://localhost:\x1b[1m5173\x1b[0m/\x1b]8;;\x07",
+		);
+		expect(result.map((seg) => seg.text).join("")).toBe(
+			"http://localhost:5173/",
+		);
+		expect(result.every((seg) => seg.href === "http://localhost:5173/")).toBe(
+			true,
+		);
+		expect(result[1]?.attributes).toBe(TextAttributes.BOLD);
+	});
+
+	test("parseAnsiLine - drops other OSC sequences", () => {
+		const result = parseAnsiLine("\x1b]0;window title\x07building");
+		expect(result).toEqual([
+			expect.objectContaining({ text: "building", href: undefined }),
+		]);
+	});
+
+	test("getVisibleWidth - ignores OSC sequences", () => {
+		expect(
+			getVisibleWidth("\x1b]8;;https://example.com\x1b\\link\x1b]8;;\x1b\\"),
+		).toBe(4);
+	});
+});
+
 describe("getVisibleWidth", () => {
 	test("getVisibleWidth - plain text", () => {
 		expect(getVisibleWidth("hello")).toBe(5);
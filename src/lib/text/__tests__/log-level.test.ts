@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import {
+	detectLogLevel,
+	isAtLeastLevel,
+	nextLevelFilter,
+	parseLogLevel,
+} from "../log-level";
+
+describe("detectLogLevel", () => {
+	test("uses the level field of structured lines", () => {
+		expect(detectLogLevel("{}", { level: "fatal", fields: [] })).toBe("error");
+		expect(detectLogLevel("{}", { level: "trace", fields: [] })).toBe("debug");
+	});
+
+	test("recognizes common level prefixes", () => {
+		expect(detectLogLevel("ERROR: connection refused")).toBe("error");
+		expect(detectLogLevel("2026-01-02 12:00:00 WARN disk almost full")).toBe(
+			"warn",
+		);
+		expect(detectLogLevel("WARN[0003] retrying")).toBe("warn");
+		expect(detectLogLevel("[info] server started")).toBe("info");
+		expect(detectLogLevel("<debug> cache miss")).toBe("debug");
+		expect(detectLogLevel("time=12:00 level=warning msg=slow")).toBe("warn");
+		expect(detectLogLevel("npm ERR! code ENOENT")).toBe("error");
+	});
+
+	test("recognizes compiler diagnostics", () => {
+		expect(detectLogLevel("src/a.ts(10,5): error TS2304: Cannot find")).toBe(
+			"error",
+		);
+		expect(detectLogLevel("error[E0308]: mismatched types")).toBe("error");
+		expect(detectLogLevel("main.c:3:5: warning: unused variable")).toBe("warn");
+	});
+
+	test("ignores level words in ordinary text", () => {
+		expect(detectLogLevel("Compiled successfully")).toBeUndefined();
+		expect(
+			detectLogLevel("ERR_CONNECTION_REFUSED while fetching"),
+		).toBeUndefined();
+		expect(
+			detectLogLevel("Found 0 errors. Watching for file changes."),
+		).toBeUndefined();
+	});
+
+	test("falls back to error for stderr", () => {
+		expect(detectLogLevel("something odd", undefined, true)).toBe("error");
+		expect(detectLogLevel("[info] on stderr", undefined, true)).toBe("info");
+	});
+});
+
+describe("level filter", () => {
+	test("isAtLeastLevel - lines without a level count as info", () => {
+		expect(isAtLeastLevel("error", "warn")).toBe(true);
+		expect(isAtLeastLevel("debug", "info")).toBe(false);
+		expect(isAtLeastLevel(undefined, "info")).toBe(true);
+		expect(isAtLeastLevel(undefined, "warn")).toBe(false);
+	});
+
+	test("nextLevelFilter - cycles from all lines to errors only", () => {
+		expect(nextLevelFilter(null)).toBe("info");
+		expect(nextLevelFilter("info")).toBe("warn");
+		expect(nextLevelFilter("warn")).toBe("error");
+		expect(nextLevelFilter("error")).toBeNull();
+	});
+
+	test("parseLogLevel - accepts aliases", () => {
+		expect(parseLogLevel("WARNING")).toBe("warn");
+		expect(parseLogLevel("error")).toBe("error");
+		expect(parseLogLevel("loud")).toBeUndefined();
+	});
+});
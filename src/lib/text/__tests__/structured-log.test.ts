@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { parseStructuredLine } from "../structured-log";
+
+describe("parseStructuredLine", () => {
+	test("parses JSON lines, flattening nested fields", () => {
+		expect(
+			parseStructuredLine(
+				'{"timestamp":"2026-01-02T03:04:05.678Z","level":"ERROR","message":"Query failed","metadata":{"userId":"user-1"},"tags":["db"],"retry":null}',
+				"json",
+			),
+		).toEqual({
+			level: "error",
+			time: "2026-01-02T03:04:05.678Z",
+			message: "Query failed",
+			fields: [
+				["metadata.userId", "user-1"],
+				["tags", '["db"]'],
+				["retry", "null"],
+			],
+		});
+	});
+
+	test("maps numeric pino levels and level aliases", () => {
+		expect(
+			parseStructuredLine(
+				'{"level":50,"time":1767323045678,"msg":"x"}',
+				"json",
+			),
+		).toMatchObject({ level: "error", time: "1767323045678" });
+		expect(parseStructuredLine('{"severity":"Warning"}', "json")?.level).toBe(
+			"warn",
+		);
+	});
+
+	test("leaves lines that aren't JSON objects as text", () => {
+		expect(
+			parseStructuredLine("[JSON] Processed 20 requests", "json"),
+		).toBeUndefined();
+		expect(parseStructuredLine("{not json", "json")).toBeUndefined();
+		expect(parseStructuredLine('{"a":1}', "text")).toBeUndefined();
+	});
+
+	test("parses logfmt lines with quoted values", () => {
+		expect(
+			parseStructuredLine(
+				'time=2026-01-02T03:04:05Z level=info msg="user \\"bob\\" logged in" user_id=123 empty=',
+				"logfmt",
+			),
+		).toEqual({
+			level: "info",
+			time: "2026-01-02T03:04:05Z",
+			message: 'user "bob" logged in',
+			fields: [
+				["user_id", "123"],
+				["empty", ""],
+			],
+		});
+	});
+
+	test("leaves lines that aren't all key=value pairs as text", () => {
+		expect(
+			parseStructuredLine("Listening on port=3000", "logfmt"),
+		).toBeUndefined();
+		expect(parseStructuredLine("", "logfmt")).toBeUndefined();
+	});
+});
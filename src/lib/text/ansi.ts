@@ -2,8 +2,13 @@ import { TextAttributes } from "@opentui/core";
 import type { TextSegment } from "../../types";
 
 const ESC = String.fromCharCode(27);
-// Match ANSI escape sequences: ESC[ followed by parameters and ending with a letter
-const ANSI_ESCAPE_REGEX = new RegExp(`${ESC}\\[([0-9;]*)([a-zA-Z])`, "g");
+const BEL = String.fromCharCode(7);
+// Match ANSI escape sequences: ESC[ followed by parameters and ending with a letter (CSI),
+// or ESC] followed by a payload and ending with BEL or ESC\ (OSC, e.g. OSC 8 hyperlinks)
+const ANSI_ESCAPE_REGEX = new RegExp(
+	`${ESC}(?:\\[([0-9;]*)([a-zA-Z])|\\]([^${BEL}${ESC}]*)(?:${BEL}|${ESC}\\\\))`,
+	"g",
+);
 
 /**
  * Calculates the visible width of text, ignoring ANSI escape codes.
@@ -11,9 +16,7 @@ const ANSI_ESCAPE_REGEX = new RegExp(`${ESC}\\[([0-9;]*)([a-zA-Z])`, "g");
  */
 export function getVisibleWidth(text: string): number {
 	// Remove ANSI escape codes first
-	const esc = String.fromCharCode(27);
-	const ansiPattern = new RegExp(`${esc}\\[[0-9;]*[a-zA-Z]`, "g");
-	const cleanText = text.replace(ansiPattern, "");
+	const cleanText = text.replace(ANSI_ESCAPE_REGEX, "");
 
 	let width = 0;
 	for (const char of cleanText) {
@@ -55,6 +58,7 @@ export function getVisibleWidth(text: string): number {
  * Parses a line containing ANSI escape codes into segments with color/style information.
  * For basic 16 colors (codes 30-37, 90-97, 40-47, 100-107), stores colorIndex/bgColorIndex
  * to allow theme-aware rendering. For 256-color and RGB modes, stores hex values directly.
+ * Text inside OSC 8 hyperlinks gets the link target as `href`; other OSC sequences are dropped.
  * @param text - The text to parse
  */
 export function parseAnsiLine(text: string): TextSegment[] {
@@ -75,6 +79,7 @@ export function parseAnsiLine(text: string): TextSegment[] {
 	let isBlink = false;
 	let isInverse = false;
 	let isStrikethrough = false;
+	let href: string | undefined;
 
 	// Reset function to create a new segment
 	const pushSegment = () => {
@@ -86,6 +91,7 @@ export function parseAnsiLine(text: string): TextSegment[] {
 				bgColor: bgColor,
 				bgColorIndex: bgColorIndex,
 				attributes: currentAttributes,
+				href,
 			});
 			currentText = "";
 		}
@@ -105,6 +111,14 @@ export function parseAnsiLine(text: string): TextSegment[] {
 			currentText += text.substring(lastIndex, match.index);
 		}
 
+		// OSC 8 hyperlink: ESC]8;params;URI ST opens a link, an empty URI closes it
+		const osc = match[3];
+		if (osc?.startsWith("8;")) {
+			const uriStart = osc.indexOf(";", 2);
+			pushSegment();
+			href = uriStart === -1 ? undefined : osc.slice(uriStart + 1) || undefined;
+		}
+
 		const params = match[1] ?? "";
 		const code = match[2];
 
@@ -351,7 +365,7 @@ export function parseAnsiLine(text: string): TextSegment[] {
  * - 16-231: 6x6x6 color cube
  * - 232-255: Grayscale ramp
  */
-function map256Color(code: number): string {
+export function map256Color(code: number): string {
 	if (code >= 16 && code <= 231) {
 		// 6x6x6 color cube
 		// Each component ranges 0-5, mapped to 0, 95, 135, 175, 215, 255
@@ -375,7 +389,7 @@ function map256Color(code: number): string {
 /**
  * Converts RGB values to hex color string.
  */
-function rgbToHex(r: number, g: number, b: number): string {
+export function rgbToHex(r: number, g: number, b: number): string {
 	return `#${[r, g, b]
 		.map((x) => {
 			const clamped = Math.max(0, Math.min(255, x));
@@ -437,6 +451,7 @@ export function wrapSegments(
 								text: wordBuffer,
 								color: segment.color,
 								attributes: segment.attributes,
+								href: segment.href,
 							});
 							lines.push(currentLine);
 							currentLine = [];
@@ -458,6 +473,7 @@ export function wrapSegments(
 									text: char,
 									color: segment.color,
 									attributes: segment.attributes,
+									href: segment.href,
 								});
 								currentWidth += charWidth;
 							}
@@ -476,6 +492,7 @@ export function wrapSegments(
 						text: wordBuffer,
 						color: segment.color,
 						attributes: segment.attributes,
+						href: segment.href,
 					});
 					currentWidth = wordBufferWidth;
 				}
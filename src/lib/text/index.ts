@@ -1 +1,9 @@
 export { getVisibleWidth, parseAnsiLine, wrapSegments } from "./ansi";
+export {
+	detectLogLevel,
+	isAtLeastLevel,
+	LOG_LEVELS,
+	nextLevelFilter,
+	parseLogLevel,
+} from "./log-level";
+export { parseStructuredLine } from "./structured-log";
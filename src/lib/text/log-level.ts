@@ -0,0 +1,93 @@
+import type { LogLevel, StructuredLog } from "../../types";
+
+/** Log levels from least to most severe */
+export const LOG_LEVELS: readonly LogLevel[] = [
+	"debug",
+	"info",
+	"warn",
+	"error",
+];
+
+/** Level names as loggers write them, mapped to a LogLevel */
+const LEVEL_NAMES: Record<string, LogLevel> = {
+	trace: "debug",
+	debug: "debug",
+	dbg: "debug",
+	verbose: "debug",
+	info: "info",
+	notice: "info",
+	warn: "warn",
+	warning: "warn",
+	error: "error",
+	err: "error",
+	fatal: "error",
+	critical: "error",
+	panic: "error",
+};
+
+// Checked against the start of a line, where loggers put the level
+const PREFIX_LENGTH = 48;
+const LEVEL_PREFIX_PATTERNS = [
+	// ERROR, WARN[0001] (logrus), 2026-01-02 12:00:00 INFO ...
+	/\b(TRACE|DEBUG|INFO|NOTICE|WARN|WARNING|ERROR|ERR|FATAL|CRITICAL|PANIC)\b/,
+	// [info], <warn>, (error)
+	/[[<(](trace|debug|info|warn|warning|error|fatal)[\]>)]/i,
+	// level=error (logfmt-style text)
+	/\blevel=(\w+)/i,
+];
+
+// Compiler diagnostics: "error[E0308]:" (rustc), "error TS2304:" (tsc), "file.c:3:5: warning:" (gcc)
+const DIAGNOSTIC_PATTERN = /(?:^|\s)(error|warning)(?:\[\w+\]|\sTS\d+)?:/;
+
+/**
+ * Detect the level of a log line: from the level field of structured lines,
+ * a level prefix in the text, or stderr as a fallback ("error").
+ * @returns The level, or undefined when the line has none
+ */
+export function detectLogLevel(
+	text: string,
+	structured?: StructuredLog,
+	isStderr = false,
+): LogLevel | undefined {
+	const structuredLevel = structured?.level && LEVEL_NAMES[structured.level];
+	if (structuredLevel) return structuredLevel;
+
+	const prefix = text.slice(0, PREFIX_LENGTH);
+	for (const pattern of LEVEL_PREFIX_PATTERNS) {
+		const name = pattern.exec(prefix)?.[1]?.toLowerCase();
+		const level = name && LEVEL_NAMES[name];
+		if (level) return level;
+	}
+
+	const diagnostic = DIAGNOSTIC_PATTERN.exec(text)?.[1];
+	if (diagnostic) return diagnostic === "error" ? "error" : "warn";
+
+	return isStderr ? "error" : undefined;
+}
+
+/**
+ * Whether a line passes a minimum level filter.
+ * Lines without a level count as "info", so hiding debug output keeps them.
+ */
+export function isAtLeastLevel(
+	level: LogLevel | undefined,
+	minLevel: LogLevel,
+): boolean {
+	return LOG_LEVELS.indexOf(level ?? "info") >= LOG_LEVELS.indexOf(minLevel);
+}
+
+/** Parse a level name (e.g. from a query parameter); accepts aliases like "warning" */
+export function parseLogLevel(name: string): LogLevel | undefined {
+	return LEVEL_NAMES[name.toLowerCase()];
+}
+
+/**
+ * Get the minimum level that follows the given one when cycling the level filter:
+ * all lines -> info and above -> warn and above -> errors only -> all lines.
+ */
+export function nextLevelFilter(minLevel: LogLevel | null): LogLevel | null {
+	if (minLevel === null) return "info";
+	if (minLevel === "info") return "warn";
+	if (minLevel === "warn") return "error";
+	return null;
+}
@@ -0,0 +1,134 @@
+import type { LogFormat, StructuredLog } from "../../types";
+
+// Common names of the level, time and message fields (pino, bunyan, zap, slog, logrus, ...)
+const LEVEL_KEYS = ["level", "lvl", "severity", "levelname"];
+const TIME_KEYS = ["time", "timestamp", "ts", "@timestamp"];
+const MESSAGE_KEYS = ["msg", "message", "@message"];
+
+/** Numeric levels used by pino and bunyan */
+const NUMERIC_LEVELS: Record<number, string> = {
+	10: "trace",
+	20: "debug",
+	30: "info",
+	40: "warn",
+	50: "error",
+	60: "fatal",
+};
+
+const LEVEL_ALIASES: Record<string, string> = {
+	warning: "warn",
+	err: "error",
+	critical: "fatal",
+	panic: "fatal",
+};
+
+// key=value or key="quoted value", separated by whitespace
+const LOGFMT_PAIR_REGEX = /\s*([^\s="]+)=("(?:[^"\\]|\\.)*"|[^\s"]*)\s*/y;
+
+/**
+ * Parse a log line as a structured log.
+ * @param text - Plain text of the line (ANSI codes removed)
+ * @returns The parsed fields, or undefined for "text" or when the line doesn't parse
+ */
+export function parseStructuredLine(
+	text: string,
+	format: LogFormat,
+): StructuredLog | undefined {
+	if (format === "json") return parseJsonLine(text);
+	if (format === "logfmt") return parseLogfmtLine(text);
+	return undefined;
+}
+
+function parseJsonLine(text: string): StructuredLog | undefined {
+	const trimmed = text.trim();
+	if (!trimmed.startsWith("{")) return undefined;
+
+	let value: unknown;
+	try {
+		value = JSON.parse(trimmed);
+	} catch {
+		return undefined;
+	}
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return undefined;
+	}
+
+	const entries: [string, string][] = [];
+	flattenFields(value as Record<string, unknown>, "", entries);
+	return toStructuredLog(entries);
+}
+
+/** Flatten nested objects to dotted keys; arrays and other values become JSON */
+function flattenFields(
+	object: Record<string, unknown>,
+	prefix: string,
+	entries: [string, string][],
+): void {
+	for (const [key, value] of Object.entries(object)) {
+		const path = prefix + key;
+		if (value && typeof value === "object" && !Array.isArray(value)) {
+			flattenFields(value as Record<string, unknown>, `${path}.`, entries);
+		} else {
+			entries.push([
+				path,
+				typeof value === "string" ? value : JSON.stringify(value),
+			]);
+		}
+	}
+}
+
+function parseLogfmtLine(text: string): StructuredLog | undefined {
+	const entries: [string, string][] = [];
+	LOGFMT_PAIR_REGEX.lastIndex = 0;
+
+	// Every token must be a key=value pair, so plain text lines don't parse
+	while (LOGFMT_PAIR_REGEX.lastIndex < text.length) {
+		const match = LOGFMT_PAIR_REGEX.exec(text);
+		if (!match) return undefined;
+		const [, key = "", rawValue = ""] = match;
+		entries.push([key, unquote(rawValue)]);
+	}
+	return entries.length > 0 ? toStructuredLog(entries) : undefined;
+}
+
+function unquote(value: string): string {
+	if (!value.startsWith('"')) return value;
+	try {
+		return JSON.parse(value) as string;
+	} catch {
+		return value.slice(1, -1);
+	}
+}
+
+/** Pick the level, time and message out of the fields */
+function toStructuredLog(entries: [string, string][]): StructuredLog {
+	const take = (keys: string[]) => {
+		const index = entries.findIndex(([key]) =>
+			keys.includes(key.toLowerCase()),
+		);
+		if (index === -1) return undefined;
+		const [entry] = entries.splice(index, 1);
+		return entry?.[1];
+	};
+
+	const level = take(LEVEL_KEYS);
+	const time = take(TIME_KEYS);
+	const message = take(MESSAGE_KEYS);
+
+	return {
+		...(level !== undefined && { level: normalizeLevel(level) }),
+		...(time !== undefined && { time }),
+		...(message !== undefined && { message }),
+		fields: entries,
+	};
+}
+
+/** Lowercase a level name, mapping numeric (pino) levels and common aliases */
+function normalizeLevel(level: string): string {
+	const numeric = Number(level);
+	if (level !== "" && Number.isInteger(numeric)) {
+		return NUMERIC_LEVELS[numeric] ?? level;
+	}
+	const name = level.toLowerCase();
+	return LEVEL_ALIASES[name] ?? name;
+}
@@ -168,12 +168,10 @@ export async function queryTerminalColorsBatch(
 	// Try to open /dev/tty for direct terminal access
 	let ttyFd: number | undefined;
 	let ttyReadStream: tty.ReadStream | undefined;
-	let ttyWriteStream: tty.WriteStream | undefined;
 
 	try {
 		ttyFd = fs.openSync("/dev/tty", fs.constants.O_RDWR);
 		ttyReadStream = new tty.ReadStream(ttyFd);
-		ttyWriteStream = new tty.WriteStream(ttyFd);
 	} catch {
 		// /dev/tty not available, fall back to undefined
 		return undefined;
@@ -190,21 +188,13 @@ export async function queryTerminalColorsBatch(
 		const cleanup = () => {
 			if (resolved) return;
 			resolved = true;
+			// The read stream owns the fd and closes it once destroyed. Closing it
+			// here as well could close whatever reuses the fd number in between.
 			if (ttyReadStream) {
 				ttyReadStream.setRawMode(false);
 				ttyReadStream.removeAllListeners("data");
 				ttyReadStream.destroy();
 			}
-			if (ttyWriteStream) {
-				ttyWriteStream.destroy();
-			}
-			if (ttyFd !== undefined) {
-				try {
-					fs.closeSync(ttyFd);
-				} catch {
-					// Ignore close errors
-				}
-			}
 		};
 
 		const timeout = setTimeout(() => {
@@ -264,7 +254,7 @@ export async function queryTerminalColorsBatch(
 			processResponse(response);
 		};
 
-		if (!ttyReadStream || !ttyWriteStream) {
+		if (!ttyReadStream || ttyFd === undefined) {
 			resolve(undefined);
 			return;
 		}
@@ -289,6 +279,12 @@ export async function queryTerminalColorsBatch(
 			"\x1b]4;7;?\x07", // Palette 7 (white)
 		];
 
-		ttyWriteStream.write(queries.join(""));
+		try {
+			fs.writeSync(ttyFd, queries.join(""));
+		} catch {
+			cleanup();
+			clearTimeout(timeout);
+			resolve(undefined);
+		}
 	});
 }
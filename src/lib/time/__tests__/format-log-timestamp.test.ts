@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import {
+	formatLogTimestamp,
+	LOG_TIMESTAMP_WIDTH,
+	nextTimestampMode,
+} from "../format-log-timestamp";
+
+describe("formatLogTimestamp", () => {
+	test("formats absolute local time with milliseconds", () => {
+		const timestamp = new Date(2024, 0, 15, 9, 5, 7, 42).getTime();
+		expect(formatLogTimestamp(timestamp, "absolute")).toBe("09:05:07.042");
+	});
+
+	test("formats offsets relative to the start time", () => {
+		const start = 1_700_000_000_000;
+		expect(formatLogTimestamp(start, "relative", start)).toBe("  +00:00.000");
+		expect(formatLogTimestamp(start + 65_250, "relative", start)).toBe(
+			"  +01:05.250",
+		);
+		expect(formatLogTimestamp(start + 3_723_000, "relative", start)).toBe(
+			"+1:02:03.000",
+		);
+	});
+
+	test("marks lines received before the start time", () => {
+		const start = 1_700_000_000_000;
+		expect(formatLogTimestamp(start - 1500, "relative", start)).toBe(
+			"  -00:01.500",
+		);
+	});
+
+	test("pads to a fixed width", () => {
+		const start = 1_700_000_000_000;
+		expect(formatLogTimestamp(start, "absolute")).toHaveLength(
+			LOG_TIMESTAMP_WIDTH,
+		);
+		expect(formatLogTimestamp(start + 5, "relative", start)).toHaveLength(
+			LOG_TIMESTAMP_WIDTH,
+		);
+	});
+});
+
+describe("nextTimestampMode", () => {
+	test("cycles off -> absolute -> relative -> off", () => {
+		expect(nextTimestampMode("off")).toBe("absolute");
+		expect(nextTimestampMode("absolute")).toBe("relative");
+		expect(nextTimestampMode("relative")).toBe("off");
+	});
+});
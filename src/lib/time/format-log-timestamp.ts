@@ -0,0 +1,57 @@
+/**
+ * How log line timestamps are displayed:
+ * - "off": no timestamp gutter
+ * - "absolute": wall-clock time the line was received
+ * - "relative": time since the process started
+ */
+export type TimestampMode = "off" | "absolute" | "relative";
+
+/** Display width of a formatted log timestamp (e.g. "14:03:27.512") */
+export const LOG_TIMESTAMP_WIDTH = 12;
+
+/**
+ * Get the mode that follows the given one when cycling with the toggle key.
+ */
+export function nextTimestampMode(mode: TimestampMode): TimestampMode {
+	if (mode === "off") return "absolute";
+	if (mode === "absolute") return "relative";
+	return "off";
+}
+
+function pad(value: number, length = 2): string {
+	return String(value).padStart(length, "0");
+}
+
+/**
+ * Format a log line timestamp for the timestamp gutter.
+ * @param timestamp Unix timestamp in milliseconds when the line was received
+ * @param mode "absolute" for local time ("14:03:27.512"), "relative" for the
+ *             offset from startTime ("+01:05.250", "+1:02:03.000")
+ * @param startTime Unix timestamp in milliseconds the relative offset is measured from.
+ *                  Lines received before it (e.g. from a previous run) get a "-" sign.
+ * @returns Formatted string, right-aligned to LOG_TIMESTAMP_WIDTH
+ */
+export function formatLogTimestamp(
+	timestamp: number,
+	mode: "absolute" | "relative",
+	startTime = 0,
+): string {
+	if (mode === "absolute") {
+		const date = new Date(timestamp);
+		return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+	}
+
+	const offset = timestamp - startTime;
+	const sign = offset < 0 ? "-" : "+";
+	const totalMs = Math.abs(offset);
+	const ms = totalMs % 1000;
+	const seconds = Math.floor(totalMs / 1000) % 60;
+	const minutes = Math.floor(totalMs / 60000) % 60;
+	const hours = Math.floor(totalMs / 3600000);
+
+	const formatted =
+		hours > 0
+			? `${sign}${hours}:${pad(minutes)}:${pad(seconds)}.${pad(ms, 3)}`
+			: `${sign}${pad(minutes)}:${pad(seconds)}.${pad(ms, 3)}`;
+	return formatted.padStart(LOG_TIMESTAMP_WIDTH, " ");
+}
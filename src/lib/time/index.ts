@@ -1 +1,7 @@
+export {
+	formatLogTimestamp,
+	LOG_TIMESTAMP_WIDTH,
+	nextTimestampMode,
+	type TimestampMode,
+} from "./format-log-timestamp";
 export { formatUptime } from "./format-uptime";
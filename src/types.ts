@@ -1,13 +1,50 @@
-/** Health check configuration for a tool */
+import type { TerminalScreen } from "./lib/terminal";
+
+/**
+ * Health check configuration for a tool.
+ * Exactly one probe (url, tcp, command or logPattern) should be configured.
+ */
 export interface ToolHealthCheck {
-	/** URL to ping for health status */
-	url: string;
+	/** URL to ping for health status (healthy on a 2xx response) */
+	url?: string;
+	/** "host:port" to open a TCP connection to (healthy once the port accepts connections) */
+	tcp?: string;
+	/** Shell command to run in the tool's cwd (healthy on exit code 0) */
+	command?: string;
+	/** Regex matched against the tool's log lines (healthy once a line matches) */
+	logPattern?: string;
 	/** Interval between checks in milliseconds. Default: 10000 */
 	interval?: number;
 	/** Number of retries before declaring unhealthy. Default: 3 */
 	retries?: number;
 }
 
+/**
+ * Automatic restart policy for a tool.
+ * - "never": leave the tool stopped after it exits (default)
+ * - "on-failure": restart only when the process exits with a non-zero code
+ * - "always": restart whenever the process exits
+ */
+export type RestartPolicy = "never" | "on-failure" | "always";
+
+/**
+ * Format of a tool's output lines.
+ * - "text": plain text with ANSI colors (default)
+ * - "json": one JSON object per line
+ * - "logfmt": key=value pairs per line
+ */
+export type LogFormat = "text" | "json" | "logfmt";
+
+/** File watching configuration for a tool */
+export interface ToolWatchConfig {
+	/** Glob patterns (relative to the tool's cwd) that trigger a restart. Default: all files */
+	include?: string[];
+	/** Glob patterns to ignore. node_modules and .git are always ignored */
+	exclude?: string[];
+	/** Delay after the last change before restarting in milliseconds. Default: 300 */
+	debounce?: number;
+}
+
 /** UI link configuration for a tool */
 export interface ToolUI {
 	/** Display label for the UI button */
@@ -31,6 +68,21 @@ export interface ToolConfig {
 	ui?: ToolUI;
 	/** Tool names that must be ready before this tool starts */
 	dependsOn?: string[];
+	/** Automatic restart policy. Default: "never" */
+	restart?: RestartPolicy;
+	/** Maximum consecutive automatic restarts before giving up. Default: 5 */
+	maxRestarts?: number;
+	/** Delay before the first automatic restart in milliseconds, doubled on each attempt. Default: 1000 */
+	restartDelay?: number;
+	/** Restart the tool when files under its cwd change */
+	watch?: ToolWatchConfig;
+	/**
+	 * Run the command under a pseudo-terminal and show it as a terminal screen
+	 * (for tools that need a TTY, including full-screen programs). Default: false
+	 */
+	pty?: boolean;
+	/** Parse output lines as structured logs. Default: "text" */
+	logFormat?: LogFormat;
 }
 
 export interface TextSegment {
@@ -42,11 +94,32 @@ export interface TextSegment {
 	/** ANSI background color index (0-15) for theme-aware coloring */
 	bgColorIndex?: number;
 	attributes?: number; // TextAttributes flags (bold, dim, etc.)
+	/** Link target from an OSC 8 hyperlink around the text */
+	href?: string;
+}
+
+/** Severity of a log line, from least to most severe */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Fields of a JSON or logfmt log line */
+export interface StructuredLog {
+	/** Lowercase level name (e.g. "error", "info") */
+	level?: string;
+	/** The time field as written by the tool */
+	time?: string;
+	message?: string;
+	/** The other fields as [key, value] pairs; nested keys are joined with "." */
+	fields: [string, string][];
 }
 
 export interface LogLine {
 	segments: TextSegment[];
 	isStderr?: boolean; // Whether this line came from stderr
+	timestamp: number; // Unix timestamp (ms) when the line was received
+	/** Parsed fields when the tool's logFormat is "json" or "logfmt" and the line parses */
+	structured?: StructuredLog;
+	/** Level detected from the fields, a level prefix or stderr */
+	level?: LogLevel;
 }
 
 export interface ToolState {
@@ -57,10 +130,25 @@ export interface ToolState {
 	exitCode: number | null;
 	pid?: number; // Process ID for persistence
 	startTime?: number; // Unix timestamp when process started
-	/** Counter incremented when logs are trimmed (shifts indices) */
+	/**
+	 * Number of lines removed from the front of logs (trimmed or cleared).
+	 * `logTrimCount + index` is a line's position in the tool's whole output.
+	 */
 	logTrimCount: number;
 	/** Counter incremented on any log change (append or replace) for change detection */
 	logVersion: number;
+	/** Number of consecutive automatic restarts (reset on manual start or after a stable run) */
+	restartCount?: number;
+	/** Unix timestamp when the next automatic restart is scheduled */
+	nextRestartAt?: number;
+	/** Whether automatic restarts were abandoned after reaching maxRestarts */
+	crashLoop?: boolean;
+	/** Whether file watching is active (only set for tools with a watch config) */
+	watchEnabled?: boolean;
+	/** Path of the log file for the current run (when log persistence is enabled) */
+	logFile?: string;
+	/** Terminal screen of the current run (only for running tools with pty enabled) */
+	screen?: TerminalScreen;
 }
 
 /** Health check status for a tool */